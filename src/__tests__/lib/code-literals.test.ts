@@ -0,0 +1,24 @@
+// Tests for string literals and keys in generated code
+import { describe, it, expect } from 'vitest';
+import { formatKey, quote } from '../../lib/code-literals.js';
+
+describe('quote', () => {
+  it('should escape quotes, backslashes and line breaks', () => {
+    expect(quote(`it's "a" \\ b`)).toBe(`'it\\'s "a" \\\\ b'`);
+    expect(quote('a\r\nb\tc')).toBe("'a\\r\\nb\\tc'");
+    expect(quote('a\u2028b\u2029c')).toBe("'a\\u2028b\\u2029c'");
+  });
+
+  it('should produce literals that evaluate back to the value', () => {
+    const value = `x'\r\n\u2028\u2029"\\\u0000`;
+    expect(new Function(`return ${quote(value)};`)()).toBe(value);
+  });
+});
+
+describe('formatKey', () => {
+  it('should leave identifiers bare and quote other keys', () => {
+    expect(formatKey('userName')).toBe('userName');
+    expect(formatKey('first-name')).toBe('"first-name"');
+    expect(formatKey('a\u2028b')).toBe('"a\\u2028b"');
+  });
+});
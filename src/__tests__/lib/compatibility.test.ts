@@ -0,0 +1,146 @@
+// Tests for the compatibility report between original and refined schema
+import { describe, it, expect } from 'vitest';
+import { analyzeCompatibility, classifyImprovement } from '../../lib/compatibility.js';
+
+const improvement = (field: string, before: string, after: string) => ({
+  field,
+  before,
+  after,
+  reason: 'test',
+  confidence: 0.9,
+});
+
+describe('classifyImprovement', () => {
+  it('should classify added constraints as tightening', () => {
+    expect(classifyImprovement({ before: 'z.string()', after: 'z.string().email()' })).toEqual({
+      classification: 'tightening',
+      reasons: ['adds format "email"'],
+    });
+    expect(classifyImprovement({ before: 'z.string().min(1)', after: 'z.string().min(3)' }).reasons).toEqual([
+      'minLength 1 → 3',
+    ]);
+    expect(classifyImprovement({ before: 'z.string().optional()', after: 'z.string()' }).reasons).toEqual([
+      'no longer optional',
+    ]);
+    expect(classifyImprovement({ before: 'z.string()', after: "z.enum(['a', 'b'])" }).classification).toBe(
+      'tightening'
+    );
+  });
+
+  it('should classify removed constraints as loosening', () => {
+    expect(classifyImprovement({ before: 'z.number().int().max(10)', after: 'z.number().max(20)' })).toEqual({
+      classification: 'loosening',
+      reasons: ['no longer has to be an integer', 'maximum 10 → 20'],
+    });
+    expect(classifyImprovement({ before: "z.enum(['a'])", after: "z.enum(['a', 'b'])" }).classification).toBe(
+      'loosening'
+    );
+    expect(classifyImprovement({ before: 'z.object({ a: z.string() }).strict()', after: 'z.object({ a: z.string() })' }).reasons).toEqual([
+      'allows unknown keys',
+    ]);
+  });
+
+  it('should classify output changes as transform', () => {
+    expect(classifyImprovement({ before: 'z.string()', after: 'z.string().transform((s) => s.length)' }).reasons).toEqual([
+      'adds .transform()',
+    ]);
+    expect(classifyImprovement({ before: 'z.string().optional()', after: "z.string().default('x')" }).classification).toBe(
+      'transform'
+    );
+    expect(classifyImprovement({ before: 'z.string()', after: 'z.coerce.date()' })).toEqual({
+      classification: 'transform',
+      reasons: ['coerces input to date', 'type changed from string to date'],
+    });
+  });
+
+  it('should report nested paths and neutral changes', () => {
+    expect(
+      classifyImprovement({
+        before: 'z.object({ city: z.string() })',
+        after: 'z.object({ city: z.string().min(2), zip: z.string().optional() })',
+      }).reasons
+    ).toEqual(['city: minLength none → 2', 'adds optional property "zip"']);
+    expect(classifyImprovement({ before: 'z.string().describe("a")', after: 'z.string().describe("b")' })).toEqual({
+      classification: 'neutral',
+      reasons: [],
+    });
+  });
+
+  it('should return unknown when a type cannot be compiled', () => {
+    expect(classifyImprovement({ before: 'AddressSchema', after: 'AddressSchema.strict()' }).classification).toBe(
+      'unknown'
+    );
+  });
+});
+
+describe('analyzeCompatibility', () => {
+  const original = `export const UserSchema = z.object({
+  email: z.string(),
+  name: z.string(),
+  tags: z.array(z.object({ label: z.string() })),
+  nickname: z.string().optional(),
+});`;
+  const refined = `export const UserSchema = z.object({
+  email: z.string().email(),
+  name: z.string().trim(),
+  tags: z.array(z.object({ label: z.string().max(5) })),
+  nickname: z.string().optional(),
+});`;
+  const improvements = [
+    improvement('email', 'z.string()', 'z.string().email()'),
+    improvement('name', 'z.string()', 'z.string().trim()'),
+    improvement('tags[].label', 'z.string()', 'z.string().max(5)'),
+    improvement('nickname', 'z.string().optional()', 'z.string().optional().describe("Nickname")'),
+  ];
+  const samples = [
+    { email: 'a@example.com', name: 'Ann', tags: [{ label: 'ok' }] },
+    { email: 'not-an-email', name: 'Bob', tags: [{ label: 'much too long' }] },
+    { email: 'c@example.com', name: ' Cy ', tags: [] },
+    { email: 42, name: 'Dee', tags: [] },
+  ];
+
+  const report = analyzeCompatibility(original, refined, 'User', improvements, samples);
+
+  it('should classify every improvement', () => {
+    expect(report.improvements.map((entry) => entry.classification)).toEqual([
+      'tightening',
+      'transform',
+      'tightening',
+      'neutral',
+    ]);
+    expect(report.summary).toEqual({ tightening: 2, loosening: 0, transform: 1, neutral: 1, unknown: 0 });
+    expect(report.breaking).toBe(true);
+  });
+
+  it('should list samples the refined schema rejects or parses differently', () => {
+    expect(report.samplesAnalyzed).toBe(4);
+    expect(report.affectedSamples).toEqual([
+      { index: 1, effect: 'rejected', fields: ['email', 'tags[].label'] },
+      { index: 2, effect: 'output-changed', fields: ['name'] },
+    ]);
+  });
+
+  it('should link affected samples to the improvements that touch their fields', () => {
+    expect(report.improvements.map((entry) => entry.affectedSamples)).toEqual([[1], [2], [1], []]);
+  });
+
+  it('should not be breaking when only loosening', () => {
+    const loosened = analyzeCompatibility(
+      'z.object({ age: z.number().int() })',
+      'z.object({ age: z.number() })',
+      'User',
+      [improvement('age', 'z.number().int()', 'z.number()')],
+      [{ age: 3 }]
+    );
+
+    expect(loosened.breaking).toBe(false);
+    expect(loosened.affectedSamples).toEqual([]);
+  });
+
+  it('should skip sample analysis when a schema does not compile', () => {
+    const result = analyzeCompatibility('const User = 1;', 'z.object({})', 'User', [], [{}]);
+
+    expect(result.samplesAnalyzed).toBe(0);
+    expect(result.affectedSamples).toEqual([]);
+  });
+});
@@ -0,0 +1,32 @@
+// Tests for bounded concurrency helpers
+import { describe, it, expect } from 'vitest';
+import { mapWithConcurrency } from '../../lib/concurrency.js';
+
+describe('mapWithConcurrency', () => {
+  it('should keep input order', async () => {
+    const results = await mapWithConcurrency([30, 10, 20], 3, async (delay, index) => {
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      return index;
+    });
+
+    expect(results).toEqual([0, 1, 2]);
+  });
+
+  it('should never exceed the limit', async () => {
+    let active = 0;
+    let maxActive = 0;
+
+    await mapWithConcurrency(Array.from({ length: 10 }), 3, async () => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      active--;
+    });
+
+    expect(maxActive).toBe(3);
+  });
+
+  it('should handle empty input', async () => {
+    expect(await mapWithConcurrency([], 4, async () => 1)).toEqual([]);
+  });
+});
@@ -0,0 +1,107 @@
+// Consensus merge tests
+import { describe, it, expect } from 'vitest';
+import { consensusQuorum, mergeConsensus, MAX_CONSENSUS_CONFIDENCE } from '../../lib/consensus.js';
+import type { RefinementRequest, SchemaImprovement } from '../../types/index.js';
+
+const request: RefinementRequest = {
+  schema: {
+    code: 'z.object({ email: z.string(), age: z.number() })',
+    typeName: 'User',
+    fields: { email: 'z.string()', age: 'z.number()' },
+  },
+  samples: [{ email: 'a@example.com', age: 30 }],
+};
+
+const improvement = (field: string, after: string, confidence: number): SchemaImprovement => ({
+  field,
+  before: field === 'age' ? 'z.number()' : 'z.string()',
+  after,
+  reason: `${field} reason`,
+  confidence,
+});
+
+const result = (improvements: SchemaImprovement[], extra: Record<string, unknown> = {}) => ({
+  refinedSchema: { code: request.schema.code, improvements, confidence: 0.8 },
+  creditsUsed: 1,
+  ...extra,
+});
+
+describe('consensusQuorum', () => {
+  it('should require a strict majority of at least two', () => {
+    expect(consensusQuorum(2)).toBe(2);
+    expect(consensusQuorum(3)).toBe(2);
+    expect(consensusQuorum(4)).toBe(3);
+  });
+});
+
+describe('mergeConsensus', () => {
+  it('should keep agreed improvements with boosted confidence and their backers', () => {
+    const merged = mergeConsensus(request, [
+      { provider: 'openai', result: result([improvement('email', 'z.string().email()', 0.8)]) },
+      { provider: 'anthropic', result: result([improvement('email', 'z.string( ).email()', 0.9)]) },
+    ]);
+
+    expect(merged.refinedSchema?.improvements).toHaveLength(1);
+    expect(merged.refinedSchema?.improvements[0]).toMatchObject({
+      field: 'email',
+      confidence: 0.98,
+      backedBy: ['openai', 'anthropic'],
+    });
+    expect(merged.refinedSchema?.code).toContain('email: z.string( ).email()');
+    expect(merged.consensus).toMatchObject({ quorum: 2, agreed: 1, disagreements: [] });
+    expect(merged.creditsUsed).toBe(2);
+    expect(merged.aiProvider).toBe('consensus');
+  });
+
+  it('should report disagreements and drop improvements without a quorum', () => {
+    const merged = mergeConsensus(request, [
+      { provider: 'openai', result: result([improvement('email', 'z.string().email()', 0.8), improvement('age', 'z.number().int()', 0.7)]) },
+      { provider: 'anthropic', result: result([improvement('email', 'z.string().email().toLowerCase()', 0.9)]) },
+    ]);
+
+    expect(merged.refinedSchema?.improvements).toEqual([]);
+    expect(merged.refinedSchema?.code).toBe(request.schema.code);
+
+    const email = merged.consensus?.disagreements.find((d) => d.field === 'email');
+    expect(email?.kept).toBeUndefined();
+    expect(email?.proposals.map((p) => p.provider)).toEqual(['openai', 'anthropic']);
+
+    const age = merged.consensus?.disagreements.find((d) => d.field === 'age');
+    expect(age?.abstained).toEqual(['anthropic']);
+  });
+
+  it('should keep the majority and surface the dissent', () => {
+    const merged = mergeConsensus(
+      request,
+      [
+        { provider: 'a', result: result([improvement('email', 'z.string().email()', 0.95)]) },
+        { provider: 'b', result: result([improvement('email', 'z.string().email()', 0.95)]) },
+        { provider: 'c', result: result([improvement('email', 'z.string().url()', 0.6)]) },
+      ],
+      [{ provider: 'd', error: 'timeout' }]
+    );
+
+    expect(merged.refinedSchema?.improvements[0]).toMatchObject({
+      after: 'z.string().email()',
+      backedBy: ['a', 'b'],
+      confidence: MAX_CONSENSUS_CONFIDENCE,
+    });
+    expect(merged.consensus?.disagreements).toEqual([
+      expect.objectContaining({ field: 'email', kept: 'z.string().email()', abstained: [] }),
+    ]);
+    expect(merged.consensus?.providers).toContainEqual({ provider: 'd', success: false, error: 'timeout' });
+  });
+
+  it('should merge suggestions and relationships without duplicates', () => {
+    const relationship = { fields: ['price', 'currency'], pattern: 'monetary_value', suggestion: 'Money', confidence: 0.9 };
+    const merged = mergeConsensus(request, [
+      { provider: 'a', result: { ...result([]), suggestions: ['Add defaults'], refinedSchema: { code: '', improvements: [], confidence: 0.7, relationships: [relationship] } } },
+      { provider: 'b', result: { ...result([]), suggestions: ['Add defaults', 'Use enums'], refinedSchema: { code: '', improvements: [], confidence: 0.9, relationships: [{ ...relationship, fields: ['currency', 'price'], confidence: 0.95 }] } } },
+    ]);
+
+    expect(merged.suggestions).toEqual(['Add defaults', 'Use enums']);
+    expect(merged.refinedSchema?.relationships).toHaveLength(1);
+    expect(merged.refinedSchema?.relationships?.[0].confidence).toBe(0.95);
+    expect(merged.refinedSchema?.confidence).toBe(0.8);
+  });
+});
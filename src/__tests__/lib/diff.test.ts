@@ -0,0 +1,53 @@
+// Tests for unified diff output
+import { describe, it, expect } from 'vitest';
+import { createUnifiedDiff } from '../../lib/diff.js';
+
+const lines = (count: number) => Array.from({ length: count }, (_, i) => `line ${i + 1}`);
+
+describe('createUnifiedDiff', () => {
+  it('should return an empty string for identical text', () => {
+    expect(createUnifiedDiff('a\nb\n', 'a\nb\n')).toBe('');
+  });
+
+  it('should produce a single hunk with context', () => {
+    const before = lines(10);
+    const after = [...before];
+    after[4] = 'changed';
+
+    expect(createUnifiedDiff(before.join('\n'), after.join('\n'), 'User.ts', 'User.ts')).toBe(
+      [
+        '--- a/User.ts',
+        '+++ b/User.ts',
+        '@@ -2,7 +2,7 @@',
+        ' line 2',
+        ' line 3',
+        ' line 4',
+        '-line 5',
+        '+changed',
+        ' line 6',
+        ' line 7',
+        ' line 8',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('should split distant changes into separate hunks', () => {
+    const before = lines(20);
+    const after = [...before];
+    after[1] = 'first';
+    after[18] = 'second';
+
+    const diff = createUnifiedDiff(before.join('\n'), after.join('\n'));
+    expect(diff.match(/^@@/gm)).toHaveLength(2);
+    expect(diff).toContain('@@ -1,5 +1,5 @@');
+    expect(diff).toContain('@@ -16,5 +16,5 @@');
+  });
+
+  it('should handle insertions and deletions', () => {
+    const diff = createUnifiedDiff('a\nb\nc', 'a\nx\ny\nc');
+
+    expect(diff).toContain('@@ -1,3 +1,4 @@');
+    expect(diff).toContain('-b\n+x\n+y\n');
+  });
+});
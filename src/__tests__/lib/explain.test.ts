@@ -0,0 +1,151 @@
+// Tests for payload issue explanations
+import { describe, it, expect } from 'vitest';
+import {
+  buildExplanationPrompt,
+  collectIssues,
+  explainIssue,
+  mergeExplanations,
+  parseExplanations,
+} from '../../lib/explain.js';
+
+const code = `export const OrderSchema = z.object({
+  id: z.string().uuid(),
+  quantity: z.number().int().min(1),
+  status: z.enum(['open', 'closed']),
+  items: z.array(z.object({ sku: z.string() })),
+  createdAt: z.date(),
+}).strict();`;
+
+const valid = {
+  id: '123e4567-e89b-42d3-a456-426614174000',
+  quantity: 1,
+  status: 'open',
+  items: [{ sku: 'A-1' }],
+  createdAt: new Date(0),
+};
+
+describe('collectIssues', () => {
+  it('should collect issues with their path and received value', () => {
+    const { issues, valid: validity } = collectIssues(code, 'Order', [
+      { ...valid, quantity: '3', items: [{ sku: 42 }] },
+      valid,
+      { ...valid, status: 'pending', extra: true },
+    ]);
+
+    expect(validity).toEqual([false, true, false]);
+    expect(issues).toEqual([
+      expect.objectContaining({ payloadIndex: 0, path: ['quantity'], code: 'invalid_type', received: '3' }),
+      expect.objectContaining({ payloadIndex: 0, path: ['items', 0, 'sku'], code: 'invalid_type', received: 42 }),
+      expect.objectContaining({ payloadIndex: 2, path: ['status'], code: 'invalid_value', received: 'pending' }),
+      expect.objectContaining({ payloadIndex: 2, path: [], code: 'unrecognized_keys' }),
+    ]);
+    expect(issues[3]).not.toHaveProperty('received');
+  });
+
+  it('should leave received out for missing values', () => {
+    const { id: _id, ...withoutId } = valid;
+    const { issues } = collectIssues(code, 'Order', [withoutId]);
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ path: ['id'], code: 'invalid_type' });
+    expect(issues[0]).not.toHaveProperty('received');
+  });
+});
+
+describe('explainIssue', () => {
+  const issue = (path: Array<string | number>, codeName: string, message: string, received?: unknown) => ({
+    payloadIndex: 0,
+    path,
+    code: codeName,
+    message,
+    ...(received === undefined ? {} : { received }),
+  });
+
+  it('should suggest schema fixes for legitimate values', () => {
+    expect(explainIssue(issue(['quantity'], 'invalid_type', 'Invalid input: expected number, received string', '3'))).toEqual({
+      explanation: '"quantity" must be a number, but the payload sends it as the string "3".',
+      fix: { target: 'schema', suggestion: 'Accept numeric strings by coercing them to numbers.', code: 'z.coerce.number()' },
+    });
+    expect(explainIssue(issue(['createdAt'], 'invalid_type', 'Invalid input: expected date, received string', '2024-01-01')).fix.code).toBe(
+      'z.coerce.date()'
+    );
+    expect(explainIssue(issue(['note'], 'invalid_type', 'Invalid input: expected string, received null', null)).fix).toMatchObject({
+      target: 'schema',
+      code: '.nullable()',
+    });
+  });
+
+  it('should suggest data fixes for wrong or missing values', () => {
+    expect(explainIssue(issue(['id'], 'invalid_type', 'Invalid input: expected string, received undefined'))).toEqual({
+      explanation: '"id" is required, but the payload does not contain it.',
+      fix: { target: 'data', suggestion: 'Send "id" as a string, or mark the field .optional() if it may be left out.' },
+    });
+    expect(explainIssue(issue(['items', 0, 'sku'], 'invalid_type', 'Invalid input: expected string, received number', 42))).toEqual({
+      explanation: '"items[0].sku" must be a string, but the payload sends the number 42.',
+      fix: { target: 'data', suggestion: 'Send "items[0].sku" as a string.' },
+    });
+    expect(explainIssue(issue(['quantity'], 'too_small', 'Too small: expected number to be >=1', 0)).explanation).toBe(
+      '"quantity" is below the allowed limit: too small: expected number to be >=1 (got the number 0).'
+    );
+  });
+});
+
+describe('buildExplanationPrompt', () => {
+  it('should number the issues and mark missing values', () => {
+    const prompt = buildExplanationPrompt({
+      schema: { code: 'z.object({ id: z.string() })', typeName: 'Order' },
+      issues: [{ payloadIndex: 1, path: ['id'], code: 'invalid_type', message: 'Required' }],
+    }).user;
+
+    expect(prompt).toContain('"issue": 0');
+    expect(prompt).toContain('"field": "id"');
+    expect(prompt).toContain('"missing": true');
+  });
+});
+
+describe('parseExplanations', () => {
+  it('should keep valid entries and drop the rest', () => {
+    const parsed = parseExplanations(
+      {
+        explanations: [
+          { issue: 0, explanation: 'Wrong type.', fix: { target: 'data', suggestion: 'Send a string.' } },
+          { issue: 5, explanation: 'Out of range.', fix: { target: 'data', suggestion: '...' } },
+          { issue: 1, explanation: 'No fix.' },
+          { issue: 1, explanation: 'Bad target.', fix: { target: 'both', suggestion: '...' } },
+        ],
+        summary: 'One payload is wrong.',
+      },
+      2
+    );
+
+    expect(parsed).toEqual({
+      explanations: [{ issueIndex: 0, explanation: 'Wrong type.', fix: { target: 'data', suggestion: 'Send a string.' } }],
+      summary: 'One payload is wrong.',
+    });
+  });
+});
+
+describe('mergeExplanations', () => {
+  it('should group issues per payload and fill in the built-in wording', () => {
+    const issues = [
+      { payloadIndex: 0, path: ['a'], code: 'custom', message: 'Bad a', received: 1 },
+      { payloadIndex: 2, path: ['b'], code: 'custom', message: 'Bad b', received: 2 },
+    ];
+
+    const payloads = mergeExplanations([false, true, false], issues, [
+      { issueIndex: 0, explanation: 'Provider wording.', fix: { target: 'data', suggestion: 'Fix a.' } },
+    ]);
+
+    expect(payloads.map(({ index, valid: isValid, issues: list }) => [index, isValid, list.length])).toEqual([
+      [0, false, 1],
+      [1, true, 0],
+      [2, false, 1],
+    ]);
+    expect(payloads[0].issues[0]).toMatchObject({ path: ['a'], explanation: 'Provider wording.' });
+    expect(payloads[2].issues[0]).toMatchObject({
+      path: ['b'],
+      explanation: '"b" fails a custom check of the schema: Bad b.',
+      fix: { target: 'data' },
+    });
+  });
+});
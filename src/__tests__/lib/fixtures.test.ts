@@ -0,0 +1,112 @@
+// Tests for schema fixture generation
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { generateFixtures } from '../../lib/fixtures.js';
+
+const code = `export const UserSchema = z.object({
+  id: z.string().uuid(),
+  email: z.string().email().max(40),
+  name: z.string().min(2).max(50),
+  age: z.number().int().min(0).max(150).optional(),
+  score: z.number().multipleOf(0.5).gt(0),
+  role: z.enum(['admin', 'user']).default('user'),
+  tags: z.array(z.string()).min(1).max(3),
+  createdAt: z.coerce.date(),
+  value: z.union([z.string(), z.number()]),
+  address: z.object({ city: z.string() }).strict().nullable(),
+});`;
+
+// The same schema outside the sandbox, to double-check the fixtures
+const UserSchema = z.object({
+  id: z.string().uuid(),
+  email: z.string().email().max(40),
+  name: z.string().min(2).max(50),
+  age: z.number().int().min(0).max(150).optional(),
+  score: z.number().multipleOf(0.5).gt(0),
+  role: z.enum(['admin', 'user']).default('user'),
+  tags: z.array(z.string()).min(1).max(3),
+  createdAt: z.coerce.date(),
+  value: z.union([z.string(), z.number()]),
+  address: z.object({ city: z.string() }).strict().nullable(),
+});
+
+describe('generateFixtures', () => {
+  const fixtures = generateFixtures(code, 'User');
+
+  it('should synthesize a full and a minimal valid example', () => {
+    expect(fixtures.valid.map((fixture) => fixture.description)).toEqual(['All fields', 'Required fields only']);
+    expect(fixtures.valid[0].value).toMatchObject({ age: 0, role: 'admin', tags: ['example'] });
+    expect(fixtures.valid[1].value).not.toHaveProperty('age');
+    expect(fixtures.valid[1].value).not.toHaveProperty('role');
+    expect(fixtures.warnings).toEqual([]);
+  });
+
+  it('should only return fixtures that parse as described', () => {
+    for (const fixture of [...fixtures.valid, ...fixtures.boundary]) {
+      expect(UserSchema.safeParse(fixture.value).success).toBe(true);
+    }
+
+    for (const fixture of fixtures.invalid) {
+      const result = UserSchema.safeParse(fixture.value);
+      expect(result.success).toBe(false);
+      expect(result.error!.issues.map((issue) => [issue.code, issue.path])).toEqual([
+        [fixture.expectedCode, fixture.path],
+      ]);
+    }
+  });
+
+  it('should cover boundary values of each constraint', () => {
+    expect(fixtures.boundary.map((fixture) => fixture.description)).toEqual([
+      'email: at maximum length 40',
+      'name: at minimum length 2',
+      'name: at maximum length 50',
+      'age: at minimum 0',
+      'age: at maximum 150',
+      'tags: at minimum 1 items',
+      'tags: at maximum 3 items',
+    ]);
+    expect((fixtures.boundary[0].value as any).email).toHaveLength(40);
+  });
+
+  it('should target one constraint per invalid fixture', () => {
+    const byDescription = Object.fromEntries(
+      fixtures.invalid.map((fixture) => [fixture.description, fixture.expectedCode])
+    );
+
+    expect(byDescription).toMatchObject({
+      'id: missing': 'invalid_type',
+      'id: invalid uuid': 'invalid_format',
+      'email: longer than 40': 'too_big',
+      'name: shorter than 2': 'too_small',
+      'age: not an integer': 'invalid_type',
+      'age: above maximum 150': 'too_big',
+      'score: not above 0': 'too_small',
+      'score: not a multiple of 0.5': 'not_multiple_of',
+      'role: not an allowed value': 'invalid_value',
+      'tags: fewer than 1 items': 'too_small',
+      'createdAt: not a date': 'invalid_type',
+      'value: matches no union option': 'invalid_union',
+      'address: unknown key': 'unrecognized_keys',
+    });
+    expect(byDescription).not.toHaveProperty('role: missing');
+    expect(byDescription).not.toHaveProperty('age: missing');
+  });
+
+  it('should fall back to a sample when no example can be synthesized', () => {
+    const result = generateFixtures('z.object({ sku: z.string().regex(/^SKU-\\d+$/) })', 'Product', [
+      { sku: 'nope' },
+      { sku: 'SKU-1' },
+    ]);
+
+    expect(result.valid).toEqual([{ description: 'Sample 2', value: { sku: 'SKU-1' } }]);
+    expect(result.invalid.map((fixture) => fixture.description)).toContain('sku: does not match /^SKU-\\d+$/');
+  });
+
+  it('should report when there is no valid base example', () => {
+    const result = generateFixtures('z.object({ sku: z.string().regex(/^SKU-\\d+$/) })', 'Product');
+
+    expect(result.valid).toEqual([]);
+    expect(result.invalid).toEqual([]);
+    expect(result.warnings).toContain('No valid example could be generated or taken from the samples');
+  });
+});
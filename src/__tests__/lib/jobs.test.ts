@@ -0,0 +1,290 @@
+// Asynchronous job manager tests
+import { describe, it, expect, afterEach } from 'vitest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { JobManager, JobQueueFullError, isReservedAddress, signCallback, validateCallbackUrl } from '../../lib/jobs.js';
+import { InMemoryJobStore } from '../../lib/job-store.js';
+import type { RefinementResponse } from '../../types/index.js';
+
+const okResult: RefinementResponse = {
+  success: true,
+  refinedSchema: { code: 'z.object({})', improvements: [], confidence: 0.9 },
+  creditsUsed: 1,
+};
+
+describe('JobManager', () => {
+  let server: http.Server | undefined;
+
+  afterEach(async () => {
+    if (server) {
+      await new Promise((resolve) => server!.close(resolve));
+      server = undefined;
+    }
+  });
+
+  /** Local callback receiver answering with the given status codes in order */
+  async function startReceiver(statuses: number[], headers: http.OutgoingHttpHeaders = {}) {
+    const received: Array<{ headers: http.IncomingHttpHeaders; body: string }> = [];
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.writeHead(statuses[Math.min(received.length - 1, statuses.length - 1)], headers);
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) => server!.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    return { url: `http://127.0.0.1:${port}/hook`, received };
+  }
+
+  const createManager = () =>
+    new JobManager(new InMemoryJobStore(), { callbackRetryDelayMs: 5, callbackTimeoutMs: 2000 });
+
+  it('should run a job and record progress and result', async () => {
+    const manager = createManager();
+    const { job } = await manager.submit(async (onProgress) => {
+      onProgress('refining', 0.1);
+      onProgress('validating', 0.8);
+      return okResult;
+    }, { ownerId: 'key_a' });
+
+    expect(job.status).toBe('queued');
+    await manager.idle();
+
+    const finished = await manager.get(job.id, 'key_a');
+    expect(finished).toMatchObject({ status: 'completed', progress: 1, stage: 'validating', result: okResult });
+    expect(finished?.startedAt).toBeDefined();
+    expect(finished?.completedAt).toBeDefined();
+  });
+
+  it('should map task errors to a failed job', async () => {
+    const manager = createManager();
+    const { job } = await manager.submit(async () => {
+      throw new Error('OpenAI API error: boom');
+    }, { ownerId: 'key_a' });
+    await manager.idle();
+
+    const failed = await manager.get(job.id, 'key_a');
+    expect(failed?.status).toBe('failed');
+    expect(failed?.result).toMatchObject({ success: false, errorCode: 'AI_PROVIDER_ERROR' });
+  });
+
+  it('should hide jobs from other keys', async () => {
+    const manager = createManager();
+    const { job } = await manager.submit(async () => okResult, { ownerId: 'key_a' });
+    await manager.idle();
+
+    expect(await manager.get(job.id, 'key_b')).toBeNull();
+    expect(await manager.get('job_missing', 'key_a')).toBeNull();
+  });
+
+  it('should respect the concurrency limit', async () => {
+    const manager = new JobManager(new InMemoryJobStore(), { concurrency: 1 });
+    let running = 0;
+    let maxRunning = 0;
+    const task = async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      running--;
+      return okResult;
+    };
+
+    await Promise.all([1, 2, 3].map(() => manager.submit(task, { ownerId: 'key_a' })));
+    await manager.idle();
+
+    expect(maxRunning).toBe(1);
+  });
+
+  it('should deliver a signed callback', async () => {
+    const { url, received } = await startReceiver([200]);
+    const manager = createManager();
+    const { job, callbackSecret } = await manager.submit(async () => okResult, { ownerId: 'key_a', callbackUrl: url });
+    await manager.idle();
+
+    expect(callbackSecret).toMatch(/^[0-9a-f]{64}$/);
+    expect(received).toHaveLength(1);
+
+    const { headers, body } = received[0];
+    expect(headers['x-zodforge-event']).toBe('job.completed');
+    expect(headers['x-zodforge-signature']).toBe(
+      signCallback(body, headers['x-zodforge-timestamp'] as string, callbackSecret!)
+    );
+
+    const payload = JSON.parse(body);
+    expect(payload.job.id).toBe(job.id);
+    expect(payload.job.ownerId).toBeUndefined();
+
+    const delivered = await manager.get(job.id, 'key_a');
+    expect(delivered?.callback).toMatchObject({ status: 'delivered', attempts: 1 });
+  });
+
+  it('should retry failed callbacks and record the failure', async () => {
+    const { url, received } = await startReceiver([500, 500, 500]);
+    const manager = createManager();
+    const { job } = await manager.submit(async () => okResult, { ownerId: 'key_a', callbackUrl: url });
+    await manager.idle();
+
+    expect(received).toHaveLength(3);
+    const failed = await manager.get(job.id, 'key_a');
+    expect(failed?.callback).toMatchObject({ status: 'failed', attempts: 3, lastError: 'HTTP 500' });
+  });
+
+  it('should succeed after a retry', async () => {
+    const { url, received } = await startReceiver([503, 200]);
+    const manager = createManager();
+    const { job } = await manager.submit(async () => okResult, { ownerId: 'key_a', callbackUrl: url });
+    await manager.idle();
+
+    expect(received).toHaveLength(2);
+    expect((await manager.get(job.id, 'key_a'))?.callback).toMatchObject({ status: 'delivered', attempts: 2 });
+  });
+
+  it('should not follow callback redirects', async () => {
+    const { url, received } = await startReceiver([302], { location: 'http://169.254.169.254/latest/meta-data' });
+    const manager = new JobManager(new InMemoryJobStore(), { callbackRetryDelayMs: 5, callbackMaxAttempts: 1 });
+    const { job } = await manager.submit(async () => okResult, { ownerId: 'key_a', callbackUrl: url });
+    await manager.idle();
+
+    expect(received).toHaveLength(1);
+    expect((await manager.get(job.id, 'key_a'))?.callback).toMatchObject({
+      status: 'failed',
+      lastError: 'HTTP 302 (redirects are not followed)',
+    });
+  });
+
+  it('should refuse callbacks to hosts that resolve to private addresses', async () => {
+    const { url, received } = await startReceiver([200]);
+    const manager = new JobManager(new InMemoryJobStore(), {
+      callbackRetryDelayMs: 5,
+      callbackMaxAttempts: 1,
+      callbackPublicOnly: true,
+    });
+    const { job } = await manager.submit(async () => okResult, {
+      ownerId: 'key_a',
+      callbackUrl: url.replace('127.0.0.1', 'localhost'),
+    });
+    await manager.idle();
+
+    expect(received).toHaveLength(0);
+    expect((await manager.get(job.id, 'key_a'))?.callback).toMatchObject({
+      status: 'failed',
+      lastError: expect.stringContaining('non-public'),
+    });
+  });
+
+  it('should fail jobs a previous process left unfinished', async () => {
+    const store = new InMemoryJobStore();
+    const createdAt = new Date().toISOString();
+    await store.create({ id: 'job_queued', status: 'queued', progress: 0, ownerId: 'key_a', createdAt });
+    await store.create({
+      id: 'job_running',
+      status: 'running',
+      progress: 0.4,
+      ownerId: 'key_a',
+      createdAt,
+      callbackUrl: 'https://hooks.example.com/zodforge',
+      callback: { status: 'pending', attempts: 0 },
+    });
+    await store.create({ id: 'job_done', status: 'completed', progress: 1, ownerId: 'key_a', createdAt, result: okResult });
+
+    const manager = new JobManager(store);
+    expect(await manager.failInterrupted()).toBe(2);
+
+    expect(await manager.get('job_queued', 'key_a')).toMatchObject({
+      status: 'failed',
+      progress: 1,
+      result: { success: false, errorCode: 'JOB_INTERRUPTED' },
+    });
+    const running = await manager.get('job_running', 'key_a');
+    expect(running?.completedAt).toBeDefined();
+    expect(running?.callback).toMatchObject({ status: 'failed', attempts: 0 });
+    expect(await manager.get('job_done', 'key_a')).toMatchObject({ status: 'completed', result: okResult });
+    expect(await manager.failInterrupted()).toBe(0);
+  });
+
+  it('should refuse jobs once the queue is full', async () => {
+    const manager = new JobManager(new InMemoryJobStore(), { concurrency: 1, maxQueuedJobs: 1 });
+    let release!: () => void;
+    const blocked = new Promise<void>((resolve) => (release = resolve));
+    const task = async () => {
+      await blocked;
+      return okResult;
+    };
+
+    await manager.submit(task, { ownerId: 'key_a' }); // Running
+    await manager.submit(task, { ownerId: 'key_a' }); // Queued
+    await expect(manager.submit(task, { ownerId: 'key_a' })).rejects.toBeInstanceOf(JobQueueFullError);
+
+    release();
+    await manager.idle();
+  });
+});
+
+describe('validateCallbackUrl', () => {
+  it('should reject invalid URLs and non-HTTP schemes', () => {
+    expect(validateCallbackUrl('not a url', false)).toBeTruthy();
+    expect(validateCallbackUrl('ftp://example.com/hook', false)).toBeTruthy();
+  });
+
+  it('should allow local HTTP URLs in development and test', () => {
+    expect(validateCallbackUrl('http://localhost:3000/hook', false)).toBeNull();
+  });
+
+  it('should only allow local URLs when NODE_ENV is development or test', () => {
+    const nodeEnv = process.env.NODE_ENV;
+    try {
+      for (const value of ['staging', 'production', undefined]) {
+        if (value === undefined) {
+          delete process.env.NODE_ENV;
+        } else {
+          process.env.NODE_ENV = value;
+        }
+        expect(validateCallbackUrl('http://localhost:3000/hook')).toBeTruthy();
+      }
+
+      process.env.NODE_ENV = 'test';
+      expect(validateCallbackUrl('http://localhost:3000/hook')).toBeNull();
+    } finally {
+      process.env.NODE_ENV = nodeEnv;
+    }
+  });
+
+  it('should require HTTPS to public hosts outside development and test', () => {
+    expect(validateCallbackUrl('https://hooks.example.com/zodforge', true)).toBeNull();
+    expect(validateCallbackUrl('http://hooks.example.com/zodforge', true)).toBeTruthy();
+
+    for (const host of [
+      'localhost',
+      '127.0.0.1',
+      '2130706433',
+      '10.0.0.5',
+      '100.64.0.1',
+      '192.168.1.1',
+      '172.20.0.1',
+      '169.254.169.254',
+      '[::1]',
+      '[fd00::1]',
+      '[::ffff:127.0.0.1]',
+      '[::ffff:a9fe:a9fe]',
+    ]) {
+      expect(validateCallbackUrl(`https://${host}/hook`, true)).toBeTruthy();
+    }
+  });
+});
+
+describe('isReservedAddress', () => {
+  it('should match reserved IPv4 and IPv6 ranges, including IPv4-mapped addresses', () => {
+    for (const address of ['0.0.0.0', '100.127.255.255', '198.18.0.1', '224.0.0.1', '255.255.255.255', '::', '::ffff:10.0.0.1', '2001:db8::1', 'fe80::1']) {
+      expect(isReservedAddress(address)).toBe(true);
+    }
+  });
+
+  it('should allow public addresses', () => {
+    for (const address of ['93.184.216.34', '100.128.0.1', '2606:4700::1111', '::ffff:93.184.216.34']) {
+      expect(isReservedAddress(address)).toBe(false);
+    }
+  });
+});
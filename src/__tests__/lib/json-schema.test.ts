@@ -0,0 +1,201 @@
+// Tests for JSON Schema ↔ Zod conversion
+import { describe, it, expect } from 'vitest';
+import {
+  jsonSchemaToZod,
+  zodToJsonSchema,
+  mapImprovementKeywords,
+  patchJsonSchemaKeywords,
+  resolveSchemaInput,
+} from '../../lib/json-schema.js';
+import { compileSchema } from '../../lib/schema-sandbox.js';
+
+const userJsonSchema = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  type: 'object',
+  properties: {
+    email: { type: 'string', format: 'email' },
+    age: { type: 'integer', minimum: 0 },
+    nickname: { type: ['string', 'null'], maxLength: 20 },
+    role: { enum: ['admin', 'user'] },
+    address: { $ref: '#/$defs/Address' },
+  },
+  required: ['email', 'age', 'role'],
+  additionalProperties: false,
+  $defs: {
+    Address: {
+      type: 'object',
+      properties: { city: { type: 'string', pattern: '^[A-Z]' } },
+      required: ['city'],
+    },
+  },
+};
+
+describe('jsonSchemaToZod', () => {
+  it('should convert properties, required and keywords', () => {
+    const { schema, warnings } = jsonSchemaToZod(userJsonSchema, 'User');
+
+    expect(warnings).toEqual([]);
+    expect(schema.fields).toEqual({
+      email: 'z.string().email()',
+      age: 'z.number().int().min(0)',
+      nickname: 'z.string().max(20).nullable().optional()',
+      role: "z.enum(['admin', 'user'])",
+      address: 'AddressSchema.optional()',
+    });
+    expect(schema.code).toContain('export const AddressSchema = z.object({');
+    expect(schema.code).toContain('city: z.string().regex(/^[A-Z]/),');
+    expect(schema.code).toMatch(/export const UserSchema = z\.object\(\{[\s\S]*\}\)\.strict\(\);/);
+  });
+
+  it('should produce code that validates like the JSON Schema', () => {
+    const { schema } = jsonSchemaToZod(userJsonSchema, 'User');
+    const compiled = compileSchema(schema.code, 'User');
+
+    const [valid, invalid] = compiled.safeParseAll([
+      { email: 'a@example.com', age: 3, role: 'user', address: { city: 'Utrecht' } },
+      { email: 'a@example.com', age: -1, role: 'guest', extra: true },
+    ]);
+
+    expect(valid.success).toBe(true);
+    expect(invalid.issues.map((issue) => issue.path[0] ?? '')).toEqual(
+      expect.arrayContaining(['age', 'role'])
+    );
+  });
+
+  it('should wrap self references in z.lazy()', () => {
+    const { schema } = jsonSchemaToZod(
+      {
+        $ref: '#/$defs/Node',
+        $defs: {
+          Node: {
+            type: 'object',
+            properties: { children: { type: 'array', items: { $ref: '#/$defs/Node' } } },
+          },
+        },
+      },
+      'Tree'
+    );
+
+    expect(schema.code).toContain('z.array(z.lazy(() => NodeSchema))');
+    expect(schema.code).toContain('export const TreeSchema = NodeSchema;');
+  });
+
+  it('should report keywords it cannot express', () => {
+    const { warnings } = jsonSchemaToZod(
+      {
+        type: 'object',
+        properties: { id: { type: 'string', format: 'hostname', contentEncoding: 'base64' } },
+      },
+      'Thing'
+    );
+
+    expect(warnings).toEqual([
+      '#/properties/id: Unsupported keyword "contentEncoding" was ignored',
+      '#/properties/id: Format "hostname" is not enforced',
+    ]);
+  });
+
+  it('should report unresolved references', () => {
+    const { warnings, schema } = jsonSchemaToZod(
+      { type: 'object', properties: { a: { $ref: 'https://example.com/a.json' } } },
+      'Thing'
+    );
+
+    expect(warnings[0]).toContain('Unresolved $ref');
+    expect(schema.fields.a).toBe('z.unknown().optional()');
+  });
+});
+
+describe('resolveSchemaInput', () => {
+  it('should pass code input through unchanged', () => {
+    const input = { code: 'z.object({})', typeName: 'User', fields: {} };
+
+    expect(resolveSchemaInput(input).schema).toBe(input);
+  });
+
+  it('should keep the JSON Schema source on converted input', () => {
+    const { schema } = resolveSchemaInput({ jsonSchema: userJsonSchema, typeName: 'User' });
+
+    expect(schema.jsonSchema).toBe(userJsonSchema);
+    expect(schema.code).toContain('UserSchema');
+  });
+});
+
+describe('zodToJsonSchema', () => {
+  it('should produce a draft 2020-12 document', () => {
+    const document = zodToJsonSchema('z.object({ email: z.string().email().min(3) })');
+
+    expect(document.$schema).toBe('https://json-schema.org/draft/2020-12/schema');
+    expect(document.properties).toMatchObject({
+      email: { type: 'string', format: 'email', minLength: 3 },
+    });
+  });
+
+  it('should describe accepted input, leaving objects open to unknown keys', () => {
+    const document = zodToJsonSchema("z.object({ role: z.string().default('user') })");
+
+    expect(document).not.toHaveProperty('additionalProperties');
+    expect(document).not.toHaveProperty('required');
+  });
+});
+
+describe('mapImprovementKeywords', () => {
+  it('should attach changed keywords to improvements', () => {
+    const original = zodToJsonSchema(
+      'z.object({ email: z.string(), status: z.string(), items: z.array(z.object({ sku: z.string() })) })'
+    );
+    const refined = zodToJsonSchema(
+      "z.object({ email: z.string().email(), status: z.enum(['a', 'b']), items: z.array(z.object({ sku: z.string().min(3) })) })"
+    );
+
+    const improvement = (field: string) => ({ field, before: '', after: '', reason: '', confidence: 1 });
+    const [email, status, sku] = mapImprovementKeywords(original, refined, [
+      improvement('email'),
+      improvement('status'),
+      improvement('items[].sku'),
+    ]);
+
+    expect(email.jsonSchemaKeywords).toMatchObject({ format: 'email' });
+    expect(status.jsonSchemaKeywords).toEqual({ enum: ['a', 'b'] });
+    expect(sku.jsonSchemaKeywords).toEqual({ minLength: 3 });
+  });
+});
+
+describe('patchJsonSchemaKeywords', () => {
+  const improvement = (field: string, jsonSchemaKeywords?: Record<string, unknown>) => ({
+    field,
+    before: '',
+    after: '',
+    reason: '',
+    confidence: 1,
+    jsonSchemaKeywords,
+  });
+
+  it('should merge keywords into the document and report what cannot be merged', () => {
+    const document: Record<string, any> = {
+      type: 'object',
+      properties: {
+        email: { type: 'string', title: 'Email' },
+        tags: { type: 'array', items: { type: 'object', properties: { name: { type: 'string' } } } },
+        address: { $ref: '#/$defs/Address' },
+      },
+    };
+
+    const { applied, unapplied } = patchJsonSchemaKeywords(document, [
+      improvement('email', { format: 'email' }),
+      improvement('tags[].name', { minLength: 1 }),
+      improvement('address', { type: 'object' }),
+      improvement('missing', { minimum: 0 }),
+      improvement('email'),
+    ]);
+
+    expect(applied.map(({ field }) => field)).toEqual(['email', 'tags[].name']);
+    expect(document.properties.email).toEqual({ type: 'string', title: 'Email', format: 'email' });
+    expect(document.properties.tags.items.properties.name).toEqual({ type: 'string', minLength: 1 });
+    expect(unapplied.map(({ unappliedReason }) => unappliedReason)).toEqual([
+      'Field is a $ref to #/$defs/Address - refine that schema instead',
+      'Field "missing" not found in the schema',
+      'No JSON Schema keyword change',
+    ]);
+  });
+});
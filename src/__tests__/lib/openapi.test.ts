@@ -0,0 +1,95 @@
+// Tests for OpenAPI document refinement
+import { describe, it, expect } from 'vitest';
+import { refineOpenApiDocument, collectComponentRefs } from '../../lib/openapi.js';
+
+const document = {
+  openapi: '3.1.0',
+  info: { title: 'Shop', version: '1.0.0' },
+  paths: {},
+  components: {
+    schemas: {
+      Customer: {
+        type: 'object',
+        properties: {
+          email: { type: 'string', description: 'Contact address' },
+          address: { $ref: '#/components/schemas/Address' },
+        },
+        required: ['email'],
+      },
+      Address: {
+        type: 'object',
+        properties: { country: { type: 'string' } },
+        required: ['country'],
+      },
+      Order: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          customer: { $ref: '#/components/schemas/Customer' },
+        },
+      },
+    },
+  },
+};
+
+const customers = [
+  { email: 'alice@example.com', address: { country: 'NL' } },
+  { email: 'bob@test.org', address: { country: 'BE' } },
+];
+
+describe('refineOpenApiDocument', () => {
+  it('should patch improvements into the component and keep $refs', async () => {
+    const result = await refineOpenApiDocument({
+      document,
+      examples: { Customer: customers },
+      options: { provider: 'heuristic' },
+    });
+
+    const customer = result.document!.components.schemas.Customer;
+    expect(customer.properties.email).toMatchObject({
+      type: 'string',
+      format: 'email',
+      description: 'Contact address',
+    });
+    expect(customer.properties.email.pattern).toBeUndefined();
+    expect(customer.properties.address).toEqual({ $ref: '#/components/schemas/Address' });
+
+    expect(result.components!.Customer.status).toBe('refined');
+    expect(result.components!.Customer.improvements[0]).toMatchObject({
+      field: 'email',
+      jsonSchemaKeywords: { format: 'email' },
+    });
+    expect(result.components!.Address.status).toBe('skipped');
+    expect(result.creditsUsed).toBe(1);
+  });
+
+  it('should not modify the submitted document', async () => {
+    const before = JSON.stringify(document);
+
+    await refineOpenApiDocument({
+      document,
+      examples: { Customer: customers },
+      options: { provider: 'heuristic' },
+    });
+
+    expect(JSON.stringify(document)).toBe(before);
+  });
+
+  it('should report examples for unknown components', async () => {
+    const result = await refineOpenApiDocument({
+      document,
+      examples: { Missing: [{}] },
+      options: { provider: 'heuristic' },
+    });
+
+    expect(result.suggestions).toEqual(['Examples for unknown component "Missing" were ignored']);
+  });
+});
+
+describe('collectComponentRefs', () => {
+  it('should collect references transitively', () => {
+    const schemas = document.components.schemas;
+
+    expect([...collectComponentRefs(schemas.Order, schemas)]).toEqual(['Customer', 'Address']);
+  });
+});
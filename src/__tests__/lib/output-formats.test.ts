@@ -0,0 +1,151 @@
+// Tests for additional refinement output formats
+import { describe, it, expect } from 'vitest';
+import { renderOutputFormats, resolveOutputFormats } from '../../lib/output-formats.js';
+import { applyImprovements } from '../../lib/schema-patcher.js';
+import type { OutputFormat, RefinementRequest } from '../../types/index.js';
+
+const code = `export const UserSchema = z.object({
+  email: z.string(),
+  age: z.number(),
+});`;
+
+const improvements = [
+  { field: 'email', before: 'z.string()', after: 'z.string().email()', reason: 'email', confidence: 0.9 },
+  { field: 'age', before: 'z.number()', after: 'z.number().int()', reason: 'int', confidence: 0.9 },
+];
+
+const request = (outputFormats?: OutputFormat[]): RefinementRequest => ({
+  schema: { code, typeName: 'User', fields: { email: 'z.string()', age: 'z.number()' } },
+  samples: [{ email: 'a@example.com', age: 1 }],
+  options: { outputFormats },
+});
+
+const result = {
+  refinedSchema: {
+    code: applyImprovements(code, improvements, 'User').code,
+    improvements,
+    confidence: 0.9,
+  },
+};
+
+describe('resolveOutputFormats', () => {
+  it('should default to zod, plus json-schema for JSON Schema input', () => {
+    expect(resolveOutputFormats(request())).toEqual(['zod']);
+    expect(
+      resolveOutputFormats({
+        ...request(),
+        schema: { ...request().schema, jsonSchema: { type: 'object' } },
+      })
+    ).toEqual(['zod', 'json-schema']);
+  });
+});
+
+describe('renderOutputFormats', () => {
+  it('should leave results untouched for zod only', () => {
+    expect(renderOutputFormats(request(), result)).toBe(result);
+  });
+
+  it('should add a unified diff and edits tied to improvements', () => {
+    const rendered = renderOutputFormats(request(['zod', 'diff']), result);
+
+    expect(rendered.refinedSchema?.diff).toBe(
+      [
+        '--- a/User.ts',
+        '+++ b/User.ts',
+        '@@ -1,4 +1,4 @@',
+        ' export const UserSchema = z.object({',
+        '-  email: z.string(),',
+        '-  age: z.number(),',
+        '+  email: z.string().email(),',
+        '+  age: z.number().int(),',
+        ' });',
+        '',
+      ].join('\n')
+    );
+    expect(rendered.refinedSchema?.edits).toEqual([
+      {
+        improvementIndex: 0,
+        field: 'email',
+        range: {
+          start: { line: 2, column: 10, offset: 46 },
+          end: { line: 2, column: 20, offset: 56 },
+        },
+        oldText: 'z.string()',
+        newText: 'z.string().email()',
+      },
+      {
+        improvementIndex: 1,
+        field: 'age',
+        range: {
+          start: { line: 3, column: 8, offset: 65 },
+          end: { line: 3, column: 18, offset: 75 },
+        },
+        oldText: 'z.number()',
+        newText: 'z.number().int()',
+      },
+    ]);
+  });
+
+  it('should add JSON Schema output', () => {
+    const rendered = renderOutputFormats(request(['json-schema']), result);
+
+    expect(rendered.refinedSchema?.jsonSchema).toMatchObject({ type: 'object' });
+    expect(rendered.refinedSchema?.improvements[0].jsonSchemaKeywords).toEqual({ format: 'email' });
+  });
+
+  it('should patch JSON Schema input instead of regenerating it', () => {
+    const jsonSchema = {
+      $id: 'https://example.com/user.json',
+      title: 'User',
+      type: 'object',
+      properties: {
+        email: { type: 'string', description: 'Login address', examples: ['a@example.com'] },
+        age: { type: 'number', 'x-unit': 'years' },
+      },
+      required: ['email', 'age'],
+    };
+    const rendered = renderOutputFormats(
+      { ...request(), schema: { ...request().schema, jsonSchema } },
+      result
+    );
+
+    expect(rendered.refinedSchema?.jsonSchema).toEqual({
+      ...jsonSchema,
+      properties: {
+        email: { ...jsonSchema.properties.email, format: 'email' },
+        age: { ...jsonSchema.properties.age, type: 'integer' },
+      },
+    });
+    expect(jsonSchema.properties.email).not.toHaveProperty('format');
+    expect(rendered.suggestions).toBeUndefined();
+  });
+
+  it('should add the requested code generation targets', () => {
+    const rendered = renderOutputFormats(
+      { ...request(), options: { outputTargets: ['valibot'] } },
+      result
+    );
+
+    expect(Object.keys(rendered.refinedSchema?.targets || {})).toEqual(['valibot']);
+    expect(rendered.refinedSchema?.targets?.valibot?.code).toContain('email: v.pipe(v.string(), v.email()),');
+  });
+
+  it('should add fixtures for the refined schema', () => {
+    const rendered = renderOutputFormats({ ...request(), options: { fixtures: true } }, result);
+
+    expect(rendered.refinedSchema?.fixtures?.valid[0].value).toEqual({ email: 'user@example.com', age: 1 });
+    expect(rendered.refinedSchema?.fixtures?.invalid).toContainEqual(
+      expect.objectContaining({ path: ['email'], expectedCode: 'invalid_format' })
+    );
+  });
+
+  it('should suggest why targets are missing when the refined code cannot be evaluated', () => {
+    const rendered = renderOutputFormats(
+      { ...request(), options: { outputTargets: ['typescript'] } },
+      { ...result, refinedSchema: { ...result.refinedSchema, code: 'z.object({ a: process })' } }
+    );
+
+    expect(rendered.refinedSchema?.targets).toBeUndefined();
+    expect(rendered.suggestions?.[0]).toMatch(/^Output targets unavailable: /);
+  });
+});
@@ -0,0 +1,92 @@
+// Tests for code generation targets
+import { describe, it, expect } from 'vitest';
+import { renderTargets } from '../../lib/output-targets.js';
+
+const code = `import { z } from 'zod';
+
+export const UserSchema = z.object({
+  id: z.string().uuid(),
+  email: z.string().email().max(100),
+  age: z.number().int().min(0).optional(),
+  role: z.enum(['admin', 'user']).default('user'),
+  tags: z.array(z.string()).min(1),
+  address: z.object({ city: z.string() }).strict().nullable(),
+});`;
+
+describe('renderTargets', () => {
+  const targets = renderTargets(code, 'User', ['typescript', 'valibot', 'yup', 'arktype', 'io-ts']);
+
+  it('should render the output type as TypeScript', () => {
+    expect(targets.typescript?.code).toBe(`export type User = {
+  id: string;
+  email: string;
+  age?: number;
+  role: 'admin' | 'user';
+  tags: string[];
+  address: {
+    city: string;
+  } | null;
+};
+`);
+    expect(targets.typescript?.warnings).toContain('email: format "email" is not supported by TypeScript types');
+    expect(targets.typescript?.warnings).toContain('tags: minItems 1 is not supported by TypeScript types');
+  });
+
+  it('should render Valibot pipes without warnings', () => {
+    expect(targets.valibot?.code).toContain(`import * as v from 'valibot';`);
+    expect(targets.valibot?.code).toContain(`  email: v.pipe(v.string(), v.email(), v.maxLength(100)),`);
+    expect(targets.valibot?.code).toContain(`  age: v.optional(v.pipe(v.number(), v.integer(), v.minValue(0))),`);
+    expect(targets.valibot?.code).toContain(`  role: v.optional(v.picklist(['admin', 'user']), 'user'),`);
+    expect(targets.valibot?.code).toContain(`  address: v.nullable(v.strictObject({`);
+    expect(targets.valibot?.code).toContain('export type User = v.InferOutput<typeof UserSchema>;');
+    expect(targets.valibot?.warnings).toEqual([]);
+  });
+
+  it('should render Yup with defined() for required fields', () => {
+    expect(targets.yup?.code).toContain(`  id: yup.string().uuid().defined(),`);
+    expect(targets.yup?.code).toContain(`  age: yup.number().integer().min(0),`);
+    expect(targets.yup?.code).toContain(`  role: yup.string().oneOf(['admin', 'user']).default('user'),`);
+    expect(targets.yup?.code).toContain(`  }).noUnknown().nullable().defined(),`);
+    expect(targets.yup?.warnings).toHaveLength(1);
+  });
+
+  it('should render ArkType string definitions', () => {
+    expect(targets.arktype?.code).toContain(`export const UserSchema = type({`);
+    expect(targets.arktype?.code).toContain(`  email: 'string.email <= 100',`);
+    expect(targets.arktype?.code).toContain(`  "age?": 'number.integer >= 0',`);
+    expect(targets.arktype?.code).toContain(`  role: "'admin' | 'user' = 'user'",`);
+    expect(targets.arktype?.code).toContain(`  tags: 'string[] >= 1',`);
+    expect(targets.arktype?.code).toContain(`    "+": 'reject',`);
+    expect(targets.arktype?.code).toContain(`  }).or('null'),`);
+    expect(targets.arktype?.warnings).toEqual([]);
+  });
+
+  it('should render io-ts codecs and warn about refinements', () => {
+    expect(targets['io-ts']?.code).toContain('export const UserSchema = t.exact(t.intersection([t.type({');
+    expect(targets['io-ts']?.code).toContain(`  age: t.Int,`);
+    expect(targets['io-ts']?.code).toContain(`  role: t.keyof({ admin: null, user: null }),`);
+    expect(targets['io-ts']?.warnings).toEqual(
+      expect.arrayContaining([
+        'id: format "uuid" is not supported by io-ts',
+        'age: minimum 0 is not supported by io-ts',
+        'role: default value is not supported by io-ts',
+        'address: rejecting unknown keys (t.exact strips them) is not supported by io-ts',
+      ])
+    );
+  });
+
+  it('should only render the requested targets', () => {
+    expect(Object.keys(renderTargets(code, 'User', ['valibot', 'valibot']))).toEqual(['valibot']);
+  });
+
+  it('should combine definitions ArkType cannot express as strings', () => {
+    const rendered = renderTargets(
+      'z.union([z.object({ a: z.string() }), z.number().multipleOf(5), z.string().regex(/^x/)])',
+      'Value',
+      ['arktype', 'yup']
+    );
+
+    expect(rendered.arktype?.code).toContain(`}).or('number % 5').or('/^x/')`);
+    expect(rendered.yup?.warnings).toContain('(root): union is not supported by Yup');
+  });
+});
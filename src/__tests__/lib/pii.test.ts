@@ -0,0 +1,154 @@
+// Tests for PII detection and redaction
+import { describe, it, expect } from 'vitest';
+import { applyPiiPolicy, redactSamples, PiiBlockedError } from '../../lib/pii.js';
+import { detectStringFormat } from '../../lib/sample-patterns.js';
+
+describe('redactSamples', () => {
+  it('should replace emails with placeholder emails', () => {
+    const { samples, findings } = redactSamples([
+      { email: 'jane.doe@acme.io' },
+      { email: 'john@corp.example' },
+    ]);
+
+    expect(samples).toEqual([{ email: 'user1@example.com' }, { email: 'user2@example.com' }]);
+    expect(findings).toEqual([{ field: 'email', type: 'email', count: 2 }]);
+    expect(detectStringFormat(samples.map((s) => s.email))?.format).toBe('email');
+  });
+
+  it('should give equal values equal placeholders', () => {
+    const { samples } = redactSamples([
+      { email: 'jane@acme.io' },
+      { email: 'john@acme.io' },
+      { email: 'jane@acme.io' },
+    ]);
+
+    expect(samples[0].email).toBe(samples[2].email);
+    expect(samples[0].email).not.toBe(samples[1].email);
+  });
+
+  it('should keep credit card numbers Luhn-valid with the same grouping', () => {
+    const { samples, findings } = redactSamples([{ card: '4111 1111 1111 1111' }]);
+
+    expect(findings[0].type).toBe('credit_card');
+    expect(samples[0].card).toMatch(/^4\d{3} \d{4} \d{4} \d{4}$/);
+    expect(samples[0].card).not.toBe('4111 1111 1111 1111');
+    expect(isLuhnValid(samples[0].card.replace(/\s/g, ''))).toBe(true);
+  });
+
+  it('should keep IBANs structurally valid', () => {
+    const { samples, findings } = redactSamples([{ account: 'NL91 ABNA 0417 1643 00' }]);
+
+    expect(findings[0].type).toBe('iban');
+    expect(samples[0].account).toMatch(/^NL\d{2} ABNA \d{4} \d{4} \d{2}$/);
+    expect(samples[0].account).not.toBe('NL91 ABNA 0417 1643 00');
+
+    // A redacted IBAN is detected as an IBAN again
+    expect(redactSamples(samples).findings[0].type).toBe('iban');
+  });
+
+  it('should redact phone numbers, national IDs and addresses', () => {
+    const { samples, findings } = redactSamples([
+      {
+        phone: '+31 6 12345678',
+        ssn: '123-45-6789',
+        bsn: 123456782,
+        address: '221B Baker Street',
+        street: 'Kerkstraat 12',
+      },
+    ]);
+
+    expect(findings.map((finding) => finding.type)).toEqual([
+      'phone',
+      'national_id',
+      'national_id',
+      'address',
+      'address',
+    ]);
+    expect(samples[0].phone).toMatch(/^\+\d{2} \d \d{8}$/);
+    expect(samples[0].ssn).toMatch(/^\d{3}-\d{2}-\d{4}$/);
+    expect(String(samples[0].bsn)).toHaveLength(9);
+    expect(samples[0].address).not.toContain('Baker');
+  });
+
+  it('should not flag ordinary values', () => {
+    const { findings } = redactSamples([
+      {
+        id: 123456789,
+        createdAt: '2024-01-15',
+        ip: '192.168.100.100',
+        ipAddress: '10.0.0.1',
+        price: '1234.5678',
+        name: 'Alice',
+      },
+    ]);
+
+    expect(findings).toEqual([]);
+  });
+
+  it('should redact emails inside free text and nested values', () => {
+    const { samples, findings } = redactSamples([
+      { notes: 'Contact jane@acme.io for access', contacts: [{ email: 'bob@acme.io' }] },
+    ]);
+
+    expect(samples[0].notes).toBe('Contact user1@example.com for access');
+    expect(findings).toEqual([
+      { field: 'notes', type: 'email', count: 1 },
+      { field: 'contacts[].email', type: 'email', count: 1 },
+    ]);
+  });
+
+  it('should not modify the input samples', () => {
+    const input = [{ email: 'jane@acme.io' }];
+    redactSamples(input);
+
+    expect(input).toEqual([{ email: 'jane@acme.io' }]);
+  });
+});
+
+describe('applyPiiPolicy', () => {
+  const samples = [{ email: 'jane@acme.io', plan: 'pro' }];
+
+  it('should return redacted samples for the redact policy', () => {
+    const result = applyPiiPolicy(samples, 'redact');
+
+    expect(result.samples).toEqual([{ email: 'user1@example.com', plan: 'pro' }]);
+    expect(result.report).toMatchObject({ policy: 'redact', redacted: true, valuesRedacted: 1 });
+  });
+
+  it('should return the original samples for the allow policy', () => {
+    const result = applyPiiPolicy(samples, 'allow');
+
+    expect(result.samples).toBe(samples);
+    expect(result.report).toMatchObject({ policy: 'allow', redacted: false });
+    expect(result.report.findings).toHaveLength(1);
+  });
+
+  it('should throw for the block policy when PII is found', () => {
+    expect(() => applyPiiPolicy(samples, 'block')).toThrow(PiiBlockedError);
+
+    try {
+      applyPiiPolicy(samples, 'block');
+    } catch (error) {
+      expect((error as PiiBlockedError).report.findings[0]).toMatchObject({ type: 'email' });
+    }
+  });
+
+  it('should pass clean samples with the block policy', () => {
+    const result = applyPiiPolicy([{ plan: 'pro' }], 'block');
+
+    expect(result.report).toMatchObject({ redacted: false, findings: [] });
+  });
+});
+
+function isLuhnValid(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
@@ -0,0 +1,161 @@
+// Customer refinement policy tests
+import { describe, it, expect } from 'vitest';
+import {
+  describePolicy,
+  enforcePolicy,
+  enforcePolicyOnCode,
+  policyRules,
+  PolicyManager,
+} from '../../lib/policies.js';
+import { InMemoryPolicyStore } from '../../lib/policy-store.js';
+import type { PolicyRule, RefinementPolicy, SchemaImprovement } from '../../types/index.js';
+
+const policyWith = (packs: string[], rules: PolicyRule[] = []): RefinementPolicy => ({
+  customerId: 'acme',
+  packs,
+  rules,
+  updatedAt: '2025-10-22T10:00:00.000Z',
+});
+
+const improvement = (field: string, before: string, after: string): SchemaImprovement => ({
+  field,
+  before,
+  after,
+  reason: 'test',
+  confidence: 0.9,
+});
+
+describe('policyRules', () => {
+  it('should expand packs before custom rules', () => {
+    const rules = policyRules(policyWith(['strict-contracts'], [{ type: 'instruction', text: 'Prefer enums' }]));
+
+    expect(rules.map(({ type }) => type)).toEqual(['strict-objects', 'no-transforms', 'instruction']);
+    expect(policyRules(undefined)).toEqual([]);
+  });
+});
+
+describe('describePolicy', () => {
+  it('should list every rule for the prompt', () => {
+    const text = describePolicy(policyWith(['uuid-ids'], [{ type: 'instruction', text: 'Prefer enums' }]));
+
+    expect(text).toContain('**Organization Policy**');
+    expect(text).toContain('Fields named id, *Id, *_id always use z.string().uuid()');
+    expect(text).toContain('"Prefer enums"');
+  });
+
+  it('should be empty without rules', () => {
+    expect(describePolicy(undefined)).toBe('');
+    expect(describePolicy(policyWith([]))).toBe('');
+  });
+});
+
+describe('enforcePolicy', () => {
+  it('should rewrite identifier fields to the policy type and keep modifiers', () => {
+    const { improvements, violations } = enforcePolicy(
+      [
+        improvement('userId', 'z.string()', 'z.string().min(1).optional()'),
+        improvement('orders[].id', 'z.string()', 'z.string().uuid()'),
+        improvement('email', 'z.string()', 'z.string().email()'),
+      ],
+      policyWith(['uuid-ids'])
+    );
+
+    expect(improvements.map(({ after }) => after)).toEqual([
+      'z.string().uuid().optional()',
+      'z.string().uuid()',
+      'z.string().email()',
+    ]);
+    expect(violations).toEqual([
+      {
+        field: 'userId',
+        rule: 'field-type',
+        action: 'rewritten',
+        proposed: 'z.string().min(1).optional()',
+        enforced: 'z.string().uuid().optional()',
+      },
+    ]);
+  });
+
+  it('should rewrite date schemas to the policy type', () => {
+    const { improvements } = enforcePolicy(
+      [
+        improvement('createdAt', 'z.string()', 'z.string().datetime()'),
+        improvement('birthday', 'z.string()', 'z.string().date().nullable()'),
+      ],
+      policyWith(['coerced-dates'])
+    );
+
+    expect(improvements.map(({ after }) => after)).toEqual(['z.coerce.date()', 'z.coerce.date().nullable()']);
+  });
+
+  it('should reject added transforms but keep existing ones', () => {
+    const { improvements, violations } = enforcePolicy(
+      [
+        improvement('tags', 'z.string()', 'z.string().transform((value) => value.split(","))'),
+        improvement('name', 'z.string().transform((v) => v.trim())', 'z.string().min(1).transform((v) => v.trim())'),
+      ],
+      policyWith([], [{ type: 'no-transforms' }])
+    );
+
+    expect(improvements.map(({ field }) => field)).toEqual(['name']);
+    expect(violations).toEqual([expect.objectContaining({ field: 'tags', rule: 'no-transforms', action: 'rejected' })]);
+  });
+
+  it('should make object schemas strict', () => {
+    const { improvements } = enforcePolicy(
+      [
+        improvement('address', 'z.any()', 'z.object({ city: z.string() }).optional()'),
+        improvement('meta', 'z.any()', 'z.object({}).passthrough()'),
+      ],
+      policyWith([], [{ type: 'strict-objects' }])
+    );
+
+    expect(improvements.map(({ after }) => after)).toEqual([
+      'z.object({ city: z.string() }).strict().optional()',
+      'z.object({}).passthrough()',
+    ]);
+  });
+
+  it('should drop improvements rewritten back to the original type', () => {
+    const { improvements, violations } = enforcePolicy(
+      [improvement('id', 'z.string().uuid()', 'z.string().uuid().length(36)')],
+      policyWith(['uuid-ids'])
+    );
+
+    expect(improvements).toEqual([]);
+    expect(violations[0]).toMatchObject({ field: 'id', action: 'rejected' });
+  });
+});
+
+describe('enforcePolicyOnCode', () => {
+  it('should make every object schema strict', () => {
+    const code = 'const UserSchema = z.object({ address: z.object({ city: z.string() }), tags: z.array(z.string()) });';
+
+    expect(enforcePolicyOnCode(code, policyWith(['strict-contracts']))).toBe(
+      'const UserSchema = z.object({ address: z.object({ city: z.string() }).strict(), tags: z.array(z.string()) }).strict();'
+    );
+    expect(enforcePolicyOnCode(code, policyWith(['uuid-ids']))).toBe(code);
+  });
+});
+
+describe('PolicyManager', () => {
+  it('should save, load and delete policies per customer', async () => {
+    const manager = new PolicyManager(new InMemoryPolicyStore());
+
+    const saved = await manager.save('acme', { packs: ['uuid-ids', 'uuid-ids'], rules: [] }, 'key_1');
+    expect(saved).toMatchObject({ customerId: 'acme', packs: ['uuid-ids'], updatedBy: 'key_1' });
+
+    expect(await manager.get('acme')).toEqual(saved);
+    expect(await manager.resolve('globex')).toBeUndefined();
+
+    expect(await manager.delete('acme')).toBe(true);
+    expect(await manager.get('acme')).toBeNull();
+    expect(await manager.delete('acme')).toBe(false);
+  });
+
+  it('should refuse unknown rule packs', async () => {
+    const manager = new PolicyManager(new InMemoryPolicyStore());
+
+    await expect(manager.save('acme', { packs: ['nope'], rules: [] })).rejects.toThrow('Unknown rule pack');
+  });
+});
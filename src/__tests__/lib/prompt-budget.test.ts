@@ -0,0 +1,137 @@
+// Tests for prompt budgeting: sample selection and schema splitting
+import { describe, it, expect } from 'vitest';
+import {
+  inputTokenBudget,
+  mergeSchemaParts,
+  orderSamples,
+  shortenSample,
+  splitSchema,
+} from '../../lib/prompt-budget.js';
+import type { RefinementRequest } from '../../types/index.js';
+
+const request: RefinementRequest = {
+  schema: {
+    code: `export const OrderSchema = z.object({
+  id: z.string(),
+  customer: z.object({ name: z.string(), email: z.string() }),
+  items: z.array(z.object({ sku: z.string(), qty: z.number() })),
+});`,
+    typeName: 'Order',
+    fields: { id: 'z.string()', customer: 'z.object()', items: 'z.array()' },
+  },
+  samples: [
+    { id: 'a', customer: { name: 'Ann', email: 'ann@example.com' }, items: [{ sku: 'X1', qty: 1 }, { sku: 'X2', qty: 2 }] },
+    { id: 'b', customer: null, items: [{ sku: 'Y1', qty: 5 }] },
+  ],
+  feedback: { accepted: [{ field: 'items[].sku', after: 'z.string().min(1)' }], rejected: [{ field: 'id', after: 'z.string().uuid()' }] },
+};
+
+describe('inputTokenBudget', () => {
+  it('should keep room for the answer', () => {
+    expect(inputTokenBudget(4096)).toBe(2096);
+    expect(inputTokenBudget(100000)).toBe(98000);
+    expect(inputTokenBudget(3000)).toBe(1500);
+  });
+});
+
+describe('orderSamples', () => {
+  it('should drop identical samples whatever their key order', () => {
+    const { ordered, duplicates } = orderSamples([{ a: 1, b: 2 }, { b: 2, a: 1 }, { a: 3, b: 4 }]);
+
+    expect(duplicates).toBe(1);
+    expect(ordered.map(({ index }) => index)).toEqual([0, 2]);
+  });
+
+  it('should put samples with unseen field shapes first and keep the rest in order', () => {
+    const samples = [
+      { email: 'a@example.com', age: 30 },
+      { email: 'b@example.com', age: 31 },
+      { email: 'c@example.com', age: 32 },
+      { email: null, age: 33, nickname: 'cee' },
+    ];
+
+    expect(orderSamples(samples).ordered.map(({ index }) => index)).toEqual([3, 0, 1, 2]);
+  });
+});
+
+describe('shortenSample', () => {
+  it('should cut long strings and arrays with markers', () => {
+    const { value, truncated } = shortenSample(
+      { note: 'x'.repeat(50), tags: ['a', 'b', 'c', 'd'], nested: [{ note: 'short' }] },
+      { maxStringLength: 10, maxArrayItems: 2 }
+    );
+
+    expect(truncated).toBe(true);
+    expect(value).toEqual({
+      note: `${'x'.repeat(10)}…[truncated 40 chars]`,
+      tags: ['a', 'b', '…[2 more items]'],
+      nested: [{ note: 'short' }],
+    });
+  });
+
+  it('should leave short samples as they are', () => {
+    expect(shortenSample({ a: 'ok', b: [1] }, { maxStringLength: 10, maxArrayItems: 2 })).toEqual({
+      value: { a: 'ok', b: [1] },
+      truncated: false,
+    });
+  });
+});
+
+describe('splitSchema', () => {
+  it('should split nested objects off the root with their sample values', () => {
+    const [root, customer, items] = splitSchema(request);
+
+    expect(root.prefix).toBe('');
+    expect(root.request.schema.code).toContain('id: z.string()');
+    expect(root.request.schema.code).not.toContain('customer');
+    expect(root.request.schema.fields).toEqual({ id: 'z.string()' });
+    expect(root.request.samples).toEqual([{ id: 'a' }, { id: 'b' }]);
+    expect(root.request.feedback).toEqual({ accepted: [], rejected: [{ field: 'id', after: 'z.string().uuid()' }] });
+
+    expect(customer).toMatchObject({ prefix: 'customer', sampleIndices: [0] });
+    expect(customer.request.schema).toEqual({
+      code: 'export const OrderCustomerSchema = z.object({ name: z.string(), email: z.string() });',
+      typeName: 'Order.customer',
+      fields: { name: 'z.string()', email: 'z.string()' },
+    });
+
+    expect(items).toMatchObject({ prefix: 'items[]', sampleIndices: [0, 0, 1] });
+    expect(items.request.samples).toEqual([{ sku: 'X1', qty: 1 }, { sku: 'X2', qty: 2 }, { sku: 'Y1', qty: 5 }]);
+    expect(items.request.feedback?.accepted).toEqual([{ field: 'sku', after: 'z.string().min(1)' }]);
+  });
+
+  it('should not split flat schemas', () => {
+    expect(splitSchema({ ...request, schema: { ...request.schema, code: 'z.object({ id: z.string() })' } })).toEqual([]);
+  });
+});
+
+describe('mergeSchemaParts', () => {
+  it('should prefix fields, patch the full schema and combine the reports', () => {
+    const parts = splitSchema(request);
+    const answer = (field: string, after: string, sent: number[]) => ({
+      refinedSchema: {
+        code: '',
+        improvements: [{ field, before: 'z.string()', after, reason: 'Sample data', confidence: 0.8 }],
+        confidence: 0.8,
+      },
+      suggestions: ['Add descriptions'],
+      promptSamples: { sent, total: sent.length, duplicates: 0, truncated: false },
+      usage: { inputTokens: 100, outputTokens: 10 },
+      aiProvider: 'openai' as const,
+    });
+
+    const merged = mergeSchemaParts(request, parts, [
+      answer('id', 'z.string().min(1)', [0, 1]),
+      answer('email', 'z.string().email()', [0]),
+      answer('sku', 'z.string().regex(/^[A-Z]\\d$/)', [2]),
+    ]);
+
+    expect(merged.refinedSchema!.improvements.map(({ field }) => field)).toEqual(['id', 'customer.email', 'items[].sku']);
+    expect(merged.refinedSchema!.code).toContain('email: z.string().email()');
+    expect(merged.refinedSchema!.code).toContain('sku: z.string().regex(/^[A-Z]\\d$/)');
+    expect(merged.refinedSchema!.unappliedImprovements).toEqual([]);
+    expect(merged.suggestions).toEqual(['Add descriptions']);
+    expect(merged.usage).toEqual({ inputTokens: 300, outputTokens: 30 });
+    expect(merged.promptSamples).toEqual({ sent: [0, 1], total: 2, duplicates: 0, truncated: false, schemaParts: 3 });
+  });
+});
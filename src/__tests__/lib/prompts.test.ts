@@ -0,0 +1,149 @@
+// Tests for the prompt template registry
+import { describe, it, expect, beforeEach } from 'vitest';
+import { buildRefinementPrompt, estimatePromptTokens, PromptError, PromptRegistry, promptRegistry } from '../../lib/prompts.js';
+import type { RefinementRequest } from '../../types/index.js';
+
+const request: RefinementRequest = {
+  schema: {
+    code: 'z.object({ email: z.string(), note: z.string() })',
+    typeName: 'User',
+    fields: { email: 'z.string()', note: 'z.string()' },
+  },
+  samples: Array.from({ length: 12 }, (_, i) => ({ email: `user${i}@example.com`, note: '{{policy}}' })),
+};
+
+describe('PromptRegistry', () => {
+  let registry: PromptRegistry;
+
+  beforeEach(() => {
+    registry = new PromptRegistry();
+  });
+
+  it('should start with version 1 of every built-in prompt', () => {
+    expect(registry.list().map(({ name, activeVersion, versions }) => [name, activeVersion, versions.length])).toEqual([
+      ['refine', 1, 1],
+      ['explain', 1, 1],
+    ]);
+    expect(() => registry.get('summarize')).toThrow(PromptError);
+  });
+
+  it('should add numbered versions and reject unknown placeholders', () => {
+    const template = registry.addVersion('refine', { system: 'Refine {{typeName}}.', user: '{{schemaCode}}' });
+
+    expect(template.version).toBe(2);
+    expect(registry.get('refine').activeVersion).toBe(1);
+    expect(() => registry.addVersion('refine', { system: 'x', user: '{{issues}}' })).toThrow(/Unknown placeholder.*issues/);
+    expect(() => registry.getVersion('refine', 3)).toThrow(PromptError);
+  });
+
+  it('should leave placeholders inside values, or without a value, as they are', () => {
+    registry.addVersion('refine', { system: 'Refine {{ typeName }}.', user: '{{schemaCode}} {{samples}}' }, true);
+
+    const rendered = registry.render('refine', undefined, { typeName: 'User', schemaCode: '{{typeName}}' });
+
+    expect(rendered).toEqual({ name: 'refine', version: 2, system: 'Refine User.', user: '{{typeName}} {{samples}}' });
+  });
+
+  it('should split traffic deterministically per bucket key', () => {
+    registry.addVersion('refine', { system: 'v2', user: 'v2' });
+    registry.startExperiment('refine', 2, 0.3);
+
+    const versions = Array.from({ length: 1000 }, (_, i) => registry.select('refine', `schema-${i}`).version);
+    const candidateShare = versions.filter((version) => version === 2).length / versions.length;
+
+    expect(candidateShare).toBeGreaterThan(0.25);
+    expect(candidateShare).toBeLessThan(0.35);
+    expect(registry.select('refine', 'schema-7')).toEqual(registry.select('refine', 'schema-7'));
+  });
+
+  it('should name the experiment arm only while an experiment runs', () => {
+    registry.addVersion('refine', { system: 'v2', user: 'v2' });
+    expect(registry.select('refine', 'schema-1')).toEqual({ name: 'refine', version: 1 });
+
+    registry.startExperiment('refine', 2, 0.5);
+    const arms = Array.from({ length: 20 }, (_, i) => registry.select('refine', `schema-${i}`));
+
+    expect(arms).toContainEqual({ name: 'refine', version: 2, variant: 'candidate' });
+    expect(arms).toContainEqual({ name: 'refine', version: 1, variant: 'control' });
+    expect(registry.render('refine', { name: 'refine', version: 2, variant: 'candidate' }, {})).toMatchObject({
+      version: 2,
+      variant: 'candidate',
+    });
+  });
+
+  it('should end the experiment when a version is activated or the experiment is stopped', () => {
+    registry.addVersion('refine', { system: 'v2', user: 'v2' });
+
+    expect(() => registry.startExperiment('refine', 1, 0.5)).toThrow(/already active/);
+    expect(() => registry.startExperiment('refine', 2, 1)).toThrow(/between 0 and 1/);
+
+    registry.startExperiment('refine', 2, 0.5);
+    registry.setActive('refine', 2);
+    expect(registry.get('refine')).toMatchObject({ activeVersion: 2, experiment: null });
+
+    registry.startExperiment('refine', 1, 0.5);
+    expect(registry.stopExperiment('refine')).toBe(true);
+    expect(registry.stopExperiment('refine')).toBe(false);
+    expect(registry.select('refine', 'any').version).toBe(2);
+  });
+});
+
+describe('buildRefinementPrompt', () => {
+  beforeEach(() => {
+    promptRegistry.reset();
+  });
+
+  it('should render the built-in prompt with statistics and the first ten samples', () => {
+    const prompt = buildRefinementPrompt(request);
+
+    expect(prompt).toMatchObject({ name: 'refine', version: 1 });
+    expect(prompt.system).toContain('expert TypeScript and Zod schema developer');
+    expect(prompt.user).toContain('**Schema Name**: User');
+    expect(prompt.user).toContain('- email: z.string()');
+    expect(prompt.user).toContain('(computed over all 12 samples)');
+    expect(prompt.user).toContain('(showing 10 of 12 samples)');
+    expect(prompt.user).toContain('"note": "{{policy}}"');
+    expect(prompt.user).not.toContain('user10@example.com');
+    expect(prompt.user).toContain('Return ONLY valid JSON, no markdown.');
+  });
+
+  it('should render the version selected for the request', () => {
+    promptRegistry.addVersion('refine', { system: 'Short.', user: 'Refine {{typeName}} ({{sampleCount}} samples).' });
+
+    expect(buildRefinementPrompt({ ...request, prompt: { name: 'refine', version: 2 } })).toEqual({
+      name: 'refine',
+      version: 2,
+      system: 'Short.',
+      user: 'Refine User (12 samples).',
+      sampleReport: { sent: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9], total: 12, duplicates: 0, truncated: false },
+    });
+  });
+
+  it('should show identical samples once, the most varied first', () => {
+    const prompt = buildRefinementPrompt({
+      ...request,
+      samples: [
+        { email: 'a@example.com', note: 'x' },
+        { email: 'a@example.com', note: 'x' },
+        { email: 'b@example.com', note: 'y' },
+        { email: null, note: 'x' },
+      ],
+    });
+
+    expect(prompt.sampleReport).toEqual({ sent: [0, 3, 2], total: 4, duplicates: 1, truncated: false });
+    expect(prompt.user).toContain('(showing 3 of 4 samples)');
+  });
+
+  it('should fit the samples into the token budget', () => {
+    const samples = Array.from({ length: 10 }, (_, i) => ({ email: `user${i}@example.com`, note: `${'word '.repeat(60)}${i}` }));
+    const full = estimatePromptTokens(buildRefinementPrompt({ ...request, samples }));
+
+    const prompt = buildRefinementPrompt({ ...request, samples, tokenBudget: full - 200 });
+
+    expect(estimatePromptTokens(prompt)).toBeLessThanOrEqual(full - 200);
+    expect(prompt.sampleReport!.sent.length).toBeGreaterThan(0);
+    expect(prompt.sampleReport!.sent.length).toBeLessThan(10);
+    expect(prompt.sampleReport!.truncated).toBe(true);
+    expect(prompt.user).toContain('…[truncated ');
+  });
+});
@@ -397,4 +397,21 @@ describe('Anthropic Provider', () => {
       expect(limited[9].id).toBe(9);
     });
   });
+
+  describe('refineSchemaStream', () => {
+    it('should throw when ANTHROPIC_API_KEY is not set', async () => {
+      const { anthropicProvider } = await import('../../../lib/providers/anthropic-provider.js');
+      const request = {
+        schema: { code: 'z.object({})', typeName: 'Empty', fields: {} },
+        samples: [{}],
+      };
+
+      await expect(async () => {
+        for await (const _ of anthropicProvider.refineSchemaStream(request)) {
+          // Should not reach here
+        }
+      }).rejects.toThrow(ProviderError);
+    });
+  });
 });
+
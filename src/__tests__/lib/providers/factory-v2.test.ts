@@ -1,9 +1,16 @@
 // Tests for enhanced provider factory V2
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { ProviderFactoryV2 } from '../../../lib/providers/factory-v2.js';
 import { createMockProvider } from '../../../lib/providers/mock-provider.js';
+import { HeuristicProvider } from '../../../lib/providers/heuristic-provider.js';
+import { ProviderError } from '../../../lib/providers/base.js';
+import type { AIProvider, StreamChunk } from '../../../lib/providers/base.js';
+import { PiiBlockedError } from '../../../lib/pii.js';
+import { buildRefinementPrompt, promptRegistry } from '../../../lib/prompts.js';
+import { metricsCollector } from '../../../lib/providers/metrics.js';
+import { costTracker } from '../../../lib/providers/cost-tracker.js';
 import type { ProviderMetadata } from '../../../lib/providers/registry.js';
-import type { RefinementRequest } from '../../../types/index.js';
+import type { RefinementEvent, RefinementRequest } from '../../../types/index.js';
 
 describe('ProviderFactoryV2', () => {
   let factory: ProviderFactoryV2;
@@ -95,7 +102,9 @@ describe('ProviderFactoryV2', () => {
       // Second identical request should hit cache
       const result2 = await factory.refineSchema(mockRequest);
 
-      expect(result1).toEqual(result2);
+      // Same answer, without provider usage (a cache hit uses no tokens)
+      const { usage: _usage, ...fresh } = result1;
+      expect(result2).toEqual(fresh);
 
       const stats = factory.getCacheStats();
       expect(stats.totalHits).toBeGreaterThan(0);
@@ -208,6 +217,798 @@ describe('ProviderFactoryV2', () => {
     });
   });
 
+  describe('last-resort fallback', () => {
+    afterEach(() => {
+      factory.unregisterProvider('always-fails');
+      factory.unregisterProvider('heuristic');
+      factory.updateConfig({ enableFallback: true });
+    });
+
+    it('should use the last-resort provider when every other provider fails', async () => {
+      factory.registerProvider(
+        {
+          name: 'always-fails',
+          refineSchema: async () => {
+            throw new ProviderError('always-fails', 'Provider down');
+          },
+          checkHealth: async () => false,
+        },
+        createTestMetadata('always-fails', { priority: 100 })
+      );
+      factory.registerProvider(
+        new HeuristicProvider(),
+        createTestMetadata('heuristic', { priority: 10, costPerInputToken: 0, costPerOutputToken: 0 })
+      );
+      factory.updateConfig({ enableFallback: false, lastResortProvider: 'heuristic' });
+
+      const result = await factory.refineSchema({
+        ...mockRequest,
+        schema: { ...mockRequest.schema, typeName: 'LastResortUser' },
+        options: { provider: 'always-fails' as any },
+      });
+
+      expect(result.aiProvider).toBe('heuristic');
+    });
+
+    it('should not use the last-resort provider when it is disabled', async () => {
+      factory.registerProvider(
+        {
+          name: 'always-fails',
+          refineSchema: async () => {
+            throw new ProviderError('always-fails', 'Provider down');
+          },
+          checkHealth: async () => false,
+        },
+        createTestMetadata('always-fails', { priority: 100 })
+      );
+      factory.registerProvider(
+        new HeuristicProvider(),
+        createTestMetadata('heuristic', { priority: 10, enabled: false })
+      );
+      factory.updateConfig({ enableFallback: false, lastResortProvider: 'heuristic' });
+
+      await expect(
+        factory.refineSchema({
+          ...mockRequest,
+          schema: { ...mockRequest.schema, typeName: 'NoLastResortUser' },
+          options: { provider: 'always-fails' as any },
+        })
+      ).rejects.toThrow('Provider down');
+    });
+  });
+
+  describe('sample validation', () => {
+    afterEach(() => {
+      factory.unregisterProvider('email-guesser');
+    });
+
+    it('should reject improvements that break a sample', async () => {
+      factory.registerProvider(
+        createMockProvider({
+          responseTime: 0,
+          mockResponse: {
+            refinedSchema: {
+              code: 'z.object({ name: z.string().email() })',
+              improvements: [
+                {
+                  field: 'name',
+                  before: 'z.string()',
+                  after: 'z.string().email()',
+                  reason: 'Looks like an email',
+                  confidence: 0.6,
+                },
+              ],
+              confidence: 0.6,
+            },
+            aiProvider: 'mock',
+          },
+        }),
+        createTestMetadata('email-guesser', { priority: 200 })
+      );
+
+      const result = await factory.refineSchema({
+        ...mockRequest,
+        schema: { ...mockRequest.schema, typeName: 'SampleValidatedUser' },
+        options: { provider: 'email-guesser' as any },
+      });
+
+      expect(result.refinedSchema?.code).toBe('z.object({ name: z.string() })');
+      expect(result.refinedSchema?.improvements).toHaveLength(0);
+      expect(result.refinedSchema?.rejectedImprovements?.[0].failures[0]).toMatchObject({
+        sampleIndex: 0,
+        path: ['name'],
+      });
+    });
+  });
+
+  describe('PII policy', () => {
+    const piiRequest: RefinementRequest = {
+      schema: {
+        code: 'z.object({ email: z.string() })',
+        typeName: 'PiiUser',
+        fields: { email: 'z.string()' },
+      },
+      samples: [{ email: 'jane.doe@acme.io' }],
+    };
+
+    afterEach(() => {
+      factory.unregisterProvider('pii-recorder');
+    });
+
+    const registerRecorder = () => {
+      const provider = createMockProvider({ responseTime: 0 });
+      const spy = vi.spyOn(provider, 'refineSchema');
+      factory.registerProvider(provider, createTestMetadata('pii-recorder', { priority: 200 }));
+      return spy;
+    };
+
+    it('should redact samples before they reach the provider', async () => {
+      const spy = registerRecorder();
+
+      const result = await factory.refineSchema({
+        ...piiRequest,
+        options: { provider: 'pii-recorder' as any },
+      });
+
+      expect(spy.mock.calls[0][0].samples).toEqual([{ email: 'user1@example.com' }]);
+      expect(result.piiReport).toMatchObject({
+        policy: 'redact',
+        redacted: true,
+        findings: [{ field: 'email', type: 'email', count: 1 }],
+      });
+    });
+
+    it('should send samples unchanged with the allow policy', async () => {
+      const spy = registerRecorder();
+
+      const result = await factory.refineSchema(
+        { ...piiRequest, options: { provider: 'pii-recorder' as any } },
+        { piiPolicy: 'allow' }
+      );
+
+      expect(spy.mock.calls[0][0].samples).toEqual(piiRequest.samples);
+      expect(result.piiReport?.redacted).toBe(false);
+      expect(result.piiReport?.findings).toHaveLength(1);
+    });
+
+    it('should reject samples with the block policy', async () => {
+      const spy = registerRecorder();
+
+      await expect(
+        factory.refineSchema(
+          { ...piiRequest, options: { provider: 'pii-recorder' as any } },
+          { piiPolicy: 'block' }
+        )
+      ).rejects.toThrow(PiiBlockedError);
+      expect(spy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('field profiles', () => {
+    it('should return profiles computed over all samples', async () => {
+      const samples = Array.from({ length: 30 }, (_, i) => ({ name: `User${i % 3}` }));
+
+      const result = await factory.refineSchema({
+        ...mockRequest,
+        schema: { ...mockRequest.schema, typeName: 'ProfiledUser' },
+        samples,
+      });
+
+      expect(result.fieldProfiles?.name).toMatchObject({
+        presentCount: 30,
+        distinctCount: 3,
+        missingRate: 0,
+      });
+    });
+  });
+
+  describe('compatibility report', () => {
+    afterEach(() => {
+      factory.unregisterProvider('heuristic');
+    });
+
+    it('should classify improvements and list affected samples', async () => {
+      factory.registerProvider(
+        new HeuristicProvider(),
+        createTestMetadata('heuristic', { priority: 10, costPerInputToken: 0, costPerOutputToken: 0 })
+      );
+
+      const result = await factory.refineSchema(
+        {
+          schema: {
+            code: 'z.object({ email: z.string(), createdAt: z.string() })',
+            typeName: 'CompatibleUser',
+            fields: { email: 'z.string()', createdAt: 'z.string()' },
+          },
+          samples: [
+            { email: 'a@example.com', createdAt: '2025-10-22T10:00:00Z' },
+            { email: 'b@example.com', createdAt: '2025-10-23T11:30:00Z' },
+          ],
+          options: { provider: 'heuristic' },
+        },
+        {
+          piiPolicy: 'allow',
+          policy: { customerId: 'acme', packs: ['coerced-dates'], rules: [], updatedAt: '2025-10-22T10:00:00.000Z' },
+        }
+      );
+
+      const createdAt = result.compatibility?.improvements.find(({ field }) => field === 'createdAt');
+      expect(result.compatibility?.breaking).toBe(true);
+      expect(result.compatibility?.samplesAnalyzed).toBe(2);
+      expect(createdAt).toMatchObject({ classification: 'transform', affectedSamples: [0, 1] });
+      expect(result.compatibility?.affectedSamples[0]).toEqual({
+        index: 0,
+        effect: 'output-changed',
+        fields: ['createdAt'],
+      });
+    });
+  });
+
+  describe('explainPayloads', () => {
+    afterEach(() => {
+      factory.unregisterProvider('no-explain');
+      factory.unregisterProvider('explainer');
+    });
+
+    const explainRequest = {
+      schema: { code: 'z.object({ email: z.string().max(5), age: z.number() })', typeName: 'ExplainedUser' },
+      payloads: [{ email: 'jane.doe@acme.io', age: '42' }],
+    };
+
+    it('should skip providers that cannot explain and redact the values they receive', async () => {
+      const explainIssues = vi.fn(async () => ({
+        explanations: [{ issueIndex: 0, explanation: 'Too long.', fix: { target: 'data' as const, suggestion: 'Fix it.' } }],
+        summary: 'One payload is wrong.',
+        creditsUsed: 1,
+      }));
+      factory.registerProvider(createMockProvider({ responseTime: 0 }), createTestMetadata('no-explain', { priority: 300 }));
+      factory.registerProvider(
+        { name: 'explainer', refineSchema: vi.fn(), checkHealth: async () => true, explainIssues } as AIProvider,
+        createTestMetadata('explainer', { priority: 200 })
+      );
+
+      const result = await factory.explainPayloads(explainRequest);
+
+      expect(explainIssues).toHaveBeenCalledOnce();
+      const outbound = explainIssues.mock.calls[0][0] as any;
+      expect(outbound.issues.map((issue: any) => issue.path)).toEqual([['email'], ['age']]);
+      expect(outbound.issues[0].received).not.toBe('jane.doe@acme.io');
+      expect(result).toMatchObject({ summary: 'One payload is wrong.', creditsUsed: 1 });
+      expect(result.payloads?.[0].issues[0]).toMatchObject({ received: 'jane.doe@acme.io', explanation: 'Too long.' });
+      expect(result.payloads?.[0].issues[1]).toMatchObject({ received: '42', fix: { code: 'z.coerce.number()' } });
+    });
+
+    it('should not call a provider when every payload is valid', async () => {
+      const result = await factory.explainPayloads({ ...explainRequest, payloads: [{ email: 'a@b', age: 1 }] });
+
+      expect(result).toMatchObject({ creditsUsed: 0, payloads: [{ index: 0, valid: true, issues: [] }] });
+    });
+  });
+
+  describe('prompt versions', () => {
+    afterEach(() => {
+      factory.unregisterProvider('prompted');
+      promptRegistry.reset();
+      metricsCollector.clear();
+    });
+
+    it('should send the active version, report it and compare versions', async () => {
+      const refineSchema = vi.fn(async (request: RefinementRequest) => ({
+        refinedSchema: { code: request.schema.code, improvements: [], confidence: 0.8 },
+        prompt: request.prompt,
+        aiProvider: 'mock' as const,
+      }));
+      factory.registerProvider(
+        { name: 'prompted', refineSchema, checkHealth: async () => true } as AIProvider,
+        createTestMetadata('prompted', { priority: 300 })
+      );
+
+      const first = await factory.refineSchema(mockRequest);
+      promptRegistry.addVersion('refine', { system: 'Be brief.', user: 'Refine {{typeName}}.' }, true);
+      const second = await factory.refineSchema(mockRequest);
+
+      // A new active version is not answered from the cache of the old one
+      expect(refineSchema).toHaveBeenCalledTimes(2);
+      expect(refineSchema.mock.calls[1][0].prompt).toEqual({ name: 'refine', version: 2 });
+      expect(first.prompt).toEqual({ name: 'refine', version: 1 });
+      expect(second.prompt).toEqual({ name: 'refine', version: 2 });
+      expect(metricsCollector.getPromptComparison('refine')).toEqual([
+        expect.objectContaining({ version: 1, requests: 1, averageConfidence: 0.8 }),
+        expect.objectContaining({ version: 2, requests: 1, averageConfidence: 0.8 }),
+      ]);
+    });
+  });
+
+  describe('token usage', () => {
+    afterEach(() => {
+      factory.unregisterProvider('metered');
+    });
+
+    const register = (usage?: { inputTokens: number; outputTokens: number }) => {
+      const refineSchema = vi.fn(async (request: RefinementRequest) => ({
+        refinedSchema: { code: request.schema.code, improvements: [], confidence: 0.8 },
+        ...(usage ? { usage } : {}),
+        aiProvider: 'mock' as const,
+      }));
+      factory.registerProvider(
+        { name: 'metered', refineSchema, checkHealth: async () => true } as AIProvider,
+        createTestMetadata('metered', { priority: 300 })
+      );
+      return refineSchema;
+    };
+
+    it('should price the usage the provider reports and leave it out of cached responses', async () => {
+      register({ inputTokens: 1200, outputTokens: 300 });
+      const request = { ...mockRequest, schema: { ...mockRequest.schema, typeName: 'MeteredUser' } };
+
+      const result = await factory.refineSchema(request);
+
+      // $0.01 per 1K input tokens, $0.03 per 1K output tokens
+      expect(result.usage).toEqual({ inputTokens: 1200, outputTokens: 300, cost: expect.closeTo(0.021, 6) });
+      expect(costTracker.getEntriesByProvider('metered', 1)[0]).toMatchObject({ inputTokens: 1200, outputTokens: 300 });
+
+      const cached = await factory.refineSchema(request);
+      expect(cached.usage).toBeUndefined();
+    });
+
+    it('should estimate the usage from the rendered prompt when the provider reports none', async () => {
+      register();
+
+      const result = await factory.refineSchema({
+        ...mockRequest,
+        schema: { ...mockRequest.schema, typeName: 'EstimatedUser' },
+      });
+
+      expect(result.usage).toMatchObject({ estimated: true, cost: expect.any(Number) });
+      // The prompt's instructions alone are far longer than the schema code
+      expect(result.usage!.inputTokens).toBeGreaterThan(200);
+      expect(result.usage!.outputTokens).toBeGreaterThan(0);
+    });
+  });
+
+  describe('prompt budget', () => {
+    afterEach(() => {
+      factory.unregisterProvider('budgeted');
+    });
+
+    const fields = (prefix: string) => Array.from({ length: 30 }, (_, i) => `${prefix}${i}`);
+    const objectCode = (names: string[]) => `z.object({ ${names.map((name) => `${name}: z.string()`).join(', ')} })`;
+
+    it('should refine a schema too large for one prompt per nested object and merge the answers', async () => {
+      const refineSchema = vi.fn(async (request: RefinementRequest) => {
+        const [field] = Object.keys(request.schema.fields);
+        return {
+          refinedSchema: {
+            code: request.schema.code,
+            improvements: [{ field, before: 'z.string()', after: 'z.string().min(1)', reason: 'Never empty', confidence: 0.9 }],
+            confidence: 0.9,
+          },
+          promptSamples: buildRefinementPrompt(request).sampleReport,
+          aiProvider: 'mock' as const,
+        };
+      });
+      factory.registerProvider(
+        { name: 'budgeted', refineSchema, checkHealth: async () => true } as AIProvider,
+        createTestMetadata('budgeted', { priority: 300, maxTokensPerRequest: 4000 })
+      );
+
+      const customer = fields('c');
+      const item = fields('i');
+      const sample = (n: number) => ({
+        id: `order-${n}`,
+        customer: Object.fromEntries(customer.map((name) => [name, `${name}-${n}`])),
+        items: [Object.fromEntries(item.map((name) => [name, `${name}-${n}`]))],
+      });
+
+      const result = await factory.refineSchema({
+        schema: {
+          code: `export const OrderSchema = z.object({ id: z.string(), customer: ${objectCode(customer)}, items: z.array(${objectCode(item)}) });`,
+          typeName: 'Order',
+          fields: { id: 'z.string()', customer: 'z.object()', items: 'z.array()' },
+        },
+        samples: [sample(0), sample(1)],
+      });
+
+      expect(refineSchema).toHaveBeenCalledTimes(3);
+      expect(refineSchema.mock.calls.map(([request]) => request.schema.typeName)).toEqual(['Order', 'Order.customer', 'Order.items[]']);
+      expect(refineSchema.mock.calls.every(([request]) => request.tokenBudget === 2000)).toBe(true);
+
+      expect(result.refinedSchema!.improvements.map((improvement) => improvement.field)).toEqual(['id', 'customer.c0', 'items[].i0']);
+      expect(result.refinedSchema!.code).toContain('id: z.string().min(1)');
+      expect(result.refinedSchema!.code).toContain('c0: z.string().min(1)');
+      expect(result.refinedSchema!.code).toContain('i0: z.string().min(1)');
+      expect(result.promptSamples).toEqual({ sent: [0, 1], total: 2, duplicates: 0, truncated: false, schemaParts: 3 });
+    });
+
+    it('should send small schemas in one prompt with the provider budget', async () => {
+      const refineSchema = vi.fn(async (request: RefinementRequest) => ({
+        refinedSchema: { code: request.schema.code, improvements: [], confidence: 0.8 },
+        aiProvider: 'mock' as const,
+      }));
+      factory.registerProvider(
+        { name: 'budgeted', refineSchema, checkHealth: async () => true } as AIProvider,
+        createTestMetadata('budgeted', { priority: 300, maxTokensPerRequest: 8000 })
+      );
+
+      await factory.refineSchema({ ...mockRequest, schema: { ...mockRequest.schema, typeName: 'BudgetedUser' } });
+
+      expect(refineSchema).toHaveBeenCalledOnce();
+      expect(refineSchema.mock.calls[0][0]).toMatchObject({ tokenBudget: 6000, samples: mockRequest.samples });
+    });
+  });
+
+  describe('refinement events', () => {
+    afterEach(() => {
+      factory.unregisterProvider('always-fails');
+      factory.unregisterProvider('heuristic');
+      factory.updateConfig({ enableFallback: true });
+    });
+
+    it('should report provider selection, fallback and improvements', async () => {
+      factory.registerProvider(
+        {
+          name: 'always-fails',
+          refineSchema: async () => {
+            throw new ProviderError('always-fails', 'Provider down');
+          },
+          checkHealth: async () => false,
+        },
+        createTestMetadata('always-fails', { priority: 100 })
+      );
+      factory.registerProvider(
+        new HeuristicProvider(),
+        createTestMetadata('heuristic', { priority: 10, costPerInputToken: 0, costPerOutputToken: 0 })
+      );
+      factory.updateConfig({ enableFallback: false, lastResortProvider: 'heuristic' });
+
+      const events: RefinementEvent[] = [];
+      const result = await factory.refineSchema(
+        {
+          schema: {
+            code: 'z.object({ email: z.string() })',
+            typeName: 'EventUser',
+            fields: { email: 'z.string()' },
+          },
+          samples: [{ email: 'a@example.com' }],
+          options: { provider: 'always-fails' as any },
+        },
+        { piiPolicy: 'allow', onEvent: (event) => events.push(event) }
+      );
+
+      expect(events.slice(0, 3)).toEqual([
+        { type: 'provider_selected', provider: 'always-fails', attempt: 'primary' },
+        { type: 'fallback', from: 'always-fails', to: 'heuristic', reason: 'provider_error' },
+        { type: 'provider_selected', provider: 'heuristic', attempt: 'fallback' },
+      ]);
+      expect(events.slice(3)).toEqual(
+        result.refinedSchema!.improvements.map((improvement) => ({ type: 'improvement', improvement }))
+      );
+      expect(events.length).toBeGreaterThan(3);
+    });
+  });
+
+  describe('refineSchemaStream', () => {
+    const streamRequest = (typeName: string, provider: string): RefinementRequest => ({
+      schema: {
+        code: 'z.object({ email: z.string() })',
+        typeName,
+        fields: { email: 'z.string()' },
+      },
+      samples: [{ email: 'a@example.com' }],
+      options: { provider: provider as any },
+    });
+
+    const improvement = {
+      field: 'email',
+      before: 'z.string()',
+      after: 'z.string().email()',
+      reason: 'Email',
+      confidence: 0.9,
+    };
+
+    /** Provider streaming one improvement, optionally failing before or after its first chunk */
+    const streamingProvider = (name: string, failAt?: 'start' | 'middle'): AIProvider => ({
+      name,
+      refineSchema: async () => {
+        throw new Error('refineSchema should not be called');
+      },
+      async *refineSchemaStream() {
+        if (failAt === 'start') {
+          throw new ProviderError(name, `${name} API error: unavailable`);
+        }
+        yield { delta: '{"improvements":[', done: false };
+        yield { delta: '', done: false, metadata: { improvement } };
+        if (failAt === 'middle') {
+          throw new ProviderError(name, `${name} API error: connection reset`);
+        }
+        yield {
+          delta: '',
+          done: true,
+          metadata: {
+            result: {
+              refinedSchema: { code: 'z.object({ email: z.string().email() })', improvements: [improvement], confidence: 0.9 },
+              creditsUsed: 1,
+              aiProvider: name,
+            },
+          },
+        };
+      },
+      checkHealth: async () => true,
+    });
+
+    const collect = async (stream: AsyncIterableIterator<StreamChunk>) => {
+      const chunks: StreamChunk[] = [];
+      for await (const chunk of stream) {
+        chunks.push(chunk);
+      }
+      return chunks;
+    };
+
+    afterEach(() => {
+      for (const name of ['stream-ok', 'stream-down', 'stream-broken', 'stream-backup', 'heuristic']) {
+        factory.unregisterProvider(name);
+      }
+      factory.updateConfig({ enableFallback: true });
+    });
+
+    it('should yield improvements before the final result', async () => {
+      factory.registerProvider(streamingProvider('stream-ok'), createTestMetadata('stream-ok', { priority: 200 }));
+
+      const chunks = await collect(factory.refineSchemaStream(streamRequest('StreamOkUser', 'stream-ok'), { piiPolicy: 'allow' }));
+      const last = chunks[chunks.length - 1];
+
+      expect(chunks.find((chunk) => chunk.metadata?.improvement)?.metadata?.improvement).toEqual(improvement);
+      expect(last.done).toBe(true);
+      expect(last.metadata?.result).toMatchObject({ aiProvider: 'stream-ok', fieldProfiles: { email: expect.any(Object) } });
+      expect(last.metadata?.result.refinedSchema.improvements).toEqual([improvement]);
+    });
+
+    it('should retract streamed improvements that sample validation rejects', async () => {
+      factory.registerProvider(streamingProvider('stream-ok'), createTestMetadata('stream-ok', { priority: 200 }));
+
+      const chunks = await collect(
+        factory.refineSchemaStream(
+          { ...streamRequest('StreamRetractedUser', 'stream-ok'), samples: [{ email: 'not an email' }] },
+          { piiPolicy: 'allow' }
+        )
+      );
+      const retractedAt = chunks.findIndex((chunk) => chunk.metadata?.retracted);
+      const last = chunks[chunks.length - 1];
+
+      expect(retractedAt).toBe(chunks.length - 2);
+      expect(chunks[retractedAt].metadata?.retracted).toEqual([improvement]);
+      expect(last.metadata?.result.refinedSchema.improvements).toEqual([]);
+      expect(last.metadata?.result.refinedSchema.rejectedImprovements).toMatchObject([{ field: 'email' }]);
+    });
+
+    it('should track costs and cache the result', async () => {
+      factory.registerProvider(streamingProvider('stream-ok'), createTestMetadata('stream-ok', { priority: 200 }));
+      const costsBefore = factory.getCostSummary().totalRequests;
+
+      await collect(factory.refineSchemaStream(streamRequest('StreamCachedUser', 'stream-ok'), { piiPolicy: 'allow' }));
+      expect(factory.getCostSummary().totalRequests).toBe(costsBefore + 1);
+
+      factory.unregisterProvider('stream-ok');
+      const cached = await collect(factory.refineSchemaStream(streamRequest('StreamCachedUser', 'stream-ok'), { piiPolicy: 'allow' }));
+
+      expect(cached.filter((chunk) => chunk.metadata?.improvement)).toHaveLength(1);
+      expect(cached[cached.length - 1].metadata?.result.aiProvider).toBe('stream-ok');
+    });
+
+    it('should fall back when a stream fails before its first chunk', async () => {
+      factory.registerProvider(streamingProvider('stream-down', 'start'), createTestMetadata('stream-down', { priority: 300 }));
+      factory.registerProvider(streamingProvider('stream-backup'), createTestMetadata('stream-backup', { priority: 250 }));
+
+      const events: RefinementEvent[] = [];
+      const chunks = await collect(
+        factory.refineSchemaStream(streamRequest('StreamFallbackUser', 'stream-down'), {
+          piiPolicy: 'allow',
+          onEvent: (event) => events.push(event),
+        })
+      );
+
+      expect(chunks[chunks.length - 1].metadata?.result.aiProvider).toBe('stream-backup');
+      expect(events).toContainEqual({ type: 'fallback', from: 'stream-down', to: 'stream-backup', reason: 'provider_error' });
+    });
+
+    it('should not fall back once chunks were sent', async () => {
+      factory.registerProvider(streamingProvider('stream-broken', 'middle'), createTestMetadata('stream-broken', { priority: 300 }));
+      factory.registerProvider(streamingProvider('stream-backup'), createTestMetadata('stream-backup', { priority: 250 }));
+
+      await expect(
+        collect(factory.refineSchemaStream(streamRequest('StreamBrokenUser', 'stream-broken'), { piiPolicy: 'allow' }))
+      ).rejects.toThrow('connection reset');
+    });
+
+    it('should refine normally with providers that cannot stream', async () => {
+      factory.registerProvider(
+        new HeuristicProvider(),
+        createTestMetadata('heuristic', { priority: 10, costPerInputToken: 0, costPerOutputToken: 0 })
+      );
+
+      const chunks = await collect(factory.refineSchemaStream(streamRequest('StreamHeuristicUser', 'heuristic'), { piiPolicy: 'allow' }));
+      const result = chunks[chunks.length - 1].metadata?.result;
+
+      expect(result.aiProvider).toBe('heuristic');
+      expect(chunks.filter((chunk) => chunk.metadata?.improvement).map((chunk) => chunk.metadata!.improvement)).toEqual(
+        result.refinedSchema.improvements
+      );
+    });
+  });
+
+  describe('session feedback', () => {
+    afterEach(() => {
+      factory.unregisterProvider('heuristic');
+    });
+
+    it('should drop improvements the caller already rejected', async () => {
+      factory.registerProvider(
+        new HeuristicProvider(),
+        createTestMetadata('heuristic', { priority: 10, costPerInputToken: 0, costPerOutputToken: 0 })
+      );
+
+      const result = await factory.refineSchema(
+        {
+          schema: {
+            code: 'z.object({ email: z.string(), id: z.string() })',
+            typeName: 'FeedbackUser',
+            fields: { email: 'z.string()', id: 'z.string()' },
+          },
+          samples: [
+            { email: 'a@example.com', id: '550e8400-e29b-41d4-a716-446655440000' },
+            { email: 'b@example.com', id: '6ba7b810-9dad-11d1-80b4-00c04fd430c8' },
+          ],
+          options: { provider: 'heuristic' },
+          feedback: { accepted: [], rejected: [{ field: 'id', after: 'z.string().uuid()' }] },
+        },
+        { piiPolicy: 'allow' }
+      );
+
+      const fields = result.refinedSchema.improvements.map(({ field }) => field);
+      expect(fields).toContain('email');
+      expect(fields).not.toContain('id');
+      expect(result.refinedSchema.code).not.toContain('uuid()');
+    });
+  });
+
+  describe('customer policies', () => {
+    afterEach(() => {
+      factory.unregisterProvider('heuristic');
+    });
+
+    it('should rewrite improvements that break the policy and report them', async () => {
+      factory.registerProvider(
+        new HeuristicProvider(),
+        createTestMetadata('heuristic', { priority: 10, costPerInputToken: 0, costPerOutputToken: 0 })
+      );
+
+      const result = await factory.refineSchema(
+        {
+          schema: {
+            code: 'z.object({ email: z.string(), createdAt: z.string() })',
+            typeName: 'PolicyUser',
+            fields: { email: 'z.string()', createdAt: 'z.string()' },
+          },
+          samples: [
+            { email: 'a@example.com', createdAt: '2025-10-22T10:00:00Z' },
+            { email: 'b@example.com', createdAt: '2025-10-23T11:30:00Z' },
+          ],
+          options: { provider: 'heuristic' },
+        },
+        {
+          piiPolicy: 'allow',
+          policy: {
+            customerId: 'acme',
+            packs: ['strict-contracts', 'coerced-dates'],
+            rules: [],
+            updatedAt: '2025-10-22T10:00:00.000Z',
+          },
+        }
+      );
+
+      const createdAt = result.refinedSchema.improvements.find(({ field }) => field === 'createdAt');
+      expect(createdAt?.after).toBe('z.coerce.date()');
+      expect(result.refinedSchema.code).toContain('createdAt: z.coerce.date()');
+      expect(result.refinedSchema.code).toMatch(/\}\)\.strict\(\)$/);
+      expect(result.policyReport).toMatchObject({
+        customerId: 'acme',
+        packs: ['strict-contracts', 'coerced-dates'],
+        rules: 3,
+        violations: [expect.objectContaining({ field: 'createdAt', rule: 'date-type', action: 'rewritten' })],
+      });
+    });
+  });
+
+  describe('consensus mode', () => {
+    const consensusRequest = (typeName: string): RefinementRequest => ({
+      schema: {
+        code: 'z.object({ email: z.string(), age: z.number() })',
+        typeName,
+        fields: { email: 'z.string()', age: 'z.number()' },
+      },
+      samples: [{ email: 'a@example.com', age: 30 }],
+      options: { mode: 'consensus' },
+    });
+
+    const answer = (improvements: Array<[string, string, number]>) =>
+      createMockProvider({
+        responseTime: 0,
+        mockResponse: {
+          refinedSchema: {
+            code: '',
+            improvements: improvements.map(([field, after, confidence]) => ({
+              field,
+              before: field === 'age' ? 'z.number()' : 'z.string()',
+              after,
+              reason: 'test',
+              confidence,
+            })),
+            confidence: 0.8,
+          },
+          creditsUsed: 1,
+          aiProvider: 'mock',
+        },
+      });
+
+    const failing = (name: string): AIProvider => ({
+      name,
+      refineSchema: async () => {
+        throw new ProviderError(name, `${name} API error: down`);
+      },
+      checkHealth: async () => false,
+    });
+
+    afterEach(() => {
+      for (const name of ['cons-a', 'cons-b', 'cons-c']) {
+        factory.unregisterProvider(name);
+      }
+    });
+
+    it('should merge answers from several providers', async () => {
+      factory.registerProvider(
+        answer([['email', 'z.string().email()', 0.8], ['age', 'z.number().int()', 0.7]]),
+        createTestMetadata('cons-a', { priority: 1003 })
+      );
+      factory.registerProvider(answer([['email', 'z.string().email()', 0.9]]), createTestMetadata('cons-b', { priority: 1002 }));
+      factory.registerProvider(answer([['email', 'z.string().url()', 0.6]]), createTestMetadata('cons-c', { priority: 1001 }));
+
+      const result = await factory.refineSchema(consensusRequest('ConsensusUser'), { piiPolicy: 'allow' });
+
+      expect(result.aiProvider).toBe('consensus');
+      expect(result.refinedSchema?.improvements).toEqual([
+        expect.objectContaining({ field: 'email', after: 'z.string().email()', confidence: 0.98, backedBy: ['cons-a', 'cons-b'] }),
+      ]);
+      expect(result.refinedSchema?.code).toContain('email: z.string().email()');
+      expect(result.refinedSchema?.code).toContain('age: z.number()');
+      expect(result.consensus?.quorum).toBe(2);
+      expect(result.consensus?.disagreements.map((d) => d.field).sort()).toEqual(['age', 'email']);
+      expect(result.creditsUsed).toBe(3);
+    });
+
+    it('should work with a failed participant as long as two answered', async () => {
+      factory.registerProvider(answer([['email', 'z.string().email()', 0.8]]), createTestMetadata('cons-a', { priority: 1003 }));
+      factory.registerProvider(answer([['email', 'z.string().email()', 0.8]]), createTestMetadata('cons-b', { priority: 1002 }));
+      factory.registerProvider(failing('cons-c'), createTestMetadata('cons-c', { priority: 1001 }));
+
+      const result = await factory.refineSchema(consensusRequest('ConsensusPartialUser'), { piiPolicy: 'allow' });
+
+      expect(result.refinedSchema?.improvements[0].backedBy).toEqual(['cons-a', 'cons-b']);
+      expect(result.consensus?.providers).toContainEqual(
+        expect.objectContaining({ provider: 'cons-c', success: false })
+      );
+    });
+
+    it('should fail when fewer than two providers answered', async () => {
+      factory.registerProvider(answer([['email', 'z.string().email()', 0.8]]), createTestMetadata('cons-a', { priority: 1003 }));
+      factory.registerProvider(failing('cons-b'), createTestMetadata('cons-b', { priority: 1002 }));
+      factory.registerProvider(failing('cons-c'), createTestMetadata('cons-c', { priority: 1001 }));
+
+      await expect(
+        factory.refineSchema(consensusRequest('ConsensusFailedUser'), { piiPolicy: 'allow' })
+      ).rejects.toThrow('at least two providers');
+    });
+  });
+
   describe('checkAllProviders', () => {
     it('should check health of all providers', async () => {
       const provider1 = createMockProvider({ successRate: 1.0 });
@@ -0,0 +1,163 @@
+// Tests for heuristic (offline) provider
+import { describe, it, expect } from 'vitest';
+import { HeuristicProvider } from '../../../lib/providers/heuristic-provider.js';
+import type { RefinementRequest } from '../../../types/index.js';
+
+describe('HeuristicProvider', () => {
+  const provider = new HeuristicProvider();
+
+  const buildRequest = (fields: Record<string, string>, samples: any[]): RefinementRequest => ({
+    schema: {
+      code: `z.object({ ${Object.entries(fields)
+        .map(([field, type]) => `${field}: ${type}`)
+        .join(', ')} })`,
+      typeName: 'Record',
+      fields,
+    },
+    samples,
+  });
+
+  const findImprovement = async (fields: Record<string, string>, samples: any[], field: string) => {
+    const result = await provider.refineSchema(buildRequest(fields, samples));
+    return result.refinedSchema!.improvements.find((imp) => imp.field === field);
+  };
+
+  it('should detect emails', async () => {
+    const improvement = await findImprovement(
+      { email: 'z.string()' },
+      [{ email: 'alice@example.com' }, { email: 'bob@test.org' }],
+      'email'
+    );
+
+    expect(improvement?.after).toBe('z.string().email()');
+    expect(improvement?.detectedPattern).toBe('email_format');
+    expect(improvement?.ruleApplied).toBe('RFC5322_email');
+  });
+
+  it('should detect UUIDs', async () => {
+    const improvement = await findImprovement(
+      { id: 'z.string()' },
+      [{ id: '3f1c2a4e-8b7d-4c6a-9e2f-1a2b3c4d5e6f' }],
+      'id'
+    );
+
+    expect(improvement?.after).toBe('z.string().uuid()');
+  });
+
+  it('should detect ISO-8601 datetimes and dates', async () => {
+    const datetime = await findImprovement(
+      { createdAt: 'z.string()' },
+      [{ createdAt: '2024-01-15T10:30:00Z' }, { createdAt: '2024-02-01T08:00:00.123+02:00' }],
+      'createdAt'
+    );
+    const date = await findImprovement(
+      { birthday: 'z.string()' },
+      [{ birthday: '1990-05-17' }],
+      'birthday'
+    );
+
+    expect(datetime?.detectedPattern).toBe('iso8601_datetime');
+    expect(date?.after).toBe('z.string().date()');
+  });
+
+  it('should detect URLs', async () => {
+    const improvement = await findImprovement(
+      { website: 'z.string()' },
+      [{ website: 'https://example.com' }, { website: 'http://test.org/path?q=1' }],
+      'website'
+    );
+
+    expect(improvement?.after).toBe('z.string().url()');
+  });
+
+  it('should detect integers but leave floats alone', async () => {
+    const integer = await findImprovement({ age: 'z.number()' }, [{ age: 28 }, { age: 35 }], 'age');
+    const float = await findImprovement({ price: 'z.number()' }, [{ price: 9.99 }, { price: 10 }], 'price');
+
+    expect(integer?.after).toBe('z.number().int()');
+    expect(float).toBeUndefined();
+  });
+
+  it('should detect enums by cardinality', async () => {
+    const improvement = await findImprovement(
+      { status: 'z.string()' },
+      ['active', 'inactive', 'active', 'active', 'inactive', 'active'].map((status) => ({ status })),
+      'status'
+    );
+
+    expect(improvement?.after).toBe("z.enum(['active', 'inactive'])");
+    expect(improvement?.detectedPattern).toBe('enum');
+  });
+
+  it('should drop string-only checks when switching to an enum', async () => {
+    const statuses = ['active', 'inactive', 'active', 'active', 'inactive', 'active'];
+    const required = await findImprovement(
+      { status: 'z.string().min(1)' },
+      statuses.map((status) => ({ status })),
+      'status'
+    );
+    const optional = await findImprovement(
+      { status: "z.string().trim().regex(/^[a-z]+$/).optional().default('active')" },
+      statuses.map((status) => ({ status })),
+      'status'
+    );
+
+    expect(required?.after).toBe("z.enum(['active', 'inactive'])");
+    expect(optional?.after).toBe("z.enum(['active', 'inactive']).optional().default('active')");
+  });
+
+  it('should add length bounds for free text', async () => {
+    const improvement = await findImprovement(
+      { name: 'z.string()' },
+      [{ name: 'Al' }, { name: 'Bob' }, { name: 'Charlotte' }],
+      'name'
+    );
+
+    expect(improvement?.after).toBe('z.string().min(2).max(9)');
+  });
+
+  it('should preserve trailing modifiers', async () => {
+    const improvement = await findImprovement(
+      { email: 'z.string().optional()' },
+      [{ email: 'alice@example.com' }, {}],
+      'email'
+    );
+
+    expect(improvement?.after).toBe('z.string().email().optional()');
+  });
+
+  it('should not repeat a format method the chain already calls', async () => {
+    const datetimes = [{ createdAt: '2024-01-15T10:30:00Z' }, { createdAt: '2024-02-01T08:00:00.123+02:00' }];
+
+    for (const type of [
+      'z.string().datetime({ offset: true })',
+      'z.string().datetime({offset:true}).optional()',
+      'z.string().min(1).datetime()',
+    ]) {
+      expect(await findImprovement({ createdAt: type }, datetimes, 'createdAt')).toBeUndefined();
+    }
+
+    const email = await findImprovement(
+      { email: "z.string().trim().email({ message: 'Invalid email' })" },
+      [{ email: 'alice@example.com' }],
+      'email'
+    );
+    const age = await findImprovement({ age: 'z.number().positive().int()' }, [{ age: 28 }], 'age');
+
+    expect(email).toBeUndefined();
+    expect(age).toBeUndefined();
+  });
+
+  it('should apply improvements to the schema code', async () => {
+    const result = await provider.refineSchema(
+      buildRequest({ email: 'z.string()', age: 'z.number()' }, [{ email: 'a@b.co', age: 3 }])
+    );
+
+    expect(result.refinedSchema?.code).toBe('z.object({ email: z.string().email(), age: z.number().int() })');
+    expect(result.aiProvider).toBe('heuristic');
+  });
+
+  it('should always be healthy', async () => {
+    expect(await provider.checkHealth()).toBe(true);
+  });
+});
@@ -210,6 +210,47 @@ describe('MetricsCollector', () => {
     });
   });
 
+  describe('getPromptComparison', () => {
+    it('should compare confidence and acceptance per version', () => {
+      collector.recordPromptOutcome({ name: 'refine', version: 2 }, 'openai', 0.9, 4);
+      collector.recordPromptOutcome({ name: 'refine', version: 1 }, 'openai', 0.5, 1);
+      collector.recordPromptOutcome({ name: 'refine', version: 1 }, 'anthropic', 0.9, 3);
+      collector.recordPromptFeedback({ name: 'refine', version: 1 }, 1, 3);
+      collector.recordPromptFeedback({ name: 'refine', version: 2 }, 3, 1);
+      collector.recordPromptOutcome({ name: 'explain', version: 1 }, 'openai', 0, 0);
+
+      expect(collector.getPromptComparison('refine')).toEqual([
+        {
+          name: 'refine',
+          version: 1,
+          requests: 2,
+          averageConfidence: 0.7,
+          averageImprovements: 2,
+          accepted: 1,
+          rejected: 3,
+          acceptanceRate: 0.25,
+        },
+        {
+          name: 'refine',
+          version: 2,
+          requests: 1,
+          averageConfidence: 0.9,
+          averageImprovements: 4,
+          accepted: 3,
+          rejected: 1,
+          acceptanceRate: 0.75,
+        },
+      ]);
+    });
+
+    it('should return no versions without outcomes', () => {
+      collector.recordPromptOutcome({ name: 'refine', version: 1 }, 'openai', 0.9, 1);
+
+      expect(collector.getPromptComparison('refine', new Date(Date.now() + 1000))).toEqual([]);
+      expect(collector.getPromptComparison('explain')).toEqual([]);
+    });
+  });
+
   describe('clear', () => {
     it('should clear all metrics', () => {
       collector.record('openai', true, 1000);
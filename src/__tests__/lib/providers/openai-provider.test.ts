@@ -1,6 +1,16 @@
 // OpenAI provider tests
-import { describe, it, expect } from 'vitest';
-import { ProviderError } from '../../../lib/providers/base.js';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ProviderError, ProviderOutputError } from '../../../lib/providers/base.js';
+import { OpenAIProvider } from '../../../lib/providers/openai-provider.js';
+import type { StreamChunk } from '../../../lib/providers/base.js';
+
+const { mockCreate } = vi.hoisted(() => ({ mockCreate: vi.fn() }));
+
+vi.mock('openai', () => ({
+  default: class {
+    chat = { completions: { create: mockCreate } };
+  },
+}));
 
 describe('OpenAI Provider', () => {
   describe('buildPrompt helper', () => {
@@ -455,4 +465,205 @@ describe('OpenAI Provider', () => {
       expect(healthCheckTokens).toBe(5);
     });
   });
+
+  describe('refineSchemaStream', () => {
+    const request = {
+      schema: {
+        code: 'z.object({ email: z.string(), age: z.number() })',
+        typeName: 'StreamedUser',
+        fields: { email: 'z.string()', age: 'z.number()' },
+      },
+      samples: [{ email: 'a@example.com', age: 30 }],
+    };
+
+    const output = JSON.stringify({
+      improvements: [
+        { field: 'email', before: 'z.string()', after: 'z.string().email()', reason: 'Email', confidence: 0.9 },
+        { field: 'age', before: 'z.number()', after: 'z.number().int()', reason: 'Integer', confidence: 0.8 },
+      ],
+      suggestions: ['Add defaults'],
+    });
+
+    /** SDK stream yielding the output in small pieces */
+    async function* completionChunks(text: string) {
+      for (let i = 0; i < text.length; i += 8) {
+        yield { choices: [{ delta: { content: text.slice(i, i + 8) } }] };
+      }
+      yield { choices: [], usage: { prompt_tokens: 500, completion_tokens: 120 } };
+    }
+
+    beforeEach(() => {
+      mockCreate.mockReset();
+    });
+
+    it('should yield improvements while streaming and the result at the end', async () => {
+      mockCreate.mockResolvedValue(completionChunks(output));
+
+      const chunks: StreamChunk[] = [];
+      for await (const chunk of new OpenAIProvider().refineSchemaStream(request)) {
+        chunks.push(chunk);
+      }
+
+      expect(mockCreate.mock.calls[0][0]).toMatchObject({
+        stream: true,
+        stream_options: { include_usage: true },
+        response_format: { type: 'json_schema', json_schema: { name: 'submit_schema_refinement' } },
+      });
+
+      const improvementChunks = chunks.filter((chunk) => chunk.metadata?.improvement);
+      expect(improvementChunks.map((chunk) => chunk.metadata!.improvement.field)).toEqual(['email', 'age']);
+
+      // The first improvement arrives before the stream is over
+      expect(chunks.indexOf(improvementChunks[0])).toBeLessThan(chunks.length - 10);
+      expect(chunks.map((chunk) => chunk.delta).join('')).toBe(output);
+
+      const last = chunks[chunks.length - 1];
+      expect(last.done).toBe(true);
+      expect(last.metadata?.result.refinedSchema.code).toContain('z.string().email()');
+      expect(last.metadata?.result.refinedSchema.code).toContain('z.number().int()');
+      expect(last.metadata?.result.suggestions).toEqual(['Add defaults']);
+      expect(last.metadata?.result.usage).toEqual({ inputTokens: 500, outputTokens: 120 });
+    });
+
+    it('should throw a ProviderError when the stream fails', async () => {
+      mockCreate.mockRejectedValue(new Error('connection reset'));
+
+      await expect(async () => {
+        for await (const _ of new OpenAIProvider().refineSchemaStream(request)) {
+          // Should not reach here
+        }
+      }).rejects.toThrow(ProviderError);
+    });
+  });
+
+  describe('refineSchema output validation', () => {
+    const request = {
+      schema: {
+        code: 'z.object({ email: z.string(), age: z.number() })',
+        typeName: 'RepairedUser',
+        fields: { email: 'z.string()', age: 'z.number()' },
+      },
+      samples: [{ email: 'a@example.com', age: 30 }],
+    };
+
+    const output = JSON.stringify({
+      improvements: [
+        { field: 'email', before: 'z.string()', after: 'z.string().email()', reason: 'Email', confidence: 0.9 },
+        { field: 'age', before: 'z.number()', after: 'z.number().int()', reason: 'Integer', confidence: 0.8 },
+      ],
+    });
+
+    beforeEach(() => {
+      mockCreate.mockReset();
+    });
+
+    it('should ask once for a repair when the output does not match the expected shape', async () => {
+      const invalid = JSON.stringify({ improvements: [{ field: 'email', after: 'z.string().email()' }] });
+      mockCreate
+        .mockResolvedValueOnce({ choices: [{ message: { content: invalid } }], usage: { prompt_tokens: 800, completion_tokens: 40 } })
+        .mockResolvedValueOnce({ choices: [{ message: { content: output } }], usage: { prompt_tokens: 900, completion_tokens: 110 } });
+
+      const result = await new OpenAIProvider().refineSchema(request);
+
+      expect(result.refinedSchema?.improvements.map((improvement) => improvement.field)).toEqual(['email', 'age']);
+      // The repair request counts too
+      expect(result.usage).toEqual({ inputTokens: 1700, outputTokens: 150 });
+      expect(mockCreate).toHaveBeenCalledTimes(2);
+
+      const { messages } = mockCreate.mock.calls[1][0];
+      expect(messages).toHaveLength(4);
+      expect(messages[2]).toEqual({ role: 'assistant', content: invalid });
+      expect(messages[3].content).toContain('- improvements[0].before: ');
+    });
+
+    it('should throw a ProviderOutputError when the repaired output is still invalid', async () => {
+      mockCreate.mockResolvedValue({ choices: [{ message: { content: '{"improvements": "none"}' } }] });
+
+      await expect(new OpenAIProvider().refineSchema(request)).rejects.toThrow(ProviderOutputError);
+      expect(mockCreate).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('explainIssues output validation', () => {
+    const request = {
+      schema: { code: 'z.object({ age: z.number() })', typeName: 'ExplainedUser' },
+      issues: [
+        { payloadIndex: 0, path: ['age'], code: 'invalid_type', message: 'Invalid input: expected number, received string', received: '42' },
+      ],
+    };
+
+    beforeEach(() => {
+      mockCreate.mockReset();
+    });
+
+    it('should ask once for a repair when the explanations do not match the expected shape', async () => {
+      const invalid = JSON.stringify({ explanations: [{ issue: 0, explanation: '"age" must be a number.' }] });
+      const repaired = JSON.stringify({
+        explanations: [
+          { issue: 0, explanation: '"age" must be a number.', fix: { target: 'schema', suggestion: 'Coerce it.', code: 'z.coerce.number()' } },
+        ],
+      });
+      mockCreate
+        .mockResolvedValueOnce({ choices: [{ message: { content: invalid } }], usage: { prompt_tokens: 300, completion_tokens: 20 } })
+        .mockResolvedValueOnce({ choices: [{ message: { content: repaired } }], usage: { prompt_tokens: 350, completion_tokens: 40 } });
+
+      const result = await new OpenAIProvider().explainIssues(request);
+
+      expect(result.explanations).toEqual([
+        { issueIndex: 0, explanation: '"age" must be a number.', fix: { target: 'schema', suggestion: 'Coerce it.', code: 'z.coerce.number()' } },
+      ]);
+      expect(result.usage).toEqual({ inputTokens: 650, outputTokens: 60 });
+      expect(mockCreate.mock.calls[1][0].messages[3].content).toContain('- explanations[0].fix: ');
+    });
+
+    it('should throw a ProviderOutputError when the repaired explanations are still invalid', async () => {
+      mockCreate.mockResolvedValue({ choices: [{ message: { content: 'Sorry, I cannot help with that.' } }] });
+
+      await expect(new OpenAIProvider().explainIssues(request)).rejects.toThrow(ProviderOutputError);
+      expect(mockCreate).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('refineSchema structured output', () => {
+    const request = {
+      schema: { code: 'z.object({ email: z.string() })', typeName: 'StructuredUser', fields: { email: 'z.string()' } },
+      samples: [{ email: 'a@example.com' }],
+      options: { model: 'gpt-legacy' },
+    };
+
+    const output = JSON.stringify({
+      improvements: [{ field: 'email', before: 'z.string()', after: 'z.string().email()', reason: 'Email', confidence: 0.9 }],
+    });
+
+    beforeEach(() => {
+      mockCreate.mockReset();
+    });
+
+    it('should fall back to JSON mode for models that reject the JSON Schema format', async () => {
+      const unsupported = Object.assign(new Error("Invalid parameter: 'response_format' of type 'json_schema' is not supported"), {
+        status: 400,
+      });
+      mockCreate
+        .mockRejectedValueOnce(unsupported)
+        .mockResolvedValue({ choices: [{ message: { content: output } }] });
+
+      const provider = new OpenAIProvider();
+      const result = await provider.refineSchema(request);
+
+      expect(result.refinedSchema?.code).toContain('z.string().email()');
+      expect(mockCreate.mock.calls.map(([params]) => params.response_format.type)).toEqual(['json_schema', 'json_object']);
+      expect(mockCreate.mock.calls[0][0].response_format.json_schema.strict).toBe(true);
+
+      // The model is remembered
+      await provider.refineSchema(request);
+      expect(mockCreate.mock.calls[2][0].response_format).toEqual({ type: 'json_object' });
+    });
+
+    it('should not fall back on other errors', async () => {
+      mockCreate.mockRejectedValue(Object.assign(new Error('Rate limit reached'), { status: 429 }));
+
+      await expect(new OpenAIProvider().refineSchema({ ...request, options: { model: 'gpt-4o' } })).rejects.toThrow(ProviderError);
+      expect(mockCreate).toHaveBeenCalledOnce();
+    });
+  });
 });
@@ -0,0 +1,143 @@
+// Tests for provider output validation and repair
+import { describe, it, expect, vi } from 'vitest';
+import { ProviderError, ProviderOutputError } from '../../../lib/providers/base.js';
+import {
+  buildRepairPrompt,
+  extractJson,
+  REFINEMENT_OUTPUT_JSON_SCHEMA,
+  REFINEMENT_OUTPUT_STRICT_JSON_SCHEMA,
+  RefinementOutputSchema,
+  validateModelOutput,
+  validateWithRepair,
+} from '../../../lib/providers/output-validation.js';
+
+const improvement = { field: 'email', before: 'z.string()', after: 'z.string().email()', reason: 'Email', confidence: 0.9 };
+
+describe('extractJson', () => {
+  it('should take the content of a markdown code fence', () => {
+    expect(extractJson('```json\n{"a": 1}\n```')).toBe('{"a": 1}');
+    expect(extractJson('Here you go:\n```\n{"a": 1}\n```\nAnything else?')).toBe('{"a": 1}');
+  });
+
+  it('should cut prose around the outermost object', () => {
+    expect(extractJson('Sure! {"a": {"b": 1}} Hope this helps.')).toBe('{"a": {"b": 1}}');
+    expect(extractJson('  {"a": 1}  ')).toBe('{"a": 1}');
+  });
+});
+
+describe('REFINEMENT_OUTPUT_JSON_SCHEMA', () => {
+  it('should describe the refinement answer with only the improvements required', () => {
+    expect(REFINEMENT_OUTPUT_JSON_SCHEMA).toMatchObject({ type: 'object', required: ['improvements'] });
+    expect(REFINEMENT_OUTPUT_JSON_SCHEMA).not.toHaveProperty('$schema');
+
+    const improvement = (REFINEMENT_OUTPUT_JSON_SCHEMA as any).properties.improvements.items;
+    expect(improvement.required).toEqual(['field', 'before', 'after', 'reason', 'confidence']);
+    expect(improvement.properties.confidence).toMatchObject({ type: 'number', minimum: 0, maximum: 1 });
+  });
+});
+
+describe('REFINEMENT_OUTPUT_STRICT_JSON_SCHEMA', () => {
+  it('should require every property, forbid others and make optional ones nullable', () => {
+    const schema = REFINEMENT_OUTPUT_STRICT_JSON_SCHEMA as any;
+    const improvement = schema.properties.improvements.items;
+
+    expect(schema).toMatchObject({ required: ['improvements', 'relationships', 'suggestions'], additionalProperties: false });
+    expect(schema.properties.suggestions).toEqual({ anyOf: [{ type: 'array', items: { type: 'string' } }, { type: 'null' }] });
+    expect(improvement.additionalProperties).toBe(false);
+    expect(improvement.required).toEqual(Object.keys(improvement.properties));
+    expect(improvement.properties.field).toEqual({ type: 'string', minLength: 1 });
+    expect(improvement.properties.detectedPattern).toEqual({ anyOf: [{ type: 'string' }, { type: 'null' }] });
+    expect(improvement.properties.sourceSnippet.anyOf).toContainEqual({ type: 'null' });
+    expect(schema.properties.relationships.anyOf[0].items.additionalProperties).toBe(false);
+    expect(JSON.stringify(schema)).not.toContain('"default"');
+  });
+});
+
+describe('validateModelOutput', () => {
+  it('should treat null properties from strict structured output as absent', () => {
+    const result = validateModelOutput(
+      JSON.stringify({
+        improvements: [{ ...improvement, sourceSnippet: null, detectedPattern: null, ruleApplied: null }],
+        relationships: null,
+        suggestions: null,
+      }),
+      RefinementOutputSchema
+    );
+
+    expect(result).toEqual({ success: true, data: { improvements: [improvement], relationships: [], suggestions: [] } });
+  });
+
+  it('should fill in missing lists and stringify sample snippets', () => {
+    const result = validateModelOutput(JSON.stringify({ improvements: [{ ...improvement, sourceSnippet: 42 }] }), RefinementOutputSchema);
+
+    expect(result).toEqual({
+      success: true,
+      data: { improvements: [{ ...improvement, sourceSnippet: '42' }], relationships: [], suggestions: [] },
+    });
+  });
+
+  it('should report every mismatch with its path', () => {
+    const result = validateModelOutput(
+      JSON.stringify({ improvements: [improvement, { ...improvement, confidence: '0.8', after: '' }], suggestions: 'none' }),
+      RefinementOutputSchema
+    );
+
+    expect(result.success).toBe(false);
+    const errors = (result as { errors: string[] }).errors;
+    expect(errors).toHaveLength(3);
+    expect(errors[0]).toMatch(/^improvements\[1\]\.after: /);
+    expect(errors[1]).toMatch(/^improvements\[1\]\.confidence: /);
+    expect(errors[2]).toMatch(/^suggestions: /);
+  });
+
+  it('should report text that is not JSON', () => {
+    expect(validateModelOutput('I cannot help with that.', RefinementOutputSchema)).toEqual({
+      success: false,
+      errors: [expect.stringMatching(/^Response is not valid JSON/)],
+    });
+  });
+});
+
+describe('buildRepairPrompt', () => {
+  it('should list the errors (at most ten)', () => {
+    const prompt = buildRepairPrompt(Array.from({ length: 12 }, (_, i) => `error ${i}`));
+
+    expect(prompt).toContain('- error 0\n');
+    expect(prompt).toContain('- error 9\n- ... and 2 more');
+    expect(prompt).not.toContain('error 10');
+    expect(prompt).toContain('Return ONLY the JSON');
+  });
+});
+
+describe('validateWithRepair', () => {
+  it('should not ask for a repair when the output is valid', async () => {
+    const repair = vi.fn();
+
+    const output = await validateWithRepair('test', RefinementOutputSchema, JSON.stringify({ improvements: [improvement] }), repair);
+
+    expect(output.improvements).toEqual([improvement]);
+    expect(repair).not.toHaveBeenCalled();
+  });
+
+  it('should send the validation errors and use the repaired output', async () => {
+    const repair = vi.fn(async () => JSON.stringify({ improvements: [improvement] }));
+
+    const output = await validateWithRepair('test', RefinementOutputSchema, '{"improvements": [{"field": "email"}]', repair);
+
+    expect(output.improvements).toEqual([improvement]);
+    expect(repair).toHaveBeenCalledOnce();
+    expect(repair.mock.calls[0]).toEqual(['{"improvements": [{"field": "email"}]', expect.stringContaining('not valid JSON')]);
+  });
+
+  it('should throw a ProviderOutputError when the repair fails too', async () => {
+    const repair = vi.fn(async () => JSON.stringify({ improvements: [{ ...improvement, confidence: 2 }] }));
+
+    const error = await validateWithRepair('test', RefinementOutputSchema, '{}}', repair).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ProviderOutputError);
+    expect(error).toBeInstanceOf(ProviderError);
+    expect(error.provider).toBe('test');
+    expect(error.issues).toEqual([expect.stringMatching(/^improvements\[0\]\.confidence: /)]);
+    expect(repair).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,107 @@
+// Tests for per-field sample profiling
+import { describe, it, expect } from 'vitest';
+import {
+  profileSamples,
+  summarizeFieldProfiles,
+  MAX_PROFILED_FIELDS,
+  MAX_TOP_VALUES,
+} from '../../lib/sample-profiler.js';
+
+describe('profileSamples', () => {
+  it('should compute missing and null rates over all samples', () => {
+    const samples = Array.from({ length: 20 }, (_, i) => {
+      const sample: Record<string, any> = { id: i };
+      if (i % 4 !== 0) sample.nickname = i % 2 === 0 ? null : `user${i}`;
+      return sample;
+    });
+
+    const profiles = profileSamples(samples);
+
+    expect(profiles.id.missingRate).toBe(0);
+    expect(profiles.nickname.presentCount).toBe(15);
+    expect(profiles.nickname.missingRate).toBe(0.25);
+    expect(profiles.nickname.nullRate).toBe(0.333);
+  });
+
+  it('should count distinct values and rank top values', () => {
+    const statuses = ['active', 'active', 'active', 'pending', 'pending', 'closed'];
+    const profiles = profileSamples(statuses.map((status) => ({ status })));
+
+    expect(profiles.status.distinctCount).toBe(3);
+    expect(profiles.status.topValues).toEqual([
+      { value: 'active', count: 3 },
+      { value: 'pending', count: 2 },
+      { value: 'closed', count: 1 },
+    ]);
+  });
+
+  it('should limit and truncate top values', () => {
+    const samples = Array.from({ length: 12 }, (_, i) => ({ text: `${'x'.repeat(60)}${i}` }));
+    const profiles = profileSamples(samples);
+
+    expect(profiles.text.topValues).toHaveLength(MAX_TOP_VALUES);
+    expect(String(profiles.text.topValues[0].value)).toHaveLength(51);
+    expect(profiles.text.distinctCount).toBe(12);
+  });
+
+  it('should report string lengths, numeric ranges and formats', () => {
+    const profiles = profileSamples([
+      { email: 'alice@example.com', age: 28, score: 1.5 },
+      { email: 'bob@test.org', age: 65, score: 9 },
+      { email: 'not-an-email', age: 18, score: 3 },
+    ]);
+
+    expect(profiles.email.length).toEqual({ min: 12, max: 17 });
+    expect(profiles.email.formats).toEqual({ email: 0.667 });
+    expect(profiles.age.range).toEqual({ min: 18, max: 65, integer: true });
+    expect(profiles.score.range).toEqual({ min: 1.5, max: 9, integer: false });
+  });
+
+  it('should profile nested objects and array elements by path', () => {
+    const profiles = profileSamples([
+      { address: { city: 'Utrecht' }, items: [{ sku: 'A-1' }, { sku: 'B-2', qty: 2 }] },
+      { address: { city: 'Delft', zip: '2611' }, items: [] },
+    ]);
+
+    expect(profiles['address.city'].presentCount).toBe(2);
+    expect(profiles['address.zip'].missingRate).toBe(0.5);
+    expect(profiles['items[].sku'].presentCount).toBe(2);
+    expect(profiles['items[].qty'].missingRate).toBe(0.5);
+    expect(profiles.items.types).toEqual({ array: 2 });
+  });
+
+  it('should cap the number of profiled fields', () => {
+    const sample = Object.fromEntries(
+      Array.from({ length: MAX_PROFILED_FIELDS + 50 }, (_, i) => [`field${i}`, i])
+    );
+
+    expect(Object.keys(profileSamples([sample]))).toHaveLength(MAX_PROFILED_FIELDS);
+  });
+
+  it('should memoize profiles per samples array', () => {
+    const samples = [{ name: 'Alice' }];
+
+    expect(profileSamples(samples)).toBe(profileSamples(samples));
+  });
+});
+
+describe('summarizeFieldProfiles', () => {
+  it('should render one line per field', () => {
+    const summary = summarizeFieldProfiles(
+      profileSamples([
+        { email: 'alice@example.com', age: 28 },
+        { email: 'bob@test.org', age: null },
+      ])
+    );
+
+    expect(summary).toContain('- email: string; missing 0%; null 0%; 2 distinct; length 12-17; formats email 100%');
+    expect(summary).toContain('- age: number; missing 0%; null 50%; 1 distinct; range 28..28 (integers); top 28 (1)');
+  });
+
+  it('should note fields beyond the limit', () => {
+    const summary = summarizeFieldProfiles(profileSamples([{ a: 1, b: 2, c: 3 }]), 2);
+
+    expect(summary.split('\n')).toHaveLength(3);
+    expect(summary).toContain('- ... 1 more fields');
+  });
+});
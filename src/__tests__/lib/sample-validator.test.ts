@@ -0,0 +1,110 @@
+// Tests for validating improvements against samples
+import { describe, it, expect } from 'vitest';
+import { MAX_ISOLATED_CHECKS, validateImprovements } from '../../lib/sample-validator.js';
+
+const improvement = (field: string, before: string, after: string) => ({
+  field,
+  before,
+  after,
+  reason: 'test',
+  confidence: 0.9,
+});
+
+const code = `export const UserSchema = z.object({
+  email: z.string(),
+  age: z.number(),
+});`;
+
+describe('validateImprovements', () => {
+  it('should accept improvements every sample satisfies', () => {
+    const result = validateImprovements(
+      code,
+      'User',
+      [improvement('email', 'z.string()', 'z.string().email()')],
+      [{ email: 'a@example.com', age: 30 }]
+    );
+
+    expect(result?.rejected).toHaveLength(0);
+    expect(result?.code).toContain('z.string().email()');
+  });
+
+  it('should reject an improvement with the failing sample and issue path', () => {
+    const result = validateImprovements(
+      code,
+      'User',
+      [
+        improvement('email', 'z.string()', 'z.string().email()'),
+        improvement('age', 'z.number()', 'z.number().int()'),
+      ],
+      [
+        { email: 'a@example.com', age: 30 },
+        { email: 'not-an-email', age: 41 },
+      ]
+    );
+
+    expect(result?.rejected).toHaveLength(1);
+    expect(result?.rejected[0].field).toBe('email');
+    expect(result?.rejected[0].failures[0]).toMatchObject({
+      sampleIndex: 1,
+      path: ['email'],
+      code: 'invalid_format',
+    });
+    expect(result?.improvements.map((i) => i.field)).toEqual(['age']);
+    expect(result?.code).toContain('email: z.string(),');
+    expect(result?.code).toContain('z.number().int()');
+  });
+
+  it('should ignore failures the original schema already had', () => {
+    const result = validateImprovements(
+      code,
+      'User',
+      [improvement('email', 'z.string()', 'z.string().email()')],
+      [{ email: 'a@example.com', age: 'thirty' }]
+    );
+
+    expect(result?.rejected).toHaveLength(0);
+  });
+
+  it('should reject improvements that fail to evaluate', () => {
+    const result = validateImprovements(
+      code,
+      'User',
+      [improvement('email', 'z.string()', 'z.notAThing()')],
+      [{ email: 'a@example.com', age: 30 }]
+    );
+
+    expect(result?.rejected[0].rejectedReason).toMatch(/compilation failed/);
+    expect(result?.code).toContain('email: z.string(),');
+  });
+
+  it('should check improvements one by one only up to the limit', () => {
+    const fields = Array.from({ length: MAX_ISOLATED_CHECKS + 2 }, (_, i) => `f${i}`);
+    const wide = `export const WideSchema = z.object({ ${fields.map((field) => `${field}: z.string()`).join(', ')} });`;
+    const sample = Object.fromEntries(fields.map((field) => [field, 'value']));
+
+    const result = validateImprovements(
+      wide,
+      'Wide',
+      [
+        improvement('f0', 'z.string()', 'z.string().email()'),
+        ...fields.slice(1).map((field) => improvement(field, 'z.string()', 'z.string().min(1)')),
+      ],
+      [sample]
+    );
+
+    expect(result?.rejected.map((r) => r.field)).toEqual(['f0', ...fields.slice(MAX_ISOLATED_CHECKS)]);
+    expect(result?.rejected[1].rejectedReason).toMatch(/^Not validated/);
+    expect(result?.improvements).toHaveLength(MAX_ISOLATED_CHECKS - 1);
+  });
+
+  it('should skip validation when the original schema cannot be evaluated', () => {
+    const result = validateImprovements(
+      'z.object({ a: customType() })',
+      'User',
+      [improvement('a', 'customType()', 'z.string()')],
+      [{ a: 'x' }]
+    );
+
+    expect(result).toBeNull();
+  });
+});
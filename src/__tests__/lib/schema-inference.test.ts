@@ -0,0 +1,79 @@
+// Tests for schema inference from raw samples
+import { describe, it, expect } from 'vitest';
+import { inferSchema } from '../../lib/schema-inference.js';
+import { compileSchema } from '../../lib/schema-sandbox.js';
+
+describe('inferSchema', () => {
+  it('should infer primitive fields', () => {
+    const result = inferSchema([{ name: 'Alice', age: 28, active: true }], 'User');
+
+    expect(result.typeName).toBe('User');
+    expect(result.fields).toEqual({
+      name: 'z.string()',
+      age: 'z.number()',
+      active: 'z.boolean()',
+    });
+    expect(result.code).toContain('export const UserSchema = z.object({');
+    expect(result.code).toContain('export type User = z.infer<typeof UserSchema>;');
+  });
+
+  it('should mark missing keys optional and null values nullable', () => {
+    const result = inferSchema(
+      [
+        { id: 1, nickname: 'al', deletedAt: null },
+        { id: 2, deletedAt: '2024-01-01' },
+      ],
+      'User'
+    );
+
+    expect(result.fields.nickname).toBe('z.string().optional()');
+    expect(result.fields.deletedAt).toBe('z.string().nullable()');
+  });
+
+  it('should infer nested objects and arrays', () => {
+    const result = inferSchema(
+      [
+        { address: { city: 'Utrecht' }, tags: ['a'], items: [{ sku: 'X', qty: 1 }] },
+        { address: { city: 'Delft', zip: '2611' }, tags: [], items: [{ sku: 'Y' }] },
+      ],
+      'Order'
+    );
+
+    expect(result.code).toContain(`  address: z.object({
+    city: z.string(),
+    zip: z.string().optional(),
+  }),`);
+    expect(result.fields.tags).toBe('z.array(z.string())');
+    expect(result.code).toContain('qty: z.number().optional()');
+  });
+
+  it('should infer unions for mixed types', () => {
+    const result = inferSchema([{ value: 'a' }, { value: 1 }], 'Mixed');
+
+    expect(result.fields.value).toBe('z.union([z.string(), z.number()])');
+  });
+
+  it('should fall back to z.unknown() when only nulls are seen', () => {
+    const result = inferSchema([{ value: null }, { value: [] }], 'Unknown');
+
+    expect(result.fields.value).toBe('z.array(z.unknown()).nullable()');
+    expect(inferSchema([{ value: null }], 'Unknown').fields.value).toBe('z.unknown()');
+  });
+
+  it('should quote keys that are not identifiers', () => {
+    const result = inferSchema([{ 'first-name': 'Alice' }], 'User');
+
+    expect(result.code).toContain('"first-name": z.string()');
+  });
+
+  it('should produce code that accepts every sample', () => {
+    const samples = [
+      { id: 'a', meta: { score: 1.5, flags: [true] }, note: null },
+      { id: 'b', meta: { score: 2 }, extra: 'x' },
+    ];
+    const result = inferSchema(samples, 'Record');
+
+    const schema = compileSchema(result.code, result.typeName);
+    expect(schema.safeParseAll(samples).every((r) => r.success)).toBe(true);
+  });
+});
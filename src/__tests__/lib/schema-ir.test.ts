@@ -0,0 +1,76 @@
+// Tests for the schema IR used by code generation targets
+import { describe, it, expect } from 'vitest';
+import { buildSchemaIR } from '../../lib/schema-ir.js';
+import { SchemaEvaluationError } from '../../lib/schema-sandbox.js';
+
+describe('buildSchemaIR', () => {
+  it('should describe strings, numbers and their checks', () => {
+    const { root, warnings } = buildSchemaIR(
+      `export const UserSchema = z.object({
+  email: z.string().email().max(100),
+  code: z.string().regex(/^[A-Z]{3}$/i).length(3),
+  age: z.number().int().min(0).lt(150).multipleOf(1),
+});`,
+      'User'
+    );
+
+    expect(warnings).toEqual([]);
+    expect(root).toMatchObject({ kind: 'object', unknownKeys: 'strip' });
+    const [email, code, age] = (root as any).properties;
+    expect(email).toMatchObject({ name: 'email', schema: { kind: 'string', format: 'email', maxLength: 100 } });
+    expect(email.schema.formatPattern.source).toBeTruthy();
+    expect(code.schema).toEqual({
+      kind: 'string',
+      length: 3,
+      patterns: [{ source: '^[A-Z]{3}$', flags: 'i' }],
+    });
+    expect(age.schema).toEqual({
+      kind: 'number',
+      integer: true,
+      minimum: 0,
+      exclusiveMaximum: 150,
+      multipleOf: 1,
+    });
+  });
+
+  it('should describe modifiers, collections and unknown keys', () => {
+    const { root } = buildSchemaIR(`z.object({
+  role: z.enum(['admin', 'user']).default('user'),
+  nickname: z.string().nullable().optional(),
+  tags: z.array(z.literal('a')).min(1),
+  meta: z.record(z.string(), z.number()),
+  createdAt: z.coerce.date().default(new Date('2024-01-01T00:00:00.000Z')),
+}).strict()`);
+
+    expect(root).toMatchObject({ kind: 'object', unknownKeys: 'strict' });
+    expect((root as any).properties.map((property: any) => property.schema)).toEqual([
+      { kind: 'default', inner: { kind: 'enum', values: ['admin', 'user'] }, value: 'user' },
+      { kind: 'optional', inner: { kind: 'nullable', inner: { kind: 'string' } } },
+      { kind: 'array', element: { kind: 'literal', values: ['a'] }, minItems: 1 },
+      { kind: 'record', key: { kind: 'string' }, value: { kind: 'number' } },
+      { kind: 'default', inner: { kind: 'date', coerce: true }, value: '2024-01-01T00:00:00.000Z' },
+    ]);
+  });
+
+  it('should warn about parts no target can generate', () => {
+    const { warnings } = buildSchemaIR(`const NodeSchema = z.object({
+  name: z.string().transform((value) => value.trim()),
+  score: z.number().refine((value) => value % 2 === 0),
+  get children() {
+    return z.array(NodeSchema);
+  },
+});`);
+
+    expect(warnings).toEqual([
+      'name: .transform() is not generated (input validation only)',
+      'score: custom refinement is not generated',
+      'children[]: recursive schema is generated as unknown',
+    ]);
+  });
+
+  it('should reject unsafe schema code', () => {
+    expect(() => buildSchemaIR('z.object({ a: z.string().default(process.env.SECRET) })')).toThrow(
+      SchemaEvaluationError
+    );
+  });
+});
@@ -0,0 +1,144 @@
+// Tests for AST-based schema patching
+import { describe, it, expect } from 'vitest';
+import { applyImprovements, splitFieldPath } from '../../lib/schema-patcher.js';
+
+const improvement = (field: string, before: string, after: string) => ({
+  field,
+  before,
+  after,
+  reason: 'test',
+  confidence: 0.9,
+});
+
+describe('applyImprovements', () => {
+  it('should replace a top-level field', () => {
+    const result = applyImprovements('z.object({ email: z.string() })', [
+      improvement('email', 'z.string()', 'z.string().email()'),
+    ]);
+
+    expect(result.code).toBe('z.object({ email: z.string().email() })');
+    expect(result.unapplied).toHaveLength(0);
+  });
+
+  it('should apply when before differs slightly from the source', () => {
+    const result = applyImprovements('z.object({ email: z.string( ) })', [
+      improvement('email', 'z.string()', 'z.string().email()'),
+    ]);
+
+    expect(result.code).toBe('z.object({ email: z.string().email() })');
+  });
+
+  it('should resolve nested object paths', () => {
+    const code = `export const UserSchema = z.object({
+  name: z.string(),
+  address: z.object({
+    city: z.string(),
+    zip: z.string(),
+  }).strict(),
+});`;
+
+    const result = applyImprovements(code, [
+      improvement('address.zip', 'z.string()', 'z.string().regex(/^\\d{5}$/)'),
+    ], 'User');
+
+    expect(result.code).toContain('zip: z.string().regex(/^\\d{5}$/)');
+    expect(result.code).toContain('city: z.string(),');
+    expect(result.code).toContain('name: z.string(),');
+  });
+
+  it('should resolve paths through arrays', () => {
+    const code = 'z.object({ items: z.array(z.object({ sku: z.string() })).min(1) })';
+
+    const result = applyImprovements(code, [
+      improvement('items[].sku', 'z.string()', 'z.string().length(8)'),
+    ]);
+
+    expect(result.code).toBe('z.object({ items: z.array(z.object({ sku: z.string().length(8) })).min(1) })');
+  });
+
+  it('should handle quoted keys', () => {
+    const code = `z.object({ "first-name": z.string(), 'last.name': z.string() })`;
+
+    const result = applyImprovements(code, [
+      improvement('first-name', 'z.string()', 'z.string().min(1)'),
+      improvement('last.name', 'z.string()', 'z.string().max(50)'),
+    ]);
+
+    expect(result.code).toBe(`z.object({ "first-name": z.string().min(1), 'last.name': z.string().max(50) })`);
+    expect(result.unapplied).toHaveLength(0);
+  });
+
+  it('should not touch same-named fields in other schemas', () => {
+    const code = `const AddressSchema = z.object({ name: z.string() });
+const UserSchema = z.object({ name: z.string(), address: AddressSchema });`;
+
+    const result = applyImprovements(code, [
+      improvement('name', 'z.string()', 'z.string().min(2)'),
+    ], 'User');
+
+    expect(result.code).toBe(`const AddressSchema = z.object({ name: z.string() });
+const UserSchema = z.object({ name: z.string().min(2), address: AddressSchema });`);
+  });
+
+  it('should report fields that do not exist', () => {
+    const result = applyImprovements('z.object({ email: z.string() })', [
+      improvement('phone', 'z.string()', 'z.string().min(7)'),
+    ]);
+
+    expect(result.code).toBe('z.object({ email: z.string() })');
+    expect(result.unapplied).toHaveLength(1);
+    expect(result.unapplied[0].field).toBe('phone');
+    expect(result.unapplied[0].unappliedReason).toContain('not found');
+  });
+
+  it('should report replacements that are not valid expressions', () => {
+    const result = applyImprovements('z.object({ email: z.string() })', [
+      improvement('email', 'z.string()', 'z.string().email('),
+    ]);
+    const twoExpressions = applyImprovements('z.object({ email: z.string() })', [
+      improvement('email', 'z.string()', 'z.string()), (z.number()'),
+    ]);
+
+    expect(result.unapplied[0].unappliedReason).toContain('not a valid expression');
+    expect(twoExpressions.unapplied[0].unappliedReason).toContain('not a valid expression');
+  });
+
+  it('should report conflicting improvements for the same field', () => {
+    const result = applyImprovements('z.object({ email: z.string() })', [
+      improvement('email', 'z.string()', 'z.string().email()'),
+      improvement('email', 'z.string()', 'z.string().min(3)'),
+    ]);
+
+    expect(result.code).toBe('z.object({ email: z.string().email() })');
+    expect(result.applied).toHaveLength(1);
+    expect(result.unapplied[0].unappliedReason).toContain('Conflicts');
+  });
+
+  it('should report when there is no object schema', () => {
+    const result = applyImprovements('z.string()', [
+      improvement('email', 'z.string()', 'z.string().email()'),
+    ]);
+
+    expect(result.unapplied[0].unappliedReason).toContain('No z.object()');
+  });
+
+  it('should return edits with original ranges', () => {
+    const code = 'z.object({ a: z.string(), b: z.number() })';
+    const result = applyImprovements(code, [
+      improvement('b', 'z.number()', 'z.number().int()'),
+      improvement('a', 'z.string()', 'z.string().min(1)'),
+    ]);
+
+    expect(result.edits.map((edit) => edit.field)).toEqual(['a', 'b']);
+    expect(code.slice(result.edits[1].start, result.edits[1].end)).toBe('z.number()');
+    expect(result.edits[1].improvementIndex).toBe(0);
+  });
+});
+
+describe('splitFieldPath', () => {
+  it('should split dotted and array paths', () => {
+    expect(splitFieldPath('address.city')).toEqual(['address', 'city']);
+    expect(splitFieldPath('items[].sku')).toEqual(['items', 'sku']);
+    expect(splitFieldPath('items[0].sku')).toEqual(['items', 'sku']);
+  });
+});
@@ -0,0 +1,143 @@
+// Tests for sandboxed schema evaluation
+import { describe, it, expect } from 'vitest';
+import {
+  compileSchema,
+  createSandbox,
+  SchemaEvaluationError,
+  withCompiledSchema,
+  withSandbox,
+} from '../../lib/schema-sandbox.js';
+import { analyzeCompatibility } from '../../lib/compatibility.js';
+import { zodToJsonSchema } from '../../lib/json-schema.js';
+
+describe('compileSchema', () => {
+  it('should compile a named declaration with imports', () => {
+    const schema = compileSchema(
+      `import { z } from 'zod';
+export const UserSchema = z.object({ email: z.string().email() });`,
+      'User'
+    );
+
+    const [valid, invalid] = schema.safeParseAll([{ email: 'a@example.com' }, { email: 'nope' }]);
+    expect(valid.success).toBe(true);
+    expect(invalid.success).toBe(false);
+    expect(invalid.issues[0]).toMatchObject({ path: ['email'], code: 'invalid_format' });
+  });
+
+  it('should compile a bare expression', () => {
+    const schema = compileSchema('z.object({ age: z.number().int() })');
+
+    const [result] = schema.safeParseAll([{ age: 1.5 }]);
+    expect(result.success).toBe(false);
+    expect(result.issues[0].path).toEqual(['age']);
+  });
+
+  it('should load other schema code into the same isolate', () => {
+    withCompiledSchema('export const UserSchema = z.object({ age: z.number() });', 'User', (schema) => {
+      schema.load('export const UserSchema = z.object({ age: z.number().int() });', 'User');
+      expect(schema.safeParseAll([{ age: 1.5 }])[0].success).toBe(false);
+
+      expect(() => schema.load('export const UserSchema = 42;', 'User')).toThrow('Root expression is not a Zod schema');
+    });
+  });
+
+  it('should allow fields named like globals', () => {
+    const schema = compileSchema('z.object({ process: z.string(), module: z.number() })');
+
+    expect(schema.safeParseAll([{ process: 'a', module: 1 }])[0].success).toBe(true);
+  });
+
+  it('should reject access to host globals', () => {
+    expect(() => compileSchema('const p = process; z.object({})')).toThrow(SchemaEvaluationError);
+    expect(() => compileSchema("import fs from 'fs'; z.object({})")).toThrow(SchemaEvaluationError);
+  });
+
+  it('should reject prototype escapes', () => {
+    expect(() =>
+      compileSchema("z.object({}).constructor.constructor('return process')()")
+    ).toThrow(SchemaEvaluationError);
+    expect(() => compileSchema("z['con' + 'structor']")).toThrow(SchemaEvaluationError);
+  });
+
+  it('should reject destructuring and computed names that hide a prototype escape', () => {
+    expect(() =>
+      compileSchema("const { constructor: F } = z.string; F('return process')(); z.object({})")
+    ).toThrow(SchemaEvaluationError);
+    expect(() => compileSchema("let F; ({ constructor: F } = z.string); z.object({})")).toThrow(SchemaEvaluationError);
+    expect(() => compileSchema("const [a] = [z.string]; z.object({})")).toThrow('Destructuring is not allowed');
+    expect(() => compileSchema("z.object({ ['con' + 'structor']: z.string() })")).toThrow('Computed property names');
+  });
+
+  it('should run schema code in an isolate without host objects', () => {
+    const schema = compileSchema(`import * as zod from 'zod';
+export const UserSchema = zod.z.object({ name: z.string() }).refine(() => typeof Buffer === 'undefined' && typeof setImmediate === 'undefined');`, 'User');
+
+    expect(schema.safeParseAll([{ name: 'a' }])[0].success).toBe(true);
+    schema.dispose();
+  });
+
+  it('should copy definitions out of the sandbox for inspection', () => {
+    const types = withCompiledSchema(
+      "const Node = z.object({ slug: z.string().regex(/^[a-z]+$/), children: z.lazy(() => z.array(Node)) }); Node",
+      undefined,
+      (schema) =>
+        schema.inspect((root) => ({
+          type: root._zod.def.type,
+          pattern: root._zod.def.shape.slug._zod.def.checks[0]._zod.def.pattern,
+          lazy: root._zod.def.shape.children._zod.def.getter()._zod.def.element === root,
+        }))
+    );
+
+    expect(types).toEqual({ type: 'object', pattern: /^[a-z]+$/, lazy: true });
+  });
+
+  it('should time out on runaway code', () => {
+    expect(() => compileSchema('while (true) {}\nz.object({})')).toThrow(/compilation failed/);
+  });
+
+  it('should reject code that is not a Zod schema', () => {
+    expect(() => compileSchema('const x = 1;')).toThrow('Root expression is not a Zod schema');
+  });
+});
+
+describe('createSandbox', () => {
+  it('should serve several schemas and leave disposal to the caller', () => {
+    const sandbox = createSandbox();
+    try {
+      const document = zodToJsonSchema('z.object({ email: z.string().email() })', undefined, undefined, sandbox);
+      expect(document.properties).toMatchObject({ email: { format: 'email' } });
+
+      const report = analyzeCompatibility(
+        'z.object({ age: z.number() })',
+        'z.object({ age: z.number().int() })',
+        'User',
+        [{ field: 'age', before: 'z.number()', after: 'z.number().int()', reason: 'int', confidence: 1 }],
+        [{ age: 1 }, { age: 1.5 }],
+        sandbox
+      );
+      expect(report.affectedSamples).toEqual([{ index: 1, effect: 'rejected', fields: ['age'] }]);
+
+      // Other schema code can still be loaded into it
+      expect(withCompiledSchema('z.string().uuid()', undefined, (schema) => schema.safeParseAll(['x']), sandbox))
+        .toMatchObject([{ success: false }]);
+    } finally {
+      sandbox.dispose();
+    }
+  });
+
+  it('should dispose sandboxes withSandbox created, but not given ones', () => {
+    let created: ReturnType<typeof createSandbox> | undefined;
+    withSandbox(undefined, (sandbox) => {
+      created = sandbox;
+    });
+    expect(() => created!.load('z.string()')).toThrow();
+
+    const given = createSandbox();
+    try {
+      withSandbox(given, () => undefined);
+      expect(() => given.load('z.string()')).not.toThrow();
+    } finally {
+      given.dispose();
+    }
+  });
+});
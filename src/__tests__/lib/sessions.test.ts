@@ -0,0 +1,136 @@
+// Refinement session tests
+import { describe, it, expect, vi } from 'vitest';
+import { SessionManager, SessionError } from '../../lib/sessions.js';
+import type { RefinementRequest, SchemaImprovement } from '../../types/index.js';
+
+const request: RefinementRequest = {
+  schema: {
+    code: 'z.object({ email: z.string(), age: z.number() })',
+    typeName: 'User',
+    fields: { email: 'z.string()', age: 'z.number()' },
+  },
+  samples: [{ email: 'a@example.com', age: 30 }],
+};
+
+const email: SchemaImprovement = { field: 'email', before: 'z.string()', after: 'z.string().email()', reason: 'Email', confidence: 0.9 };
+const age: SchemaImprovement = { field: 'age', before: 'z.number()', after: 'z.number().int().min(18)', reason: 'Adults', confidence: 0.7 };
+
+/** Refiner proposing the given improvements (minus already rejected ones) */
+const createRefiner = (improvements: SchemaImprovement[]) =>
+  vi.fn(async (req: RefinementRequest) => ({
+    refinedSchema: {
+      code: req.schema.code,
+      improvements: improvements.filter(
+        (improvement) => !req.feedback?.rejected.some((rejected) => rejected.field === improvement.field)
+      ),
+      confidence: 0.8,
+    },
+    creditsUsed: 1,
+  }));
+
+describe('SessionManager', () => {
+  it('should start a session with a first round', async () => {
+    const manager = new SessionManager(createRefiner([email, age]));
+    const session = await manager.create(request, { ownerId: 'key_a' });
+
+    expect(session.id).toMatch(/^ses_/);
+    expect(session.currentCode).toBe(request.schema.code);
+    expect(session.history).toHaveLength(1);
+    expect(session.history[0].response.refinedSchema?.improvements).toHaveLength(2);
+    expect(session.sampleCount).toBe(1);
+  });
+
+  it('should apply accepted improvements and pass rejections to the follow-up round', async () => {
+    const refiner = createRefiner([email, age]);
+    const manager = new SessionManager(refiner);
+    const { id } = await manager.create(request, { ownerId: 'key_a' });
+
+    const session = await manager.submitFeedback(id, 'key_a', [
+      { index: 0, decision: 'accept' },
+      { index: 1, decision: 'reject', comment: 'Minors are allowed' },
+    ]);
+
+    expect(session?.currentCode).toBe('z.object({ email: z.string().email(), age: z.number() })');
+    expect(session?.accepted.map(({ field }) => field)).toEqual(['email']);
+    expect(session?.rejected).toEqual([expect.objectContaining({ field: 'age', comment: 'Minors are allowed' })]);
+    expect(session?.history).toHaveLength(2);
+    expect(session?.history[0].feedback).toEqual([
+      { index: 0, decision: 'accept', field: 'email', after: 'z.string().email()' },
+      { index: 1, decision: 'reject', comment: 'Minors are allowed', field: 'age', after: 'z.number().int().min(18)' },
+    ]);
+
+    const followUp = refiner.mock.calls[1][0];
+    expect(followUp.schema.code).toBe(session?.currentCode);
+    expect(followUp.schema.fields.email).toBe('z.string().email()');
+    expect(followUp.feedback).toEqual({
+      accepted: [{ field: 'email', after: 'z.string().email()' }],
+      rejected: [{ field: 'age', after: 'z.number().int().min(18)', comment: 'Minors are allowed' }],
+    });
+    expect(followUp.samples).toEqual(request.samples);
+  });
+
+  it('should keep rejections across rounds', async () => {
+    const refiner = createRefiner([age, email]);
+    const manager = new SessionManager(refiner);
+    const { id } = await manager.create(request, { ownerId: 'key_a' });
+
+    await manager.submitFeedback(id, 'key_a', [{ index: 0, decision: 'reject' }]);
+    const session = await manager.submitFeedback(id, 'key_a', [{ index: 0, decision: 'reject' }]);
+
+    expect(session?.rejected.map(({ field }) => field)).toEqual(['age', 'email']);
+    expect(refiner.mock.calls[2][0].feedback?.rejected).toHaveLength(2);
+    expect(session?.history).toHaveLength(3);
+  });
+
+  it('should reject unknown or duplicate improvement indexes', async () => {
+    const manager = new SessionManager(createRefiner([email]));
+    const { id } = await manager.create(request, { ownerId: 'key_a' });
+
+    await expect(manager.submitFeedback(id, 'key_a', [{ index: 3, decision: 'accept' }])).rejects.toThrow(SessionError);
+    await expect(
+      manager.submitFeedback(id, 'key_a', [{ index: 0, decision: 'accept' }, { index: 0, decision: 'reject' }])
+    ).rejects.toThrow('more than one decision');
+  });
+
+  it('should leave the session unchanged when the follow-up round fails', async () => {
+    const refiner = createRefiner([email]);
+    const manager = new SessionManager(refiner);
+    const { id } = await manager.create(request, { ownerId: 'key_a' });
+
+    refiner.mockRejectedValueOnce(new Error('OpenAI API error: down'));
+    await expect(manager.submitFeedback(id, 'key_a', [{ index: 0, decision: 'accept' }])).rejects.toThrow('API error');
+
+    const session = manager.get(id, 'key_a');
+    expect(session?.history).toHaveLength(1);
+    expect(session?.accepted).toEqual([]);
+    expect(session?.history[0].feedback).toBeUndefined();
+  });
+
+  it('should refuse feedback while a round is running', async () => {
+    let release: () => void = () => {};
+    const refiner = createRefiner([email]);
+    const manager = new SessionManager(refiner);
+    const { id } = await manager.create(request, { ownerId: 'key_a' });
+
+    refiner.mockImplementationOnce(async (req) => {
+      await new Promise<void>((resolve) => (release = resolve));
+      return { refinedSchema: { code: req.schema.code, improvements: [], confidence: 0.8 }, creditsUsed: 1 };
+    });
+
+    const first = manager.submitFeedback(id, 'key_a', [{ index: 0, decision: 'accept' }]);
+    await expect(manager.submitFeedback(id, 'key_a', [{ index: 0, decision: 'accept' }])).rejects.toMatchObject({
+      code: 'SESSION_BUSY',
+    });
+
+    release();
+    await first;
+  });
+
+  it('should hide sessions from other keys', async () => {
+    const manager = new SessionManager(createRefiner([email]));
+    const { id } = await manager.create(request, { ownerId: 'key_a' });
+
+    expect(manager.get(id, 'key_b')).toBeNull();
+    expect(await manager.submitFeedback(id, 'key_b', [{ index: 0, decision: 'accept' }])).toBeNull();
+  });
+});
@@ -0,0 +1,70 @@
+// Incremental JSON parser tests
+import { describe, it, expect } from 'vitest';
+import { IncrementalArrayParser } from '../../lib/streaming-json.js';
+
+/** Feed text in fixed-size pieces and record after which piece each element completed */
+function feed(text: string, size: number) {
+  const parser = new IncrementalArrayParser('improvements');
+  const items: Array<{ piece: number; item: any }> = [];
+
+  for (let i = 0, piece = 0; i < text.length; i += size, piece++) {
+    for (const item of parser.push(text.slice(i, i + size))) {
+      items.push({ piece, item });
+    }
+  }
+
+  return { parser, items };
+}
+
+describe('IncrementalArrayParser', () => {
+  const output = {
+    improvements: [
+      { field: 'email', after: 'z.string().email()', reason: 'Has "@" and {braces}', confidence: 0.95 },
+      { field: 'tags', after: 'z.array(z.string())', reason: 'List\\nof tags', nested: { a: [1, 2] }, confidence: 0.9 },
+    ],
+    relationships: [{ fields: ['price', 'currency'], confidence: 0.9 }],
+    suggestions: ['Add defaults'],
+  };
+
+  it('should return each element as soon as it is complete', () => {
+    const text = JSON.stringify(output, null, 2);
+    const { parser, items } = feed(text, 1);
+
+    expect(items.map(({ item }) => item)).toEqual(output.improvements);
+
+    // The first element is returned right after its closing brace arrives
+    const firstEnd = text.indexOf('}', text.indexOf('"confidence": 0.95'));
+    expect(items[0].piece).toBe(firstEnd);
+
+    expect(parser.isComplete()).toBe(true);
+    expect(JSON.parse(parser.getJson())).toEqual(output);
+  });
+
+  it('should give the same result for any chunk size', () => {
+    const text = JSON.stringify(output);
+    for (const size of [1, 3, 7, 64, text.length]) {
+      expect(feed(text, size).items.map(({ item }) => item)).toEqual(output.improvements);
+    }
+  });
+
+  it('should ignore arrays under other keys', () => {
+    const text = JSON.stringify({ suggestions: [{ field: 'x' }], improvements: [], other: { improvements: [{ field: 'y' }] } });
+    expect(feed(text, 5).items).toEqual([]);
+  });
+
+  it('should skip markdown code fences around the object', () => {
+    const text = '```json\n' + JSON.stringify(output) + '\n```';
+    const { parser, items } = feed(text, 4);
+
+    expect(items).toHaveLength(2);
+    expect(JSON.parse(parser.getJson())).toEqual(output);
+  });
+
+  it('should report an incomplete object', () => {
+    const parser = new IncrementalArrayParser('improvements');
+    parser.push('{"improvements": [{"field": "email"}');
+
+    expect(parser.isComplete()).toBe(false);
+    expect(() => JSON.parse(parser.getJson())).toThrow();
+  });
+});
@@ -0,0 +1,40 @@
+// Tests for token estimation and usage totals
+import { describe, it, expect } from 'vitest';
+import { addUsage, estimateTokens, sumUsage } from '../../lib/tokens.js';
+
+describe('estimateTokens', () => {
+  it('should count words, number groups and punctuation', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('Hello world')).toBe(2);
+    expect(estimateTokens('2025')).toBe(2);
+    expect(estimateTokens('{"a": 1}')).toBe(7);
+  });
+
+  it('should split long words and count code far above a character quarter', () => {
+    expect(estimateTokens('internationalization')).toBe(4);
+
+    const code = 'z.object({ email: z.string().email(), age: z.number().int().min(0) })';
+    expect(estimateTokens(code)).toBeGreaterThan(Math.ceil(code.length / 4));
+  });
+});
+
+describe('usage totals', () => {
+  it('should add up calls', () => {
+    const total = { inputTokens: 0, outputTokens: 0 };
+    addUsage(total, 100, 20);
+    addUsage(total, 50);
+
+    expect(total).toEqual({ inputTokens: 150, outputTokens: 20 });
+  });
+
+  it('should sum results and keep the estimate flag and cost', () => {
+    expect(sumUsage([undefined, undefined])).toBeUndefined();
+    expect(
+      sumUsage([
+        { inputTokens: 100, outputTokens: 10, cost: 0.002 },
+        undefined,
+        { inputTokens: 50, outputTokens: 5, estimated: true },
+      ])
+    ).toEqual({ inputTokens: 150, outputTokens: 15, cost: 0.002, estimated: true });
+  });
+});
@@ -0,0 +1,45 @@
+// JWT auth middleware helper tests (audit logger mocked)
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import type { FastifyRequest } from 'fastify';
+import { recordProviderUsage } from '../../middleware/auth-v2.js';
+import { getAuditLogger } from '../../lib/audit-logger.js';
+
+const request = {
+  id: 'req-1',
+  url: '/api/v1/refine',
+  method: 'POST',
+  ip: '203.0.113.9',
+  headers: { 'user-agent': 'vitest' },
+} as unknown as FastifyRequest;
+
+describe('recordProviderUsage', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should record the prompt version and experiment arm of the result', async () => {
+    const log = vi.spyOn(getAuditLogger(), 'log').mockResolvedValue();
+
+    await recordProviderUsage(
+      request,
+      {
+        aiProvider: 'openai',
+        usage: { inputTokens: 120, outputTokens: 30 },
+        prompt: { name: 'refine', version: 2, variant: 'candidate' },
+      },
+      { schemaTypeName: 'User', sampleCount: 3 }
+    );
+
+    expect(log).toHaveBeenCalledWith(
+      expect.objectContaining({
+        endpoint: '/api/v1/refine',
+        schemaTypeName: 'User',
+        aiProvider: 'openai',
+        promptName: 'refine',
+        promptVersion: 2,
+        promptVariant: 'candidate',
+        totalTokens: 150,
+      })
+    );
+  });
+});
@@ -0,0 +1,51 @@
+// Admin endpoint tests
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import { adminRoute } from '../../routes/admin.js';
+import { configManager } from '../../lib/providers/index.js';
+
+describe('POST /admin/config', () => {
+  let server: FastifyInstance;
+  const VALID_API_KEY = process.env.ZODFORGE_API_KEY || 'zf_test_key_for_testing_purposes_only_12345';
+
+  beforeAll(async () => {
+    // Set test environment variables
+    process.env.ZODFORGE_API_KEY = VALID_API_KEY;
+
+    server = Fastify({ logger: false });
+    await server.register(adminRoute, { prefix: '/api/v1' });
+    await server.ready();
+  });
+
+  afterAll(async () => {
+    configManager.updateConfig({ lastResortProvider: 'heuristic' });
+    await server.close();
+  });
+
+  const updateConfig = (payload: Record<string, unknown>) =>
+    server.inject({
+      method: 'POST',
+      url: '/api/v1/admin/config',
+      headers: { authorization: `Bearer ${VALID_API_KEY}` },
+      payload,
+    });
+
+  it('should reject a last-resort provider that is not registered', async () => {
+    const response = await updateConfig({ lastResortProvider: 'heuristc' });
+
+    expect(response.statusCode).toBe(400);
+    expect(response.json()).toMatchObject({ success: false, error: 'Invalid configuration' });
+    expect(response.json().details[0]).toMatchObject({
+      path: ['lastResortProvider'],
+      message: 'Must be a registered provider',
+    });
+    expect(configManager.getConfig().lastResortProvider).toBe('heuristic');
+  });
+
+  it('should accept a registered last-resort provider', async () => {
+    const response = await updateConfig({ lastResortProvider: 'mock' });
+
+    expect(response.statusCode).toBe(200);
+    expect(configManager.getConfig().lastResortProvider).toBe('mock');
+  });
+});
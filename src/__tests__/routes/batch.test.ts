@@ -0,0 +1,161 @@
+// Batch refinement endpoint tests
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import { batchRoute, MAX_BATCH_SIZE } from '../../routes/batch.js';
+import { createApiKey } from '../../lib/jwt-keys.js';
+import { getAuditLogger } from '../../lib/audit-logger.js';
+import { rateLimiter } from '../../lib/security.js';
+
+describe('POST /refine/batch', () => {
+  let server: FastifyInstance;
+  const VALID_API_KEY = process.env.ZODFORGE_API_KEY || 'zf_test_key_for_testing_purposes_only_12345';
+
+  const item = (typeName: string) => ({
+    schema: {
+      code: 'z.object({ email: z.string() })',
+      typeName,
+      fields: { email: 'z.string()' },
+    },
+    samples: [{ email: 'alice@example.com' }, { email: 'bob@test.org' }],
+    options: { provider: 'heuristic' },
+  });
+
+  beforeAll(async () => {
+    // Set test environment variables
+    process.env.ZODFORGE_API_KEY = VALID_API_KEY;
+    process.env.JWT_SECRET = process.env.JWT_SECRET || 'test_jwt_secret_for_batch_tests_0123456789';
+
+    server = Fastify({ logger: false });
+    await server.register(batchRoute, { prefix: '/api/v1' });
+    await server.ready();
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should return 401 without Authorization header', async () => {
+    const response = await server.inject({
+      method: 'POST',
+      url: '/api/v1/refine/batch',
+      payload: { requests: [item('BatchUser')] },
+    });
+
+    expect(response.statusCode).toBe(401);
+  });
+
+  it('should return 400 for an empty or oversized batch', async () => {
+    for (const requests of [[], Array.from({ length: MAX_BATCH_SIZE + 1 }, () => item('BatchUser'))]) {
+      const response = await server.inject({
+        method: 'POST',
+        url: '/api/v1/refine/batch',
+        headers: { authorization: `Bearer ${VALID_API_KEY}` },
+        payload: { requests },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json()).toMatchObject({ success: false, errorCode: 'INVALID_REQUEST' });
+    }
+  });
+
+  it('should return one result per item and sum credits', async () => {
+    const response = await server.inject({
+      method: 'POST',
+      url: '/api/v1/refine/batch',
+      headers: { authorization: `Bearer ${VALID_API_KEY}` },
+      payload: { requests: [item('BatchUserA'), item('BatchUserB')] },
+    });
+
+    expect(response.statusCode).toBe(200);
+
+    const body = response.json();
+    expect(body).toMatchObject({ success: true, succeeded: 2, failed: 0, creditsUsed: 2 });
+    expect(body.results.map((result: any) => result.index)).toEqual([0, 1]);
+    expect(body.results[1].refinedSchema.code).toContain('z.string().email()');
+  });
+
+  it('should report invalid items without failing the batch', async () => {
+    const response = await server.inject({
+      method: 'POST',
+      url: '/api/v1/refine/batch',
+      headers: { authorization: `Bearer ${VALID_API_KEY}` },
+      payload: { requests: [item('BatchUserC'), { schema: { typeName: 'Broken' }, samples: [] }] },
+    });
+
+    expect(response.statusCode).toBe(200);
+
+    const body = response.json();
+    expect(body).toMatchObject({ succeeded: 1, failed: 1, creditsUsed: 1 });
+    expect(body.results[0].success).toBe(true);
+    expect(body.results[1]).toMatchObject({
+      index: 1,
+      success: false,
+      errorCode: 'INVALID_REQUEST',
+    });
+  });
+
+  it('should charge every accepted item against the per-key rate limit', async () => {
+    const apiKey = createApiKey('customer_batch', 'Batch key', 'free');
+    const auditLogger = getAuditLogger();
+
+    // The middleware charges the batch itself (first accepted item); one more item fits this minute
+    let charges = 0;
+    const consume = vi.spyOn(auditLogger, 'consumeRateLimit').mockImplementation(async (_kid, limits) =>
+      ++charges <= 1 ? { allowed: true } : { allowed: false, windowType: 'minute', limit: limits.minute }
+    );
+
+    const response = await server.inject({
+      method: 'POST',
+      url: '/api/v1/refine/batch',
+      headers: { authorization: `Bearer ${apiKey}` },
+      payload: {
+        requests: [{ schema: { code: 'z.object({})' } }, item('BatchUserD'), item('BatchUserE'), item('BatchUserF')],
+        options: { concurrency: 1 },
+      },
+    });
+
+    expect(response.statusCode).toBe(200);
+
+    const body = response.json();
+    expect(body).toMatchObject({ succeeded: 2, failed: 2 });
+    // The invalid item is not charged
+    expect(body.results[0]).toMatchObject({ success: false, errorCode: 'INVALID_REQUEST' });
+    expect(body.results[3]).toMatchObject({ success: false, errorCode: 'RATE_LIMIT_EXCEEDED' });
+    expect(consume).toHaveBeenCalledTimes(2);
+  });
+
+  it('should charge every accepted item of a legacy key against the in-memory limit', async () => {
+    rateLimiter.clear();
+
+    // Leave room for two requests: the batch itself (first item) and one more item
+    const legacyKey = `127.0.0.1:${VALID_API_KEY.substring(0, 10)}`;
+    let remaining = rateLimiter.checkLimit(legacyKey).remaining;
+    while (remaining > 2) {
+      remaining = rateLimiter.checkLimit(legacyKey).remaining;
+    }
+
+    try {
+      const response = await server.inject({
+        method: 'POST',
+        url: '/api/v1/refine/batch',
+        headers: { authorization: `Bearer ${VALID_API_KEY}` },
+        payload: {
+          requests: [item('BatchUserG'), item('BatchUserH'), item('BatchUserI')],
+          options: { concurrency: 1 },
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+
+      const body = response.json();
+      expect(body).toMatchObject({ succeeded: 2, failed: 1 });
+      expect(body.results[2]).toMatchObject({ success: false, errorCode: 'RATE_LIMIT_EXCEEDED' });
+    } finally {
+      rateLimiter.clear();
+    }
+  });
+});
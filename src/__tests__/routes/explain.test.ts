@@ -0,0 +1,100 @@
+// Explanation endpoint tests
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import { explainRoute } from '../../routes/explain.js';
+
+describe('POST /explain', () => {
+  let server: FastifyInstance;
+  const VALID_API_KEY = process.env.ZODFORGE_API_KEY || 'zf_test_key_for_testing_purposes_only_12345';
+  const headers = { authorization: `Bearer ${VALID_API_KEY}` };
+  const schema = {
+    code: 'export const UserSchema = z.object({ email: z.string().email(), age: z.number().int() });',
+    typeName: 'User',
+  };
+
+  beforeAll(async () => {
+    // Set test environment variables
+    process.env.ZODFORGE_API_KEY = VALID_API_KEY;
+
+    server = Fastify({ logger: false });
+    await server.register(explainRoute, { prefix: '/api/v1' });
+    await server.ready();
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  it('should return 401 without Authorization header', async () => {
+    const response = await server.inject({
+      method: 'POST',
+      url: '/api/v1/explain',
+      payload: { schema, payloads: [{}] },
+    });
+    expect(response.statusCode).toBe(401);
+  });
+
+  it('should explain every issue of every payload', async () => {
+    const response = await server.inject({
+      method: 'POST',
+      url: '/api/v1/explain',
+      headers,
+      payload: {
+        schema,
+        payloads: [{ email: 'a@example.com', age: '42' }, { email: 'b@example.com', age: 30 }],
+        options: { provider: 'heuristic' },
+      },
+    });
+
+    expect(response.statusCode).toBe(200);
+
+    const body = response.json();
+    expect(body).toMatchObject({ success: true, creditsUsed: 1, aiProvider: 'heuristic' });
+    expect(body.payloads).toHaveLength(2);
+    expect(body.payloads[1]).toEqual({ index: 1, valid: true, issues: [] });
+    expect(body.payloads[0].issues).toEqual([
+      expect.objectContaining({
+        path: ['age'],
+        code: 'invalid_type',
+        received: '42',
+        fix: expect.objectContaining({ target: 'schema', code: 'z.coerce.number()' }),
+      }),
+    ]);
+  });
+
+  it('should not charge credits when every payload is valid', async () => {
+    const response = await server.inject({
+      method: 'POST',
+      url: '/api/v1/explain',
+      headers,
+      payload: { schema, payloads: [{ email: 'a@example.com', age: 42 }] },
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toMatchObject({ success: true, creditsUsed: 0, payloads: [{ valid: true, issues: [] }] });
+  });
+
+  it('should return 400 for schema code that cannot be compiled', async () => {
+    const response = await server.inject({
+      method: 'POST',
+      url: '/api/v1/explain',
+      headers,
+      payload: { schema: { code: 'process.exit(1)', typeName: 'User' }, payloads: [{}] },
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(response.json()).toMatchObject({ success: false, errorCode: 'INVALID_SCHEMA' });
+  });
+
+  it('should return 400 without payloads', async () => {
+    const response = await server.inject({
+      method: 'POST',
+      url: '/api/v1/explain',
+      headers,
+      payload: { schema, payloads: [] },
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(response.json()).toMatchObject({ success: false, errorCode: 'INVALID_REQUEST' });
+  });
+});
@@ -0,0 +1,78 @@
+// Fixture generation endpoint tests
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import { fixturesRoute } from '../../routes/fixtures.js';
+
+describe('POST /fixtures', () => {
+  let server: FastifyInstance;
+  const VALID_API_KEY = process.env.ZODFORGE_API_KEY || 'zf_test_key_for_testing_purposes_only_12345';
+  const headers = { authorization: `Bearer ${VALID_API_KEY}` };
+
+  beforeAll(async () => {
+    // Set test environment variables
+    process.env.ZODFORGE_API_KEY = VALID_API_KEY;
+
+    server = Fastify({ logger: false });
+    await server.register(fixturesRoute, { prefix: '/api/v1' });
+    await server.ready();
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  it('should return 401 without Authorization header', async () => {
+    const response = await server.inject({
+      method: 'POST',
+      url: '/api/v1/fixtures',
+      payload: { schema: { code: 'z.string()', typeName: 'Name' } },
+    });
+    expect(response.statusCode).toBe(401);
+  });
+
+  it('should return verified fixtures', async () => {
+    const response = await server.inject({
+      method: 'POST',
+      url: '/api/v1/fixtures',
+      headers,
+      payload: {
+        schema: {
+          code: 'export const UserSchema = z.object({ email: z.string().email(), age: z.number().int().min(18) });',
+          typeName: 'User',
+        },
+      },
+    });
+
+    expect(response.statusCode).toBe(200);
+
+    const { fixtures } = response.json();
+    expect(fixtures.valid).toEqual([{ description: 'All fields', value: { email: 'user@example.com', age: 18 } }]);
+    expect(fixtures.boundary).toEqual([{ description: 'age: at minimum 18', value: { email: 'user@example.com', age: 18 } }]);
+    expect(fixtures.invalid).toContainEqual({
+      description: 'age: below minimum 18',
+      value: { email: 'user@example.com', age: 17 },
+      path: ['age'],
+      expectedCode: 'too_small',
+    });
+    expect(fixtures.warnings).toEqual([]);
+  });
+
+  it('should return 400 for schema code that cannot be compiled', async () => {
+    const response = await server.inject({
+      method: 'POST',
+      url: '/api/v1/fixtures',
+      headers,
+      payload: { schema: { code: 'z.object({ a: process.env })', typeName: 'Bad' } },
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(response.json().errorCode).toBe('INVALID_SCHEMA');
+  });
+
+  it('should return 400 for a missing schema', async () => {
+    const response = await server.inject({ method: 'POST', url: '/api/v1/fixtures', headers, payload: {} });
+
+    expect(response.statusCode).toBe(400);
+    expect(response.json().errorCode).toBe('INVALID_REQUEST');
+  });
+});
@@ -0,0 +1,99 @@
+// Schema inference endpoint tests
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import { inferRoute } from '../../routes/infer.js';
+
+describe('POST /infer', () => {
+  let server: FastifyInstance;
+  const VALID_API_KEY = process.env.ZODFORGE_API_KEY || 'zf_test_key_for_testing_purposes_only_12345';
+
+  beforeAll(async () => {
+    // Set test environment variable
+    process.env.ZODFORGE_API_KEY = VALID_API_KEY;
+
+    server = Fastify({ logger: false });
+    await server.register(inferRoute, { prefix: '/api/v1' });
+    await server.ready();
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  it('should return 401 without Authorization header', async () => {
+    const response = await server.inject({
+      method: 'POST',
+      url: '/api/v1/infer',
+      payload: { samples: [{ name: 'Alice' }] },
+    });
+
+    expect(response.statusCode).toBe(401);
+  });
+
+  it('should return 400 for empty samples array', async () => {
+    const response = await server.inject({
+      method: 'POST',
+      url: '/api/v1/infer',
+      headers: { authorization: `Bearer ${VALID_API_KEY}` },
+      payload: { samples: [] },
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(response.json()).toMatchObject({ success: false, errorCode: 'INVALID_REQUEST' });
+  });
+
+  it('should return 400 for a typeName that is not an identifier', async () => {
+    const response = await server.inject({
+      method: 'POST',
+      url: '/api/v1/infer',
+      headers: { authorization: `Bearer ${VALID_API_KEY}` },
+      payload: { samples: [{ name: 'Alice' }], typeName: 'User Profile' },
+    });
+
+    expect(response.statusCode).toBe(400);
+  });
+
+  it('should infer a schema without refinement', async () => {
+    const response = await server.inject({
+      method: 'POST',
+      url: '/api/v1/infer',
+      headers: { authorization: `Bearer ${VALID_API_KEY}` },
+      payload: {
+        typeName: 'User',
+        samples: [{ name: 'Alice', age: 28 }, { name: 'Bob' }],
+      },
+    });
+
+    expect(response.statusCode).toBe(200);
+
+    const body = response.json();
+    expect(body.success).toBe(true);
+    expect(body.creditsUsed).toBe(0);
+    expect(body.inferredSchema.fields).toEqual({
+      name: 'z.string()',
+      age: 'z.number().optional()',
+    });
+    expect(body.refinedSchema).toBeUndefined();
+  });
+
+  it('should chain into refinement when requested', async () => {
+    const response = await server.inject({
+      method: 'POST',
+      url: '/api/v1/infer',
+      headers: { authorization: `Bearer ${VALID_API_KEY}` },
+      payload: {
+        typeName: 'User',
+        samples: [{ email: 'alice@example.com' }, { email: 'bob@test.org' }],
+        refine: true,
+        options: { provider: 'heuristic' },
+      },
+    });
+
+    expect(response.statusCode).toBe(200);
+
+    const body = response.json();
+    expect(body.inferredSchema.typeName).toBe('User');
+    expect(body.aiProvider).toBe('heuristic');
+    expect(body.refinedSchema.code).toContain('z.string().email()');
+  });
+});
@@ -0,0 +1,103 @@
+// Asynchronous refinement job endpoint tests
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import { jobsRoute } from '../../routes/jobs.js';
+import { jobManager } from '../../lib/jobs.js';
+
+describe('Jobs routes', () => {
+  let server: FastifyInstance;
+  const VALID_API_KEY = process.env.ZODFORGE_API_KEY || 'zf_test_key_for_testing_purposes_only_12345';
+
+  const payload = {
+    schema: {
+      code: 'z.object({ email: z.string() })',
+      typeName: 'JobUser',
+      fields: { email: 'z.string()' },
+    },
+    samples: [{ email: 'alice@example.com' }, { email: 'bob@test.org' }],
+    options: { provider: 'heuristic' },
+  };
+
+  beforeAll(async () => {
+    // Set test environment variables
+    process.env.ZODFORGE_API_KEY = VALID_API_KEY;
+
+    server = Fastify({ logger: false });
+    await server.register(jobsRoute, { prefix: '/api/v1' });
+    await server.ready();
+  });
+
+  afterAll(async () => {
+    await jobManager.idle();
+    await server.close();
+  });
+
+  it('should return 401 without Authorization header', async () => {
+    const response = await server.inject({ method: 'POST', url: '/api/v1/jobs/refine', payload });
+    expect(response.statusCode).toBe(401);
+  });
+
+  it('should queue a job and expose the result once finished', async () => {
+    const response = await server.inject({
+      method: 'POST',
+      url: '/api/v1/jobs/refine',
+      headers: { authorization: `Bearer ${VALID_API_KEY}` },
+      payload,
+    });
+
+    expect(response.statusCode).toBe(202);
+    const { job, callbackSecret } = response.json();
+    expect(job.id).toMatch(/^job_/);
+    expect(job.ownerId).toBeUndefined();
+    expect(callbackSecret).toBeUndefined();
+
+    await jobManager.idle();
+
+    const status = await server.inject({
+      method: 'GET',
+      url: `/api/v1/jobs/${job.id}`,
+      headers: { authorization: `Bearer ${VALID_API_KEY}` },
+    });
+
+    expect(status.statusCode).toBe(200);
+    const body = status.json();
+    expect(body.job).toMatchObject({ id: job.id, status: 'completed', progress: 1 });
+    expect(body.job.result.success).toBe(true);
+    expect(body.job.result.refinedSchema.code).toContain('z.string().email()');
+  });
+
+  it('should return 404 for unknown jobs', async () => {
+    const response = await server.inject({
+      method: 'GET',
+      url: '/api/v1/jobs/job_does_not_exist',
+      headers: { authorization: `Bearer ${VALID_API_KEY}` },
+    });
+
+    expect(response.statusCode).toBe(404);
+    expect(response.json().errorCode).toBe('JOB_NOT_FOUND');
+  });
+
+  it('should return 400 for an invalid callback URL', async () => {
+    const response = await server.inject({
+      method: 'POST',
+      url: '/api/v1/jobs/refine',
+      headers: { authorization: `Bearer ${VALID_API_KEY}` },
+      payload: { ...payload, callbackUrl: 'ftp://example.com/hook' },
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(response.json().errorCode).toBe('INVALID_CALLBACK_URL');
+  });
+
+  it('should return 400 for an invalid body', async () => {
+    const response = await server.inject({
+      method: 'POST',
+      url: '/api/v1/jobs/refine',
+      headers: { authorization: `Bearer ${VALID_API_KEY}` },
+      payload: { samples: [] },
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(response.json().errorCode).toBe('INVALID_REQUEST');
+  });
+});
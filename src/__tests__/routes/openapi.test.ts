@@ -0,0 +1,76 @@
+// OpenAPI refinement endpoint tests
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import { openApiRoute } from '../../routes/openapi.js';
+
+describe('POST /openapi/refine', () => {
+  let server: FastifyInstance;
+  const VALID_API_KEY = process.env.ZODFORGE_API_KEY || 'zf_test_key_for_testing_purposes_only_12345';
+
+  beforeAll(async () => {
+    // Set test environment variable
+    process.env.ZODFORGE_API_KEY = VALID_API_KEY;
+
+    server = Fastify({ logger: false });
+    await server.register(openApiRoute, { prefix: '/api/v1' });
+    await server.ready();
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  it('should return 401 without Authorization header', async () => {
+    const response = await server.inject({
+      method: 'POST',
+      url: '/api/v1/openapi/refine',
+      payload: {},
+    });
+
+    expect(response.statusCode).toBe(401);
+  });
+
+  it('should return 400 for Swagger 2.0 documents', async () => {
+    const response = await server.inject({
+      method: 'POST',
+      url: '/api/v1/openapi/refine',
+      headers: { authorization: `Bearer ${VALID_API_KEY}` },
+      payload: {
+        document: { swagger: '2.0', components: { schemas: {} } },
+        examples: {},
+      },
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(response.json()).toMatchObject({ success: false, errorCode: 'INVALID_REQUEST' });
+  });
+
+  it('should return the patched document and per-component results', async () => {
+    const response = await server.inject({
+      method: 'POST',
+      url: '/api/v1/openapi/refine',
+      headers: { authorization: `Bearer ${VALID_API_KEY}` },
+      payload: {
+        document: {
+          openapi: '3.0.3',
+          info: { title: 'Users', version: '1.0.0' },
+          paths: {},
+          components: {
+            schemas: {
+              User: { type: 'object', properties: { id: { type: 'number' } }, required: ['id'] },
+            },
+          },
+        },
+        examples: { User: [{ id: 1 }, { id: 2 }] },
+        options: { provider: 'heuristic' },
+      },
+    });
+
+    expect(response.statusCode).toBe(200);
+
+    const body = response.json();
+    expect(body.success).toBe(true);
+    expect(body.document.components.schemas.User.properties.id).toEqual({ type: 'integer' });
+    expect(body.components.User.status).toBe('refined');
+  });
+});
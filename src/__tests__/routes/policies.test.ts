@@ -0,0 +1,120 @@
+// Customer refinement policy endpoint tests
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import { policiesRoute } from '../../routes/policies.js';
+import { refineRoute } from '../../routes/refine.js';
+import { createApiKey } from '../../lib/jwt-keys.js';
+
+describe('Policy routes', () => {
+  let server: FastifyInstance;
+  let writerKey: string;
+  let readerKey: string;
+  let otherCustomerKey: string;
+
+  const auth = (key: string) => ({ authorization: `Bearer ${key}` });
+
+  beforeAll(async () => {
+    // Set test environment variables
+    process.env.JWT_SECRET = process.env.JWT_SECRET || 'test_jwt_secret_for_policy_tests_0123456789';
+
+    writerKey = createApiKey('customer_policies', 'Platform team', 'pro', { permissions: ['refine', 'policies:write'] });
+    readerKey = createApiKey('customer_policies', 'Product team', 'pro');
+    otherCustomerKey = createApiKey('customer_other', 'Other customer', 'pro');
+
+    server = Fastify({ logger: false });
+    await server.register(policiesRoute, { prefix: '/api/v1' });
+    await server.register(refineRoute, { prefix: '/api/v1' });
+    await server.ready();
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  it('should return 401 without Authorization header', async () => {
+    const response = await server.inject({ method: 'GET', url: '/api/v1/policies' });
+    expect(response.statusCode).toBe(401);
+  });
+
+  it('should list the built-in rule packs', async () => {
+    const response = await server.inject({ method: 'GET', url: '/api/v1/policies/packs', headers: auth(readerKey) });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json().packs.map((pack: any) => pack.name)).toEqual([
+      'strict-contracts',
+      'uuid-ids',
+      'coerced-dates',
+    ]);
+  });
+
+  it('should only let admin or policies:write keys change the policy', async () => {
+    const response = await server.inject({
+      method: 'PUT',
+      url: '/api/v1/policies',
+      headers: auth(readerKey),
+      payload: { packs: ['uuid-ids'] },
+    });
+
+    expect(response.statusCode).toBe(403);
+    expect(response.json().errorCode).toBe('FORBIDDEN');
+  });
+
+  it('should return 400 for unknown packs and invalid rules', async () => {
+    for (const payload of [
+      { packs: ['no-such-pack'] },
+      { rules: [{ type: 'field-type', fields: ['id'], zodType: 'uuid' }] },
+      { rules: [{ type: 'unknown' }] },
+    ]) {
+      const response = await server.inject({ method: 'PUT', url: '/api/v1/policies', headers: auth(writerKey), payload });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().errorCode).toBe('INVALID_REQUEST');
+    }
+  });
+
+  it('should apply the saved policy to refinements of every key of the customer', async () => {
+    const saved = await server.inject({
+      method: 'PUT',
+      url: '/api/v1/policies',
+      headers: auth(writerKey),
+      payload: { packs: ['coerced-dates'], rules: [{ type: 'instruction', text: 'Prefer enums for status fields' }] },
+    });
+    expect(saved.statusCode).toBe(200);
+    expect(saved.json().policy).toMatchObject({ customerId: 'customer_policies', packs: ['coerced-dates'] });
+
+    const fetched = await server.inject({ method: 'GET', url: '/api/v1/policies', headers: auth(readerKey) });
+    expect(fetched.json().policy.rules).toHaveLength(1);
+
+    const other = await server.inject({ method: 'GET', url: '/api/v1/policies', headers: auth(otherCustomerKey) });
+    expect(other.json().policy).toBeNull();
+
+    const refined = await server.inject({
+      method: 'POST',
+      url: '/api/v1/refine',
+      headers: auth(readerKey),
+      payload: {
+        schema: {
+          code: 'z.object({ createdAt: z.string() })',
+          typeName: 'PolicyEvent',
+          fields: { createdAt: 'z.string()' },
+        },
+        samples: [{ createdAt: '2025-10-22T10:00:00Z' }, { createdAt: '2025-10-23T11:30:00Z' }],
+        options: { provider: 'heuristic' },
+      },
+    });
+
+    expect(refined.statusCode).toBe(200);
+    const body = refined.json();
+    expect(body.refinedSchema.code).toContain('createdAt: z.coerce.date()');
+    expect(body.policyReport).toMatchObject({ customerId: 'customer_policies', rules: 2 });
+  });
+
+  it('should delete the policy', async () => {
+    const deleted = await server.inject({ method: 'DELETE', url: '/api/v1/policies', headers: auth(writerKey) });
+    expect(deleted.statusCode).toBe(200);
+
+    const again = await server.inject({ method: 'DELETE', url: '/api/v1/policies', headers: auth(writerKey) });
+    expect(again.statusCode).toBe(404);
+    expect(again.json().errorCode).toBe('POLICY_NOT_FOUND');
+  });
+});
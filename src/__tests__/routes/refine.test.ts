@@ -3,6 +3,7 @@ import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vites
 import Fastify, { FastifyInstance } from 'fastify';
 import { refineRoute } from '../../routes/refine.js';
 import { authMiddleware } from '../../middleware/auth.js';
+import { configManager } from '../../lib/providers/config-manager.js';
 
 describe('POST /refine', () => {
   let server: FastifyInstance;
@@ -258,6 +259,181 @@ describe('POST /refine', () => {
 
       expect([200, 500]).toContain(response.statusCode);
     });
+
+    it('should accept a JSON Schema document and return JSON Schema output', async () => {
+      const response = await server.inject({
+        method: 'POST',
+        url: '/api/v1/refine',
+        headers: {
+          authorization: `Bearer ${VALID_API_KEY}`,
+        },
+        payload: {
+          schema: {
+            jsonSchema: {
+              type: 'object',
+              properties: { email: { type: 'string' } },
+              required: ['email'],
+            },
+            typeName: 'JsonSchemaUser',
+          },
+          samples: [{ email: 'alice@example.com' }, { email: 'bob@test.org' }],
+          options: { provider: 'heuristic' },
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+
+      const body = response.json();
+      expect(body.refinedSchema.code).toContain('z.string().email()');
+      expect(body.refinedSchema.jsonSchema.properties.email).toMatchObject({ format: 'email' });
+      expect(body.refinedSchema.improvements[0].jsonSchemaKeywords).toMatchObject({
+        format: 'email',
+      });
+    });
+
+    it('should return the refined schema for requested output targets', async () => {
+      const response = await server.inject({
+        method: 'POST',
+        url: '/api/v1/refine',
+        headers: {
+          authorization: `Bearer ${VALID_API_KEY}`,
+        },
+        payload: {
+          schema: {
+            code: 'z.object({ email: z.string() })',
+            typeName: 'TargetUser',
+            fields: { email: 'z.string()' },
+          },
+          samples: [{ email: 'alice@example.com' }, { email: 'bob@test.org' }],
+          options: { provider: 'heuristic', outputTargets: ['typescript', 'arktype'] },
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+
+      const { targets } = response.json().refinedSchema;
+      expect(Object.keys(targets)).toEqual(['typescript', 'arktype']);
+      expect(targets.typescript.code).toContain('export type TargetUser = {');
+      expect(targets.arktype.code).toContain(`email: 'string.email'`);
+    });
+
+    it('should return 400 for an unknown output target', async () => {
+      const response = await server.inject({
+        method: 'POST',
+        url: '/api/v1/refine',
+        headers: {
+          authorization: `Bearer ${VALID_API_KEY}`,
+        },
+        payload: {
+          schema: {
+            code: 'z.object({ name: z.string() })',
+            typeName: 'User',
+            fields: { name: 'z.string()' },
+          },
+          samples: [{ name: 'Alice' }],
+          options: { outputTargets: ['joi'] },
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should return 400 for a schema with neither code nor jsonSchema', async () => {
+      const response = await server.inject({
+        method: 'POST',
+        url: '/api/v1/refine',
+        headers: {
+          authorization: `Bearer ${VALID_API_KEY}`,
+        },
+        payload: {
+          schema: { typeName: 'User' },
+          samples: [{ name: 'Alice' }],
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should return 400 for an unknown refinement mode', async () => {
+      const response = await server.inject({
+        method: 'POST',
+        url: '/api/v1/refine',
+        headers: {
+          authorization: `Bearer ${VALID_API_KEY}`,
+        },
+        payload: {
+          schema: {
+            code: 'z.object({ name: z.string() })',
+            typeName: 'User',
+            fields: { name: 'z.string()' },
+          },
+          samples: [{ name: 'Alice' }],
+          options: { mode: 'majority' },
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+
+  describe('PII policy', () => {
+    afterEach(() => {
+      configManager.updateConfig({ piiPolicy: 'redact' });
+    });
+
+    it('should report redacted PII in the response', async () => {
+      const response = await server.inject({
+        method: 'POST',
+        url: '/api/v1/refine',
+        headers: {
+          authorization: `Bearer ${VALID_API_KEY}`,
+        },
+        payload: {
+          schema: {
+            code: 'z.object({ phone: z.string() })',
+            typeName: 'PiiContact',
+            fields: { phone: 'z.string()' },
+          },
+          samples: [{ phone: '+31 6 12345678' }],
+          options: { provider: 'heuristic' },
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().piiReport).toMatchObject({
+        policy: 'redact',
+        redacted: true,
+        findings: [{ field: 'phone', type: 'phone', count: 1 }],
+      });
+    });
+
+    it('should return 422 when the PII policy is block', async () => {
+      configManager.updateConfig({ piiPolicy: 'block' });
+
+      const response = await server.inject({
+        method: 'POST',
+        url: '/api/v1/refine',
+        headers: {
+          authorization: `Bearer ${VALID_API_KEY}`,
+        },
+        payload: {
+          schema: {
+            code: 'z.object({ email: z.string() })',
+            typeName: 'BlockedUser',
+            fields: { email: 'z.string()' },
+          },
+          samples: [{ email: 'jane@acme.io' }],
+          options: { provider: 'heuristic' },
+        },
+      });
+
+      expect(response.statusCode).toBe(422);
+      expect(response.json()).toMatchObject({
+        success: false,
+        errorCode: 'PII_BLOCKED',
+        piiReport: { policy: 'block', findings: [{ field: 'email', type: 'email' }] },
+      });
+    });
   });
 
   describe('Response Format', () => {
@@ -0,0 +1,118 @@
+// Refinement session endpoint tests
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import { sessionsRoute } from '../../routes/sessions.js';
+
+describe('Session routes', () => {
+  let server: FastifyInstance;
+  const VALID_API_KEY = process.env.ZODFORGE_API_KEY || 'zf_test_key_for_testing_purposes_only_12345';
+  const headers = { authorization: `Bearer ${VALID_API_KEY}` };
+
+  const payload = {
+    schema: {
+      code: 'z.object({ email: z.string(), id: z.string() })',
+      typeName: 'SessionUser',
+      fields: { email: 'z.string()', id: 'z.string()' },
+    },
+    samples: [
+      { email: 'alice@example.com', id: '550e8400-e29b-41d4-a716-446655440000' },
+      { email: 'bob@test.org', id: '6ba7b810-9dad-11d1-80b4-00c04fd430c8' },
+    ],
+    options: { provider: 'heuristic' },
+  };
+
+  beforeAll(async () => {
+    // Set test environment variables
+    process.env.ZODFORGE_API_KEY = VALID_API_KEY;
+
+    server = Fastify({ logger: false });
+    await server.register(sessionsRoute, { prefix: '/api/v1' });
+    await server.ready();
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  it('should return 401 without Authorization header', async () => {
+    const response = await server.inject({ method: 'POST', url: '/api/v1/sessions', payload });
+    expect(response.statusCode).toBe(401);
+  });
+
+  it('should run a session through feedback rounds', async () => {
+    const created = await server.inject({ method: 'POST', url: '/api/v1/sessions', headers, payload });
+    expect(created.statusCode).toBe(201);
+
+    const { session } = created.json();
+    expect(session.ownerId).toBeUndefined();
+    const improvements = session.history[0].response.refinedSchema.improvements;
+    const emailIndex = improvements.findIndex((i: any) => i.field === 'email');
+    const idIndex = improvements.findIndex((i: any) => i.field === 'id');
+    expect(emailIndex).toBeGreaterThanOrEqual(0);
+    expect(idIndex).toBeGreaterThanOrEqual(0);
+
+    const feedback = await server.inject({
+      method: 'POST',
+      url: `/api/v1/sessions/${session.id}/feedback`,
+      headers,
+      payload: {
+        feedback: [
+          { index: emailIndex, decision: 'accept' },
+          { index: idIndex, decision: 'reject', comment: 'IDs are not always UUIDs' },
+        ],
+      },
+    });
+    expect(feedback.statusCode).toBe(200);
+
+    const updated = feedback.json().session;
+    expect(updated.history).toHaveLength(2);
+    expect(updated.currentCode).toContain('email: z.string().email()');
+    expect(updated.currentCode).toContain('id: z.string()');
+
+    // The heuristic provider proposes the UUID check again, but rejected changes are dropped
+    const secondRound = updated.history[1].response.refinedSchema.improvements;
+    expect(secondRound.some((i: any) => i.field === 'id' && i.after === improvements[idIndex].after)).toBe(false);
+
+    const fetched = await server.inject({ method: 'GET', url: `/api/v1/sessions/${session.id}`, headers });
+    expect(fetched.statusCode).toBe(200);
+    expect(fetched.json().session.rejected[0]).toMatchObject({ field: 'id', comment: 'IDs are not always UUIDs' });
+  });
+
+  it('should return 400 for feedback on an unknown improvement', async () => {
+    const created = await server.inject({
+      method: 'POST',
+      url: '/api/v1/sessions',
+      headers,
+      payload: { ...payload, schema: { ...payload.schema, typeName: 'SessionUserB' } },
+    });
+
+    const response = await server.inject({
+      method: 'POST',
+      url: `/api/v1/sessions/${created.json().session.id}/feedback`,
+      headers,
+      payload: { feedback: [{ index: 99, decision: 'accept' }] },
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(response.json().errorCode).toBe('INVALID_FEEDBACK');
+  });
+
+  it('should return 404 for unknown sessions', async () => {
+    const response = await server.inject({
+      method: 'POST',
+      url: '/api/v1/sessions/ses_missing/feedback',
+      headers,
+      payload: { feedback: [{ index: 0, decision: 'accept' }] },
+    });
+
+    expect(response.statusCode).toBe(404);
+    expect(response.json().errorCode).toBe('SESSION_NOT_FOUND');
+  });
+
+  it('should return 400 for an invalid body', async () => {
+    const response = await server.inject({ method: 'POST', url: '/api/v1/sessions', headers, payload: { samples: [] } });
+
+    expect(response.statusCode).toBe(400);
+    expect(response.json().errorCode).toBe('INVALID_REQUEST');
+  });
+});
@@ -0,0 +1,112 @@
+// Streaming refinement endpoint tests
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import { streamRoute } from '../../routes/stream.js';
+import { providerFactoryV2 } from '../../lib/providers/index.js';
+
+/** Parse an SSE body into { event, data } pairs (comment lines are skipped) */
+function parseEvents(body: string) {
+  return body
+    .split('\n\n')
+    .filter((block) => block.startsWith('event: '))
+    .map((block) => {
+      const [eventLine, dataLine] = block.split('\n');
+      return { event: eventLine.slice('event: '.length), data: JSON.parse(dataLine.slice('data: '.length)) };
+    });
+}
+
+describe('POST /refine/stream', () => {
+  let server: FastifyInstance;
+  const VALID_API_KEY = process.env.ZODFORGE_API_KEY || 'zf_test_key_for_testing_purposes_only_12345';
+
+  const payload = {
+    schema: {
+      code: 'z.object({ email: z.string(), id: z.string() })',
+      typeName: 'StreamUser',
+      fields: { email: 'z.string()', id: 'z.string()' },
+    },
+    samples: [
+      { email: 'alice@example.com', id: '550e8400-e29b-41d4-a716-446655440000' },
+      { email: 'bob@test.org', id: '6ba7b810-9dad-11d1-80b4-00c04fd430c8' },
+    ],
+    options: { provider: 'heuristic' },
+  };
+
+  beforeAll(async () => {
+    // Set test environment variables
+    process.env.ZODFORGE_API_KEY = VALID_API_KEY;
+
+    server = Fastify({ logger: false });
+    await server.register(streamRoute, { prefix: '/api/v1' });
+    await server.ready();
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should return 401 without Authorization header', async () => {
+    const response = await server.inject({ method: 'POST', url: '/api/v1/refine/stream', payload });
+    expect(response.statusCode).toBe(401);
+  });
+
+  it('should return a JSON 400 for an invalid body', async () => {
+    const response = await server.inject({
+      method: 'POST',
+      url: '/api/v1/refine/stream',
+      headers: { authorization: `Bearer ${VALID_API_KEY}` },
+      payload: { samples: [] },
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(response.json().errorCode).toBe('INVALID_REQUEST');
+  });
+
+  it('should stream started, provider_selected, improvements and completed', async () => {
+    const response = await server.inject({
+      method: 'POST',
+      url: '/api/v1/refine/stream',
+      headers: { authorization: `Bearer ${VALID_API_KEY}` },
+      payload,
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.headers['content-type']).toContain('text/event-stream');
+
+    const events = parseEvents(response.body);
+    const names = events.map((e) => e.event);
+
+    expect(names[0]).toBe('started');
+    expect(names[1]).toBe('provider_selected');
+    expect(names[names.length - 1]).toBe('completed');
+    expect(events[1].data).toEqual({ provider: 'heuristic', attempt: 'primary' });
+
+    const completed = events[events.length - 1].data;
+    expect(completed.success).toBe(true);
+
+    const improvements = events.filter((e) => e.event === 'improvement').map((e) => e.data.improvement);
+    expect(improvements).toEqual(completed.refinedSchema.improvements);
+    expect(improvements.map((i: any) => i.field)).toEqual(expect.arrayContaining(['email', 'id']));
+  });
+
+  it('should end the stream with an error event when the refinement fails', async () => {
+    vi.spyOn(providerFactoryV2, 'refineSchemaStream').mockImplementationOnce(async function* () {
+      throw new Error('OpenAI API error: upstream down');
+    });
+
+    const response = await server.inject({
+      method: 'POST',
+      url: '/api/v1/refine/stream',
+      headers: { authorization: `Bearer ${VALID_API_KEY}` },
+      payload,
+    });
+
+    const events = parseEvents(response.body);
+    expect(events.map((e) => e.event)).toEqual(['started', 'error']);
+    expect(events[1].data).toMatchObject({ success: false, errorCode: 'AI_PROVIDER_ERROR' });
+  });
+});
@@ -74,6 +74,12 @@ const envSchema = z.object({
     .min(32, 'JWT secret must be at least 32 characters for security')
     .optional(),
 
+  // Refinement job store (supabase requires SUPABASE_URL and SUPABASE_SERVICE_KEY)
+  JOB_STORE: z.enum(['memory', 'supabase']).optional().default('memory'),
+
+  // Customer policy store (supabase requires SUPABASE_URL and SUPABASE_SERVICE_KEY)
+  POLICY_STORE: z.enum(['memory', 'supabase']).default('memory'),
+
   // Audit logging
   AUDIT_LOGGING_ENABLED: z.coerce.boolean().optional().default(true),
 
@@ -30,6 +30,11 @@ export interface AuditLogEntry {
   aiProvider?: string;
   aiModel?: string;
 
+  // Prompt template version (and experiment arm) the provider answered
+  promptName?: string;
+  promptVersion?: number;
+  promptVariant?: 'control' | 'candidate';
+
   // Token usage
   inputTokens?: number;
   outputTokens?: number;
@@ -162,6 +167,9 @@ export class AuditLogger {
             error_message: entry.errorMessage,
             ai_provider: entry.aiProvider,
             ai_model: entry.aiModel,
+            prompt_name: entry.promptName,
+            prompt_version: entry.promptVersion,
+            prompt_variant: entry.promptVariant,
             input_tokens: entry.inputTokens,
             output_tokens: entry.outputTokens,
             total_tokens: entry.totalTokens,
@@ -286,6 +294,40 @@ export class AuditLogger {
     }
   }
 
+  /**
+   * Check the minute and day limits and count the request in one step (a single RPC that locks the
+   * key's counters), so concurrent requests cannot pass the limits together. Nothing is counted
+   * when a limit is reached.
+   */
+  async consumeRateLimit(
+    kid: string,
+    limits: { minute: number; day: number }
+  ): Promise<{ allowed: true } | { allowed: false; windowType: 'minute' | 'day'; limit: number }> {
+    if (!this.enabled || !this.supabase) {
+      return { allowed: true };
+    }
+
+    try {
+      const { data, error } = await this.supabase.rpc('consume_rate_limit', {
+        p_kid: kid,
+        p_minute_limit: limits.minute,
+        p_day_limit: limits.day,
+      });
+
+      if (error) {
+        console.error('Rate limit consume error:', error);
+        return { allowed: true }; // Fail open
+      }
+
+      return data === 'minute' || data === 'day'
+        ? { allowed: false, windowType: data, limit: limits[data as 'minute' | 'day'] }
+        : { allowed: true };
+    } catch (error) {
+      console.error('Rate limit consume error:', error);
+      return { allowed: true }; // Fail open
+    }
+  }
+
   /**
    * Increment rate limit counter
    */
@@ -304,6 +346,50 @@ export class AuditLogger {
     }
   }
 
+  /**
+   * Check the monthly token quota (per-key)
+   */
+  async checkTokenQuota(kid: string, limit: number): Promise<{ allowed: boolean; limit: number }> {
+    if (!this.enabled || !this.supabase) {
+      return { allowed: true, limit };
+    }
+
+    try {
+      const { data, error } = await this.supabase.rpc('check_token_quota', {
+        p_kid: kid,
+        p_limit: limit,
+      });
+
+      if (error) {
+        console.error('Token quota check error:', error);
+        return { allowed: true, limit }; // Fail open
+      }
+
+      return { allowed: data === true, limit };
+    } catch (error) {
+      console.error('Token quota check error:', error);
+      return { allowed: true, limit }; // Fail open
+    }
+  }
+
+  /**
+   * Add provider tokens to the key's monthly count
+   */
+  async incrementTokenUsage(kid: string, tokens: number): Promise<void> {
+    if (!this.enabled || !this.supabase || tokens <= 0) {
+      return;
+    }
+
+    try {
+      await this.supabase.rpc('increment_token_usage', {
+        p_kid: kid,
+        p_tokens: tokens,
+      });
+    } catch (error) {
+      console.error('Failed to increment token usage:', error);
+    }
+  }
+
   /**
    * Get usage summary for a key
    */
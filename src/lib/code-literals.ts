@@ -0,0 +1,26 @@
+// Literals for generated TypeScript/Zod code (keys and strings)
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+/**
+ * Object key as written in generated code (quoted unless it is an identifier)
+ */
+export function formatKey(key: string): string {
+  return IDENTIFIER.test(key) ? key : escapeLineSeparators(JSON.stringify(key));
+}
+
+/**
+ * Single-quoted string literal for generated code. Escapes come from JSON.stringify
+ * (backslashes, control characters such as \n and \r), plus single quotes and U+2028/U+2029.
+ */
+export function quote(value: string): string {
+  const escaped = escapeLineSeparators(JSON.stringify(value)).slice(1, -1);
+  return `'${escaped.replace(/\\"/g, '"').replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * JSON leaves the line and paragraph separators unescaped, but older parsers end lines at them
+ */
+function escapeLineSeparators(literal: string): string {
+  return literal.replace(/\u2028/g, '\\u2028').replace(/\u2029/g, '\\u2029');
+}
@@ -0,0 +1,538 @@
+// Compatibility analysis between the original and the refined schema (breaking-change report)
+import { buildSchemaIR, type SchemaIR, type SchemaNode } from './schema-ir.js';
+import { withCompiledSchema, withSandbox, type SandboxedSchema, type SandboxParseResult } from './schema-sandbox.js';
+import { splitFieldPath } from './schema-patcher.js';
+import type {
+  AffectedSample,
+  CompatibilityClass,
+  CompatibilityReport,
+  ImprovementCompatibility,
+  SchemaImprovement,
+} from '../types/index.js';
+
+interface Changes {
+  tightening: string[];
+  loosening: string[];
+  transform: string[];
+}
+
+type Bound = { value: number; exclusive: boolean } | undefined;
+
+/**
+ * IR warnings that change what a schema accepts or returns, by the effect of adding one
+ */
+const WARNING_EFFECTS: Array<{ match: string; name: string; effect: keyof Changes; inverse: keyof Changes }> = [
+  { match: '.transform()', name: '.transform()', effect: 'transform', inverse: 'transform' },
+  { match: '.pipe()', name: '.pipe()', effect: 'transform', inverse: 'transform' },
+  { match: 'value normalization', name: 'value normalization (trim, case)', effect: 'transform', inverse: 'transform' },
+  { match: 'custom refinement', name: 'custom refinement', effect: 'tightening', inverse: 'loosening' },
+  { match: '.catch()', name: '.catch() fallback', effect: 'transform', inverse: 'transform' },
+];
+
+/**
+ * Compare the original schema with the refined schema: classify every improvement
+ * and run the submitted samples through both schemas. Every schema is loaded into one
+ * sandbox (the given one, else one created for the analysis).
+ */
+export function analyzeCompatibility(
+  originalCode: string,
+  refinedCode: string,
+  typeName: string,
+  improvements: SchemaImprovement[],
+  samples: unknown[],
+  sandbox?: SandboxedSchema
+): CompatibilityReport {
+  return withSandbox(sandbox, (shared) =>
+    compareSchemas(originalCode, refinedCode, typeName, improvements, samples, shared)
+  );
+}
+
+function compareSchemas(
+  originalCode: string,
+  refinedCode: string,
+  typeName: string,
+  improvements: SchemaImprovement[],
+  samples: unknown[],
+  sandbox: SandboxedSchema
+): CompatibilityReport {
+  const { analyzed, affected } = analyzeSamples(originalCode, refinedCode, typeName, samples, sandbox);
+
+  const classified: ImprovementCompatibility[] = improvements.map((improvement, improvementIndex) => {
+    const field = splitFieldPath(improvement.field);
+    const affectedSamples = affected
+      .filter((sample) => sample.fields.some((path) => isWithin(splitFieldPath(path), field)))
+      .map((sample) => sample.index);
+
+    return {
+      improvementIndex,
+      field: improvement.field,
+      ...classifyImprovement(improvement, sandbox),
+      affectedSamples,
+    };
+  });
+
+  const summary: Record<CompatibilityClass, number> = {
+    tightening: 0,
+    loosening: 0,
+    transform: 0,
+    neutral: 0,
+    unknown: 0,
+  };
+  for (const improvement of classified) {
+    summary[improvement.classification]++;
+  }
+
+  return {
+    breaking: summary.tightening + summary.transform + summary.unknown > 0 || affected.length > 0,
+    summary,
+    improvements: classified,
+    samplesAnalyzed: analyzed,
+    affectedSamples: affected,
+  };
+}
+
+/**
+ * Classify one improvement by comparing its before and after types
+ */
+export function classifyImprovement(
+  improvement: Pick<SchemaImprovement, 'before' | 'after'>,
+  sandbox?: SandboxedSchema
+): { classification: CompatibilityClass; reasons: string[] } {
+  let before: SchemaIR;
+  let after: SchemaIR;
+  try {
+    before = buildSchemaIR(improvement.before, undefined, sandbox);
+    after = buildSchemaIR(improvement.after, undefined, sandbox);
+  } catch (error: any) {
+    return { classification: 'unknown', reasons: [error.message] };
+  }
+
+  const changes: Changes = { tightening: [], loosening: [], transform: [] };
+  compareNodes(before.root, after.root, '', changes);
+  compareWarnings(before.warnings, after.warnings, changes);
+
+  const classification: CompatibilityClass =
+    changes.transform.length > 0
+      ? 'transform'
+      : changes.tightening.length > 0
+        ? 'tightening'
+        : changes.loosening.length > 0
+          ? 'loosening'
+          : 'neutral';
+
+  return { classification, reasons: [...changes.transform, ...changes.tightening, ...changes.loosening] };
+}
+
+function compareNodes(before: SchemaNode, after: SchemaNode, path: string, changes: Changes): void {
+  const add = (effect: keyof Changes, reason: string) => changes[effect].push(path ? `${path}: ${reason}` : reason);
+  const b = unwrap(before);
+  const a = unwrap(after);
+
+  if (b.optional && !a.optional) {
+    add('tightening', 'no longer optional');
+  } else if (!b.optional && a.optional) {
+    add('loosening', 'now optional');
+  }
+  if (b.nullable && !a.nullable) {
+    add('tightening', 'no longer nullable');
+  } else if (!b.nullable && a.nullable) {
+    add('loosening', 'now nullable');
+  }
+  if (!b.hasDefault && a.hasDefault) {
+    add('transform', 'adds a default value');
+  } else if (b.hasDefault && !a.hasDefault) {
+    add('transform', 'removes the default value');
+  }
+
+  compareCores(b.core, a.core, path, add, changes);
+}
+
+function compareCores(
+  before: SchemaNode,
+  after: SchemaNode,
+  path: string,
+  add: (effect: keyof Changes, reason: string) => void,
+  changes: Changes
+): void {
+  if (before.kind !== after.kind) {
+    compareKinds(before, after, add);
+    return;
+  }
+
+  switch (before.kind) {
+    case 'string': {
+      const next = after as typeof before;
+      if (before.format !== next.format) {
+        if (!before.format) {
+          add('tightening', `adds format "${next.format}"`);
+        } else if (!next.format) {
+          add('loosening', `removes format "${before.format}"`);
+        } else {
+          add('tightening', `format "${before.format}" → "${next.format}"`);
+        }
+      }
+      const beforePatterns = (before.patterns || []).map((pattern) => `/${pattern.source}/${pattern.flags}`);
+      const afterPatterns = (next.patterns || []).map((pattern) => `/${pattern.source}/${pattern.flags}`);
+      afterPatterns.filter((p) => !beforePatterns.includes(p)).forEach((p) => add('tightening', `adds pattern ${p}`));
+      beforePatterns.filter((p) => !afterPatterns.includes(p)).forEach((p) => add('loosening', `removes pattern ${p}`));
+      compareLower('minLength', inclusive(before.minLength), inclusive(next.minLength), add);
+      compareUpper('maxLength', inclusive(before.maxLength), inclusive(next.maxLength), add);
+      compareExact('length', before.length, next.length, add);
+      compareCoercion(before.coerce, next.coerce, add);
+      return;
+    }
+
+    case 'number': {
+      const next = after as typeof before;
+      if (!before.integer && next.integer) {
+        add('tightening', 'must be an integer');
+      } else if (before.integer && !next.integer) {
+        add('loosening', 'no longer has to be an integer');
+      }
+      compareLower('minimum', lowerBound(before), lowerBound(next), add);
+      compareUpper('maximum', upperBound(before), upperBound(next), add);
+      compareExact('multipleOf', before.multipleOf, next.multipleOf, add);
+      compareCoercion(before.coerce, next.coerce, add);
+      return;
+    }
+
+    case 'boolean':
+    case 'bigint':
+    case 'date':
+      compareCoercion(before.coerce, (after as typeof before).coerce, add);
+      return;
+
+    case 'literal':
+    case 'enum':
+      compareValues(before.values, (after as typeof before).values, add);
+      return;
+
+    case 'array': {
+      const next = after as typeof before;
+      compareLower('minItems', inclusive(before.minItems), inclusive(next.minItems), add);
+      compareUpper('maxItems', inclusive(before.maxItems), inclusive(next.maxItems), add);
+      compareExact('length', before.length, next.length, add);
+      compareNodes(before.element, next.element, `${path}[]`, changes);
+      return;
+    }
+
+    case 'tuple': {
+      const next = after as typeof before;
+      if (next.items.length > before.items.length) {
+        add('tightening', `${next.items.length - before.items.length} more tuple items`);
+      } else if (next.items.length < before.items.length) {
+        add('loosening', `${before.items.length - next.items.length} fewer tuple items`);
+      }
+      before.items
+        .slice(0, next.items.length)
+        .forEach((item, index) => compareNodes(item, next.items[index], `${path}[${index}]`, changes));
+      return;
+    }
+
+    case 'object': {
+      const next = after as typeof before;
+      compareUnknownKeys(before.unknownKeys, next.unknownKeys, add);
+
+      const beforeProperties = new Map(before.properties.map((property) => [property.name, property.schema]));
+      for (const { name, schema } of next.properties) {
+        const childPath = path ? `${path}.${name}` : name;
+        const previous = beforeProperties.get(name);
+        if (previous) {
+          compareNodes(previous, schema, childPath, changes);
+        } else {
+          add('tightening', `adds ${unwrap(schema).optional ? 'optional' : 'required'} property "${name}"`);
+        }
+      }
+      for (const { name } of before.properties) {
+        if (!next.properties.some((property) => property.name === name)) {
+          add('loosening', `removes property "${name}"`);
+        }
+      }
+      return;
+    }
+
+    case 'record': {
+      const next = after as typeof before;
+      compareNodes(before.key, next.key, `${path}.*(key)`, changes);
+      compareNodes(before.value, next.value, `${path}.*`, changes);
+      return;
+    }
+
+    case 'union': {
+      const next = after as typeof before;
+      if (next.options.length < before.options.length) {
+        add('tightening', `${before.options.length - next.options.length} fewer union options`);
+      } else if (next.options.length > before.options.length) {
+        add('loosening', `${next.options.length - before.options.length} more union options`);
+      } else {
+        before.options.forEach((option, index) => compareNodes(option, next.options[index], path, changes));
+      }
+      return;
+    }
+
+    case 'intersection': {
+      const next = after as typeof before;
+      compareNodes(before.left, next.left, path, changes);
+      compareNodes(before.right, next.right, path, changes);
+      return;
+    }
+  }
+}
+
+/**
+ * The type itself changed (string → enum, string → coerced date, ...)
+ */
+function compareKinds(before: SchemaNode, after: SchemaNode, add: (effect: keyof Changes, reason: string) => void): void {
+  const values = (node: SchemaNode) => (node.kind === 'enum' || node.kind === 'literal' ? node.values : null);
+
+  if (before.kind === 'any' || before.kind === 'unknown') {
+    add('tightening', `type narrowed to ${after.kind}`);
+  } else if (after.kind === 'any' || after.kind === 'unknown') {
+    add('loosening', `type widened to ${after.kind}`);
+  } else if (values(before) && values(after)) {
+    compareValues(values(before)!, values(after)!, add);
+  } else if (values(after) && values(after)!.every((value) => typeof value === before.kind)) {
+    add('tightening', `restricted to ${values(after)!.length} allowed values`);
+  } else if (values(before) && values(before)!.every((value) => typeof value === after.kind)) {
+    add('loosening', `any ${after.kind} allowed (was ${values(before)!.length} values)`);
+  } else if (after.kind === 'union' && after.options.some((option) => unwrap(option).core.kind === before.kind)) {
+    add('loosening', `widened from ${before.kind} to a union`);
+  } else if (before.kind === 'union' && before.options.some((option) => unwrap(option).core.kind === after.kind)) {
+    add('tightening', `narrowed from a union to ${after.kind}`);
+  } else {
+    add('tightening', `type changed from ${before.kind} to ${after.kind}`);
+    if ('coerce' in after && after.coerce) {
+      add('transform', `coerces input to ${after.kind}`);
+    }
+  }
+}
+
+function compareValues(
+  before: Array<string | number | boolean | null>,
+  after: Array<string | number | boolean | null>,
+  add: (effect: keyof Changes, reason: string) => void
+): void {
+  const removed = before.filter((value) => !after.includes(value));
+  const added = after.filter((value) => !before.includes(value));
+
+  if (removed.length > 0) {
+    add('tightening', `no longer allows ${removed.map((value) => JSON.stringify(value)).join(', ')}`);
+  }
+  if (added.length > 0) {
+    add('loosening', `also allows ${added.map((value) => JSON.stringify(value)).join(', ')}`);
+  }
+}
+
+function compareLower(
+  name: string,
+  before: Bound,
+  after: Bound,
+  add: (effect: keyof Changes, reason: string) => void
+): void {
+  if (sameBound(before, after)) {
+    return;
+  }
+  const tighter = !before || (after !== undefined && (after.value > before.value || (after.value === before.value && after.exclusive)));
+  add(tighter ? 'tightening' : 'loosening', `${name} ${formatBound(before)} → ${formatBound(after)}`);
+}
+
+function compareUpper(
+  name: string,
+  before: Bound,
+  after: Bound,
+  add: (effect: keyof Changes, reason: string) => void
+): void {
+  if (sameBound(before, after)) {
+    return;
+  }
+  const tighter = !before || (after !== undefined && (after.value < before.value || (after.value === before.value && after.exclusive)));
+  add(tighter ? 'tightening' : 'loosening', `${name} ${formatBound(before)} → ${formatBound(after)}`);
+}
+
+/**
+ * Constraints where any new or changed value rejects data (length, multipleOf)
+ */
+function compareExact(
+  name: string,
+  before: number | undefined,
+  after: number | undefined,
+  add: (effect: keyof Changes, reason: string) => void
+): void {
+  if (before === after) {
+    return;
+  }
+  add(after === undefined ? 'loosening' : 'tightening', `${name} ${before ?? 'none'} → ${after ?? 'none'}`);
+}
+
+function compareCoercion(
+  before: boolean | undefined,
+  after: boolean | undefined,
+  add: (effect: keyof Changes, reason: string) => void
+): void {
+  if (!before && after) {
+    add('loosening', 'coerces input');
+  } else if (before && !after) {
+    add('tightening', 'no longer coerces input');
+  }
+}
+
+function compareUnknownKeys(
+  before: 'strip' | 'strict' | 'passthrough',
+  after: 'strip' | 'strict' | 'passthrough',
+  add: (effect: keyof Changes, reason: string) => void
+): void {
+  if (before === after) {
+    return;
+  }
+  if (after === 'strict') {
+    add('tightening', 'rejects unknown keys');
+  } else if (before === 'strict') {
+    add('loosening', 'allows unknown keys');
+  }
+  if (after === 'passthrough') {
+    add('transform', 'keeps unknown keys in the output');
+  } else if (before === 'passthrough') {
+    add('transform', 'no longer keeps unknown keys in the output');
+  }
+}
+
+/**
+ * Transforms, refinements and fallbacks are only visible as IR warnings
+ */
+function compareWarnings(before: string[], after: string[], changes: Changes): void {
+  for (const { match, name, effect, inverse } of WARNING_EFFECTS) {
+    const difference =
+      after.filter((warning) => warning.includes(match)).length -
+      before.filter((warning) => warning.includes(match)).length;
+
+    if (difference > 0) {
+      changes[effect].push(`adds ${name}`);
+    } else if (difference < 0) {
+      changes[inverse].push(`removes ${name}`);
+    }
+  }
+}
+
+/**
+ * Strip optional/nullable/default wrappers
+ */
+function unwrap(node: SchemaNode): { core: SchemaNode; optional: boolean; nullable: boolean; hasDefault: boolean } {
+  let core = node;
+  let optional = false;
+  let nullable = false;
+  let hasDefault = false;
+
+  while (core.kind === 'optional' || core.kind === 'nullable' || core.kind === 'default') {
+    if (core.kind === 'optional') {
+      optional = true;
+    } else if (core.kind === 'nullable') {
+      nullable = true;
+    } else {
+      optional = true;
+      hasDefault = true;
+    }
+    core = core.inner;
+  }
+
+  return { core, optional, nullable, hasDefault };
+}
+
+function inclusive(value: number | undefined): Bound {
+  return value === undefined ? undefined : { value, exclusive: false };
+}
+
+function lowerBound(node: Extract<SchemaNode, { kind: 'number' }>): Bound {
+  if (node.exclusiveMinimum !== undefined && (node.minimum === undefined || node.exclusiveMinimum >= node.minimum)) {
+    return { value: node.exclusiveMinimum, exclusive: true };
+  }
+  return inclusive(node.minimum);
+}
+
+function upperBound(node: Extract<SchemaNode, { kind: 'number' }>): Bound {
+  if (node.exclusiveMaximum !== undefined && (node.maximum === undefined || node.exclusiveMaximum <= node.maximum)) {
+    return { value: node.exclusiveMaximum, exclusive: true };
+  }
+  return inclusive(node.maximum);
+}
+
+function sameBound(before: Bound, after: Bound): boolean {
+  return before?.value === after?.value && before?.exclusive === after?.exclusive;
+}
+
+function formatBound(bound: Bound): string {
+  return bound === undefined ? 'none' : `${bound.value}${bound.exclusive ? ' (exclusive)' : ''}`;
+}
+
+/**
+ * Run the samples through both schemas: samples the refined schema rejects although the
+ * original accepted them, and samples that parse to a different value
+ */
+function analyzeSamples(
+  originalCode: string,
+  refinedCode: string,
+  typeName: string,
+  samples: unknown[],
+  sandbox: SandboxedSchema
+): { analyzed: number; affected: AffectedSample[] } {
+  let original: SandboxParseResult[];
+  let refined: SandboxParseResult[];
+  try {
+    original = withCompiledSchema(originalCode, typeName, (schema) => schema.safeParseAll(samples), sandbox);
+    refined = withCompiledSchema(refinedCode, typeName, (schema) => schema.safeParseAll(samples), sandbox);
+  } catch {
+    return { analyzed: 0, affected: [] };
+  }
+
+  const affected: AffectedSample[] = [];
+  samples.forEach((_, index) => {
+    if (!original[index].success) {
+      return;
+    }
+
+    if (!refined[index].success) {
+      const fields = refined[index].issues.map((issue) => formatFieldPath(issue.path));
+      affected.push({ index, effect: 'rejected', fields: Array.from(new Set(fields)) });
+    } else if (JSON.stringify(original[index].data) !== JSON.stringify(refined[index].data)) {
+      const fields = new Set<string>();
+      diffPaths(original[index].data, refined[index].data, [], fields);
+      affected.push({ index, effect: 'output-changed', fields: Array.from(fields) });
+    }
+  });
+
+  return { analyzed: samples.length, affected };
+}
+
+function diffPaths(before: unknown, after: unknown, path: Array<string | number>, fields: Set<string>): void {
+  if (Array.isArray(before) && Array.isArray(after)) {
+    for (let i = 0; i < Math.max(before.length, after.length); i++) {
+      diffPaths(before[i], after[i], [...path, i], fields);
+    }
+  } else if (isPlainObject(before) && isPlainObject(after)) {
+    for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+      diffPaths(before[key], after[key], [...path, key], fields);
+    }
+  } else if (JSON.stringify(before) !== JSON.stringify(after)) {
+    fields.add(formatFieldPath(path));
+  }
+}
+
+/**
+ * Zod issue path as a field path ("items[].sku"; "(root)" for the root)
+ */
+function formatFieldPath(path: Array<string | number>): string {
+  const field = path
+    .map((key, index) => (typeof key === 'number' ? '[]' : index === 0 ? key : `.${key}`))
+    .join('');
+  return field || '(root)';
+}
+
+/**
+ * Whether a sample field is the improvement's field or nested inside it
+ */
+function isWithin(path: string[], field: string[]): boolean {
+  return field.length > 0 && field.every((segment, index) => path[index] === segment);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,154 @@
+// Consensus (ensemble) refinement: merge the answers of several providers
+import { applyImprovements, normalizeZodCode } from './schema-patcher.js';
+import type {
+  ConsensusDisagreement,
+  ConsensusProposal,
+  ConsensusReport,
+  FieldRelationship,
+  RefinementRequest,
+  RefinementResponse,
+  SchemaImprovement,
+} from '../types/index.js';
+
+type ProviderResult = Omit<RefinementResponse, 'success' | 'error' | 'errorCode'>;
+
+/**
+ * Highest confidence an agreed improvement can reach
+ */
+export const MAX_CONSENSUS_CONFIDENCE = 0.99;
+
+/**
+ * Providers that must agree on an improvement: a strict majority, and never fewer than two
+ */
+export function consensusQuorum(providerCount: number): number {
+  return Math.max(2, Math.floor(providerCount / 2) + 1);
+}
+
+/**
+ * Merge provider results: improvements proposed (same field, same Zod type) by a quorum of
+ * providers are kept with boosted confidence, everything else is reported as a disagreement
+ */
+export function mergeConsensus(
+  request: RefinementRequest,
+  results: Array<{ provider: string; result: ProviderResult }>,
+  failures: Array<{ provider: string; error: string }> = []
+): ProviderResult {
+  const providers = results.map(({ provider }) => provider);
+  const quorum = consensusQuorum(results.length);
+
+  // field → normalized `after` → proposals (first proposal per provider and field)
+  const byField = new Map<string, Map<string, Array<{ provider: string; improvement: SchemaImprovement }>>>();
+
+  for (const { provider, result } of results) {
+    const seen = new Set<string>();
+
+    for (const improvement of result.refinedSchema?.improvements || []) {
+      if (seen.has(improvement.field)) {
+        continue;
+      }
+      seen.add(improvement.field);
+
+      const groups = byField.get(improvement.field) || new Map();
+      const key = normalizeZodCode(improvement.after);
+      groups.set(key, [...(groups.get(key) || []), { provider, improvement }]);
+      byField.set(improvement.field, groups);
+    }
+  }
+
+  const improvements: SchemaImprovement[] = [];
+  const disagreements: ConsensusDisagreement[] = [];
+
+  for (const [field, groups] of byField) {
+    const ranked = Array.from(groups.values()).sort((a, b) => b.length - a.length);
+    const best = ranked[0];
+    const agreed = best.length >= quorum;
+
+    if (agreed) {
+      const representative = best.reduce((a, b) => (b.improvement.confidence > a.improvement.confidence ? b : a));
+      improvements.push({
+        ...representative.improvement,
+        confidence: boostConfidence(best.map(({ improvement }) => improvement.confidence)),
+        backedBy: best.map(({ provider }) => provider),
+      });
+    }
+
+    // Anything short of every provider proposing the same change is worth surfacing
+    if (ranked.length > 1 || best.length < providers.length) {
+      const proposals: ConsensusProposal[] = ranked.flat().map(({ provider, improvement }) => ({
+        provider,
+        after: improvement.after,
+        reason: improvement.reason,
+        confidence: improvement.confidence,
+      }));
+      const proposing = new Set(proposals.map(({ provider }) => provider));
+
+      disagreements.push({
+        field,
+        ...(agreed ? { kept: best[0].improvement.after } : {}),
+        proposals,
+        abstained: providers.filter((provider) => !proposing.has(provider)),
+      });
+    }
+  }
+
+  const patch = applyImprovements(request.schema.code, improvements, request.schema.typeName);
+
+  const consensus: ConsensusReport = {
+    providers: [
+      ...results.map(({ provider, result }) => ({
+        provider,
+        success: true,
+        improvements: result.refinedSchema?.improvements.length || 0,
+      })),
+      ...failures.map(({ provider, error }) => ({ provider, success: false, error })),
+    ],
+    quorum,
+    agreed: improvements.length,
+    disagreements,
+  };
+
+  const confidences = improvements.length > 0
+    ? improvements.map((improvement) => improvement.confidence)
+    : results.map(({ result }) => result.refinedSchema?.confidence ?? 0.9);
+
+  return {
+    refinedSchema: {
+      code: patch.code,
+      improvements,
+      confidence: confidences.reduce((a, b) => a + b, 0) / confidences.length,
+      relationships: mergeRelationships(results.map(({ result }) => result.refinedSchema?.relationships || [])),
+      unappliedImprovements: patch.unapplied,
+    },
+    suggestions: Array.from(new Set(results.flatMap(({ result }) => result.suggestions || []))),
+    consensus,
+    creditsUsed: results.reduce((total, { result }) => total + (result.creditsUsed ?? 1), 0),
+    creditsRemaining: -1,
+    processingTime: Math.max(...results.map(({ result }) => result.processingTime || 0)),
+    aiProvider: 'consensus',
+  };
+}
+
+/**
+ * Independent agreement raises confidence: 1 - Π(1 - cᵢ), capped
+ */
+function boostConfidence(confidences: number[]): number {
+  const doubt = confidences.reduce((product, confidence) => product * (1 - confidence), 1);
+  return Math.min(MAX_CONSENSUS_CONFIDENCE, Math.round((1 - doubt) * 1000) / 1000);
+}
+
+/**
+ * Union of relationships, keeping the highest confidence per field set and pattern
+ */
+function mergeRelationships(lists: FieldRelationship[][]): FieldRelationship[] {
+  const merged = new Map<string, FieldRelationship>();
+
+  for (const relationship of lists.flat()) {
+    const key = `${[...relationship.fields].sort().join(',')}:${relationship.pattern}`;
+    const existing = merged.get(key);
+    if (!existing || relationship.confidence > existing.confidence) {
+      merged.set(key, relationship);
+    }
+  }
+
+  return Array.from(merged.values());
+}
@@ -0,0 +1,162 @@
+// Line-based unified diff
+
+/**
+ * Lines of context around each hunk
+ */
+export const DIFF_CONTEXT_LINES = 3;
+
+/**
+ * Largest (old × new) line matrix diffed exactly; bigger changes become one replacement hunk
+ */
+const MAX_DIFF_CELLS = 4_000_000;
+
+type DiffOp = { type: ' ' | '-' | '+'; line: string };
+
+/**
+ * Create a unified diff (`diff -u` format) between two texts
+ */
+export function createUnifiedDiff(
+  oldText: string,
+  newText: string,
+  oldName = 'original',
+  newName = 'refined',
+  context = DIFF_CONTEXT_LINES
+): string {
+  if (oldText === newText) {
+    return '';
+  }
+
+  const ops = diffLines(splitLines(oldText), splitLines(newText));
+  const hunks = buildHunks(ops, context);
+
+  return [`--- a/${oldName}`, `+++ b/${newName}`, ...hunks].join('\n') + '\n';
+}
+
+function splitLines(text: string): string[] {
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+/**
+ * Diff two line arrays (common prefix/suffix trimmed, LCS in between)
+ */
+function diffLines(oldLines: string[], newLines: string[]): DiffOp[] {
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+  const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+
+  return [
+    ...oldLines.slice(0, prefix).map((line): DiffOp => ({ type: ' ', line })),
+    ...diffMiddle(oldMiddle, newMiddle),
+    ...oldLines.slice(oldLines.length - suffix).map((line): DiffOp => ({ type: ' ', line })),
+  ];
+}
+
+function diffMiddle(a: string[], b: string[]): DiffOp[] {
+  if ((a.length + 1) * (b.length + 1) > MAX_DIFF_CELLS) {
+    return [
+      ...a.map((line): DiffOp => ({ type: '-', line })),
+      ...b.map((line): DiffOp => ({ type: '+', line })),
+    ];
+  }
+
+  // LCS lengths from the end: table[i][j] = LCS of a[i..] and b[j..]
+  const width = b.length + 1;
+  const table = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i * width + j] =
+        a[i] === b[j]
+          ? table[(i + 1) * width + j + 1] + 1
+          : Math.max(table[(i + 1) * width + j], table[i * width + j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push({ type: ' ', line: a[i] });
+      i++;
+      j++;
+    } else if (table[(i + 1) * width + j] >= table[i * width + j + 1]) {
+      ops.push({ type: '-', line: a[i++] });
+    } else {
+      ops.push({ type: '+', line: b[j++] });
+    }
+  }
+  while (i < a.length) {
+    ops.push({ type: '-', line: a[i++] });
+  }
+  while (j < b.length) {
+    ops.push({ type: '+', line: b[j++] });
+  }
+
+  return ops;
+}
+
+/**
+ * Group diff operations into hunks with surrounding context
+ */
+function buildHunks(ops: DiffOp[], context: number): string[] {
+  const changes = ops
+    .map((op, index) => (op.type === ' ' ? -1 : index))
+    .filter((index) => index >= 0);
+
+  // Merge changes whose context would overlap
+  const ranges: Array<[number, number]> = [];
+  for (const index of changes) {
+    const last = ranges[ranges.length - 1];
+    if (last && index - last[1] <= context * 2 + 1) {
+      last[1] = index;
+    } else {
+      ranges.push([index, index]);
+    }
+  }
+
+  // Line numbers before each op
+  const oldLineAt: number[] = [];
+  const newLineAt: number[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  for (const op of ops) {
+    oldLineAt.push(oldLine);
+    newLineAt.push(newLine);
+    if (op.type !== '+') oldLine++;
+    if (op.type !== '-') newLine++;
+  }
+
+  const lines: string[] = [];
+  for (const [first, last] of ranges) {
+    const start = Math.max(0, first - context);
+    const end = Math.min(ops.length - 1, last + context);
+    const hunk = ops.slice(start, end + 1);
+
+    const oldCount = hunk.filter((op) => op.type !== '+').length;
+    const newCount = hunk.filter((op) => op.type !== '-').length;
+    const oldStart = oldCount === 0 ? oldLineAt[start] - 1 : oldLineAt[start];
+    const newStart = newCount === 0 ? newLineAt[start] - 1 : newLineAt[start];
+
+    lines.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    lines.push(...hunk.map((op) => `${op.type}${op.line}`));
+  }
+
+  return lines;
+}
@@ -0,0 +1,277 @@
+// Plain-language explanations for payloads that fail a schema (POST /api/v1/explain)
+import { withCompiledSchema } from './schema-sandbox.js';
+import { promptRegistry, type RenderedPrompt } from './prompts.js';
+import type {
+  ExplanationProviderRequest,
+  ExplanationResult,
+  IssueExplanation,
+  IssueFix,
+  PayloadExplanation,
+  PayloadIssue,
+} from '../types/index.js';
+
+/**
+ * Issues sent to a provider per request (the rest get the built-in wording)
+ */
+export const MAX_PROVIDER_ISSUES = 50;
+
+/**
+ * Longest string value quoted in explanations
+ */
+const MAX_QUOTED_LENGTH = 40;
+
+/**
+ * Parse the payloads against the schema (sandboxed) and collect their issues
+ */
+export function collectIssues(
+  code: string,
+  typeName: string,
+  payloads: unknown[]
+): { issues: PayloadIssue[]; valid: boolean[] } {
+  const results = withCompiledSchema(code, typeName, (schema) => schema.safeParseAll(payloads));
+
+  const issues = results.flatMap((result, payloadIndex) =>
+    result.issues.map((issue) => ({
+      payloadIndex,
+      path: issue.path,
+      code: issue.code,
+      message: issue.message,
+      ...receivedAt(payloads[payloadIndex], issue),
+    }))
+  );
+
+  return { issues, valid: results.map((result) => result.success) };
+}
+
+/**
+ * The received value of an issue, taken from a (possibly PII-screened) payload.
+ * Unrecognized keys are named in the message, so the whole object is not repeated.
+ */
+export function receivedAt(payload: unknown, issue: Pick<PayloadIssue, 'path' | 'code'>): { received?: unknown } {
+  if (issue.code === 'unrecognized_keys') {
+    return {};
+  }
+
+  let value: any = payload;
+  for (const key of issue.path) {
+    if (value === null || typeof value !== 'object' || !Object.prototype.hasOwnProperty.call(value, key)) {
+      return {};
+    }
+    value = value[key];
+  }
+
+  return value === undefined ? {} : { received: value };
+}
+
+/**
+ * Built-in explanation and fix for an issue (used when no provider wording is available)
+ */
+export function explainIssue(issue: PayloadIssue): Pick<IssueExplanation, 'explanation' | 'fix'> {
+  const label = issueLabel(issue.path);
+  const subject = issue.path.length > 0 ? `"${label}"` : 'The payload';
+  const hasValue = 'received' in issue;
+  const value = describeValue(issue.received);
+
+  switch (issue.code) {
+    case 'invalid_type': {
+      const expected = /expected (\w+)/.exec(issue.message)?.[1] || 'a different type';
+
+      if (!hasValue) {
+        return {
+          explanation: `${subject} is required, but the payload does not contain it.`,
+          fix: data(`Send ${subject} as ${article(expected)}, or mark the field .optional() if it may be left out.`),
+        };
+      }
+      if (issue.received === null) {
+        return {
+          explanation: `${subject} must be ${article(expected)}, but the payload sends null.`,
+          fix: schema('Allow null for this field if the sender uses it for "no value".', '.nullable()'),
+        };
+      }
+      if (expected === 'number' && typeof issue.received === 'string' && issue.received.trim() !== '' && !isNaN(Number(issue.received))) {
+        return {
+          explanation: `${subject} must be a number, but the payload sends it as ${value}.`,
+          fix: schema('Accept numeric strings by coercing them to numbers.', 'z.coerce.number()'),
+        };
+      }
+      if (expected === 'date' && typeof issue.received === 'string' && !isNaN(Date.parse(issue.received))) {
+        return {
+          explanation: `${subject} must be a Date object, but JSON payloads carry dates as strings like ${value}.`,
+          fix: schema('Parse date strings into dates by coercing them.', 'z.coerce.date()'),
+        };
+      }
+      return {
+        explanation: `${subject} must be ${article(expected)}, but the payload sends ${value}.`,
+        fix: data(`Send ${subject} as ${article(expected)}.`),
+      };
+    }
+
+    case 'too_small':
+    case 'too_big':
+      return {
+        explanation: `${subject} is ${issue.code === 'too_small' ? 'below' : 'above'} the allowed limit: ${lowerFirst(issue.message)} (got ${value}).`,
+        fix: data(`Send a value within the limit, or relax the ${issue.code === 'too_small' ? 'minimum' : 'maximum'} in the schema if ${value} is legitimate.`),
+      };
+
+    case 'invalid_format':
+      return {
+        explanation: `${subject} does not have the expected format: ${lowerFirst(issue.message)} (got ${value}).`,
+        fix: data(`Correct the format of ${subject}.`),
+      };
+
+    case 'invalid_value':
+      return {
+        explanation: `${subject} is not one of the allowed values: ${lowerFirst(issue.message)} (got ${hasValue ? value : 'nothing'}).`,
+        fix: hasValue
+          ? schema(`Add ${value} to the allowed values if it is legitimate; otherwise send one of the listed values.`)
+          : data(`Send ${subject} with one of the allowed values.`),
+      };
+
+    case 'unrecognized_keys':
+      return {
+        explanation: `${subject} contains keys the schema does not allow: ${lowerFirst(issue.message)}.`,
+        fix: schema('Declare the keys in the schema, or drop .strict() so unknown keys are stripped instead of rejected.'),
+      };
+
+    case 'invalid_union':
+      return {
+        explanation: `${subject} does not match any of the allowed variants (got ${hasValue ? value : 'nothing'}).`,
+        fix: data(`Make ${subject} match one of the union's options.`),
+      };
+
+    case 'not_multiple_of':
+      return {
+        explanation: `${subject} has too much precision: ${lowerFirst(issue.message)} (got ${value}).`,
+        fix: data(`Round ${subject} to the allowed step.`),
+      };
+
+    case 'custom':
+      return {
+        explanation: `${subject} fails a custom check of the schema: ${issue.message}.`,
+        fix: data(`Correct ${subject} so it passes the check.`),
+      };
+
+    default:
+      return {
+        explanation: `${subject} is invalid: ${issue.message}.`,
+        fix: data(`Correct ${subject}.`),
+      };
+  }
+}
+
+/**
+ * Prompt for the provider: the schema and the numbered issues, rendered from the selected version
+ */
+export function buildExplanationPrompt(request: ExplanationProviderRequest): RenderedPrompt {
+  const issues = request.issues.slice(0, MAX_PROVIDER_ISSUES).map((issue, index) => ({
+    issue: index,
+    payload: issue.payloadIndex,
+    field: issueLabel(issue.path),
+    code: issue.code,
+    message: issue.message,
+    ...('received' in issue ? { received: issue.received } : { missing: true }),
+  }));
+
+  return promptRegistry.render('explain', request.prompt, {
+    typeName: request.schema.typeName,
+    schemaCode: request.schema.code,
+    issueCount: request.issues.length,
+    shownIssueCount: issues.length,
+    issues: JSON.stringify(issues, null, 2),
+  });
+}
+
+/**
+ * Validate the provider's JSON output (entries with an unknown index or missing wording are dropped)
+ */
+export function parseExplanations(parsed: any, issueCount: number): Pick<ExplanationResult, 'explanations' | 'summary'> {
+  const explanations: ExplanationResult['explanations'] = [];
+
+  for (const entry of Array.isArray(parsed?.explanations) ? parsed.explanations : []) {
+    const issueIndex = entry?.issue;
+    const fix = entry?.fix;
+    if (
+      !Number.isInteger(issueIndex) ||
+      issueIndex < 0 ||
+      issueIndex >= issueCount ||
+      typeof entry.explanation !== 'string' ||
+      (fix?.target !== 'schema' && fix?.target !== 'data') ||
+      typeof fix.suggestion !== 'string'
+    ) {
+      continue;
+    }
+
+    explanations.push({
+      issueIndex,
+      explanation: entry.explanation,
+      fix: { target: fix.target, suggestion: fix.suggestion, ...(typeof fix.code === 'string' ? { code: fix.code } : {}) },
+    });
+  }
+
+  return { explanations, ...(typeof parsed?.summary === 'string' ? { summary: parsed.summary } : {}) };
+}
+
+/**
+ * Group the issues per payload, with the provider's wording where it has some
+ */
+export function mergeExplanations(
+  valid: boolean[],
+  issues: PayloadIssue[],
+  explanations: ExplanationResult['explanations']
+): PayloadExplanation[] {
+  const byIndex = new Map(explanations.map(({ issueIndex, ...wording }) => [issueIndex, wording]));
+
+  return valid.map((isValid, index) => ({
+    index,
+    valid: isValid,
+    issues: issues.flatMap((issue, issueIndex) =>
+      issue.payloadIndex === index ? [{ ...issue, ...(byIndex.get(issueIndex) || explainIssue(issue)) }] : []
+    ),
+  }));
+}
+
+/**
+ * Issue path as a field label ("items[0].sku"; "(root)" for the payload itself)
+ */
+export function issueLabel(path: Array<string | number>): string {
+  const label = path
+    .map((key, index) => (typeof key === 'number' ? `[${key}]` : index === 0 ? key : `.${key}`))
+    .join('');
+  return label || '(root)';
+}
+
+function describeValue(value: unknown): string {
+  if (value === undefined) {
+    return 'nothing';
+  }
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return `an array of ${value.length} item${value.length === 1 ? '' : 's'}`;
+  }
+  if (typeof value === 'object') {
+    return 'an object';
+  }
+  if (typeof value === 'string') {
+    const quoted = value.length > MAX_QUOTED_LENGTH ? `${value.slice(0, MAX_QUOTED_LENGTH)}…` : value;
+    return `the string ${JSON.stringify(quoted)}`;
+  }
+  return `the ${typeof value} ${String(value)}`;
+}
+
+function article(type: string): string {
+  return type.startsWith('a ') ? type : /^[aeiou]/.test(type) ? `an ${type}` : `a ${type}`;
+}
+
+function lowerFirst(text: string): string {
+  return text.charAt(0).toLowerCase() + text.slice(1);
+}
+
+function data(suggestion: string): IssueFix {
+  return { target: 'data', suggestion };
+}
+
+function schema(suggestion: string, code?: string): IssueFix {
+  return { target: 'schema', suggestion, ...(code ? { code } : {}) };
+}
@@ -0,0 +1,562 @@
+// Test fixtures for a schema: valid examples, boundary values and invalid examples (verified by parsing)
+import { withCompiledSchema, type SandboxedSchema } from './schema-sandbox.js';
+import { describeSchema, type RegexSource, type SchemaNode } from './schema-ir.js';
+import type { SchemaFixture, SchemaFixtures } from '../types/index.js';
+
+/**
+ * Maximum number of fixtures per category
+ */
+export const MAX_FIXTURES = 100;
+
+/**
+ * Boundary strings and arrays longer than this are not generated
+ */
+const MAX_GENERATED_LENGTH = 1000;
+
+/**
+ * Examples for Zod string formats
+ */
+const FORMAT_EXAMPLES: Record<string, string> = {
+  email: 'user@example.com',
+  url: 'https://example.com',
+  uuid: '123e4567-e89b-42d3-a456-426614174000',
+  guid: '123e4567-e89b-42d3-a456-426614174000',
+  datetime: '2024-01-01T00:00:00Z',
+  date: '2024-01-01',
+  time: '12:00:00',
+  ipv4: '192.168.0.1',
+  ipv6: '2001:db8::1',
+  cuid: 'cjld2cjxh0000qzrmn831i7rn',
+  cuid2: 'tz4a98xxat96iws9zmbrgj3a',
+  ulid: '01ARZ3NDEKTSV4RRFFQ69G5FAV',
+  nanoid: 'V1StGXR8_Z5jdHi6B-myT',
+  emoji: '🎉',
+  base64: 'aGVsbG8=',
+  e164: '+14155552671',
+};
+
+const REMOVE = Symbol('remove');
+
+type Path = Array<string | number>;
+type StringNode = Extract<SchemaNode, { kind: 'string' }>;
+type NumberNode = Extract<SchemaNode, { kind: 'number' }>;
+type ArrayNode = Extract<SchemaNode, { kind: 'array' }>;
+type ObjectNode = Extract<SchemaNode, { kind: 'object' }>;
+
+interface Mutation {
+  description: string;
+  path: Path;
+  value: unknown;           // Replacement at path (REMOVE deletes the key)
+}
+
+interface InvalidMutation extends Mutation {
+  issuePath: Path;
+  expectedCode: string;
+}
+
+/**
+ * Generate fixtures for Zod schema code. Every fixture is parsed against the schema in the
+ * sandbox; fixtures that do not behave as described are discarded (and listed in warnings).
+ */
+export function generateFixtures(
+  code: string,
+  typeName: string,
+  samples: unknown[] = [],
+  sandbox?: SandboxedSchema
+): SchemaFixtures {
+  return withCompiledSchema(code, typeName, (sandboxed) => fixturesFor(sandboxed, samples), sandbox);
+}
+
+function fixturesFor(sandboxed: SandboxedSchema, samples: unknown[]): SchemaFixtures {
+  const { root, warnings } = describeSchema(sandboxed);
+  const generator = new FixtureGenerator(warnings);
+
+  // Synthesized examples first; a sample is the base when no example parses (e.g. regex fields)
+  const full = generator.example(root, 'full', []);
+  const minimal = generator.example(root, 'minimal', []);
+  const candidates: SchemaFixture[] = [
+    { description: 'All fields', value: full },
+    { description: 'Required fields only', value: minimal },
+    ...samples.map((value, index) => ({ description: `Sample ${index + 1}`, value })),
+  ];
+  const parsed = sandboxed.safeParseAll(candidates.map((candidate) => candidate.value));
+
+  const valid = candidates.slice(0, 2).filter((_, index) => parsed[index].success);
+  if (valid.length === 2 && JSON.stringify(full) === JSON.stringify(minimal)) {
+    valid.pop();
+  }
+  const base = valid[0] ?? candidates.slice(2).find((_, index) => parsed[index + 2].success);
+  if (!base) {
+    warnings.push('No valid example could be generated or taken from the samples');
+    return { valid: [], boundary: [], invalid: [], warnings };
+  }
+  if (valid.length === 0) {
+    valid.push(base);
+  }
+
+  generator.collect(root, base.value, []);
+  const boundary = generator.boundary.slice(0, MAX_FIXTURES);
+  const invalid = generator.invalid.slice(0, MAX_FIXTURES);
+
+  const values = [...boundary, ...invalid].map((mutation) => setAt(base.value, mutation.path, mutation.value));
+  const results = values.length > 0 ? sandboxed.safeParseAll(values) : [];
+
+  const fixtures: SchemaFixtures = { valid, boundary: [], invalid: [], warnings };
+
+  boundary.forEach((mutation, index) => {
+    if (results[index].success) {
+      fixtures.boundary.push({ description: mutation.description, value: values[index] });
+    } else {
+      warnings.push(`${mutation.description}: boundary fixture was discarded (does not parse)`);
+    }
+  });
+
+  invalid.forEach((mutation, i) => {
+    const index = boundary.length + i;
+    const { success, issues } = results[index];
+    const matches =
+      !success &&
+      issues.length > 0 &&
+      issues.every(
+        (issue) =>
+          issue.code === mutation.expectedCode && JSON.stringify(issue.path) === JSON.stringify(mutation.issuePath)
+      );
+
+    if (matches) {
+      fixtures.invalid.push({
+        description: mutation.description,
+        value: values[index],
+        path: mutation.issuePath,
+        expectedCode: mutation.expectedCode,
+      });
+    } else {
+      warnings.push(`${mutation.description}: invalid fixture was discarded (expected only ${mutation.expectedCode})`);
+    }
+  });
+
+  return fixtures;
+}
+
+/**
+ * Builds examples and the boundary/invalid mutations of a base example
+ */
+class FixtureGenerator {
+  readonly boundary: Mutation[] = [];
+  readonly invalid: InvalidMutation[] = [];
+
+  constructor(private warnings: string[]) {}
+
+  /**
+   * Example value ('minimal' leaves out optional fields and fields with defaults)
+   */
+  example(node: SchemaNode, mode: 'full' | 'minimal', path: Path): unknown {
+    switch (node.kind) {
+      case 'string':
+        return exampleString(node);
+      case 'number':
+        return exampleNumber(node);
+      case 'boolean':
+        return true;
+      case 'bigint':
+      case 'date':
+        if (node.coerce) {
+          return node.kind === 'date' ? '2024-01-01T00:00:00.000Z' : '1';
+        }
+        this.warn(path, `${node.kind} values cannot be represented in JSON fixtures`);
+        return undefined;
+      case 'literal':
+      case 'enum':
+        return node.values[0];
+      case 'array': {
+        const count = node.length ?? Math.min(Math.max(node.minItems ?? 1, 1), node.maxItems ?? Infinity);
+        const element = this.example(node.element, mode, [...path, 0]);
+        return Array.from({ length: count }, () => structuredClone(element));
+      }
+      case 'tuple':
+        return node.items.map((item, index) => this.example(item, mode, [...path, index]));
+      case 'object': {
+        const value: Record<string, unknown> = {};
+        for (const property of node.properties) {
+          const optional = ['optional', 'default', 'any', 'unknown'].includes(property.schema.kind);
+          if (mode === 'minimal' && optional) {
+            continue;
+          }
+          const example = this.example(property.schema, mode, [...path, property.name]);
+          if (example !== undefined) {
+            value[property.name] = example;
+          }
+        }
+        return value;
+      }
+      case 'record': {
+        const keys = node.key.kind === 'enum' || node.key.kind === 'literal' ? node.key.values.map(String) : ['key'];
+        return Object.fromEntries(keys.map((key) => [key, this.example(node.value, mode, [...path, key])]));
+      }
+      case 'union':
+        return this.example(node.options[0], mode, path);
+      case 'intersection': {
+        const left = this.example(node.left, mode, path);
+        const right = this.example(node.right, mode, path);
+        return isPlainObject(left) && isPlainObject(right) ? { ...left, ...right } : left;
+      }
+      case 'optional':
+      case 'nullable':
+      case 'default':
+        return this.example(node.inner, mode, path);
+      case 'null':
+        return null;
+      case 'any':
+      case 'unknown':
+        return 'example';
+      case 'undefined':
+        return undefined;
+      case 'never':
+        this.warn(path, 'z.never() has no valid value');
+        return undefined;
+    }
+  }
+
+  /**
+   * Collect boundary and invalid mutations for every constraint present in the base value
+   */
+  collect(node: SchemaNode, value: unknown, path: Path): void {
+    let core = node;
+    while (core.kind === 'optional' || core.kind === 'nullable' || core.kind === 'default') {
+      core = core.inner;
+    }
+    if (value === undefined || value === null) {
+      return;
+    }
+
+    this.wrongType(core, path);
+
+    switch (core.kind) {
+      case 'string':
+        if (typeof value === 'string') {
+          this.string(core, value, path);
+        }
+        break;
+      case 'number':
+        if (typeof value === 'number') {
+          this.number(core, value, path);
+        }
+        break;
+      case 'array':
+        if (Array.isArray(value)) {
+          this.array(core, value, path);
+        }
+        break;
+      case 'tuple':
+        if (Array.isArray(value)) {
+          core.items.forEach((item, index) => this.collect(item, value[index], [...path, index]));
+        }
+        break;
+      case 'object':
+        if (isPlainObject(value)) {
+          this.object(core, value, path);
+        }
+        break;
+      case 'record':
+        if (isPlainObject(value)) {
+          const [key] = Object.keys(value);
+          if (key !== undefined) {
+            this.collect(core.value, value[key], [...path, key]);
+          }
+        }
+        break;
+    }
+  }
+
+  private wrongType(node: SchemaNode, path: Path): void {
+    const label = fieldLabel(path);
+
+    switch (node.kind) {
+      case 'string':
+      case 'number':
+      case 'boolean':
+        if (!node.coerce) {
+          const wrong = node.kind === 'string' ? 42 : node.kind === 'number' ? 'not a number' : 'yes';
+          this.addInvalid(`${label}: wrong type`, path, wrong, 'invalid_type');
+        }
+        break;
+      case 'date':
+        if (node.coerce) {
+          this.addInvalid(`${label}: not a date`, path, 'not-a-date', 'invalid_type');
+        }
+        break;
+      case 'array':
+      case 'tuple':
+        // Not a string: Zod also runs length checks on strings
+        this.addInvalid(`${label}: wrong type`, path, 42, 'invalid_type');
+        break;
+      case 'object':
+      case 'record':
+        this.addInvalid(`${label}: wrong type`, path, 'not an object', 'invalid_type');
+        break;
+      case 'literal':
+      case 'enum':
+        this.addInvalid(`${label}: not an allowed value`, path, '__invalid__', 'invalid_value');
+        break;
+      case 'union': {
+        // A value of a type none of the options has
+        const kinds = new Set(node.options.map(unionKind));
+        const wrong = [['string', '__invalid__'], ['number', 42], ['boolean', true], ['array', []]].find(
+          ([kind]) => !kinds.has(kind as string)
+        );
+        if (wrong && !kinds.has('*')) {
+          this.addInvalid(`${label}: matches no union option`, path, wrong[1], 'invalid_union');
+        }
+        break;
+      }
+    }
+  }
+
+  private string(node: StringNode, value: string, path: Path): void {
+    const label = fieldLabel(path);
+
+    if (node.format) {
+      this.addInvalid(`${label}: invalid ${node.format}`, path, `not a ${node.format}`, 'invalid_format');
+    }
+    for (const pattern of node.patterns || []) {
+      this.addInvalid(`${label}: does not match ${regexLabel(pattern)}`, path, '#', 'invalid_format');
+    }
+
+    const resized = (length: number) => resizeString(node, value, length);
+    if (node.length !== undefined) {
+      this.addInvalid(`${label}: longer than ${node.length}`, path, resized(node.length + 1), 'too_big');
+      if (node.length > 0) {
+        this.addInvalid(`${label}: shorter than ${node.length}`, path, resized(node.length - 1), 'too_small');
+      }
+    }
+    if (node.minLength !== undefined && node.minLength > 0) {
+      this.addBoundary(`${label}: at minimum length ${node.minLength}`, path, resized(node.minLength));
+      this.addInvalid(`${label}: shorter than ${node.minLength}`, path, resized(node.minLength - 1), 'too_small');
+    }
+    if (node.maxLength !== undefined) {
+      this.addBoundary(`${label}: at maximum length ${node.maxLength}`, path, resized(node.maxLength));
+      this.addInvalid(`${label}: longer than ${node.maxLength}`, path, resized(node.maxLength + 1), 'too_big');
+    }
+  }
+
+  private number(node: NumberNode, value: number, path: Path): void {
+    const label = fieldLabel(path);
+    const step = node.multipleOf ?? 1;
+
+    if (node.integer) {
+      this.addInvalid(`${label}: not an integer`, path, value + 0.5, 'invalid_type');
+    }
+    if (node.minimum !== undefined) {
+      this.addBoundary(`${label}: at minimum ${node.minimum}`, path, node.minimum);
+      this.addInvalid(`${label}: below minimum ${node.minimum}`, path, node.minimum - step, 'too_small');
+    }
+    if (node.exclusiveMinimum !== undefined) {
+      if (node.integer) {
+        this.addBoundary(`${label}: just above ${node.exclusiveMinimum}`, path, node.exclusiveMinimum + 1);
+      }
+      this.addInvalid(`${label}: not above ${node.exclusiveMinimum}`, path, node.exclusiveMinimum, 'too_small');
+    }
+    if (node.maximum !== undefined) {
+      this.addBoundary(`${label}: at maximum ${node.maximum}`, path, node.maximum);
+      this.addInvalid(`${label}: above maximum ${node.maximum}`, path, node.maximum + step, 'too_big');
+    }
+    if (node.exclusiveMaximum !== undefined) {
+      if (node.integer) {
+        this.addBoundary(`${label}: just below ${node.exclusiveMaximum}`, path, node.exclusiveMaximum - 1);
+      }
+      this.addInvalid(`${label}: not below ${node.exclusiveMaximum}`, path, node.exclusiveMaximum, 'too_big');
+    }
+    if (node.multipleOf !== undefined && !(node.integer && node.multipleOf === 1)) {
+      const offset = node.integer ? 1 : node.multipleOf / 2;
+      this.addInvalid(`${label}: not a multiple of ${node.multipleOf}`, path, value + offset, 'not_multiple_of');
+    }
+  }
+
+  private array(node: ArrayNode, value: unknown[], path: Path): void {
+    const label = fieldLabel(path);
+    const element = value.length > 0 ? value[0] : this.example(node.element, 'full', [...path, 0]);
+    const fill = (count: number) =>
+      count <= MAX_GENERATED_LENGTH ? Array.from({ length: count }, () => structuredClone(element)) : undefined;
+
+    if (node.length !== undefined) {
+      this.addInvalid(`${label}: more than ${node.length} items`, path, fill(node.length + 1), 'too_big');
+    }
+    if (node.minItems !== undefined && node.minItems > 0) {
+      this.addBoundary(`${label}: at minimum ${node.minItems} items`, path, fill(node.minItems));
+      this.addInvalid(`${label}: fewer than ${node.minItems} items`, path, fill(node.minItems - 1), 'too_small');
+    }
+    if (node.maxItems !== undefined) {
+      this.addBoundary(`${label}: at maximum ${node.maxItems} items`, path, fill(node.maxItems));
+      this.addInvalid(`${label}: more than ${node.maxItems} items`, path, fill(node.maxItems + 1), 'too_big');
+    }
+
+    if (value.length > 0) {
+      this.collect(node.element, value[0], [...path, 0]);
+    }
+  }
+
+  private object(node: ObjectNode, value: Record<string, unknown>, path: Path): void {
+    for (const { name, schema } of node.properties) {
+      if (!(name in value)) {
+        continue;
+      }
+
+      const propertyPath = [...path, name];
+      if (!['optional', 'default', 'any', 'unknown', 'undefined'].includes(schema.kind)) {
+        this.addInvalid(`${fieldLabel(propertyPath)}: missing`, propertyPath, REMOVE, missingCode(schema));
+      }
+      this.collect(schema, value[name], propertyPath);
+    }
+
+    if (node.unknownKeys === 'strict') {
+      const extraKey = Object.prototype.hasOwnProperty.call(value, 'unexpectedKey') ? '__unexpectedKey' : 'unexpectedKey';
+      this.addInvalid(`${fieldLabel(path)}: unknown key`, path, { ...value, [extraKey]: true }, 'unrecognized_keys');
+    }
+  }
+
+  private addBoundary(description: string, path: Path, value: unknown): void {
+    if (value !== undefined) {
+      this.boundary.push({ description, path, value });
+    }
+  }
+
+  private addInvalid(description: string, path: Path, value: unknown, expectedCode: string): void {
+    if (value !== undefined) {
+      this.invalid.push({ description, path, value, issuePath: path, expectedCode });
+    }
+  }
+
+  private warn(path: Path, message: string): void {
+    this.warnings.push(`${fieldLabel(path)}: ${message}`);
+  }
+}
+
+function exampleString(node: StringNode): string {
+  const example = (node.format && FORMAT_EXAMPLES[node.format]) || 'example';
+  if (node.format || node.patterns) {
+    return example;
+  }
+
+  const length = node.length ?? Math.min(Math.max(example.length, node.minLength ?? 0), node.maxLength ?? Infinity);
+  return resizeString(node, example, length) ?? example;
+}
+
+function exampleNumber(node: NumberNode): number {
+  let value = 1;
+  if (node.minimum !== undefined) {
+    value = node.minimum;
+  } else if (node.exclusiveMinimum !== undefined) {
+    value = Math.floor(node.exclusiveMinimum) + 1;
+  }
+  if (node.maximum !== undefined && value > node.maximum) {
+    value = node.maximum;
+  }
+  if (node.exclusiveMaximum !== undefined && value >= node.exclusiveMaximum) {
+    value = Math.ceil(node.exclusiveMaximum) - 1;
+  }
+  if (node.multipleOf) {
+    value = Math.ceil(value / node.multipleOf) * node.multipleOf;
+  }
+  return value;
+}
+
+/**
+ * A string of the given length that keeps its format (undefined when that is not possible)
+ */
+function resizeString(node: StringNode, value: string, length: number): string | undefined {
+  if (length < 0 || length > MAX_GENERATED_LENGTH || node.patterns) {
+    return undefined;
+  }
+
+  if (!node.format) {
+    return value.length >= length ? value.slice(0, length) : value + 'a'.repeat(length - value.length);
+  }
+  if (node.format === 'email' && length > '@example.com'.length) {
+    return `${'a'.repeat(length - '@example.com'.length)}@example.com`;
+  }
+  if (node.format === 'url' && length > 'https://example.com/'.length) {
+    return `https://example.com/${'a'.repeat(length - 'https://example.com/'.length)}`;
+  }
+  return undefined;
+}
+
+/**
+ * Zod issue code for a missing required property
+ */
+function missingCode(node: SchemaNode): string {
+  switch (node.kind) {
+    case 'nullable':
+      return missingCode(node.inner);
+    case 'union':
+      return 'invalid_union';
+    case 'enum':
+    case 'literal':
+      return 'invalid_value';
+    default:
+      return 'invalid_type';
+  }
+}
+
+/**
+ * Top-level JSON type a union option accepts
+ */
+function unionKind(node: SchemaNode): string {
+  switch (node.kind) {
+    case 'optional':
+    case 'nullable':
+    case 'default':
+      return unionKind(node.inner);
+    case 'enum':
+    case 'literal':
+      return typeof node.values[0];
+    case 'tuple':
+      return 'array';
+    case 'record':
+      return 'object';
+    case 'any':
+    case 'unknown':
+    case 'intersection':
+    case 'union':
+      // Could accept anything: make every candidate unusable
+      return '*';
+    default:
+      return node.kind;
+  }
+}
+
+/**
+ * Copy of the base value with the value at path replaced (or removed)
+ */
+function setAt(base: unknown, path: Path, value: unknown): unknown {
+  if (path.length === 0) {
+    return value;
+  }
+
+  const copy = structuredClone(base) as any;
+  const parent = path.slice(0, -1).reduce((current: any, key) => current[key], copy);
+  const key = path[path.length - 1];
+
+  if (value === REMOVE) {
+    delete parent[key];
+  } else {
+    parent[key] = value;
+  }
+  return copy;
+}
+
+/**
+ * Field label for descriptions ("address.city", "items[0].sku", "(root)")
+ */
+function fieldLabel(path: Path): string {
+  const label = path
+    .map((key, index) => (typeof key === 'number' ? `[${key}]` : index === 0 ? key : `.${key}`))
+    .join('');
+  return label || '(root)';
+}
+
+function regexLabel(pattern: RegexSource): string {
+  return `/${pattern.source}/${pattern.flags}`;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,192 @@
+// Swappable storage for asynchronous refinement jobs
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import type { RefinementJob } from '../types/index.js';
+
+/**
+ * Job storage backend
+ */
+export interface JobStore {
+  readonly name: string;
+  create(job: RefinementJob): Promise<void>;
+  get(id: string): Promise<RefinementJob | null>;
+  update(id: string, changes: Partial<RefinementJob>): Promise<RefinementJob | null>;
+  listUnfinished(): Promise<RefinementJob[]>; // Jobs still queued or running
+}
+
+/**
+ * Finished jobs are kept this long in memory
+ */
+export const JOB_RETENTION_MS = 24 * 60 * 60 * 1000; // 24 hours
+const MAX_IN_MEMORY_JOBS = 10000;
+
+/**
+ * In-memory job store (default; jobs are lost on restart)
+ */
+export class InMemoryJobStore implements JobStore {
+  readonly name = 'memory';
+  private jobs: Map<string, RefinementJob> = new Map();
+
+  async create(job: RefinementJob): Promise<void> {
+    this.evictExpired();
+    this.jobs.set(job.id, structuredClone(job));
+  }
+
+  async get(id: string): Promise<RefinementJob | null> {
+    const job = this.jobs.get(id);
+    return job ? structuredClone(job) : null;
+  }
+
+  async update(id: string, changes: Partial<RefinementJob>): Promise<RefinementJob | null> {
+    const job = this.jobs.get(id);
+    if (!job) {
+      return null;
+    }
+
+    Object.assign(job, structuredClone(changes));
+    return structuredClone(job);
+  }
+
+  async listUnfinished(): Promise<RefinementJob[]> {
+    return Array.from(this.jobs.values())
+      .filter((job) => job.status === 'queued' || job.status === 'running')
+      .map((job) => structuredClone(job));
+  }
+
+  /**
+   * Drop finished jobs past retention, then the oldest finished jobs when over capacity
+   */
+  private evictExpired(): void {
+    const cutoff = Date.now() - JOB_RETENTION_MS;
+    const finished = Array.from(this.jobs.values()).filter((job) => job.completedAt);
+
+    for (const job of finished) {
+      if (Date.parse(job.completedAt!) < cutoff) {
+        this.jobs.delete(job.id);
+      }
+    }
+
+    const excess = this.jobs.size - MAX_IN_MEMORY_JOBS + 1;
+    if (excess > 0) {
+      finished
+        .filter((job) => this.jobs.has(job.id))
+        .sort((a, b) => a.completedAt!.localeCompare(b.completedAt!))
+        .slice(0, excess)
+        .forEach((job) => this.jobs.delete(job.id));
+    }
+  }
+}
+
+/**
+ * Durable job store backed by the Supabase `refinement_jobs` table
+ * (see supabase/migrations/003_refinement_jobs.sql)
+ */
+export class SupabaseJobStore implements JobStore {
+  readonly name = 'supabase';
+  private supabase: SupabaseClient;
+
+  constructor(supabaseUrl: string, supabaseKey: string) {
+    this.supabase = createClient(supabaseUrl, supabaseKey);
+  }
+
+  async create(job: RefinementJob): Promise<void> {
+    const { error } = await this.supabase.from('refinement_jobs').insert(toRow(job));
+    if (error) {
+      throw new Error(`Failed to create job: ${error.message}`);
+    }
+  }
+
+  async get(id: string): Promise<RefinementJob | null> {
+    const { data, error } = await this.supabase
+      .from('refinement_jobs')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load job: ${error.message}`);
+    }
+
+    return data ? fromRow(data) : null;
+  }
+
+  async update(id: string, changes: Partial<RefinementJob>): Promise<RefinementJob | null> {
+    const { data, error } = await this.supabase
+      .from('refinement_jobs')
+      .update(toRow(changes))
+      .eq('id', id)
+      .select('*')
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to update job: ${error.message}`);
+    }
+
+    return data ? fromRow(data) : null;
+  }
+
+  async listUnfinished(): Promise<RefinementJob[]> {
+    const { data, error } = await this.supabase
+      .from('refinement_jobs')
+      .select('*')
+      .in('status', ['queued', 'running']);
+
+    if (error) {
+      throw new Error(`Failed to list unfinished jobs: ${error.message}`);
+    }
+
+    return (data || []).map(fromRow);
+  }
+}
+
+function toRow(job: Partial<RefinementJob>): Record<string, unknown> {
+  const row: Record<string, unknown> = {
+    id: job.id,
+    status: job.status,
+    progress: job.progress,
+    stage: job.stage,
+    owner_id: job.ownerId,
+    created_at: job.createdAt,
+    started_at: job.startedAt,
+    completed_at: job.completedAt,
+    result: job.result,
+    callback_url: job.callbackUrl,
+    callback: job.callback,
+  };
+
+  // Partial updates only touch the columns that changed
+  return Object.fromEntries(Object.entries(row).filter(([, value]) => value !== undefined));
+}
+
+function fromRow(row: Record<string, any>): RefinementJob {
+  return {
+    id: row.id,
+    status: row.status,
+    progress: Number(row.progress),
+    stage: row.stage ?? undefined,
+    ownerId: row.owner_id,
+    createdAt: row.created_at,
+    startedAt: row.started_at ?? undefined,
+    completedAt: row.completed_at ?? undefined,
+    result: row.result ?? undefined,
+    callbackUrl: row.callback_url ?? undefined,
+    callback: row.callback ?? undefined,
+  };
+}
+
+/**
+ * Create the job store selected by JOB_STORE (falls back to memory without Supabase credentials)
+ */
+export function createJobStore(): JobStore {
+  const supabaseUrl = process.env.SUPABASE_URL;
+  const supabaseKey = process.env.SUPABASE_SERVICE_KEY;
+
+  if (process.env.JOB_STORE === 'supabase') {
+    if (supabaseUrl && supabaseKey) {
+      console.log('🗄️  Job store: Supabase');
+      return new SupabaseJobStore(supabaseUrl, supabaseKey);
+    }
+    console.warn('⚠️  JOB_STORE=supabase but Supabase is not configured, using in-memory job store');
+  }
+
+  return new InMemoryJobStore();
+}
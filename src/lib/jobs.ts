@@ -0,0 +1,430 @@
+// Asynchronous refinement jobs (queued in-process, state kept in a swappable JobStore)
+import crypto from 'crypto';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import { securityAuditor, sanitizeError } from './security.js';
+import { toRefinementError } from './refinement-errors.js';
+import { createJobStore, type JobStore } from './job-store.js';
+import type {
+  CallbackDelivery,
+  RefinementContext,
+  RefinementJob,
+  RefinementResponse,
+} from '../types/index.js';
+
+/**
+ * Job runner configuration
+ */
+export interface JobManagerOptions {
+  concurrency: number;          // Jobs refined in parallel
+  callbackMaxAttempts: number;
+  callbackRetryDelayMs: number; // Doubles after every failed attempt
+  callbackTimeoutMs: number;
+  callbackPublicOnly: boolean;  // Only deliver to public addresses (checked after DNS resolution)
+  maxQueuedJobs: number;        // Jobs waiting for a runner; more are refused with JobQueueFullError
+}
+
+/**
+ * Work for a job: refines and returns the final response, reporting progress on the way
+ */
+export type JobTask = (onProgress: NonNullable<RefinementContext['onProgress']>) => Promise<RefinementResponse>;
+
+const DEFAULT_OPTIONS: JobManagerOptions = {
+  concurrency: 2,
+  callbackMaxAttempts: 3,
+  callbackRetryDelayMs: 1000,
+  callbackTimeoutMs: 10000,
+  callbackPublicOnly: !isLocalEnvironment(),
+  maxQueuedJobs: 100,
+};
+
+/**
+ * The queue is full (the route answers 503 with Retry-After)
+ */
+export class JobQueueFullError extends Error {
+  constructor(public readonly maxQueuedJobs: number) {
+    super(`Job queue is full (${maxQueuedJobs} jobs waiting), retry later`);
+    this.name = 'JobQueueFullError';
+  }
+}
+
+interface PendingJob {
+  id: string;
+  task: JobTask;
+  callbackSecret?: string;
+}
+
+/**
+ * Job manager: queues refinements, tracks progress and delivers callbacks
+ */
+export class JobManager {
+  private store: JobStore;
+  private options: JobManagerOptions;
+  private queue: PendingJob[] = [];
+  private active = 0;
+  private idleWaiters: Array<() => void> = [];
+
+  constructor(store: JobStore, options: Partial<JobManagerOptions> = {}) {
+    this.store = store;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Swap the job store (jobs already in the old store are not migrated)
+   */
+  setStore(store: JobStore): void {
+    this.store = store;
+    console.log(`🗄️  Job store set to ${store.name}`);
+  }
+
+  getStore(): JobStore {
+    return this.store;
+  }
+
+  /**
+   * Queue a job. The callback secret is returned once and never stored.
+   */
+  async submit(
+    task: JobTask,
+    { ownerId, callbackUrl }: { ownerId: string; callbackUrl?: string }
+  ): Promise<{ job: RefinementJob; callbackSecret?: string }> {
+    if (this.queue.length >= this.options.maxQueuedJobs) {
+      securityAuditor.log('job_queue_full', { ownerId, queued: this.queue.length }, 'medium');
+      throw new JobQueueFullError(this.options.maxQueuedJobs);
+    }
+
+    const job: RefinementJob = {
+      id: `job_${crypto.randomBytes(12).toString('hex')}`,
+      status: 'queued',
+      progress: 0,
+      ownerId,
+      createdAt: new Date().toISOString(),
+      ...(callbackUrl ? { callbackUrl, callback: { status: 'pending', attempts: 0 } } : {}),
+    };
+    const callbackSecret = callbackUrl ? crypto.randomBytes(32).toString('hex') : undefined;
+
+    await this.store.create(job);
+    this.queue.push({ id: job.id, task, callbackSecret });
+
+    securityAuditor.log('job_queued', { jobId: job.id, callback: !!callbackUrl }, 'low');
+
+    this.drain();
+    return { job, callbackSecret };
+  }
+
+  /**
+   * Fail the jobs a previous process left queued or running. The queue lives in memory, so after
+   * a restart they would never finish. Call once at startup, before jobs are submitted (assumes
+   * one API instance per job store). Returns the number of jobs failed.
+   */
+  async failInterrupted(): Promise<number> {
+    const queued = new Set(this.queue.map(({ id }) => id));
+    const interrupted = (await this.store.listUnfinished()).filter(({ id }) => !queued.has(id));
+    const result: RefinementResponse = {
+      success: false,
+      error: 'The server restarted before the job finished, submit it again',
+      errorCode: 'JOB_INTERRUPTED',
+    };
+
+    for (const job of interrupted) {
+      await this.store.update(job.id, {
+        status: 'failed',
+        progress: 1,
+        completedAt: new Date().toISOString(),
+        result,
+        // The callback secret was never stored, so the callback cannot be signed any more
+        ...(job.callbackUrl
+          ? {
+              callback: {
+                status: 'failed',
+                attempts: job.callback?.attempts ?? 0,
+                lastError: 'Not delivered: the server restarted before the job finished',
+              },
+            }
+          : {}),
+      });
+    }
+
+    if (interrupted.length > 0) {
+      securityAuditor.log('jobs_interrupted', { count: interrupted.length, store: this.store.name }, 'medium');
+    }
+    return interrupted.length;
+  }
+
+  /**
+   * Get a job (only visible to the key that created it)
+   */
+  async get(id: string, ownerId: string): Promise<RefinementJob | null> {
+    const job = await this.store.get(id);
+    return job && job.ownerId === ownerId ? job : null;
+  }
+
+  /**
+   * Resolve once the queue is empty and no job is running (for tests and shutdown)
+   */
+  idle(): Promise<void> {
+    if (this.active === 0 && this.queue.length === 0) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => this.idleWaiters.push(resolve));
+  }
+
+  private drain(): void {
+    while (this.active < this.options.concurrency && this.queue.length > 0) {
+      const pending = this.queue.shift()!;
+      this.active++;
+
+      this.run(pending)
+        .catch((error) => console.error(`Job ${pending.id} failed to update:`, sanitizeError(error)))
+        .finally(() => {
+          this.active--;
+          this.drain();
+          if (this.active === 0 && this.queue.length === 0) {
+            this.idleWaiters.splice(0).forEach((resolve) => resolve());
+          }
+        });
+    }
+  }
+
+  private async run({ id, task, callbackSecret }: PendingJob): Promise<void> {
+    await this.store.update(id, { status: 'running', startedAt: new Date().toISOString() });
+
+    // Progress updates are best-effort but applied in order, before the final update
+    let progressUpdates = Promise.resolve();
+    let result: RefinementResponse;
+    try {
+      result = await task((stage, progress) => {
+        progressUpdates = progressUpdates
+          .then(() => this.store.update(id, { stage, progress }))
+          .then(() => undefined, () => undefined);
+      });
+    } catch (error: any) {
+      result = toRefinementError(error);
+    }
+    await progressUpdates;
+
+    const job = await this.store.update(id, {
+      status: result.success ? 'completed' : 'failed',
+      progress: 1,
+      completedAt: new Date().toISOString(),
+      result,
+    });
+
+    securityAuditor.log(
+      result.success ? 'job_completed' : 'job_failed',
+      { jobId: id, errorCode: result.errorCode },
+      result.success ? 'low' : 'medium'
+    );
+
+    if (job?.callbackUrl && callbackSecret) {
+      const callback = await this.deliverCallback(job, callbackSecret);
+      await this.store.update(id, { callback });
+    }
+  }
+
+  /**
+   * POST the finished job to its callback URL, retrying with backoff
+   */
+  private async deliverCallback(job: RefinementJob, secret: string): Promise<CallbackDelivery> {
+    const { ownerId: _ownerId, callback: _callback, ...publicJob } = job;
+    const event = job.status === 'completed' ? 'job.completed' : 'job.failed';
+    const body = JSON.stringify({ event, job: publicJob });
+
+    let lastError = '';
+    for (let attempt = 1; attempt <= this.options.callbackMaxAttempts; attempt++) {
+      const timestamp = String(Math.floor(Date.now() / 1000));
+
+      try {
+        const status = await postCallback(
+          job.callbackUrl!,
+          {
+            'Content-Type': 'application/json',
+            'X-ZodForge-Event': event,
+            'X-ZodForge-Timestamp': timestamp,
+            'X-ZodForge-Signature': signCallback(body, timestamp, secret),
+          },
+          body,
+          this.options
+        );
+
+        if (status >= 200 && status < 300) {
+          return { status: 'delivered', attempts: attempt, deliveredAt: new Date().toISOString() };
+        }
+        // Redirects are not followed: the target could be an internal address
+        lastError = status >= 300 && status < 400 ? `HTTP ${status} (redirects are not followed)` : `HTTP ${status}`;
+      } catch (error: any) {
+        lastError = sanitizeError(error);
+      }
+
+      if (attempt < this.options.callbackMaxAttempts) {
+        await new Promise((resolve) =>
+          setTimeout(resolve, this.options.callbackRetryDelayMs * 2 ** (attempt - 1))
+        );
+      }
+    }
+
+    securityAuditor.log('job_callback_failed', { jobId: job.id, error: lastError }, 'medium');
+    return { status: 'failed', attempts: this.options.callbackMaxAttempts, lastError };
+  }
+}
+
+/**
+ * Callback signature: HMAC-SHA256 over "<timestamp>.<body>" with the job's callback secret
+ */
+export function signCallback(body: string, timestamp: string, secret: string): string {
+  return `sha256=${crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * Callbacks may reach local and private hosts only in development and test; every other
+ * environment (staging, production, unset) gets the public-only checks
+ */
+function isLocalEnvironment(): boolean {
+  return process.env.NODE_ENV === 'development' || process.env.NODE_ENV === 'test';
+}
+
+/**
+ * Check a callback URL (returns the reason when it is not allowed).
+ * Outside development and test only HTTPS to public hosts is allowed; resolved addresses are
+ * checked again on delivery.
+ */
+export function validateCallbackUrl(
+  value: string,
+  publicOnly = !isLocalEnvironment()
+): string | null {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return 'Callback URL is not a valid URL';
+  }
+
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    return 'Callback URL must use HTTP(S)';
+  }
+
+  if (!publicOnly) {
+    return null;
+  }
+
+  if (url.protocol !== 'https:') {
+    return 'Callback URL must use HTTPS';
+  }
+
+  if (isPrivateHost(url.hostname)) {
+    return 'Callback URL must point to a public host';
+  }
+
+  return null;
+}
+
+/**
+ * POST a callback and return the response status. The host is resolved here and, when only public
+ * targets are allowed, every address is checked; the connection is pinned to the checked address
+ * so a second DNS answer cannot point it elsewhere.
+ */
+async function postCallback(
+  value: string,
+  headers: Record<string, string>,
+  body: string,
+  { callbackPublicOnly, callbackTimeoutMs }: Pick<JobManagerOptions, 'callbackPublicOnly' | 'callbackTimeoutMs'>
+): Promise<number> {
+  const url = new URL(value);
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  const addresses = await dns.promises.lookup(host, { all: true, verbatim: true });
+
+  if (callbackPublicOnly && (isPrivateHost(host) || addresses.some(({ address }) => isReservedAddress(address)))) {
+    throw new Error('Callback host resolves to a non-public address');
+  }
+
+  const [target] = addresses;
+  const lookup: net.LookupFunction = (_hostname, options, callback) => {
+    if (options.all) {
+      (callback as unknown as (error: null, addresses: dns.LookupAddress[]) => void)(null, [target]);
+    } else {
+      callback(null, target.address, target.family);
+    }
+  };
+
+  return new Promise((resolve, reject) => {
+    const request = (url.protocol === 'https:' ? https : http).request(url, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+      lookup,
+      signal: AbortSignal.timeout(callbackTimeoutMs),
+    });
+
+    request.on('response', (response) => {
+      response.resume();
+      resolve(response.statusCode ?? 0);
+    });
+    request.on('error', reject);
+    request.end(body);
+  });
+}
+
+function isPrivateHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, '');
+
+  if (host === 'localhost' || /\.(localhost|local|internal)$/.test(host)) {
+    return true;
+  }
+
+  return net.isIP(host) !== 0 && isReservedAddress(host);
+}
+
+/**
+ * Special-purpose ranges (IANA IPv4/IPv6 special-purpose registries) that callbacks must not reach.
+ * IPv4-mapped IPv6 addresses (::ffff:a.b.c.d) are matched against the IPv4 ranges.
+ */
+const RESERVED_RANGES = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],        // "This" network
+  ['10.0.0.0', 8],       // Private
+  ['100.64.0.0', 10],    // Carrier-grade NAT
+  ['127.0.0.0', 8],      // Loopback
+  ['169.254.0.0', 16],   // Link-local (cloud metadata)
+  ['172.16.0.0', 12],    // Private
+  ['192.0.0.0', 24],     // IETF protocol assignments
+  ['192.0.2.0', 24],     // Documentation
+  ['192.88.99.0', 24],   // 6to4 relay anycast
+  ['192.168.0.0', 16],   // Private
+  ['198.18.0.0', 15],    // Benchmarking
+  ['198.51.100.0', 24],  // Documentation
+  ['203.0.113.0', 24],   // Documentation
+  ['224.0.0.0', 4],      // Multicast
+  ['240.0.0.0', 4],      // Reserved and broadcast
+] as const) {
+  RESERVED_RANGES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 96],            // Unspecified, loopback and IPv4-compatible
+  ['64:ff9b::', 96],     // NAT64
+  ['64:ff9b:1::', 48],   // Local-use NAT64
+  ['100::', 64],         // Discard-only
+  ['2001::', 23],        // IETF protocol assignments (Teredo, ...)
+  ['2001:db8::', 32],    // Documentation
+  ['2002::', 16],        // 6to4
+  ['fc00::', 7],         // Unique local
+  ['fe80::', 10],        // Link-local
+  ['fec0::', 10],        // Site-local (deprecated)
+  ['ff00::', 8],         // Multicast
+] as const) {
+  RESERVED_RANGES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Whether an IP address is in a reserved (non-public) range
+ */
+export function isReservedAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) {
+    return true;
+  }
+  return RESERVED_RANGES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+// Export singleton instance
+export const jobManager = new JobManager(createJobStore());
@@ -0,0 +1,630 @@
+// JSON Schema ↔ Zod conversion for refinement input and output
+import type {
+  RefinementRequest,
+  JsonSchemaInput,
+  SchemaImprovement,
+  UnappliedImprovement,
+} from '../types/index.js';
+import { withCompiledSchema, type SandboxedSchema } from './schema-sandbox.js';
+import { splitFieldPath } from './schema-patcher.js';
+import { formatKey, quote } from './code-literals.js';
+
+export type JsonSchema = Record<string, any> | boolean;
+
+/**
+ * JSON Schema dialects Zod can emit
+ */
+export type JsonSchemaTarget = 'draft-2020-12' | 'openapi-3.0';
+
+/**
+ * Result of converting a JSON Schema document to Zod code
+ */
+export interface JsonSchemaConversion {
+  schema: RefinementRequest['schema'];
+  warnings: string[]; // Keywords that could not be expressed in Zod
+}
+
+/**
+ * Options for JSON Schema → Zod conversion
+ */
+export interface JsonSchemaConversionOptions {
+  /**
+   * Named schemas that `$ref`s resolve to (defaults to `$defs` / `definitions`)
+   */
+  definitions?: Record<string, JsonSchema>;
+
+  /**
+   * Definition name of the document itself (self `$ref`s resolve to the root schema)
+   */
+  rootName?: string;
+}
+
+/**
+ * `format` values with a Zod string method equivalent
+ */
+const FORMAT_METHODS: Record<string, string> = {
+  email: '.email()',
+  uuid: '.uuid()',
+  'date-time': '.datetime({ offset: true })',
+  date: '.date()',
+  time: '.time()',
+  uri: '.url()',
+  url: '.url()',
+  ipv4: '.ipv4()',
+  ipv6: '.ipv6()',
+};
+
+/**
+ * Keywords handled by the converter (or safe to ignore)
+ */
+const KNOWN_KEYWORDS = new Set([
+  // Handled
+  'type', 'properties', 'required', 'additionalProperties', 'items', 'prefixItems',
+  'enum', 'const', 'anyOf', 'oneOf', 'allOf', '$ref', 'nullable', 'format', 'pattern',
+  'minLength', 'maxLength', 'minimum', 'maximum', 'exclusiveMinimum', 'exclusiveMaximum',
+  'multipleOf', 'minItems', 'maxItems', 'description', '$defs', 'definitions',
+  // Annotations
+  '$schema', '$id', '$comment', 'title', 'examples', 'example', 'default', 'deprecated',
+  'readOnly', 'writeOnly',
+]);
+
+/**
+ * Convert a schema given as code or as a JSON Schema document into code/fields form
+ */
+export function resolveSchemaInput(
+  input: RefinementRequest['schema'] | JsonSchemaInput
+): JsonSchemaConversion {
+  if (!('jsonSchema' in input) || 'code' in input) {
+    return { schema: input as RefinementRequest['schema'], warnings: [] };
+  }
+
+  const conversion = jsonSchemaToZod(input.jsonSchema, input.typeName);
+  return {
+    schema: { ...conversion.schema, jsonSchema: input.jsonSchema },
+    warnings: conversion.warnings,
+  };
+}
+
+/**
+ * Convert a JSON Schema document into Zod schema code.
+ *
+ * Definitions become their own `XSchema` constants; `$ref`s to definitions that
+ * are declared later (or to themselves) are wrapped in `z.lazy()`.
+ */
+export function jsonSchemaToZod(
+  document: JsonSchema,
+  typeName: string,
+  options: JsonSchemaConversionOptions = {}
+): JsonSchemaConversion {
+  const root = typeof document === 'object' ? document : {};
+  const definitions: Record<string, JsonSchema> =
+    options.definitions || root.$defs || root.definitions || {};
+  const schemaName = `${typeName}Schema`;
+
+  const identifiers = new Map<string, string>();
+  if (options.rootName) {
+    identifiers.set(options.rootName, schemaName);
+  }
+  for (const name of Object.keys(definitions)) {
+    if (name === options.rootName) {
+      continue;
+    }
+
+    let identifier = `${toIdentifier(name)}Schema`;
+    while (identifier === schemaName || [...identifiers.values()].includes(identifier)) {
+      identifier = `_${identifier}`;
+    }
+    identifiers.set(name, identifier);
+  }
+
+  const converter = new JsonSchemaConverter(identifiers);
+  const lines = ["import { z } from 'zod';", ''];
+
+  for (const [name, definition] of Object.entries(definitions)) {
+    if (name === options.rootName) {
+      continue;
+    }
+    const expression = converter.convert(definition, `#/definitions/${name}`);
+    lines.push(`export const ${identifiers.get(name)} = ${expression};`, '');
+    converter.declared.add(name);
+  }
+
+  const expression = converter.convert(document, '#');
+  lines.push(`export const ${schemaName} = ${expression};`, '');
+  lines.push(`export type ${typeName} = z.infer<typeof ${schemaName}>;`, '');
+
+  // Top-level fields of the root object (warnings were already collected above)
+  const warningCount = converter.warnings.length;
+  const fields: Record<string, string> = {};
+  const required = new Set<string>(Array.isArray(root.required) ? root.required : []);
+  for (const [key, property] of Object.entries<JsonSchema>(root.properties || {})) {
+    const field = converter.convert(property, `#/properties/${key}`);
+    fields[key] = required.has(key) ? field : `${field}.optional()`;
+  }
+  converter.warnings.length = warningCount;
+
+  return {
+    schema: { code: lines.join('\n'), typeName, fields },
+    warnings: converter.warnings,
+  };
+}
+
+/**
+ * Recursive JSON Schema → Zod expression converter
+ */
+class JsonSchemaConverter {
+  readonly declared = new Set<string>();
+  readonly warnings: string[] = [];
+  private depth = 0;
+
+  constructor(private identifiers: Map<string, string>) {}
+
+  convert(schema: JsonSchema, path: string): string {
+    if (schema === true) {
+      return 'z.unknown()';
+    }
+    if (schema === false) {
+      return 'z.never()';
+    }
+    if (!schema || typeof schema !== 'object') {
+      this.warn(path, 'Schema is not an object');
+      return 'z.unknown()';
+    }
+
+    for (const keyword of Object.keys(schema)) {
+      if (!KNOWN_KEYWORDS.has(keyword) && !keyword.startsWith('x-')) {
+        this.warn(path, `Unsupported keyword "${keyword}" was ignored`);
+      }
+    }
+
+    let expression = this.convertType(schema, path);
+    if (schema.nullable === true) {
+      expression = `${expression}.nullable()`;
+    }
+    if (typeof schema.description === 'string') {
+      expression = `${expression}.describe(${quote(schema.description)})`;
+    }
+
+    return expression;
+  }
+
+  private convertType(schema: Record<string, any>, path: string): string {
+    if (typeof schema.$ref === 'string') {
+      return this.convertRef(schema.$ref, path);
+    }
+
+    if ('const' in schema) {
+      return `z.literal(${JSON.stringify(schema.const)})`;
+    }
+
+    if (Array.isArray(schema.enum)) {
+      return this.convertEnum(schema.enum, path);
+    }
+
+    const union = schema.anyOf || schema.oneOf;
+    if (Array.isArray(union)) {
+      return this.convertUnion(union, path);
+    }
+
+    if (Array.isArray(schema.allOf)) {
+      const parts = schema.allOf.map((part: JsonSchema, i: number) =>
+        this.convert(part, `${path}/allOf/${i}`)
+      );
+      return parts.reduce((left: string, right: string) => `z.intersection(${left}, ${right})`);
+    }
+
+    const types: string[] = Array.isArray(schema.type)
+      ? schema.type
+      : schema.type
+        ? [schema.type]
+        : [inferType(schema)].filter((type): type is string => type !== null);
+
+    const nonNull = types.filter((type) => type !== 'null');
+    if (nonNull.length === 0) {
+      return types.includes('null') ? 'z.null()' : 'z.unknown()';
+    }
+
+    const variants = nonNull.map((type) => this.convertSingleType(type, schema, path));
+    const expression = variants.length === 1 ? variants[0] : `z.union([${variants.join(', ')}])`;
+    return types.includes('null') ? `${expression}.nullable()` : expression;
+  }
+
+  private convertSingleType(type: string, schema: Record<string, any>, path: string): string {
+    switch (type) {
+      case 'string':
+        return this.convertString(schema, path);
+      case 'number':
+      case 'integer':
+        return this.convertNumber(type, schema);
+      case 'boolean':
+        return 'z.boolean()';
+      case 'array':
+        return this.convertArray(schema, path);
+      case 'object':
+        return this.convertObject(schema, path);
+      default:
+        this.warn(path, `Unknown type "${type}"`);
+        return 'z.unknown()';
+    }
+  }
+
+  private convertString(schema: Record<string, any>, path: string): string {
+    let expression = 'z.string()';
+
+    if (typeof schema.format === 'string') {
+      const method = FORMAT_METHODS[schema.format];
+      if (method) {
+        expression += method;
+      } else {
+        this.warn(path, `Format "${schema.format}" is not enforced`);
+      }
+    }
+
+    if (typeof schema.pattern === 'string') {
+      try {
+        expression += `.regex(${new RegExp(schema.pattern).toString()})`;
+      } catch {
+        this.warn(path, `Invalid pattern "${schema.pattern}" was ignored`);
+      }
+    }
+
+    if (typeof schema.minLength === 'number') {
+      expression += `.min(${schema.minLength})`;
+    }
+    if (typeof schema.maxLength === 'number') {
+      expression += `.max(${schema.maxLength})`;
+    }
+
+    return expression;
+  }
+
+  private convertNumber(type: string, schema: Record<string, any>): string {
+    let expression = type === 'integer' ? 'z.number().int()' : 'z.number()';
+
+    if (typeof schema.minimum === 'number') {
+      expression += `.min(${schema.minimum})`;
+    }
+    if (typeof schema.maximum === 'number') {
+      expression += `.max(${schema.maximum})`;
+    }
+    if (typeof schema.exclusiveMinimum === 'number') {
+      expression += `.gt(${schema.exclusiveMinimum})`;
+    }
+    if (typeof schema.exclusiveMaximum === 'number') {
+      expression += `.lt(${schema.exclusiveMaximum})`;
+    }
+    if (typeof schema.multipleOf === 'number') {
+      expression += `.multipleOf(${schema.multipleOf})`;
+    }
+
+    return expression;
+  }
+
+  private convertArray(schema: Record<string, any>, path: string): string {
+    let expression: string;
+
+    if (Array.isArray(schema.prefixItems)) {
+      const items = schema.prefixItems.map((item: JsonSchema, i: number) =>
+        this.convert(item, `${path}/prefixItems/${i}`)
+      );
+      expression = `z.tuple([${items.join(', ')}])`;
+    } else {
+      const items =
+        schema.items !== undefined ? this.convert(schema.items, `${path}/items`) : 'z.unknown()';
+      expression = `z.array(${items})`;
+
+      if (typeof schema.minItems === 'number') {
+        expression += `.min(${schema.minItems})`;
+      }
+      if (typeof schema.maxItems === 'number') {
+        expression += `.max(${schema.maxItems})`;
+      }
+    }
+
+    return expression;
+  }
+
+  private convertObject(schema: Record<string, any>, path: string): string {
+    const properties: Record<string, JsonSchema> = schema.properties || {};
+    const keys = Object.keys(properties);
+
+    // Map-like objects: { additionalProperties: {...} } without properties
+    if (keys.length === 0 && schema.additionalProperties && schema.additionalProperties !== true) {
+      const value = this.convert(schema.additionalProperties, `${path}/additionalProperties`);
+      return `z.record(z.string(), ${value})`;
+    }
+
+    const required = new Set<string>(Array.isArray(schema.required) ? schema.required : []);
+    const padding = '  '.repeat(this.depth);
+
+    this.depth++;
+    const entries = keys.map((key) => {
+      const value = this.convert(properties[key], `${path}/properties/${key}`);
+      return `${padding}  ${formatKey(key)}: ${required.has(key) ? value : `${value}.optional()`},`;
+    });
+    this.depth--;
+
+    const expression =
+      entries.length > 0 ? `z.object({\n${entries.join('\n')}\n${padding}})` : 'z.object({})';
+    return schema.additionalProperties === false ? `${expression}.strict()` : expression;
+  }
+
+  private convertEnum(values: unknown[], path: string): string {
+    if (values.length === 0) {
+      this.warn(path, 'Empty enum');
+      return 'z.never()';
+    }
+
+    if (values.every((value) => typeof value === 'string')) {
+      return `z.enum([${(values as string[]).map(quote).join(', ')}])`;
+    }
+
+    const literals = values.map((value) =>
+      value === null ? 'z.null()' : `z.literal(${JSON.stringify(value)})`
+    );
+    return literals.length === 1 ? literals[0] : `z.union([${literals.join(', ')}])`;
+  }
+
+  private convertUnion(variants: JsonSchema[], path: string): string {
+    const isNull = (variant: JsonSchema) => typeof variant === 'object' && variant.type === 'null';
+    const rest = variants.filter((variant) => !isNull(variant));
+    const nullable = rest.length < variants.length;
+
+    const converted = rest.map((variant, i) => this.convert(variant, `${path}/anyOf/${i}`));
+    if (converted.length === 0) {
+      return 'z.null()';
+    }
+
+    const expression = converted.length === 1 ? converted[0] : `z.union([${converted.join(', ')}])`;
+    return nullable ? `${expression}.nullable()` : expression;
+  }
+
+  private convertRef(ref: string, path: string): string {
+    const match = ref.match(/^#\/(?:\$defs|definitions|components\/schemas)\/(.+)$/);
+    const name = match ? decodePointer(match[1]) : null;
+    const identifier = name ? this.identifiers.get(name) : undefined;
+
+    if (!name || !identifier) {
+      this.warn(path, `Unresolved $ref "${ref}"`);
+      return 'z.unknown()';
+    }
+
+    // Forward and self references must be lazy
+    return this.declared.has(name) ? identifier : `z.lazy(() => ${identifier})`;
+  }
+
+  private warn(path: string, message: string): void {
+    this.warnings.push(`${path}: ${message}`);
+  }
+}
+
+/**
+ * Render refined Zod code as a JSON Schema (draft 2020-12) document
+ * (in the given sandbox, if any, else in an isolate of its own)
+ */
+export function zodToJsonSchema(
+  code: string,
+  typeName?: string,
+  target: JsonSchemaTarget = 'draft-2020-12',
+  sandbox?: SandboxedSchema
+): Record<string, unknown> {
+  return withCompiledSchema(code, typeName, (schema) => schema.toJSONSchema(target), sandbox);
+}
+
+/**
+ * Attach the JSON Schema keywords each improvement adds or changes.
+ * Compares the field's JSON Schema in the original and the refined document.
+ */
+export function mapImprovementKeywords(
+  original: Record<string, unknown>,
+  refined: Record<string, unknown>,
+  improvements: SchemaImprovement[]
+): SchemaImprovement[] {
+  return improvements.map((improvement) => {
+    const segments = splitFieldPath(improvement.field);
+    const isArrayPath = improvement.field.includes('[');
+    const before = findFieldSchema(original, segments, isArrayPath);
+    const after = findFieldSchema(refined, segments, isArrayPath);
+
+    if (!after) {
+      return improvement;
+    }
+
+    const keywords: Record<string, unknown> = {};
+    for (const [keyword, value] of Object.entries(after)) {
+      if (JSON.stringify(before?.[keyword]) !== JSON.stringify(value)) {
+        keywords[keyword] = value;
+      }
+    }
+
+    // Zod emits safe-integer bounds for .int() and a regex next to built-in formats
+    if (Math.abs(keywords.minimum as number) === Number.MAX_SAFE_INTEGER) {
+      delete keywords.minimum;
+    }
+    if (Math.abs(keywords.maximum as number) === Number.MAX_SAFE_INTEGER) {
+      delete keywords.maximum;
+    }
+    if (keywords.format && keywords.pattern && !improvement.after.includes('.regex(')) {
+      delete keywords.pattern;
+    }
+
+    return Object.keys(keywords).length > 0
+      ? { ...improvement, jsonSchemaKeywords: keywords }
+      : improvement;
+  });
+}
+
+/**
+ * Write the keywords of each improvement (see mapImprovementKeywords) into a JSON Schema
+ * document, next to the keywords it already has (mutates `document`).
+ * Improvements that cannot be merged are returned with the reason.
+ */
+export function patchJsonSchemaKeywords(
+  document: Record<string, any>,
+  improvements: SchemaImprovement[]
+): { applied: SchemaImprovement[]; unapplied: UnappliedImprovement[] } {
+  const applied: SchemaImprovement[] = [];
+  const unapplied: UnappliedImprovement[] = [];
+
+  for (const improvement of improvements) {
+    const keywords = improvement.jsonSchemaKeywords;
+    if (!keywords || Object.keys(keywords).length === 0) {
+      unapplied.push({ ...improvement, unappliedReason: 'No JSON Schema keyword change' });
+      continue;
+    }
+
+    if (['anyOf', 'oneOf', 'allOf', '$ref'].some((keyword) => keyword in keywords)) {
+      unapplied.push({
+        ...improvement,
+        unappliedReason: 'Structural changes cannot be merged into the document',
+      });
+      continue;
+    }
+
+    const target = findPropertySchema(document, improvement.field);
+    if (typeof target === 'string') {
+      unapplied.push({ ...improvement, unappliedReason: target });
+      continue;
+    }
+
+    Object.assign(target, keywords);
+    applied.push(improvement);
+  }
+
+  return { applied, unapplied };
+}
+
+/**
+ * Find a property schema by field path (returns the reason when it cannot be patched)
+ */
+function findPropertySchema(document: Record<string, any>, field: string): Record<string, any> | string {
+  let node: Record<string, any> = document;
+
+  for (const segment of splitFieldPath(field)) {
+    const object = unwrapProperties(node);
+    if (typeof object === 'string') {
+      return object;
+    }
+
+    const next = object.properties?.[segment];
+    if (!next || typeof next !== 'object') {
+      return `Field "${field}" not found in the schema`;
+    }
+    node = next;
+  }
+
+  if (typeof node.$ref === 'string') {
+    return `Field is a $ref to ${node.$ref} - refine that schema instead`;
+  }
+
+  // OpenAPI 3.1 / draft 2020-12 nullable: anyOf [X, { type: 'null' }]
+  const variants: any[] | undefined = node.anyOf || node.oneOf;
+  const nonNull = variants?.filter((variant) => variant?.type !== 'null');
+  if (nonNull && nonNull.length === 1 && typeof nonNull[0] === 'object') {
+    return typeof nonNull[0].$ref === 'string'
+      ? `Field is a $ref to ${nonNull[0].$ref} - refine that schema instead`
+      : nonNull[0];
+  }
+
+  return node;
+}
+
+/**
+ * Descend through arrays and nullable unions to the schema holding `properties`
+ */
+function unwrapProperties(node: Record<string, any>): Record<string, any> | string {
+  let current = node;
+
+  while (current && !current.properties) {
+    if (typeof current.$ref === 'string') {
+      return `Field belongs to ${current.$ref} - refine that schema instead`;
+    }
+    if (current.items && typeof current.items === 'object') {
+      current = current.items;
+      continue;
+    }
+    const variants: any[] | undefined = current.anyOf || current.oneOf;
+    const branch = variants?.find((variant) => variant && variant.type !== 'null');
+    if (!branch) {
+      break;
+    }
+    current = branch;
+  }
+
+  return current || {};
+}
+
+/**
+ * Locate a field's schema by path, looking through arrays and nullable unions
+ */
+function findFieldSchema(
+  document: Record<string, any>,
+  segments: string[],
+  descendArrays: boolean
+): Record<string, any> | null {
+  let current: Record<string, any> | null = document;
+
+  for (const segment of segments) {
+    current = unwrapNode(current, descendArrays);
+    const next: unknown = current?.properties?.[segment];
+    if (!next || typeof next !== 'object') {
+      return null;
+    }
+    current = next as Record<string, any>;
+  }
+
+  return current;
+}
+
+function unwrapNode(node: Record<string, any> | null, descendArrays: boolean): Record<string, any> | null {
+  let current = node;
+
+  while (current) {
+    if (current.properties) {
+      return current;
+    }
+    if (descendArrays && current.items && typeof current.items === 'object') {
+      current = current.items;
+      continue;
+    }
+    const variants: any[] | undefined = current.anyOf || current.oneOf;
+    const branch = variants?.find((variant) => variant && variant.type !== 'null');
+    if (!branch) {
+      return null;
+    }
+    current = branch;
+  }
+
+  return null;
+}
+
+/**
+ * Infer the type of a schema without a `type` keyword
+ */
+function inferType(schema: Record<string, any>): string | null {
+  if (schema.properties || schema.additionalProperties !== undefined || schema.required) {
+    return 'object';
+  }
+  if (schema.items !== undefined || schema.prefixItems) {
+    return 'array';
+  }
+  if (schema.format || schema.pattern || schema.minLength !== undefined || schema.maxLength !== undefined) {
+    return 'string';
+  }
+  if (schema.minimum !== undefined || schema.maximum !== undefined || schema.multipleOf !== undefined) {
+    return 'number';
+  }
+  return null;
+}
+
+/**
+ * Turn a schema name into a valid identifier ("order-item" → "order_item")
+ */
+export function toIdentifier(name: string): string {
+  const identifier = name.replace(/[^A-Za-z0-9_$]/g, '_');
+  return /^[0-9]/.test(identifier) ? `_${identifier}` : identifier;
+}
+
+function decodePointer(segment: string): string {
+  return decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+}
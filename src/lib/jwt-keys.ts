@@ -1,6 +1,7 @@
 // JWT-based API key system for stateless validation
 import jwt from 'jsonwebtoken';
 import crypto from 'crypto';
+import type { PiiPolicy } from '../types/index.js';
 
 /**
  * JWT API Key payload structure
@@ -45,6 +46,7 @@ export interface ApiKeyPayload {
     createdBy?: string;
     environment?: 'development' | 'production';
     ipWhitelist?: string[];
+    piiPolicy?: PiiPolicy; // Overrides the global PII policy for this key
   };
 }
 
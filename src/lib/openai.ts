@@ -2,6 +2,8 @@
 import OpenAI from 'openai';
 import { env } from '../config/env.js';
 import { sanitizeError, securityAuditor, maskApiKey } from './security.js';
+import { applyImprovements } from './schema-patcher.js';
+import { buildRefinementPrompt, promptVersionOf } from './prompts.js';
 import type { RefinementRequest, RefinementResponse } from '../types/index.js';
 
 // Initialize OpenAI with secured API key
@@ -14,64 +16,6 @@ export const openai = new OpenAI({
 // Log initialization (with masked key for security)
 console.log('🔐 OpenAI client initialized with key:', maskApiKey(env.OPENAI_API_KEY));
 
-const SYSTEM_PROMPT = `You are an expert TypeScript and Zod schema developer. Your task is to analyze a Zod schema and suggest improvements based on sample data.
-
-**Goals**:
-1. Make types more accurate and specific
-2. Add appropriate constraints (min, max, regex, etc.)
-3. Improve validation rules based on business logic
-4. Detect enums where appropriate
-5. Add transformations for data normalization
-
-**Rules**:
-- Only suggest changes with high confidence (>80%)
-- Preserve existing valid constraints
-- Consider real-world data patterns
-- Explain reasoning for each change
-- Use standard Zod validators
-
-**Output Format** (JSON only, no markdown):
-{
-  "improvements": [
-    {
-      "field": "email",
-      "before": "z.string()",
-      "after": "z.string().email().toLowerCase().trim()",
-      "reason": "Field name and samples indicate email addresses. Added normalization.",
-      "confidence": 0.95
-    }
-  ],
-  "suggestions": [
-    "Consider adding @default for optional fields",
-    "Username should have length constraints"
-  ]
-}`;
-
-function buildPrompt(request: RefinementRequest): string {
-  const { schema, samples } = request;
-
-  return `Analyze this Zod schema and suggest improvements:
-
-**Schema Name**: ${schema.typeName}
-
-**Current Schema**:
-\`\`\`typescript
-${schema.code}
-\`\`\`
-
-**Field Types**:
-${Object.entries(schema.fields)
-  .map(([field, type]) => `- ${field}: ${type}`)
-  .join('\n')}
-
-**Sample Data** (${samples.length} samples):
-\`\`\`json
-${JSON.stringify(samples.slice(0, 10), null, 2)}
-\`\`\`
-
-Provide improvements in JSON format.`;
-}
-
 export async function refineSchemaWithOpenAI(
   request: RefinementRequest
 ): Promise<Omit<RefinementResponse, 'success' | 'error' | 'errorCode'>> {
@@ -90,15 +34,15 @@ export async function refineSchemaWithOpenAI(
       'low'
     );
 
-    const prompt = buildPrompt(request);
+    const prompt = buildRefinementPrompt(request);
 
     const completion = await openai.chat.completions.create({
       model: request.options?.model || 'gpt-4-turbo-preview',
       temperature: request.options?.temperature || 0.2,
       max_tokens: 2000,
       messages: [
-        { role: 'system', content: SYSTEM_PROMPT },
-        { role: 'user', content: prompt },
+        { role: 'system', content: prompt.system },
+        { role: 'user', content: prompt.user },
       ],
       response_format: { type: 'json_object' },
     });
@@ -118,14 +62,19 @@ export async function refineSchemaWithOpenAI(
       ? confidences.reduce((a: number, b: number) => a + b, 0) / confidences.length
       : 0.9;
 
-    // Rebuild the refined schema code
-    const refinedCode = buildRefinedSchema(request.schema, parsed.improvements || []);
+    // Patch the improvements into the schema code (AST-based)
+    const patch = applyImprovements(
+      request.schema.code,
+      parsed.improvements || [],
+      request.schema.typeName
+    );
 
     // Security audit: Log successful refinement
     securityAuditor.log(
       'openai_refinement_success',
       {
         improvementsCount: parsed.improvements?.length || 0,
+        unappliedCount: patch.unapplied.length,
         confidence: averageConfidence,
         processingTime,
       },
@@ -134,11 +83,14 @@ export async function refineSchemaWithOpenAI(
 
     return {
       refinedSchema: {
-        code: refinedCode,
+        code: patch.code,
         improvements: parsed.improvements || [],
         confidence: averageConfidence,
+        unappliedImprovements: patch.unapplied,
       },
       suggestions: parsed.suggestions || [],
+      prompt: promptVersionOf(prompt),
+      promptSamples: prompt.sampleReport,
       creditsUsed: 1,
       creditsRemaining: -1, // Unlimited for MVP
       processingTime,
@@ -160,25 +112,3 @@ export async function refineSchemaWithOpenAI(
     throw new Error(`OpenAI API error: ${sanitizedMessage}`);
   }
 }
-
-function buildRefinedSchema(
-  originalSchema: RefinementRequest['schema'],
-  improvements: Array<{ field: string; before: string; after: string }>
-): string {
-  let refinedCode = originalSchema.code;
-
-  // Apply each improvement by replacing before → after
-  improvements.forEach((improvement) => {
-    const fieldPattern = new RegExp(
-      `(${improvement.field}\\s*:\\s*)${escapeRegex(improvement.before)}`,
-      'g'
-    );
-    refinedCode = refinedCode.replace(fieldPattern, `$1${improvement.after}`);
-  });
-
-  return refinedCode;
-}
-
-function escapeRegex(str: string): string {
-  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-}
@@ -0,0 +1,203 @@
+// OpenAPI document refinement (one refinement per components.schemas entry)
+import type {
+  OpenApiRefinementRequest,
+  OpenApiRefinementResponse,
+  OpenApiComponentResult,
+  RefinementContext,
+  SchemaImprovement,
+  TokenUsage,
+  UnappliedImprovement,
+} from '../types/index.js';
+import { providerFactoryV2 } from './providers/index.js';
+import {
+  jsonSchemaToZod,
+  zodToJsonSchema,
+  mapImprovementKeywords,
+  patchJsonSchemaKeywords,
+  toIdentifier,
+  type JsonSchema,
+  type JsonSchemaTarget,
+} from './json-schema.js';
+import { withSandbox } from './schema-sandbox.js';
+import { mapWithConcurrency } from './concurrency.js';
+import { sumUsage } from './tokens.js';
+import { PiiBlockedError } from './pii.js';
+
+/**
+ * Components refined in parallel by default
+ */
+export const DEFAULT_OPENAPI_CONCURRENCY = 4;
+
+const COMPONENT_REF_PREFIX = '#/components/schemas/';
+
+/**
+ * Refine every component schema that has examples and patch the results into the document.
+ *
+ * Components are converted to Zod with their referenced components as separate
+ * declarations, so `$ref`s survive. Improvements are written back as JSON Schema
+ * keywords on the component's own properties; fields that are `$ref`s are left alone.
+ */
+export async function refineOpenApiDocument(
+  request: OpenApiRefinementRequest,
+  context: RefinementContext = {}
+): Promise<Omit<OpenApiRefinementResponse, 'success' | 'error' | 'errorCode'>> {
+  const startTime = Date.now();
+  const schemas: Record<string, JsonSchema> = request.document.components?.schemas || {};
+  const document = structuredClone(request.document);
+  const target: JsonSchemaTarget = String(request.document.openapi).startsWith('3.0')
+    ? 'openapi-3.0'
+    : 'draft-2020-12';
+
+  const { concurrency = DEFAULT_OPENAPI_CONCURRENCY, ...options } = request.options || {};
+
+  const suggestions = Object.keys(request.examples)
+    .filter((name) => !(name in schemas))
+    .map((name) => `Examples for unknown component "${name}" were ignored`);
+
+  let creditsUsed = 0;
+  const usages: Array<TokenUsage | undefined> = [];
+  const entries = await mapWithConcurrency(
+    Object.keys(schemas),
+    concurrency,
+    async (name): Promise<[string, OpenApiComponentResult]> => {
+      const samples = request.examples[name];
+      if (!samples || samples.length === 0) {
+        return [name, { status: 'skipped', improvements: [] }];
+      }
+
+      try {
+        const component = await refineComponent(name, schemas, samples, options, target, context);
+        creditsUsed += component.creditsUsed;
+        usages.push(component.result.usage);
+        const result = patchComponent(document.components.schemas[name], component);
+        return [name, result];
+      } catch (error: any) {
+        // A blocked PII policy fails the whole document, not just this component
+        if (error instanceof PiiBlockedError) {
+          throw error;
+        }
+        return [name, { status: 'failed', improvements: [], error: error.message }];
+      }
+    }
+  );
+
+  const usage = sumUsage(usages);
+
+  return {
+    document,
+    components: Object.fromEntries(entries),
+    suggestions,
+    ...(usage ? { usage } : {}),
+    creditsUsed,
+    processingTime: Date.now() - startTime,
+  };
+}
+
+interface ComponentRefinement {
+  improvements: SchemaImprovement[];
+  unapplied: UnappliedImprovement[];
+  result: Awaited<ReturnType<typeof providerFactoryV2.refineSchema>>;
+  creditsUsed: number;
+}
+
+/**
+ * Refine a single component through the provider factory
+ */
+async function refineComponent(
+  name: string,
+  schemas: Record<string, JsonSchema>,
+  samples: any[],
+  options: OpenApiRefinementRequest['options'],
+  target: JsonSchemaTarget,
+  context: RefinementContext
+): Promise<ComponentRefinement> {
+  const typeName = toIdentifier(name);
+  const definitions = Object.fromEntries(
+    [...collectComponentRefs(schemas[name], schemas)]
+      .filter((ref) => ref !== name)
+      .map((ref) => [ref, schemas[ref]])
+  );
+
+  const { schema } = jsonSchemaToZod(schemas[name], typeName, { definitions, rootName: name });
+  const result = await providerFactoryV2.refineSchema({ schema, samples, options }, context);
+  const refinedSchema = result.refinedSchema;
+
+  if (!refinedSchema) {
+    return { improvements: [], unapplied: [], result, creditsUsed: result.creditsUsed || 0 };
+  }
+
+  const unappliedFields = new Set(
+    (refinedSchema.unappliedImprovements || []).map((improvement) => improvement.field)
+  );
+  const applied = refinedSchema.improvements.filter((i) => !unappliedFields.has(i.field));
+
+  const improvements = withSandbox(undefined, (sandbox) =>
+    mapImprovementKeywords(
+      zodToJsonSchema(schema.code, typeName, target, sandbox),
+      zodToJsonSchema(refinedSchema.code, typeName, target, sandbox),
+      applied
+    )
+  );
+
+  return {
+    improvements,
+    unapplied: refinedSchema.unappliedImprovements || [],
+    result,
+    creditsUsed: result.creditsUsed || 0,
+  };
+}
+
+/**
+ * Write improvement keywords into the component schema (mutates `component`)
+ */
+function patchComponent(
+  component: Record<string, any>,
+  refinement: ComponentRefinement
+): OpenApiComponentResult {
+  const { applied, unapplied } = patchJsonSchemaKeywords(component, refinement.improvements);
+
+  const { result } = refinement;
+  return {
+    status: 'refined',
+    improvements: applied,
+    unappliedImprovements: [...refinement.unapplied, ...unapplied],
+    rejectedImprovements: result.refinedSchema?.rejectedImprovements,
+    confidence: result.refinedSchema?.confidence,
+    aiProvider: result.aiProvider,
+    piiReport: result.piiReport,
+  };
+}
+
+/**
+ * Collect the names of all components a schema references (transitively)
+ */
+export function collectComponentRefs(
+  schema: unknown,
+  schemas: Record<string, JsonSchema>,
+  found: Set<string> = new Set()
+): Set<string> {
+  if (!schema || typeof schema !== 'object') {
+    return found;
+  }
+
+  if (Array.isArray(schema)) {
+    schema.forEach((item) => collectComponentRefs(item, schemas, found));
+    return found;
+  }
+
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === '$ref' && typeof value === 'string' && value.startsWith(COMPONENT_REF_PREFIX)) {
+      const name = decodeURIComponent(value.slice(COMPONENT_REF_PREFIX.length))
+        .replace(/~1/g, '/')
+        .replace(/~0/g, '~');
+      if (!found.has(name) && name in schemas) {
+        found.add(name);
+        collectComponentRefs(schemas[name], schemas, found);
+      }
+    } else {
+      collectComponentRefs(value, schemas, found);
+    }
+  }
+
+  return found;
+}
@@ -0,0 +1,237 @@
+// Additional output formats for refinement results
+import type {
+  OutputFormat,
+  RefinementRequest,
+  RefinementResponse,
+  SchemaPatchEdit,
+  SourcePosition,
+} from '../types/index.js';
+import { zodToJsonSchema, mapImprovementKeywords, patchJsonSchemaKeywords } from './json-schema.js';
+import { applyImprovements } from './schema-patcher.js';
+import { createUnifiedDiff } from './diff.js';
+import { renderTargets } from './output-targets.js';
+import { generateFixtures } from './fixtures.js';
+import { withSandbox, type SandboxedSchema } from './schema-sandbox.js';
+
+type RefinementResult = Omit<RefinementResponse, 'success' | 'error' | 'errorCode'>;
+
+/**
+ * Get the requested output formats (JSON Schema input defaults to JSON Schema output too)
+ */
+export function resolveOutputFormats(request: RefinementRequest): OutputFormat[] {
+  if (request.options?.outputFormats && request.options.outputFormats.length > 0) {
+    return request.options.outputFormats;
+  }
+
+  return request.schema.jsonSchema ? ['zod', 'json-schema'] : ['zod'];
+}
+
+/**
+ * Render the requested output formats onto a refinement result.
+ * Zod code is always returned; other formats are added next to it.
+ *
+ * Formats that evaluate the schema share one sandbox: the request's, if given,
+ * else one created for rendering.
+ */
+export function renderOutputFormats(
+  request: RefinementRequest,
+  result: RefinementResult,
+  sandbox?: SandboxedSchema
+): RefinementResult {
+  const formats = resolveOutputFormats(request);
+  const evaluates =
+    formats.includes('json-schema') ||
+    (request.options?.outputTargets?.length ?? 0) > 0 ||
+    Boolean(request.options?.fixtures);
+
+  if (!sandbox && evaluates && result.refinedSchema) {
+    return withSandbox(undefined, (created) => renderFormats(request, result, formats, created));
+  }
+
+  return renderFormats(request, result, formats, sandbox);
+}
+
+function renderFormats(
+  request: RefinementRequest,
+  result: RefinementResult,
+  formats: OutputFormat[],
+  sandbox: SandboxedSchema | undefined
+): RefinementResult {
+  let rendered = result;
+
+  if (formats.includes('json-schema')) {
+    rendered = renderJsonSchema(request, rendered, sandbox);
+  }
+
+  if (formats.includes('diff')) {
+    rendered = renderDiff(request, rendered);
+  }
+
+  if (request.options?.outputTargets && request.options.outputTargets.length > 0) {
+    rendered = renderCodeTargets(request, rendered, sandbox);
+  }
+
+  if (request.options?.fixtures) {
+    rendered = renderFixtures(request, rendered, sandbox);
+  }
+
+  return rendered;
+}
+
+/**
+ * Add the refined schema as JSON Schema, and the keywords each improvement changes.
+ * JSON Schema input gets its own document back with the keywords patched in, so titles,
+ * examples and keywords Zod cannot express are kept.
+ */
+function renderJsonSchema(
+  request: RefinementRequest,
+  result: RefinementResult,
+  sandbox?: SandboxedSchema
+): RefinementResult {
+  const refinedSchema = result.refinedSchema;
+  if (!refinedSchema) {
+    return result;
+  }
+
+  let refined: Record<string, unknown>;
+  try {
+    refined = zodToJsonSchema(refinedSchema.code, request.schema.typeName, undefined, sandbox);
+  } catch (error: any) {
+    return {
+      ...result,
+      suggestions: [
+        ...(result.suggestions || []),
+        `JSON Schema output unavailable: ${error.message}`,
+      ],
+    };
+  }
+
+  let improvements = refinedSchema.improvements;
+  try {
+    const original = zodToJsonSchema(request.schema.code, request.schema.typeName, undefined, sandbox);
+    improvements = mapImprovementKeywords(original, refined, improvements);
+  } catch {
+    // Original schema cannot be evaluated - keywords cannot be diffed
+  }
+
+  if (!request.schema.jsonSchema) {
+    return { ...result, refinedSchema: { ...refinedSchema, improvements, jsonSchema: refined } };
+  }
+
+  const unappliedFields = new Set(
+    (refinedSchema.unappliedImprovements || []).map((improvement) => improvement.field)
+  );
+  const jsonSchema = structuredClone(request.schema.jsonSchema);
+  const { unapplied } = patchJsonSchemaKeywords(
+    jsonSchema,
+    improvements.filter((improvement) => !unappliedFields.has(improvement.field))
+  );
+
+  const rendered = { ...result, refinedSchema: { ...refinedSchema, improvements, jsonSchema } };
+  if (unapplied.length === 0) {
+    return rendered;
+  }
+
+  return {
+    ...rendered,
+    suggestions: [
+      ...(result.suggestions || []),
+      ...unapplied.map(
+        ({ field, unappliedReason }) => `JSON Schema output does not include the change to "${field}": ${unappliedReason}`
+      ),
+    ],
+  };
+}
+
+/**
+ * Add the refined schema as code for other validation libraries (options.outputTargets)
+ */
+function renderCodeTargets(
+  request: RefinementRequest,
+  result: RefinementResult,
+  sandbox?: SandboxedSchema
+): RefinementResult {
+  const refinedSchema = result.refinedSchema;
+  if (!refinedSchema) {
+    return result;
+  }
+
+  try {
+    const targets = renderTargets(refinedSchema.code, request.schema.typeName, request.options!.outputTargets!, sandbox);
+    return { ...result, refinedSchema: { ...refinedSchema, targets } };
+  } catch (error: any) {
+    return {
+      ...result,
+      suggestions: [...(result.suggestions || []), `Output targets unavailable: ${error.message}`],
+    };
+  }
+}
+
+/**
+ * Add valid, boundary and invalid fixtures for the refined schema (options.fixtures)
+ */
+function renderFixtures(
+  request: RefinementRequest,
+  result: RefinementResult,
+  sandbox?: SandboxedSchema
+): RefinementResult {
+  const refinedSchema = result.refinedSchema;
+  if (!refinedSchema) {
+    return result;
+  }
+
+  try {
+    const fixtures = generateFixtures(refinedSchema.code, request.schema.typeName, request.samples, sandbox);
+    return { ...result, refinedSchema: { ...refinedSchema, fixtures } };
+  } catch (error: any) {
+    return {
+      ...result,
+      suggestions: [...(result.suggestions || []), `Fixtures unavailable: ${error.message}`],
+    };
+  }
+}
+
+/**
+ * Add a unified diff against the original code and the edit behind each improvement
+ */
+function renderDiff(request: RefinementRequest, result: RefinementResult): RefinementResult {
+  const refinedSchema = result.refinedSchema;
+  if (!refinedSchema) {
+    return result;
+  }
+
+  const original = request.schema.code;
+  const patch = applyImprovements(original, refinedSchema.improvements, request.schema.typeName);
+  const fileName = `${request.schema.typeName}.ts`;
+
+  const edits: SchemaPatchEdit[] = patch.edits.map((edit) => ({
+    improvementIndex: edit.improvementIndex,
+    field: edit.field,
+    range: {
+      start: toPosition(original, edit.start),
+      end: toPosition(original, edit.end),
+    },
+    oldText: edit.oldText,
+    newText: edit.newText,
+  }));
+
+  return {
+    ...result,
+    refinedSchema: {
+      ...refinedSchema,
+      diff: createUnifiedDiff(original, refinedSchema.code, fileName, fileName),
+      edits,
+    },
+  };
+}
+
+/**
+ * Convert a character offset into a 1-based line/column position
+ */
+function toPosition(text: string, offset: number): SourcePosition {
+  const before = text.slice(0, offset);
+  const line = before.split('\n').length;
+  const column = offset - (before.lastIndexOf('\n') + 1) + 1;
+
+  return { line, column, offset };
+}
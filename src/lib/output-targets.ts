@@ -0,0 +1,934 @@
+// Code generation targets: the refined schema for TypeScript, Valibot, Yup, ArkType and io-ts
+import { buildSchemaIR, pathLabel, type RegexSource, type SchemaIR, type SchemaNode } from './schema-ir.js';
+import { toIdentifier } from './json-schema.js';
+import type { SandboxedSchema } from './schema-sandbox.js';
+import { formatKey, quote } from './code-literals.js';
+import type { GeneratedTarget, OutputTarget } from '../types/index.js';
+
+export const OUTPUT_TARGETS: OutputTarget[] = ['typescript', 'valibot', 'yup', 'arktype', 'io-ts'];
+
+type StringNode = Extract<SchemaNode, { kind: 'string' }>;
+type NumberNode = Extract<SchemaNode, { kind: 'number' }>;
+type ArrayNode = Extract<SchemaNode, { kind: 'array' }>;
+type ObjectNode = Extract<SchemaNode, { kind: 'object' }>;
+
+/**
+ * Render Zod schema code for each requested target (the IR is built once)
+ */
+export function renderTargets(
+  code: string,
+  typeName: string,
+  targets: OutputTarget[],
+  sandbox?: SandboxedSchema
+): Partial<Record<OutputTarget, GeneratedTarget>> {
+  const ir = buildSchemaIR(code, typeName, sandbox);
+  const rendered: Partial<Record<OutputTarget, GeneratedTarget>> = {};
+
+  for (const target of new Set(targets)) {
+    rendered[target] = renderTarget(target, ir, typeName);
+  }
+
+  return rendered;
+}
+
+/**
+ * Render one target from the schema IR
+ */
+export function renderTarget(target: OutputTarget, ir: SchemaIR, typeName: string): GeneratedTarget {
+  const emitter = createEmitter(target);
+  const code = emitter.module(ir.root, toIdentifier(typeName));
+
+  return { code, warnings: [...ir.warnings, ...emitter.warnings] };
+}
+
+function createEmitter(target: OutputTarget): TargetEmitter {
+  switch (target) {
+    case 'typescript':
+      return new TypeScriptEmitter();
+    case 'valibot':
+      return new ValibotEmitter();
+    case 'yup':
+      return new YupEmitter();
+    case 'arktype':
+      return new ArkTypeEmitter();
+    case 'io-ts':
+      return new IoTsEmitter();
+  }
+}
+
+/**
+ * Base class for targets: collects warnings for constraints the library cannot express
+ */
+abstract class TargetEmitter {
+  readonly warnings: string[] = [];
+  protected abstract readonly label: string;
+
+  abstract module(root: SchemaNode, name: string): string;
+
+  protected unsupported(path: string, constraint: string): void {
+    this.warnings.push(`${pathLabel(path)}: ${constraint} is not supported by ${this.label}`);
+  }
+
+  protected unsupportedAll(path: string, constraints: string[]): void {
+    for (const constraint of constraints) {
+      this.unsupported(path, constraint);
+    }
+  }
+}
+
+/**
+ * TypeScript: the schema's output type (every runtime constraint is a warning)
+ */
+class TypeScriptEmitter extends TargetEmitter {
+  protected readonly label = 'TypeScript types';
+
+  module(root: SchemaNode, name: string): string {
+    return `export type ${name} = ${this.type(root, '', 0)};\n`;
+  }
+
+  private type(node: SchemaNode, path: string, depth: number): string {
+    switch (node.kind) {
+      case 'string':
+        this.unsupportedAll(path, stringConstraints(node));
+        return 'string';
+      case 'number':
+        this.unsupportedAll(path, numberConstraints(node));
+        return 'number';
+      case 'boolean':
+      case 'bigint':
+        return node.kind;
+      case 'date':
+        return 'Date';
+      case 'literal':
+      case 'enum':
+        return node.values.map(literal).join(' | ');
+      case 'array':
+        this.unsupportedAll(path, arrayConstraints(node));
+        return `${group(this.type(node.element, `${path}[]`, depth))}[]`;
+      case 'tuple': {
+        const items = node.items.map((item, index) => this.type(item, `${path}[${index}]`, depth));
+        if (node.rest) {
+          items.push(`...${group(this.type(node.rest, `${path}[]`, depth))}[]`);
+        }
+        return `[${items.join(', ')}]`;
+      }
+      case 'object':
+        return this.object(node, path, depth);
+      case 'record': {
+        const key = node.key.kind === 'enum' || node.key.kind === 'literal' ? this.type(node.key, path, depth) : 'string';
+        return `Record<${key}, ${this.type(node.value, `${path}.*`, depth)}>`;
+      }
+      case 'union':
+        return node.options.map((option) => this.type(option, path, depth)).join(' | ');
+      case 'intersection':
+        return `${group(this.type(node.left, path, depth))} & ${group(this.type(node.right, path, depth))}`;
+      case 'optional':
+        return `${this.type(node.inner, path, depth)} | undefined`;
+      case 'nullable':
+        return `${this.type(node.inner, path, depth)} | null`;
+      case 'default':
+        // The output type of a field with a default is never undefined
+        return this.type(node.inner, path, depth);
+      default:
+        return node.kind;
+    }
+  }
+
+  private object(node: ObjectNode, path: string, depth: number): string {
+    if (node.unknownKeys === 'strict') {
+      this.unsupported(path, 'rejecting unknown keys');
+    }
+
+    const entries = node.properties.map(({ name, schema }) => {
+      const childPath = propertyPath(path, name);
+      const optional = schema.kind === 'optional';
+      const type = this.type(optional ? schema.inner : schema, childPath, depth + 1);
+      return `${formatKey(name)}${optional ? '?' : ''}: ${type}`;
+    });
+
+    if (node.catchall) {
+      entries.push(`[key: string]: ${this.type(node.catchall, `${path}.*`, depth + 1)}`);
+    }
+
+    return entries.length === 0 ? 'Record<string, never>' : block(entries, depth, ';');
+  }
+}
+
+/**
+ * Valibot (v1 pipe API)
+ */
+const VALIBOT_FORMATS: Record<string, string> = {
+  email: 'v.email()',
+  url: 'v.url()',
+  uuid: 'v.uuid()',
+  cuid2: 'v.cuid2()',
+  ulid: 'v.ulid()',
+  nanoid: 'v.nanoid()',
+  emoji: 'v.emoji()',
+  base64: 'v.base64()',
+  ipv4: 'v.ipv4()',
+  ipv6: 'v.ipv6()',
+  datetime: 'v.isoTimestamp()',
+  date: 'v.isoDate()',
+  time: 'v.isoTime()',
+};
+
+class ValibotEmitter extends TargetEmitter {
+  protected readonly label = 'Valibot';
+
+  module(root: SchemaNode, name: string): string {
+    return [
+      `import * as v from 'valibot';`,
+      '',
+      `export const ${name}Schema = ${this.schema(root, '', 0)};`,
+      '',
+      `export type ${name} = v.InferOutput<typeof ${name}Schema>;`,
+      '',
+    ].join('\n');
+  }
+
+  private schema(node: SchemaNode, path: string, depth: number): string {
+    switch (node.kind) {
+      case 'string':
+        return this.string(node, path);
+      case 'number':
+        return this.number(node, path);
+      case 'boolean':
+      case 'bigint':
+        if (node.coerce) {
+          this.unsupported(path, 'coercion');
+        }
+        return `v.${node.kind}()`;
+      case 'date':
+        return node.coerce
+          ? 'v.pipe(v.union([v.string(), v.number(), v.date()]), v.transform((input) => new Date(input)), v.date())'
+          : 'v.date()';
+      case 'literal': {
+        const options = node.values.map((value) => (value === null ? 'v.null()' : `v.literal(${literal(value)})`));
+        return options.length === 1 ? options[0] : `v.union([${options.join(', ')}])`;
+      }
+      case 'enum':
+        return `v.picklist([${node.values.map(literal).join(', ')}])`;
+      case 'array':
+        return pipe(`v.array(${this.schema(node.element, `${path}[]`, depth)})`, [
+          ...(node.length !== undefined ? [`v.length(${node.length})`] : []),
+          ...(node.minItems !== undefined ? [`v.minLength(${node.minItems})`] : []),
+          ...(node.maxItems !== undefined ? [`v.maxLength(${node.maxItems})`] : []),
+        ]);
+      case 'tuple': {
+        const items = node.items.map((item, index) => this.schema(item, `${path}[${index}]`, depth));
+        return node.rest
+          ? `v.tupleWithRest([${items.join(', ')}], ${this.schema(node.rest, `${path}[]`, depth)})`
+          : `v.tuple([${items.join(', ')}])`;
+      }
+      case 'object':
+        return this.object(node, path, depth);
+      case 'record':
+        return `v.record(${this.schema(node.key, path, depth)}, ${this.schema(node.value, `${path}.*`, depth)})`;
+      case 'union':
+        return `v.union([${node.options.map((option) => this.schema(option, path, depth)).join(', ')}])`;
+      case 'intersection':
+        return `v.intersect([${this.schema(node.left, path, depth)}, ${this.schema(node.right, path, depth)}])`;
+      case 'optional':
+        return `v.optional(${this.schema(node.inner, path, depth)})`;
+      case 'nullable':
+        return `v.nullable(${this.schema(node.inner, path, depth)})`;
+      case 'default':
+        return `v.optional(${this.schema(node.inner, path, depth)}, ${literal(node.value)})`;
+      default:
+        return `v.${node.kind}()`;
+    }
+  }
+
+  private string(node: StringNode, path: string): string {
+    const actions: string[] = [];
+
+    if (node.format) {
+      if (VALIBOT_FORMATS[node.format]) {
+        actions.push(VALIBOT_FORMATS[node.format]);
+      } else if (node.formatPattern) {
+        actions.push(`v.regex(${regex(node.formatPattern)})`);
+      } else {
+        this.unsupported(path, `format "${node.format}"`);
+      }
+    }
+    for (const pattern of node.patterns || []) {
+      actions.push(`v.regex(${regex(pattern)})`);
+    }
+    if (node.length !== undefined) {
+      actions.push(`v.length(${node.length})`);
+    }
+    if (node.minLength !== undefined) {
+      actions.push(`v.minLength(${node.minLength})`);
+    }
+    if (node.maxLength !== undefined) {
+      actions.push(`v.maxLength(${node.maxLength})`);
+    }
+    if (node.coerce) {
+      this.unsupported(path, 'coercion');
+    }
+
+    return pipe('v.string()', actions);
+  }
+
+  private number(node: NumberNode, path: string): string {
+    if (node.coerce) {
+      this.unsupported(path, 'coercion');
+    }
+
+    return pipe('v.number()', [
+      ...(node.integer ? ['v.integer()'] : []),
+      ...(node.minimum !== undefined ? [`v.minValue(${node.minimum})`] : []),
+      ...(node.exclusiveMinimum !== undefined ? [`v.gtValue(${node.exclusiveMinimum})`] : []),
+      ...(node.maximum !== undefined ? [`v.maxValue(${node.maximum})`] : []),
+      ...(node.exclusiveMaximum !== undefined ? [`v.ltValue(${node.exclusiveMaximum})`] : []),
+      ...(node.multipleOf !== undefined ? [`v.multipleOf(${node.multipleOf})`] : []),
+    ]);
+  }
+
+  private object(node: ObjectNode, path: string, depth: number): string {
+    const shape = block(
+      node.properties.map(
+        ({ name, schema }) => `${formatKey(name)}: ${this.schema(schema, propertyPath(path, name), depth + 1)}`
+      ),
+      depth
+    );
+
+    if (node.catchall) {
+      return `v.objectWithRest(${shape}, ${this.schema(node.catchall, `${path}.*`, depth)})`;
+    }
+
+    const method = { strip: 'object', strict: 'strictObject', passthrough: 'looseObject' }[node.unknownKeys];
+    return `v.${method}(${shape})`;
+  }
+}
+
+/**
+ * Yup (v1). Required fields use .defined() since .required() also rejects empty strings.
+ */
+class YupEmitter extends TargetEmitter {
+  protected readonly label = 'Yup';
+
+  module(root: SchemaNode, name: string): string {
+    this.warnings.push(
+      '(root): Yup casts values before validating ("5" becomes 5); call validate(value, { strict: true }) to reject them like Zod does'
+    );
+
+    return [
+      `import * as yup from 'yup';`,
+      '',
+      `export const ${name}Schema = ${this.schema(root, '', 0)};`,
+      '',
+      `export type ${name} = yup.InferType<typeof ${name}Schema>;`,
+      '',
+    ].join('\n');
+  }
+
+  private schema(node: SchemaNode, path: string, depth: number): string {
+    let optional = false;
+    let nullable = false;
+    let defaultValue: { value: unknown } | undefined;
+
+    // Yup expresses these as methods on the inner schema
+    while (node.kind === 'optional' || node.kind === 'nullable' || node.kind === 'default') {
+      if (node.kind === 'optional') {
+        optional = true;
+      } else if (node.kind === 'nullable') {
+        nullable = true;
+      } else {
+        defaultValue = defaultValue || { value: node.value };
+      }
+      node = node.inner;
+    }
+
+    let schema = this.base(node, path, depth);
+    if (nullable) {
+      schema += '.nullable()';
+    }
+    if (defaultValue) {
+      schema += `.default(${literal(defaultValue.value)})`;
+    } else if (!optional && !['any', 'unknown', 'undefined', 'never'].includes(node.kind)) {
+      schema += '.defined()';
+    }
+
+    return schema;
+  }
+
+  private base(node: SchemaNode, path: string, depth: number): string {
+    switch (node.kind) {
+      case 'string':
+        return this.string(node, path);
+      case 'number':
+        return this.number(node);
+      case 'boolean':
+        return 'yup.boolean()';
+      case 'date':
+        return 'yup.date()';
+      case 'literal':
+      case 'enum':
+        return oneOf(node.values);
+      case 'array':
+        return `yup.array(${this.schema(node.element, `${path}[]`, depth)})${lengthMethods(
+          node.length,
+          node.minItems,
+          node.maxItems
+        )}`;
+      case 'tuple':
+        if (node.rest) {
+          this.unsupported(path, 'tuple rest items');
+        }
+        return `yup.tuple([${node.items.map((item, index) => this.schema(item, `${path}[${index}]`, depth)).join(', ')}])`;
+      case 'object': {
+        if (node.catchall) {
+          this.unsupported(path, 'catchall');
+        }
+        const shape = block(
+          node.properties.map(
+            ({ name, schema }) => `${formatKey(name)}: ${this.schema(schema, propertyPath(path, name), depth + 1)}`
+          ),
+          depth
+        );
+        return `yup.object(${shape})${node.unknownKeys === 'strict' ? '.noUnknown()' : ''}`;
+      }
+      case 'union':
+        // Unions of literals are the one union Yup can express
+        if (node.options.every((option) => option.kind === 'literal')) {
+          return oneOf(node.options.flatMap((option) => (option.kind === 'literal' ? option.values : [])));
+        }
+        this.unsupported(path, 'union');
+        return 'yup.mixed()';
+      case 'null':
+        return 'yup.mixed().oneOf([null]).nullable()';
+      case 'any':
+      case 'unknown':
+        return 'yup.mixed()';
+      default:
+        this.unsupported(path, node.kind === 'record' ? 'record value validation' : node.kind);
+        return node.kind === 'record' ? 'yup.object()' : 'yup.mixed()';
+    }
+  }
+
+  private string(node: StringNode, path: string): string {
+    let schema = 'yup.string()';
+
+    if (node.format) {
+      if (['email', 'url', 'uuid', 'datetime'].includes(node.format)) {
+        schema += `.${node.format}()`;
+      } else if (node.formatPattern) {
+        schema += `.matches(${regex(node.formatPattern)})`;
+      } else {
+        this.unsupported(path, `format "${node.format}"`);
+      }
+    }
+    for (const pattern of node.patterns || []) {
+      schema += `.matches(${regex(pattern)})`;
+    }
+
+    return schema + lengthMethods(node.length, node.minLength, node.maxLength);
+  }
+
+  private number(node: NumberNode): string {
+    let schema = 'yup.number()';
+
+    if (node.integer) {
+      schema += '.integer()';
+    }
+    if (node.minimum !== undefined) {
+      schema += `.min(${node.minimum})`;
+    }
+    if (node.exclusiveMinimum !== undefined) {
+      schema += `.moreThan(${node.exclusiveMinimum})`;
+    }
+    if (node.maximum !== undefined) {
+      schema += `.max(${node.maximum})`;
+    }
+    if (node.exclusiveMaximum !== undefined) {
+      schema += `.lessThan(${node.exclusiveMaximum})`;
+    }
+    if (node.multipleOf !== undefined) {
+      schema += `.test('multiple-of', 'must be a multiple of ${node.multipleOf}', (value) => value == null || value % ${node.multipleOf} === 0)`;
+    }
+
+    return schema;
+  }
+}
+
+/**
+ * ArkType (v2). Definitions stay in string syntax as long as possible; objects and
+ * anything containing them are definition objects or Type chains.
+ */
+type ArkDefinition = { syntax: string } | { code: string };
+
+const ARKTYPE_FORMATS: Record<string, string> = {
+  email: 'string.email',
+  url: 'string.url',
+  uuid: 'string.uuid',
+  ipv4: 'string.ip.v4',
+  ipv6: 'string.ip.v6',
+};
+
+class ArkTypeEmitter extends TargetEmitter {
+  protected readonly label = 'ArkType';
+
+  module(root: SchemaNode, name: string): string {
+    return [
+      `import { type } from 'arktype';`,
+      '',
+      `export const ${name}Schema = type(${arkCode(this.definition(root, '', 0))});`,
+      '',
+      `export type ${name} = typeof ${name}Schema.infer;`,
+      '',
+    ].join('\n');
+  }
+
+  private definition(node: SchemaNode, path: string, depth: number): ArkDefinition {
+    switch (node.kind) {
+      case 'string':
+        return { syntax: this.string(node, path) };
+      case 'number':
+        return { syntax: this.number(node, path) };
+      case 'boolean':
+      case 'bigint':
+      case 'date':
+        if (node.coerce) {
+          this.unsupported(path, 'coercion');
+        }
+        return { syntax: node.kind === 'date' ? 'Date' : node.kind };
+      case 'literal':
+      case 'enum':
+        return { syntax: node.values.map(arkLiteral).join(' | ') };
+      case 'array':
+        return this.array(node, path, depth);
+      case 'tuple': {
+        const items = node.items.map((item, index) => arkCode(this.definition(item, `${path}[${index}]`, depth)));
+        if (node.rest) {
+          const rest = this.definition(node.rest, `${path}[]`, depth);
+          items.push(`'...'`, 'syntax' in rest ? arkCode({ syntax: `${group(rest.syntax)}[]` }) : `type(${rest.code}).array()`);
+        }
+        return { code: `[${items.join(', ')}]` };
+      }
+      case 'object':
+        return { code: this.object(node, path, depth) };
+      case 'record': {
+        if (node.key.kind !== 'string') {
+          this.unsupported(path, 'non-string record keys');
+        }
+        return { code: block([`"[string]": ${arkCode(this.definition(node.value, `${path}.*`, depth + 1))}`], depth) };
+      }
+      case 'union':
+        return this.combine(node.options.map((option) => this.definition(option, path, depth)), '|', 'or');
+      case 'intersection':
+        return this.combine([this.definition(node.left, path, depth), this.definition(node.right, path, depth)], '&', 'and');
+      case 'optional':
+        return this.combine([this.definition(node.inner, path, depth), { syntax: 'undefined' }], '|', 'or');
+      case 'nullable':
+        return this.combine([this.definition(node.inner, path, depth), { syntax: 'null' }], '|', 'or');
+      case 'default':
+        // Defaults only exist on object properties (handled there)
+        this.unsupported(path, 'default value outside an object property');
+        return this.definition(node.inner, path, depth);
+      case 'any':
+        return { syntax: 'unknown' };
+      default:
+        return { syntax: node.kind };
+    }
+  }
+
+  private string(node: StringNode, path: string): string {
+    const patterns = [...(node.patterns || [])];
+    let keyword = 'string';
+
+    if (node.format) {
+      if (ARKTYPE_FORMATS[node.format]) {
+        keyword = ARKTYPE_FORMATS[node.format];
+      } else if (node.formatPattern) {
+        patterns.unshift(node.formatPattern);
+      } else {
+        this.unsupported(path, `format "${node.format}"`);
+      }
+    }
+    if (node.coerce) {
+      this.unsupported(path, 'coercion');
+    }
+
+    const bounded =
+      node.length !== undefined
+        ? `${keyword} == ${node.length}`
+        : bounds(keyword, node.minLength, false, node.maxLength, false);
+
+    if (patterns.length === 0) {
+      return bounded;
+    }
+
+    // A regex literal already implies a string
+    return [...(bounded === 'string' ? [] : [group(bounded)]), ...patterns.map(regex)].join(' & ');
+  }
+
+  private number(node: NumberNode, path: string): string {
+    if (node.coerce) {
+      this.unsupported(path, 'coercion');
+    }
+
+    const keyword = node.integer ? 'number.integer' : 'number';
+    const bounded = bounds(
+      keyword,
+      node.minimum ?? node.exclusiveMinimum,
+      node.minimum === undefined && node.exclusiveMinimum !== undefined,
+      node.maximum ?? node.exclusiveMaximum,
+      node.maximum === undefined && node.exclusiveMaximum !== undefined
+    );
+
+    if (node.multipleOf === undefined) {
+      return bounded;
+    }
+    return bounded === keyword ? `${keyword} % ${node.multipleOf}` : `${group(bounded)} & number % ${node.multipleOf}`;
+  }
+
+  private array(node: ArrayNode, path: string, depth: number): ArkDefinition {
+    const element = this.definition(node.element, `${path}[]`, depth);
+
+    if ('syntax' in element) {
+      const array = `${group(element.syntax)}[]`;
+      return {
+        syntax:
+          node.length !== undefined
+            ? `${array} == ${node.length}`
+            : bounds(array, node.minItems, false, node.maxItems, false),
+      };
+    }
+
+    let code = `type(${element.code}).array()`;
+    if (node.length !== undefined) {
+      code += `.exactlyLength(${node.length})`;
+    }
+    if (node.minItems !== undefined) {
+      code += `.atLeastLength(${node.minItems})`;
+    }
+    if (node.maxItems !== undefined) {
+      code += `.atMostLength(${node.maxItems})`;
+    }
+    return { code };
+  }
+
+  private object(node: ObjectNode, path: string, depth: number): string {
+    const entries: string[] = node.unknownKeys === 'strict' ? [`"+": 'reject'`] : [];
+
+    for (const { name, schema } of node.properties) {
+      const childPath = propertyPath(path, name);
+
+      if (schema.kind === 'optional') {
+        entries.push(`${formatKey(`${name}?`)}: ${arkCode(this.definition(schema.inner, childPath, depth + 1))}`);
+      } else if (schema.kind === 'default') {
+        const inner = this.definition(schema.inner, childPath, depth + 1);
+        const value = isPrimitive(schema.value)
+          ? 'syntax' in inner
+            ? arkCode({ syntax: `${inner.syntax} = ${arkLiteral(schema.value)}` })
+            : `[${inner.code}, '=', ${literal(schema.value)}]`
+          : `[${arkCode(inner)}, '=', () => (${JSON.stringify(schema.value)})]`;
+        entries.push(`${formatKey(name)}: ${value}`);
+      } else {
+        entries.push(`${formatKey(name)}: ${arkCode(this.definition(schema, childPath, depth + 1))}`);
+      }
+    }
+
+    if (node.catchall) {
+      entries.push(`"[string]": ${arkCode(this.definition(node.catchall, `${path}.*`, depth + 1))}`);
+    }
+
+    return block(entries, depth);
+  }
+
+  /**
+   * Join definitions with | or & (string syntax), or chain .or()/.and() once one of them is not a string
+   */
+  private combine(definitions: ArkDefinition[], operator: '|' | '&', method: 'or' | 'and'): ArkDefinition {
+    if (definitions.every((definition) => 'syntax' in definition)) {
+      return {
+        syntax: definitions
+          .map((definition) => ('syntax' in definition ? definition.syntax : ''))
+          .map((syntax) => (operator === '&' ? group(syntax) : syntax))
+          .join(` ${operator} `),
+      };
+    }
+
+    const [first, ...rest] = definitions;
+    return { code: rest.reduce((chain, definition) => `${chain}.${method}(${arkCode(definition)})`, `type(${arkCode(first)})`) };
+  }
+}
+
+/**
+ * io-ts (2.x codecs)
+ */
+class IoTsEmitter extends TargetEmitter {
+  protected readonly label = 'io-ts';
+
+  module(root: SchemaNode, name: string): string {
+    return [
+      `import * as t from 'io-ts';`,
+      '',
+      `export const ${name}Schema = ${this.codec(root, '', 0)};`,
+      '',
+      `export type ${name} = t.TypeOf<typeof ${name}Schema>;`,
+      '',
+    ].join('\n');
+  }
+
+  private codec(node: SchemaNode, path: string, depth: number): string {
+    switch (node.kind) {
+      case 'string':
+        this.unsupportedAll(path, stringConstraints(node));
+        return 't.string';
+      case 'number':
+        this.unsupportedAll(path, numberConstraints(node).filter((constraint) => constraint !== 'integer'));
+        return node.integer ? 't.Int' : 't.number';
+      case 'boolean':
+      case 'bigint':
+        if (node.coerce) {
+          this.unsupported(path, 'coercion');
+        }
+        return `t.${node.kind}`;
+      case 'date':
+        this.unsupported(path, 'Date (use DateFromISOString from io-ts-types)');
+        return 't.unknown';
+      case 'literal':
+      case 'enum': {
+        if (node.kind === 'enum' && node.values.every((value) => typeof value === 'string')) {
+          return `t.keyof(${inlineBlock(node.values.map((value) => `${formatKey(String(value))}: null`))})`;
+        }
+        const options = node.values.map((value) => (value === null ? 't.null' : `t.literal(${literal(value)})`));
+        return options.length === 1 ? options[0] : `t.union([${options.join(', ')}])`;
+      }
+      case 'array':
+        this.unsupportedAll(path, arrayConstraints(node));
+        return `t.array(${this.codec(node.element, `${path}[]`, depth)})`;
+      case 'tuple':
+        if (node.rest) {
+          this.unsupported(path, 'tuple rest items');
+        }
+        return `t.tuple([${node.items.map((item, index) => this.codec(item, `${path}[${index}]`, depth)).join(', ')}])`;
+      case 'object':
+        return this.object(node, path, depth);
+      case 'record': {
+        let key = 't.string';
+        if (node.key.kind === 'enum' || node.key.kind === 'literal') {
+          key = this.codec(node.key, path, depth);
+        } else if (node.key.kind !== 'string') {
+          this.unsupported(path, 'non-string record keys');
+        }
+        return `t.record(${key}, ${this.codec(node.value, `${path}.*`, depth)})`;
+      }
+      case 'union':
+        return node.options.length === 1
+          ? this.codec(node.options[0], path, depth)
+          : `t.union([${node.options.map((option) => this.codec(option, path, depth)).join(', ')}])`;
+      case 'intersection':
+        return `t.intersection([${this.codec(node.left, path, depth)}, ${this.codec(node.right, path, depth)}])`;
+      case 'optional':
+        return `t.union([${this.codec(node.inner, path, depth)}, t.undefined])`;
+      case 'nullable':
+        return `t.union([${this.codec(node.inner, path, depth)}, t.null])`;
+      case 'default':
+        this.unsupported(path, 'default value');
+        return this.codec(node.inner, path, depth);
+      case 'any':
+        return 't.unknown';
+      default:
+        return `t.${node.kind}`;
+    }
+  }
+
+  /**
+   * Required properties go into t.type, optional ones into t.partial
+   */
+  private object(node: ObjectNode, path: string, depth: number): string {
+    const required: string[] = [];
+    const optional: string[] = [];
+
+    for (const { name, schema } of node.properties) {
+      const childPath = propertyPath(path, name);
+
+      if (schema.kind === 'optional' || schema.kind === 'default') {
+        if (schema.kind === 'default') {
+          this.unsupported(childPath, 'default value');
+        }
+        optional.push(`${formatKey(name)}: ${this.codec(schema.inner, childPath, depth + 1)}`);
+      } else {
+        required.push(`${formatKey(name)}: ${this.codec(schema, childPath, depth + 1)}`);
+      }
+    }
+
+    let codec =
+      optional.length === 0
+        ? `t.type(${block(required, depth)})`
+        : required.length === 0
+          ? `t.partial(${block(optional, depth)})`
+          : `t.intersection([t.type(${block(required, depth)}), t.partial(${block(optional, depth)})])`;
+
+    if (node.catchall) {
+      this.unsupported(path, 'catchall');
+    } else if (node.unknownKeys !== 'passthrough') {
+      // t.exact strips unknown keys like Zod's default object
+      codec = `t.exact(${codec})`;
+      if (node.unknownKeys === 'strict') {
+        this.unsupported(path, 'rejecting unknown keys (t.exact strips them)');
+      }
+    }
+
+    return codec;
+  }
+}
+
+function stringConstraints(node: StringNode): string[] {
+  return [
+    ...(node.format ? [`format "${node.format}"`] : []),
+    ...(node.patterns || []).map((pattern) => `pattern ${regex(pattern)}`),
+    ...(node.length !== undefined ? [`length ${node.length}`] : []),
+    ...(node.minLength !== undefined ? [`minLength ${node.minLength}`] : []),
+    ...(node.maxLength !== undefined ? [`maxLength ${node.maxLength}`] : []),
+    ...(node.coerce ? ['coercion'] : []),
+  ];
+}
+
+function numberConstraints(node: NumberNode): string[] {
+  return [
+    ...(node.integer ? ['integer'] : []),
+    ...(node.minimum !== undefined ? [`minimum ${node.minimum}`] : []),
+    ...(node.exclusiveMinimum !== undefined ? [`exclusive minimum ${node.exclusiveMinimum}`] : []),
+    ...(node.maximum !== undefined ? [`maximum ${node.maximum}`] : []),
+    ...(node.exclusiveMaximum !== undefined ? [`exclusive maximum ${node.exclusiveMaximum}`] : []),
+    ...(node.multipleOf !== undefined ? [`multipleOf ${node.multipleOf}`] : []),
+    ...(node.coerce ? ['coercion'] : []),
+  ];
+}
+
+function arrayConstraints(node: ArrayNode): string[] {
+  return [
+    ...(node.length !== undefined ? [`length ${node.length}`] : []),
+    ...(node.minItems !== undefined ? [`minItems ${node.minItems}`] : []),
+    ...(node.maxItems !== undefined ? [`maxItems ${node.maxItems}`] : []),
+  ];
+}
+
+function propertyPath(path: string, name: string): string {
+  return path ? `${path}.${name}` : name;
+}
+
+/**
+ * Multi-line object literal; entries are indented one level deeper than `depth`
+ */
+function block(entries: string[], depth: number, separator = ','): string {
+  if (entries.length === 0) {
+    return '{}';
+  }
+
+  const indent = '  '.repeat(depth + 1);
+  return `{\n${entries.map((entry) => `${indent}${entry}${separator}`).join('\n')}\n${'  '.repeat(depth)}}`;
+}
+
+function inlineBlock(entries: string[]): string {
+  return entries.length === 0 ? '{}' : `{ ${entries.join(', ')} }`;
+}
+
+/**
+ * Wrap a type expression in parentheses when it contains operators
+ */
+function group(expression: string): string {
+  let depth = 0;
+  let quoted: string | null = null;
+
+  for (let i = 0; i < expression.length; i++) {
+    const char = expression[i];
+    if (quoted) {
+      if (char === '\\') {
+        i++;
+      } else if (char === quoted) {
+        quoted = null;
+      }
+    } else if (char === "'" || char === '"') {
+      quoted = char;
+    } else if ('([{<'.includes(char)) {
+      depth++;
+    } else if (')]}>'.includes(char)) {
+      depth--;
+    } else if (depth === 0 && ' |&'.includes(char)) {
+      return `(${expression})`;
+    }
+  }
+
+  return expression;
+}
+
+function pipe(schema: string, actions: string[]): string {
+  return actions.length === 0 ? schema : `v.pipe(${[schema, ...actions].join(', ')})`;
+}
+
+function regex(pattern: RegexSource): string {
+  return `/${pattern.source}/${pattern.flags}`;
+}
+
+function literal(value: unknown): string {
+  return typeof value === 'string' ? quote(value) : JSON.stringify(value) ?? 'undefined';
+}
+
+function isPrimitive(value: unknown): value is string | number | boolean | null {
+  return value === null || ['string', 'number', 'boolean'].includes(typeof value);
+}
+
+function oneOf(values: unknown[]): string {
+  const types = new Set(values.filter((value) => value !== null).map((value) => typeof value));
+  const base =
+    types.size === 1 && ['string', 'number', 'boolean'].includes([...types][0])
+      ? `yup.${[...types][0]}()`
+      : 'yup.mixed()';
+
+  return `${base}.oneOf([${values.map(literal).join(', ')}])${values.includes(null) ? '.nullable()' : ''}`;
+}
+
+function lengthMethods(length?: number, min?: number, max?: number): string {
+  return [
+    length !== undefined ? `.length(${length})` : '',
+    min !== undefined ? `.min(${min})` : '',
+    max !== undefined ? `.max(${max})` : '',
+  ].join('');
+}
+
+/**
+ * ArkType range syntax ("1 <= string <= 100", "number > 0")
+ */
+function bounds(
+  base: string,
+  min: number | undefined,
+  minExclusive: boolean,
+  max: number | undefined,
+  maxExclusive: boolean
+): string {
+  const lower = minExclusive ? '<' : '<=';
+  const upper = maxExclusive ? '<' : '<=';
+
+  if (min !== undefined && max !== undefined) {
+    return `${min} ${lower} ${base} ${upper} ${max}`;
+  }
+  if (min !== undefined) {
+    return `${base} ${minExclusive ? '>' : '>='} ${min}`;
+  }
+  if (max !== undefined) {
+    return `${base} ${upper} ${max}`;
+  }
+  return base;
+}
+
+function arkLiteral(value: unknown): string {
+  return typeof value === 'string' ? quote(value) : String(value);
+}
+
+/**
+ * String syntax is double-quoted when it contains string literals ("'admin' | 'user'")
+ */
+function arkCode(definition: ArkDefinition): string {
+  if (!('syntax' in definition)) {
+    return definition.code;
+  }
+  return definition.syntax.includes("'") && !definition.syntax.includes('"')
+    ? JSON.stringify(definition.syntax)
+    : quote(definition.syntax);
+}
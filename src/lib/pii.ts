@@ -0,0 +1,350 @@
+// PII detection and format-preserving redaction of samples (runs before samples reach AI providers)
+import type { PiiFinding, PiiPolicy, PiiReport, PiiType } from '../types/index.js';
+
+/**
+ * Samples rejected because they contain PII and the policy is "block"
+ */
+export class PiiBlockedError extends Error {
+  constructor(public readonly report: PiiReport) {
+    const types = Array.from(new Set(report.findings.map((finding) => finding.type)));
+    super(`Samples contain PII (${types.join(', ')}) and the PII policy is "block"`);
+    this.name = 'PiiBlockedError';
+  }
+}
+
+const MAX_REDACTION_DEPTH = 32;
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/;
+const EMBEDDED_EMAIL_REGEX = /[^\s@<>()"',;:]+@[^\s@<>()"',;:]+\.[A-Za-z]{2,}/g;
+const IBAN_REGEX = /^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/;
+const CARD_REGEX = /^\d[\d -]{11,22}\d$/;
+const SSN_REGEX = /^\d{3}-\d{2}-\d{4}$/;
+const PHONE_CHARS_REGEX = /^\+?[\d\s().-]+$/;
+const NATIONAL_ID_CHARS_REGEX = /^[A-Za-z0-9 .-]{6,20}$/;
+const STREET_ADDRESS_REGEX =
+  /^\d+[A-Za-z]?\s+([\p{L}.'-]+\s+)*(street|st|avenue|ave|road|rd|lane|ln|boulevard|blvd|drive|dr|court|ct|way|place|pl)\b\.?/iu;
+const EUROPEAN_ADDRESS_REGEX = /^[\p{L}.' -]+(straat|laan|weg|plein|gracht|kade|strasse|straße|gasse)\s+\d+/iu;
+
+/**
+ * Field name hints (matched against the words of a key: "homePhone" → ["home", "phone"])
+ */
+const PHONE_KEY_WORDS = ['phone', 'mobile', 'tel', 'telephone', 'fax', 'cell', 'msisdn'];
+const NATIONAL_ID_KEY_WORDS = ['ssn', 'bsn', 'nino', 'passport', 'nationalid', 'socialsecurity', 'taxid', 'personalid'];
+const ADDRESS_KEY_WORDS = ['address', 'street', 'addressline'];
+const NON_POSTAL_ADDRESS_WORDS = ['ip', 'mac', 'email', 'wallet', 'web', 'url'];
+
+interface RedactionState {
+  placeholders: Map<string, string | number>;
+  counters: Partial<Record<PiiType, number>>;
+  findings: Map<string, PiiFinding>;
+  valuesRedacted: number;
+}
+
+/**
+ * Apply a PII policy to samples.
+ *
+ * - `redact`: PII values are replaced with placeholders of the same shape (emails stay
+ *   emails, IBANs keep a valid checksum, card numbers pass Luhn) so pattern detection still works
+ * - `block`: throws PiiBlockedError when any PII is found
+ * - `allow`: samples are returned unchanged; findings are still reported
+ */
+export function applyPiiPolicy(
+  samples: any[],
+  policy: PiiPolicy
+): { samples: any[]; report: PiiReport } {
+  const { samples: redacted, findings, valuesRedacted } = redactSamples(samples);
+
+  if (policy === 'block' && findings.length > 0) {
+    throw new PiiBlockedError({ policy, redacted: false, valuesRedacted: 0, findings });
+  }
+
+  if (policy === 'redact' && findings.length > 0) {
+    return { samples: redacted, report: { policy, redacted: true, valuesRedacted, findings } };
+  }
+
+  return { samples, report: { policy, redacted: false, valuesRedacted: 0, findings } };
+}
+
+/**
+ * Detect PII in samples and return a redacted copy (the input is not modified).
+ * Equal values get equal placeholders, so distinct counts and enums survive.
+ */
+export function redactSamples(samples: any[]): {
+  samples: any[];
+  findings: PiiFinding[];
+  valuesRedacted: number;
+} {
+  const state: RedactionState = {
+    placeholders: new Map(),
+    counters: {},
+    findings: new Map(),
+    valuesRedacted: 0,
+  };
+
+  const redacted = samples.map((sample) => redactValue(sample, '', '', 0, state));
+
+  return {
+    samples: redacted,
+    findings: Array.from(state.findings.values()),
+    valuesRedacted: state.valuesRedacted,
+  };
+}
+
+function redactValue(value: any, key: string, path: string, depth: number, state: RedactionState): any {
+  if (depth > MAX_REDACTION_DEPTH) {
+    return value;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, key, `${path}[]`, depth + 1, state));
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([childKey, child]) => [
+        childKey,
+        redactValue(child, childKey, path ? `${path}.${childKey}` : childKey, depth + 1, state),
+      ])
+    );
+  }
+
+  if (typeof value === 'string') {
+    return redactString(value, key, path || '$', state);
+  }
+
+  if (typeof value === 'number' && Number.isInteger(value) && value >= 0) {
+    const type = classifyNumber(value, keyWords(key));
+    if (type) {
+      return placeholder(type, value, path || '$', state);
+    }
+  }
+
+  return value;
+}
+
+function redactString(value: string, key: string, path: string, state: RedactionState): string {
+  const type = classifyString(value.trim(), keyWords(key));
+  if (type) {
+    return placeholder(type, value, path, state) as string;
+  }
+
+  // Emails inside free text
+  return value.replace(EMBEDDED_EMAIL_REGEX, (match) =>
+    EMAIL_REGEX.test(match) ? (placeholder('email', match, path, state) as string) : match
+  );
+}
+
+/**
+ * Classify a string value (value patterns first, then field name hints)
+ */
+function classifyString(value: string, words: string[]): PiiType | null {
+  if (value.length === 0) {
+    return null;
+  }
+
+  if (EMAIL_REGEX.test(value)) {
+    return 'email';
+  }
+
+  const compact = value.replace(/[\s-]/g, '');
+  if (IBAN_REGEX.test(compact.toUpperCase()) && isValidIban(compact.toUpperCase())) {
+    return 'iban';
+  }
+  if (CARD_REGEX.test(value) && compact.length >= 13 && compact.length <= 19 && isLuhnValid(compact)) {
+    return 'credit_card';
+  }
+  if (SSN_REGEX.test(value)) {
+    return 'national_id';
+  }
+  if (STREET_ADDRESS_REGEX.test(value) || EUROPEAN_ADDRESS_REGEX.test(value)) {
+    return 'address';
+  }
+
+  if (isPhoneNumber(value, hasWord(words, PHONE_KEY_WORDS))) {
+    return 'phone';
+  }
+  if (hasWord(words, NATIONAL_ID_KEY_WORDS) && NATIONAL_ID_CHARS_REGEX.test(value) && /\d/.test(value)) {
+    return 'national_id';
+  }
+  if (
+    hasWord(words, ADDRESS_KEY_WORDS) &&
+    !hasWord(words, NON_POSTAL_ADDRESS_WORDS) &&
+    /\p{L}/u.test(value)
+  ) {
+    return 'address';
+  }
+
+  return null;
+}
+
+/**
+ * Numbers are only PII when the field name says so (phone numbers, national IDs)
+ */
+function classifyNumber(value: number, words: string[]): PiiType | null {
+  const digits = String(value).length;
+  if (hasWord(words, PHONE_KEY_WORDS) && digits >= 6 && digits <= 15) {
+    return 'phone';
+  }
+  if (hasWord(words, NATIONAL_ID_KEY_WORDS) && digits >= 6 && digits <= 20) {
+    return 'national_id';
+  }
+  return null;
+}
+
+function isPhoneNumber(value: string, keyHint: boolean): boolean {
+  if (!PHONE_CHARS_REGEX.test(value)) {
+    return false;
+  }
+
+  const digits = value.replace(/\D/g, '').length;
+  if (keyHint) {
+    return digits >= 6 && digits <= 15;
+  }
+
+  // Without a field name hint only unambiguous notations count (not dates, IPs or decimals)
+  return (
+    digits >= 8 &&
+    digits <= 15 &&
+    (value.startsWith('+') || /[()]/.test(value) || /^\d{2,4}[ -]\d{2,4}([ -]\d{2,4}){1,3}$/.test(value)) &&
+    !/^\d{4}-\d{2}-\d{2}$/.test(value)
+  );
+}
+
+/**
+ * Replace a value with its placeholder and record the finding
+ */
+function placeholder(
+  type: PiiType,
+  value: string | number,
+  path: string,
+  state: RedactionState
+): string | number {
+  const findingKey = `${path}\u0000${type}`;
+  const finding = state.findings.get(findingKey);
+  if (finding) {
+    finding.count++;
+  } else {
+    state.findings.set(findingKey, { field: path, type, count: 1 });
+  }
+  state.valuesRedacted++;
+
+  const cacheKey = `${type}\u0000${typeof value}\u0000${value}`;
+  const cached = state.placeholders.get(cacheKey);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const index = (state.counters[type] = (state.counters[type] || 0) + 1);
+  const masked = typeof value === 'number' ? maskNumber(value, index) : maskString(type, value, index);
+  state.placeholders.set(cacheKey, masked);
+  return masked;
+}
+
+function maskString(type: PiiType, value: string, index: number): string {
+  switch (type) {
+    case 'email':
+      return `user${index}@example.com`;
+    case 'credit_card':
+      return maskCardNumber(value, index);
+    case 'iban':
+      return maskIban(value, index);
+    case 'phone':
+      return fillDigits(value, index);
+    case 'national_id':
+    case 'address':
+      return fillDigits(value, index).replace(/\p{Lu}/gu, 'X').replace(/\p{Ll}/gu, 'x');
+  }
+}
+
+function maskNumber(value: number, index: number): number {
+  const digits = fillDigits(String(value), index);
+  return Number(digits.startsWith('0') ? `9${digits.slice(1)}` : digits);
+}
+
+/**
+ * Replace every digit with the (zero-padded) placeholder index, keeping separators in place
+ */
+function fillDigits(value: string, index: number): string {
+  const count = value.replace(/\D/g, '').length;
+  const digits = String(index).padStart(count, '0').slice(-count);
+  let position = 0;
+  return value.replace(/\d/g, () => digits[position++]);
+}
+
+/**
+ * Card placeholder: same length and grouping, same first digit (card network), valid Luhn checksum
+ */
+function maskCardNumber(value: string, index: number): string {
+  const length = value.replace(/\D/g, '').length;
+  const body = value.replace(/\D/g, '')[0] + String(index).padStart(length - 2, '0').slice(-(length - 2));
+  const digits = body + luhnCheckDigit(body);
+  let position = 0;
+  return value.replace(/\d/g, () => digits[position++]);
+}
+
+/**
+ * IBAN placeholder: same country, length and bank letters, recomputed check digits
+ */
+function maskIban(value: string, index: number): string {
+  const compact = value.replace(/[\s-]/g, '').toUpperCase();
+  const bban = fillDigits(compact.slice(4), index);
+  const country = compact.slice(0, 2);
+  const check = String(98 - mod97(`${bban}${country}00`)).padStart(2, '0');
+  const iban = `${country}${check}${bban}`;
+
+  // Keep the original grouping (e.g. "NL91 ABNA 0417 1643 00")
+  let position = 0;
+  return value.replace(/[A-Za-z0-9]/g, () => iban[position++]);
+}
+
+function isValidIban(iban: string): boolean {
+  return mod97(`${iban.slice(4)}${iban.slice(0, 4)}`) === 1;
+}
+
+function mod97(value: string): number {
+  let remainder = 0;
+  for (const char of value) {
+    const code = /[A-Z]/.test(char) ? String(char.charCodeAt(0) - 55) : char;
+    for (const digit of code) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder;
+}
+
+function isLuhnValid(digits: string): boolean {
+  return luhnCheckDigit(digits.slice(0, -1)) === digits[digits.length - 1];
+}
+
+function luhnCheckDigit(body: string): string {
+  let sum = 0;
+  for (let i = 0; i < body.length; i++) {
+    let digit = Number(body[body.length - 1 - i]);
+    if (i % 2 === 0) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return String((10 - (sum % 10)) % 10);
+}
+
+/**
+ * Split a key into lowercase words ("homePhone" → ["home", "phone"])
+ */
+function keyWords(key: string): string[] {
+  return key
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Match whole words, or longer candidates inside the joined key ("socialSecurityNumber")
+ */
+function hasWord(words: string[], candidates: string[]): boolean {
+  const joined = words.join('');
+  return words.some((word) => candidates.includes(word)) ||
+    candidates.some((candidate) => candidate.length >= 5 && joined.includes(candidate));
+}
@@ -0,0 +1,303 @@
+// Customer refinement policies: rule packs, prompt guidance and enforcement on provider results
+import ts from 'typescript';
+import { securityAuditor } from './security.js';
+import { normalizeZodCode, parseSchemaCode, splitFieldPath } from './schema-patcher.js';
+import { createPolicyStore, type PolicyStore } from './policy-store.js';
+import type {
+  PolicyRule,
+  PolicyViolation,
+  RefinementPolicy,
+  SchemaImprovement,
+} from '../types/index.js';
+
+/**
+ * Built-in rule packs customers can enable by name
+ */
+export const RULE_PACKS: Record<string, { description: string; rules: PolicyRule[] }> = {
+  'strict-contracts': {
+    description: 'Closed object schemas without transforms',
+    rules: [{ type: 'strict-objects' }, { type: 'no-transforms' }],
+  },
+  'uuid-ids': {
+    description: 'Identifier fields are UUID strings',
+    rules: [{ type: 'field-type', fields: ['id', '*Id', '*_id'], zodType: 'z.string().uuid()' }],
+  },
+  'coerced-dates': {
+    description: 'Dates are coerced to Date objects',
+    rules: [{ type: 'date-type', zodType: 'z.coerce.date()' }],
+  },
+};
+
+/**
+ * Policies are re-read from the store after this long (saves go through immediately)
+ */
+export const POLICY_CACHE_TTL_MS = 60 * 1000;
+
+const TRANSFORM_PATTERN = /\.transform\(|\.preprocess\(|\.pipe\(/;
+const DATE_PATTERN = /\.(date|datetime)\(/;
+const MODIFIER_SUFFIX = /(\.(optional|nullable|nullish)\(\))+$/;
+
+/**
+ * All rules of a policy: the packs' rules first, then the custom rules
+ */
+export function policyRules(policy?: RefinementPolicy): PolicyRule[] {
+  if (!policy) {
+    return [];
+  }
+
+  return [...policy.packs.flatMap((pack) => RULE_PACKS[pack]?.rules || []), ...policy.rules];
+}
+
+/**
+ * Prompt section listing the policy's rules (empty without rules)
+ */
+export function describePolicy(policy?: RefinementPolicy): string {
+  const rules = policyRules(policy);
+  if (rules.length === 0) {
+    return '';
+  }
+
+  return `\n**Organization Policy** (mandatory; improvements that break it are rewritten or discarded):\n${rules
+    .map((rule) => `- ${describeRule(rule)}`)
+    .join('\n')}\n`;
+}
+
+function describeRule(rule: PolicyRule): string {
+  switch (rule.type) {
+    case 'strict-objects':
+      return 'Every z.object() ends with .strict()';
+    case 'no-transforms':
+      return 'Never add .transform(), z.preprocess() or .pipe()';
+    case 'field-type':
+      return `Fields named ${rule.fields.join(', ')} always use ${rule.zodType}`;
+    case 'date-type':
+      return `Date and datetime fields always use ${rule.zodType}`;
+    case 'instruction':
+      return JSON.stringify(rule.text);
+  }
+}
+
+/**
+ * Rewrite or reject improvements that break the policy's rules.
+ * Improvements that end up identical to the original field type are dropped as well.
+ */
+export function enforcePolicy(
+  improvements: SchemaImprovement[],
+  policy?: RefinementPolicy
+): { improvements: SchemaImprovement[]; violations: PolicyViolation[] } {
+  const violations: PolicyViolation[] = [];
+  let current = improvements;
+
+  for (const rule of policyRules(policy)) {
+    current = current.flatMap((improvement) => {
+      const enforced = enforceRule(rule, improvement);
+      if (enforced === improvement.after) {
+        return [improvement];
+      }
+
+      const rejected = enforced === null || normalizeZodCode(enforced) === normalizeZodCode(improvement.before);
+      violations.push({
+        field: improvement.field,
+        rule: rule.type,
+        action: rejected ? 'rejected' : 'rewritten',
+        proposed: improvement.after,
+        ...(rejected ? {} : { enforced: enforced! }),
+      });
+
+      return rejected ? [] : [{ ...improvement, after: enforced! }];
+    });
+  }
+
+  return { improvements: current, violations };
+}
+
+/**
+ * Apply code-wide rules (strict objects) to the final schema code
+ */
+export function enforcePolicyOnCode(code: string, policy?: RefinementPolicy): string {
+  return policyRules(policy).some((rule) => rule.type === 'strict-objects') ? strictObjects(code) : code;
+}
+
+/**
+ * The improvement's `after` under one rule: unchanged, rewritten, or null when rejected
+ */
+function enforceRule(rule: PolicyRule, improvement: SchemaImprovement): string | null {
+  const after = normalizeZodCode(improvement.after);
+
+  switch (rule.type) {
+    case 'strict-objects':
+      return strictObjects(improvement.after);
+
+    case 'no-transforms':
+      // Transforms the schema already had are kept
+      return TRANSFORM_PATTERN.test(after) && !TRANSFORM_PATTERN.test(normalizeZodCode(improvement.before))
+        ? null
+        : improvement.after;
+
+    case 'field-type': {
+      const name = splitFieldPath(improvement.field).pop() || improvement.field;
+      return rule.fields.some((pattern) => matchesFieldPattern(name, pattern))
+        ? withModifiers(rule.zodType, improvement.after)
+        : improvement.after;
+    }
+
+    case 'date-type':
+      return DATE_PATTERN.test(after) ? withModifiers(rule.zodType, improvement.after) : improvement.after;
+
+    case 'instruction':
+      return improvement.after;
+  }
+}
+
+/**
+ * Replace a Zod type while keeping its .optional()/.nullable()/.nullish() modifiers
+ */
+function withModifiers(zodType: string, proposed: string): string {
+  const modifiers = proposed.trim().match(MODIFIER_SUFFIX)?.[0] || '';
+  const enforced = `${zodType}${modifiers}`;
+
+  // Keep the provider's text when it already is the enforced type
+  return normalizeZodCode(enforced) === normalizeZodCode(proposed) ? proposed : enforced;
+}
+
+/**
+ * Match a field name against a pattern where `*` stands for any characters ("*Id" matches "userId")
+ */
+function matchesFieldPattern(name: string, pattern: string): boolean {
+  const source = pattern
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`).test(name);
+}
+
+/**
+ * Append .strict() to every z.object() call that is not already strict, passthrough or catchall
+ */
+function strictObjects(code: string): string {
+  const sourceFile = parseSchemaCode(code);
+  const insertAt: number[] = [];
+
+  const visit = (node: ts.Node) => {
+    if (
+      ts.isCallExpression(node) &&
+      ts.isPropertyAccessExpression(node.expression) &&
+      ts.isIdentifier(node.expression.expression) &&
+      node.expression.name.text === 'object' &&
+      !isChainedWith(node, ['strict', 'passthrough', 'strip', 'catchall'])
+    ) {
+      insertAt.push(node.getEnd());
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  // Insert from the end so earlier offsets stay valid
+  return insertAt
+    .sort((a, b) => b - a)
+    .reduce((patched, position) => `${patched.slice(0, position)}.strict()${patched.slice(position)}`, code);
+}
+
+/**
+ * Check if a call is directly followed by one of the given methods (`z.object({}).strict()`)
+ */
+function isChainedWith(call: ts.CallExpression, methods: string[]): boolean {
+  const parent = call.parent;
+  return ts.isPropertyAccessExpression(parent) && parent.expression === call && methods.includes(parent.name.text);
+}
+
+/**
+ * Policy manager: loads and saves customer policies (cached briefly for refinements)
+ */
+export class PolicyManager {
+  private store: PolicyStore;
+  private cache: Map<string, { policy: RefinementPolicy | null; expiresAt: number }> = new Map();
+
+  constructor(store: PolicyStore) {
+    this.store = store;
+  }
+
+  /**
+   * Swap the policy store (clears the cache)
+   */
+  setStore(store: PolicyStore): void {
+    this.store = store;
+    this.cache.clear();
+    console.log(`🗄️  Policy store set to ${store.name}`);
+  }
+
+  getStore(): PolicyStore {
+    return this.store;
+  }
+
+  /**
+   * Get a customer's policy
+   */
+  async get(customerId: string): Promise<RefinementPolicy | null> {
+    const cached = this.cache.get(customerId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.policy;
+    }
+
+    const policy = await this.store.get(customerId);
+    this.cache.set(customerId, { policy, expiresAt: Date.now() + POLICY_CACHE_TTL_MS });
+    return policy;
+  }
+
+  /**
+   * Policy for a refinement context (undefined when the customer has none)
+   */
+  async resolve(customerId: string): Promise<RefinementPolicy | undefined> {
+    return (await this.get(customerId)) ?? undefined;
+  }
+
+  /**
+   * Replace a customer's policy
+   */
+  async save(
+    customerId: string,
+    { packs, rules }: Pick<RefinementPolicy, 'packs' | 'rules'>,
+    updatedBy?: string
+  ): Promise<RefinementPolicy> {
+    const unknownPacks = packs.filter((pack) => !RULE_PACKS[pack]);
+    if (unknownPacks.length > 0) {
+      throw new Error(`Unknown rule pack: ${unknownPacks.join(', ')}`);
+    }
+
+    const policy: RefinementPolicy = {
+      customerId,
+      packs: Array.from(new Set(packs)),
+      rules,
+      updatedAt: new Date().toISOString(),
+      ...(updatedBy ? { updatedBy } : {}),
+    };
+
+    await this.store.set(policy);
+    this.cache.set(customerId, { policy, expiresAt: Date.now() + POLICY_CACHE_TTL_MS });
+
+    securityAuditor.log(
+      'policy_updated',
+      { customerId, packs: policy.packs, rules: rules.length, updatedBy },
+      'medium'
+    );
+
+    return policy;
+  }
+
+  /**
+   * Remove a customer's policy
+   */
+  async delete(customerId: string, deletedBy?: string): Promise<boolean> {
+    const deleted = await this.store.delete(customerId);
+    this.cache.delete(customerId);
+
+    if (deleted) {
+      securityAuditor.log('policy_deleted', { customerId, deletedBy }, 'medium');
+    }
+
+    return deleted;
+  }
+}
+
+// Export singleton instance
+export const policyManager = new PolicyManager(createPolicyStore());
@@ -0,0 +1,116 @@
+// Swappable storage for customer refinement policies
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { env } from '../config/env.js';
+import type { RefinementPolicy } from '../types/index.js';
+
+/**
+ * Policy storage backend (one policy per customerId)
+ */
+export interface PolicyStore {
+  readonly name: string;
+  get(customerId: string): Promise<RefinementPolicy | null>;
+  set(policy: RefinementPolicy): Promise<void>;
+  delete(customerId: string): Promise<boolean>;
+}
+
+/**
+ * In-memory policy store (default; policies are lost on restart)
+ */
+export class InMemoryPolicyStore implements PolicyStore {
+  readonly name = 'memory';
+  private policies: Map<string, RefinementPolicy> = new Map();
+
+  async get(customerId: string): Promise<RefinementPolicy | null> {
+    const policy = this.policies.get(customerId);
+    return policy ? structuredClone(policy) : null;
+  }
+
+  async set(policy: RefinementPolicy): Promise<void> {
+    this.policies.set(policy.customerId, structuredClone(policy));
+  }
+
+  async delete(customerId: string): Promise<boolean> {
+    return this.policies.delete(customerId);
+  }
+}
+
+/**
+ * Durable policy store backed by the Supabase `refinement_policies` table
+ * (see supabase/migrations/004_refinement_policies.sql)
+ */
+export class SupabasePolicyStore implements PolicyStore {
+  readonly name = 'supabase';
+  private supabase: SupabaseClient;
+
+  constructor(supabaseUrl: string, supabaseKey: string) {
+    this.supabase = createClient(supabaseUrl, supabaseKey);
+  }
+
+  async get(customerId: string): Promise<RefinementPolicy | null> {
+    const { data, error } = await this.supabase
+      .from('refinement_policies')
+      .select('*')
+      .eq('customer_id', customerId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load policy: ${error.message}`);
+    }
+
+    return data
+      ? {
+          customerId: data.customer_id,
+          packs: data.packs ?? [],
+          rules: data.rules ?? [],
+          updatedAt: data.updated_at,
+          updatedBy: data.updated_by ?? undefined,
+        }
+      : null;
+  }
+
+  async set(policy: RefinementPolicy): Promise<void> {
+    const { error } = await this.supabase.from('refinement_policies').upsert({
+      customer_id: policy.customerId,
+      packs: policy.packs,
+      rules: policy.rules,
+      updated_at: policy.updatedAt,
+      updated_by: policy.updatedBy ?? null,
+    });
+
+    if (error) {
+      throw new Error(`Failed to save policy: ${error.message}`);
+    }
+  }
+
+  async delete(customerId: string): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('refinement_policies')
+      .delete()
+      .eq('customer_id', customerId)
+      .select('customer_id');
+
+    if (error) {
+      throw new Error(`Failed to delete policy: ${error.message}`);
+    }
+
+    return (data?.length ?? 0) > 0;
+  }
+}
+
+/**
+ * Create the policy store selected by POLICY_STORE (falls back to memory without Supabase credentials)
+ */
+export function createPolicyStore(): PolicyStore {
+  const supabaseUrl = env.SUPABASE_URL;
+  const supabaseKey = env.SUPABASE_SERVICE_KEY;
+
+  if (env.POLICY_STORE === 'supabase') {
+    if (supabaseUrl && supabaseKey) {
+      console.log('🗄️  Policy store: Supabase');
+      return new SupabasePolicyStore(supabaseUrl, supabaseKey);
+    }
+    console.warn('⚠️  POLICY_STORE=supabase but Supabase is not configured, using in-memory policy store');
+  }
+
+  return new InMemoryPolicyStore();
+}
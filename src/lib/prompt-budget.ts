@@ -0,0 +1,386 @@
+// Prompt budgeting: which samples a refinement prompt shows, and splitting schemas too large for one prompt
+import ts from 'typescript';
+import type { PromptSampleReport, RefinementFeedback, RefinementRequest, RefinementResponse } from '../types/index.js';
+import { STRING_FORMAT_RULES } from './sample-patterns.js';
+import { MAX_PROFILE_DEPTH } from './sample-profiler.js';
+import { applyImprovements, findRootObject, getPropertyName, parseSchemaCode, splitFieldPath, unwrapObjectSchema } from './schema-patcher.js';
+import { sumUsage } from './tokens.js';
+
+type RefinementResult = Omit<RefinementResponse, 'success' | 'error' | 'errorCode'>;
+
+/**
+ * Tokens kept free for the answer (providers request at most 2000 output tokens)
+ */
+export const OUTPUT_TOKEN_RESERVE = 2000;
+
+/**
+ * Share of the input budget the prompt may use without samples before the schema is split
+ */
+export const SCHEMA_BUDGET_SHARE = 0.75;
+
+/**
+ * Limits for long values in the samples shown: the default, then a tighter one for when not even one sample fits
+ */
+export const SAMPLE_VALUE_LIMITS: SampleValueLimits[] = [
+  { maxStringLength: 200, maxArrayItems: 20 },
+  { maxStringLength: 40, maxArrayItems: 3 },
+];
+
+export interface SampleValueLimits {
+  maxStringLength: number;
+  maxArrayItems: number;
+}
+
+/**
+ * A nested object of a schema, refined on its own
+ */
+export interface SchemaPart {
+  prefix: string;           // Field path of the nested object ("address", "items[]"; "" for the rest of the root)
+  request: RefinementRequest;
+  sampleIndices: number[];  // Submitted sample each part sample comes from
+}
+
+/**
+ * Input tokens a prompt may use: the model's limit minus the answer reserve (at least half the limit)
+ */
+export function inputTokenBudget(maxTokensPerRequest: number): number {
+  return Math.max(maxTokensPerRequest - OUTPUT_TOKEN_RESERVE, Math.floor(maxTokensPerRequest / 2));
+}
+
+/**
+ * Drop identical samples and order the rest by diversity: each next sample is the one adding the
+ * most field shapes ("address.zip:null", "email:string:email") not seen yet, so rare samples come
+ * early. Samples adding nothing new follow in their original order.
+ */
+export function orderSamples(samples: any[]): { ordered: Array<{ index: number; sample: any }>; duplicates: number } {
+  const seen = new Set<string>();
+  const unique: Array<{ index: number; sample: any; features: Set<string> }> = [];
+
+  samples.forEach((sample, index) => {
+    const key = canonicalJson(sample);
+    if (!seen.has(key)) {
+      seen.add(key);
+      unique.push({ index, sample, features: sampleFeatures(sample) });
+    }
+  });
+
+  const covered = new Set<string>();
+  const ordered: Array<{ index: number; sample: any }> = [];
+  const remaining = [...unique];
+
+  while (remaining.length > 0) {
+    let best = 0;
+    let bestGain = 0;
+    remaining.forEach((candidate, i) => {
+      let gain = 0;
+      for (const feature of candidate.features) {
+        if (!covered.has(feature)) {
+          gain++;
+        }
+      }
+      if (gain > bestGain) {
+        best = i;
+        bestGain = gain;
+      }
+    });
+
+    if (bestGain === 0) {
+      break;
+    }
+
+    const [picked] = remaining.splice(best, 1);
+    picked.features.forEach((feature) => covered.add(feature));
+    ordered.push({ index: picked.index, sample: picked.sample });
+  }
+
+  for (const { index, sample } of remaining) {
+    ordered.push({ index, sample });
+  }
+
+  return { ordered, duplicates: samples.length - unique.length };
+}
+
+/**
+ * Shorten long strings and arrays in a sample. Markers ("…[truncated 120 chars]", "…[7 more items]")
+ * say how much was cut.
+ */
+export function shortenSample(sample: any, limits: SampleValueLimits): { value: any; truncated: boolean } {
+  let truncated = false;
+
+  const shorten = (value: any): any => {
+    if (typeof value === 'string' && value.length > limits.maxStringLength) {
+      truncated = true;
+      return `${value.slice(0, limits.maxStringLength)}…[truncated ${value.length - limits.maxStringLength} chars]`;
+    }
+
+    if (Array.isArray(value)) {
+      if (value.length <= limits.maxArrayItems) {
+        return value.map(shorten);
+      }
+      truncated = true;
+      return [...value.slice(0, limits.maxArrayItems).map(shorten), `…[${value.length - limits.maxArrayItems} more items]`];
+    }
+
+    if (isPlainObject(value)) {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, shorten(item)]));
+    }
+
+    return value;
+  };
+
+  const value = shorten(sample);
+  return { value, truncated };
+}
+
+/**
+ * Split a schema into its nested object properties (top level) and the rest of the root object.
+ * Each part gets the nested values of the samples (array items flattened). Empty when the schema
+ * has no root object or no nested object property.
+ */
+export function splitSchema(request: RefinementRequest): SchemaPart[] {
+  const { schema, samples } = request;
+  const sourceFile = parseSchemaCode(schema.code);
+  const root = findRootObject(sourceFile, schema.typeName);
+  if (!root) {
+    return [];
+  }
+
+  const nested = root.properties.flatMap((property) => {
+    const name = getPropertyName(property);
+    const object = ts.isPropertyAssignment(property) ? unwrapObjectSchema(property.initializer) : null;
+    return name !== null && object ? [{ property, name, object }] : [];
+  });
+  if (nested.length === 0) {
+    return [];
+  }
+
+  const parts: SchemaPart[] = [];
+  const nestedNames = new Set(nested.map(({ name }) => name));
+  const isArrayField = (name: string) => samples.some((sample) => isPlainObject(sample) && Array.isArray(sample[name]));
+  const prefixes = nested.map(({ name }) => (isArrayField(name) ? `${name}[]` : name));
+
+  // The root without its nested objects (skipped when nothing else is left)
+  if (root.properties.length > nested.length) {
+    let code = schema.code;
+    const properties = root.properties;
+    for (let i = properties.length - 1; i >= 0; i--) {
+      const name = getPropertyName(properties[i]);
+      if (name !== null && nestedNames.has(name)) {
+        const end = i + 1 < properties.length ? properties[i + 1].getFullStart() : properties.end;
+        code = code.slice(0, properties[i].getFullStart()) + code.slice(end);
+      }
+    }
+
+    parts.push({
+      prefix: '',
+      request: {
+        ...request,
+        schema: {
+          code,
+          typeName: schema.typeName,
+          fields: Object.fromEntries(Object.entries(schema.fields).filter(([field]) => !nestedNames.has(field))),
+        },
+        samples: samples.map((sample) =>
+          isPlainObject(sample) ? Object.fromEntries(Object.entries(sample).filter(([key]) => !nestedNames.has(key))) : sample
+        ),
+        feedback: partFeedback(request.feedback, '', prefixes),
+      },
+      sampleIndices: samples.map((_, index) => index),
+    });
+  }
+
+  nested.forEach(({ name, object }, i) => {
+    const partSamples: any[] = [];
+    const sampleIndices: number[] = [];
+    samples.forEach((sample, index) => {
+      const value = isPlainObject(sample) ? sample[name] : undefined;
+      for (const item of Array.isArray(value) ? value : [value]) {
+        if (isPlainObject(item)) {
+          partSamples.push(item);
+          sampleIndices.push(index);
+        }
+      }
+    });
+
+    const identifier = `${schema.typeName}${name.replace(/[^A-Za-z0-9_$]/g, '').replace(/^./, (c) => c.toUpperCase())}`;
+    parts.push({
+      prefix: prefixes[i],
+      request: {
+        ...request,
+        schema: {
+          code: `export const ${identifier}Schema = z.object(${object.getText(sourceFile)});`,
+          typeName: `${schema.typeName}.${prefixes[i]}`,
+          fields: Object.fromEntries(
+            object.properties.flatMap((property) => {
+              const field = getPropertyName(property);
+              if (field === null) {
+                return [];
+              }
+              const type = ts.isPropertyAssignment(property) ? property.initializer.getText(sourceFile) : field;
+              return [[field, type.replace(/\s+/g, ' ')]];
+            })
+          ),
+        },
+        samples: partSamples,
+        feedback: partFeedback(request.feedback, prefixes[i], prefixes),
+      },
+      sampleIndices,
+    });
+  });
+
+  return parts;
+}
+
+/**
+ * Combine the answers for the parts of a split schema: improvement and relationship fields get the
+ * part's path, the improvements are patched into the full schema, and usage and sent samples add up.
+ */
+export function mergeSchemaParts(request: RefinementRequest, parts: SchemaPart[], results: RefinementResult[]): RefinementResult {
+  const improvements = results.flatMap((result, i) =>
+    (result.refinedSchema?.improvements ?? []).map((improvement) => ({
+      ...improvement,
+      field: joinFieldPath(parts[i].prefix, improvement.field),
+    }))
+  );
+  const relationships = results.flatMap((result, i) =>
+    (result.refinedSchema?.relationships ?? []).map((relationship) => ({
+      ...relationship,
+      fields: relationship.fields.map((field) => joinFieldPath(parts[i].prefix, field)),
+    }))
+  );
+
+  const patch = applyImprovements(request.schema.code, improvements, request.schema.typeName);
+  const confidences = improvements.length > 0
+    ? improvements.map((improvement) => improvement.confidence)
+    : results.flatMap((result) => (result.refinedSchema ? [result.refinedSchema.confidence] : []));
+  const confidence = confidences.length > 0 ? confidences.reduce((a, b) => a + b, 0) / confidences.length : 0.9;
+
+  const prompt = results.find((result) => result.prompt)?.prompt;
+  const usage = sumUsage(results.map((result) => result.usage));
+  const promptSamples = mergeSampleReports(request, parts, results);
+
+  return {
+    refinedSchema: {
+      code: patch.code,
+      improvements,
+      confidence,
+      relationships,
+      unappliedImprovements: patch.unapplied,
+    },
+    suggestions: [...new Set(results.flatMap((result) => result.suggestions ?? []))],
+    ...(prompt ? { prompt } : {}),
+    ...(promptSamples ? { promptSamples } : {}),
+    ...(usage ? { usage } : {}),
+    creditsUsed: results[0].creditsUsed ?? 1,
+    creditsRemaining: results[0].creditsRemaining ?? -1,
+    processingTime: results.reduce((total, result) => total + (result.processingTime ?? 0), 0),
+    aiProvider: results[0].aiProvider,
+  };
+}
+
+/**
+ * Samples sent across all parts, as indices into the submitted samples
+ */
+function mergeSampleReports(
+  request: RefinementRequest,
+  parts: SchemaPart[],
+  results: RefinementResult[]
+): PromptSampleReport | undefined {
+  if (!results.some((result) => result.promptSamples)) {
+    return undefined;
+  }
+
+  const sent = new Set<number>();
+  let truncated = false;
+  let schemaParts = 0;
+  results.forEach((result, i) => {
+    result.promptSamples?.sent.forEach((partIndex) => sent.add(parts[i].sampleIndices[partIndex]));
+    truncated ||= result.promptSamples?.truncated ?? false;
+    schemaParts += result.promptSamples?.schemaParts ?? 1;
+  });
+
+  const rootIndex = parts.findIndex((part) => part.prefix === '');
+  return {
+    sent: [...sent].sort((a, b) => a - b),
+    total: request.samples.length,
+    duplicates: rootIndex === -1 ? 0 : results[rootIndex].promptSamples?.duplicates ?? 0,
+    truncated,
+    schemaParts,
+  };
+}
+
+/**
+ * Session feedback for the fields of one part (paths relative to the part)
+ */
+function partFeedback(feedback: RefinementFeedback | undefined, prefix: string, prefixes: string[]): RefinementFeedback | undefined {
+  if (!feedback) {
+    return undefined;
+  }
+
+  // A nested field belongs to the part of its first segment, everything else to the root
+  const owner = (field: string) => {
+    const [first, ...rest] = splitFieldPath(field);
+    return (rest.length > 0 && prefixes.find((candidate) => splitFieldPath(candidate)[0] === first)) || '';
+  };
+  const relative = <T extends { field: string }>(entries: T[]) =>
+    entries
+      .filter((entry) => owner(entry.field) === prefix)
+      .map((entry) => (prefix ? { ...entry, field: splitFieldPath(entry.field).slice(1).join('.') } : entry));
+
+  return { accepted: relative(feedback.accepted), rejected: relative(feedback.rejected) };
+}
+
+/**
+ * Field path inside a part, as a path of the full schema ("items[]" + "sku" → "items[].sku")
+ */
+function joinFieldPath(prefix: string, field: string): string {
+  return prefix ? `${prefix}.${field}` : field;
+}
+
+/**
+ * Field shapes of a sample: type per path, plus the string format or boolean value
+ */
+function sampleFeatures(sample: any): Set<string> {
+  const features = new Set<string>();
+
+  const visit = (value: any, path: string, depth: number): void => {
+    if (value === null) {
+      features.add(`${path}:null`);
+    } else if (Array.isArray(value)) {
+      features.add(`${path}:array${value.length === 0 ? ':empty' : ''}`);
+      if (depth < MAX_PROFILE_DEPTH) {
+        value.forEach((item) => visit(item, `${path}[]`, depth + 1));
+      }
+    } else if (isPlainObject(value)) {
+      features.add(`${path}:object`);
+      if (depth < MAX_PROFILE_DEPTH) {
+        for (const [key, item] of Object.entries(value)) {
+          visit(item, path ? `${path}.${key}` : key, depth + 1);
+        }
+      }
+    } else if (typeof value === 'string') {
+      const format = value === '' ? 'empty' : STRING_FORMAT_RULES.find((rule) => rule.test(value))?.format;
+      features.add(`${path}:string${format ? `:${format}` : ''}`);
+    } else if (typeof value === 'number') {
+      features.add(`${path}:${Number.isInteger(value) ? 'integer' : 'number'}${value < 0 ? ':negative' : ''}`);
+    } else if (typeof value === 'boolean') {
+      features.add(`${path}:${value}`);
+    }
+  };
+
+  visit(sample, '', 0);
+  return features;
+}
+
+/**
+ * JSON with sorted object keys (identical samples compare equal whatever their key order)
+ */
+function canonicalJson(value: any): string {
+  return JSON.stringify(value, (_key, item) =>
+    isPlainObject(item) ? Object.fromEntries(Object.entries(item).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))) : item
+  );
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
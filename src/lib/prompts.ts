@@ -0,0 +1,486 @@
+// Prompt template registry: named, versioned prompts shared by every provider, with A/B experiments
+import crypto from 'crypto';
+import { securityAuditor } from './security.js';
+import { profileSamples, summarizeFieldProfiles } from './sample-profiler.js';
+import { summarizeFeedback } from './refinement-feedback.js';
+import { describePolicy } from './policies.js';
+import { orderSamples, SAMPLE_VALUE_LIMITS, shortenSample } from './prompt-budget.js';
+import { estimateTokens } from './tokens.js';
+import type { PromptName, PromptSampleReport, PromptVersionRef, RefinementRequest } from '../types/index.js';
+
+/**
+ * Most samples shown in the refinement prompt (statistics cover all of them)
+ */
+export const MAX_PROMPT_SAMPLES = 10;
+
+/**
+ * A template version (immutable once created)
+ */
+export interface PromptTemplate {
+  name: PromptName;
+  version: number;
+  description?: string;
+  system: string;           // System prompt
+  user: string;             // User prompt with {{variable}} placeholders
+  createdAt: string;
+}
+
+/**
+ * Two versions side by side: `split` of the traffic gets the candidate, the rest the active version
+ */
+export interface PromptExperiment {
+  candidate: number;
+  split: number;            // 0-1, exclusive
+  startedAt: string;
+}
+
+export interface PromptState {
+  name: PromptName;
+  description: string;
+  variables: string[];      // Placeholders the templates may use
+  activeVersion: number;
+  experiment: PromptExperiment | null;
+  versions: PromptTemplate[];
+}
+
+/**
+ * A template rendered for one request
+ */
+export interface RenderedPrompt extends PromptVersionRef {
+  system: string;
+  user: string;
+  sampleReport?: PromptSampleReport; // Samples shown (refinement prompts)
+}
+
+/**
+ * Template or registry operation that cannot be applied
+ */
+export class PromptError extends Error {
+  constructor(
+    public readonly code: 'UNKNOWN_PROMPT' | 'UNKNOWN_VERSION' | 'INVALID_TEMPLATE' | 'INVALID_EXPERIMENT',
+    message: string
+  ) {
+    super(message);
+    this.name = 'PromptError';
+  }
+}
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z0-9_]+)\s*\}\}/g;
+
+const REFINE_SYSTEM_PROMPT = `You are an expert TypeScript and Zod schema developer with semantic analysis capabilities. Your task is to analyze a Zod schema and suggest improvements based on sample data.
+
+**Goals**:
+1. Make types more accurate and specific
+2. Add appropriate constraints (min, max, regex, etc.)
+3. Improve validation rules based on business logic
+4. Detect enums where appropriate
+5. Add transformations for data normalization
+6. **Detect field relationships** (e.g., price+currency, lat+lng, street+city+postalCode)
+7. **Identify semantic patterns** beyond simple regex matching
+
+**Advanced Analysis - Context Reasoning**:
+- Detect composite schemas: price+currency → monetary value, lat+lng → geolocation
+- Identify missing fields in common patterns (e.g., createdAt without updatedAt)
+- Recognize domain relationships that suggest nested structures
+- Suggest composite types when fields are semantically related
+- Only suggest relationships with confidence >85%
+
+**Enhanced Explainability**:
+For each improvement, provide:
+1. **reason**: Why this change improves the schema
+2. **sourceSnippet**: Actual sample value that triggered this change (e.g., "user@Example.COM")
+3. **detectedPattern**: Pattern identifier (e.g., "email_format", "uuid_v4", "iso8601_datetime", "monetary_value")
+4. **ruleApplied**: Validation rule used (e.g., "RFC5322_email", "UUID_v4_regex", "ISO8601_datetime_format")
+
+**Rules**:
+- Only suggest changes with high confidence (>80%)
+- Only suggest relationships with confidence >85%
+- Preserve existing valid constraints
+- Consider real-world data patterns
+- Explain reasoning for each change with source attribution
+- Use standard Zod validators
+
+**Output Format** (JSON only, no markdown):
+{
+  "improvements": [
+    {
+      "field": "email",
+      "before": "z.string()",
+      "after": "z.string().email().toLowerCase().trim()",
+      "reason": "Field name and samples indicate email addresses. Added normalization.",
+      "confidence": 0.95,
+      "sourceSnippet": "user@Example.COM",
+      "detectedPattern": "email_format",
+      "ruleApplied": "RFC5322_email"
+    }
+  ],
+  "relationships": [
+    {
+      "fields": ["price", "currency"],
+      "pattern": "monetary_value",
+      "suggestion": "Consider creating a Money type: z.object({ amount: z.number().positive(), currency: z.enum(['USD', 'EUR', 'GBP']) })",
+      "confidence": 0.92
+    }
+  ],
+  "suggestions": [
+    "Consider adding @default for optional fields",
+    "Username should have length constraints"
+  ]
+}`;
+
+const REFINE_USER_PROMPT = `Analyze this Zod schema and suggest improvements:
+
+**Schema Name**: {{typeName}}
+
+**Current Schema**:
+\`\`\`typescript
+{{schemaCode}}
+\`\`\`
+
+**Field Types**:
+{{fieldTypes}}
+
+**Field Statistics** (computed over all {{sampleCount}} samples):
+{{fieldStatistics}}
+
+**Sample Data** (showing {{shownSampleCount}} of {{sampleCount}} samples):
+\`\`\`json
+{{samples}}
+\`\`\`
+Long values were shortened to fit; "…[truncated N chars]" and "…[N more items]" mark the cuts.
+{{feedback}}{{policy}}
+Base constraints on the field statistics, not only on the samples shown.
+
+Provide improvements in JSON format. Return ONLY valid JSON, no markdown.`;
+
+const EXPLAIN_SYSTEM_PROMPT = `You are a senior support engineer who explains Zod validation errors to developers. You receive a Zod schema and the issues Zod reported for payloads that fail it.
+
+**Goals**:
+1. Explain each issue in one or two plain sentences, without Zod jargon
+2. Name the field the way the payload spells it (e.g., "items[0].sku")
+3. Suggest one fix: change the data (the payload is wrong) or change the schema (the payload is legitimate and the schema is too strict)
+4. For schema fixes, give the Zod code of the corrected field type
+
+**Rules**:
+- Explain every issue, in the order given, referring to it by its index
+- Never invent issues or values that are not in the input
+- Prefer data fixes unless the received value looks like legitimate real-world data
+
+**Output Format** (JSON only, no markdown):
+{
+  "explanations": [
+    {
+      "issue": 0,
+      "explanation": "\\"age\\" must be a number, but the payload sends the string \\"42\\".",
+      "fix": { "target": "schema", "suggestion": "Accept numeric strings by coercing them.", "code": "z.coerce.number()" }
+    }
+  ],
+  "summary": "One payload sends numbers as strings."
+}`;
+
+const EXPLAIN_USER_PROMPT = `Explain why these payloads fail the schema:
+
+**Schema Name**: {{typeName}}
+
+**Schema**:
+\`\`\`typescript
+{{schemaCode}}
+\`\`\`
+
+**Issues** ({{shownIssueCount}} of {{issueCount}}):
+\`\`\`json
+{{issues}}
+\`\`\`
+
+Provide the explanations in JSON format.`;
+
+/**
+ * Prompts the providers use, with the variables each one is rendered with and its first version
+ */
+const BUILT_IN_PROMPTS: Record<PromptName, { description: string; variables: string[]; system: string; user: string }> = {
+  refine: {
+    description: 'Schema refinement (POST /refine, batch, stream, jobs, sessions, OpenAPI)',
+    variables: [
+      'typeName',
+      'schemaCode',
+      'fieldTypes',
+      'sampleCount',
+      'shownSampleCount',
+      'fieldStatistics',
+      'samples',
+      'feedback',
+      'policy',
+    ],
+    system: REFINE_SYSTEM_PROMPT,
+    user: REFINE_USER_PROMPT,
+  },
+  explain: {
+    description: 'Payload issue explanations (POST /explain)',
+    variables: ['typeName', 'schemaCode', 'issueCount', 'shownIssueCount', 'issues'],
+    system: EXPLAIN_SYSTEM_PROMPT,
+    user: EXPLAIN_USER_PROMPT,
+  },
+};
+
+interface StoredPrompt {
+  versions: PromptTemplate[];
+  activeVersion: number;
+  experiment: PromptExperiment | null;
+}
+
+/**
+ * In-memory prompt registry, seeded with version 1 of every built-in prompt
+ */
+export class PromptRegistry {
+  private prompts: Map<PromptName, StoredPrompt> = new Map();
+
+  constructor() {
+    this.reset();
+  }
+
+  /**
+   * Every prompt with its versions, active version and running experiment
+   */
+  list(): PromptState[] {
+    return (Object.keys(BUILT_IN_PROMPTS) as PromptName[]).map((name) => this.get(name));
+  }
+
+  get(name: string): PromptState {
+    const stored = this.getStored(name);
+    return structuredClone({
+      name: name as PromptName,
+      description: BUILT_IN_PROMPTS[name as PromptName].description,
+      variables: BUILT_IN_PROMPTS[name as PromptName].variables,
+      activeVersion: stored.activeVersion,
+      experiment: stored.experiment,
+      versions: stored.versions,
+    });
+  }
+
+  getVersion(name: string, version: number): PromptTemplate {
+    const template = this.getStored(name).versions.find((v) => v.version === version);
+    if (!template) {
+      throw new PromptError('UNKNOWN_VERSION', `Prompt ${name} has no version ${version}`);
+    }
+    return template;
+  }
+
+  /**
+   * Add a version (next number). Placeholders must be variables of the prompt.
+   */
+  addVersion(
+    name: string,
+    { system, user, description }: { system: string; user: string; description?: string },
+    activate = false
+  ): PromptTemplate {
+    const stored = this.getStored(name);
+
+    const unknown = [...new Set([...system.matchAll(PLACEHOLDER), ...user.matchAll(PLACEHOLDER)].map((m) => m[1]))].filter(
+      (variable) => !BUILT_IN_PROMPTS[name as PromptName].variables.includes(variable)
+    );
+    if (unknown.length > 0) {
+      throw new PromptError('INVALID_TEMPLATE', `Unknown placeholder(s) for prompt ${name}: ${unknown.join(', ')}`);
+    }
+
+    const template: PromptTemplate = {
+      name: name as PromptName,
+      version: stored.versions[stored.versions.length - 1].version + 1,
+      ...(description ? { description } : {}),
+      system,
+      user,
+      createdAt: new Date().toISOString(),
+    };
+    stored.versions.push(template);
+
+    securityAuditor.log('prompt_version_created', { name, version: template.version }, 'medium');
+
+    if (activate) {
+      this.setActive(name, template.version);
+    }
+
+    return template;
+  }
+
+  /**
+   * Serve a version to all traffic (ends an experiment on the same prompt)
+   */
+  setActive(name: string, version: number): void {
+    const stored = this.getStored(name);
+    this.getVersion(name, version);
+
+    stored.activeVersion = version;
+    stored.experiment = null;
+
+    securityAuditor.log('prompt_activated', { name, version }, 'medium');
+  }
+
+  /**
+   * Serve `candidate` to a share of the traffic next to the active version
+   */
+  startExperiment(name: string, candidate: number, split: number): PromptExperiment {
+    const stored = this.getStored(name);
+    this.getVersion(name, candidate);
+
+    if (candidate === stored.activeVersion) {
+      throw new PromptError('INVALID_EXPERIMENT', `Version ${candidate} of prompt ${name} is already active`);
+    }
+    if (!(split > 0 && split < 1)) {
+      throw new PromptError('INVALID_EXPERIMENT', 'The split must be between 0 and 1 (exclusive)');
+    }
+
+    stored.experiment = { candidate, split, startedAt: new Date().toISOString() };
+    securityAuditor.log('prompt_experiment_started', { name, active: stored.activeVersion, candidate, split }, 'medium');
+
+    return { ...stored.experiment };
+  }
+
+  /**
+   * Stop the experiment (the active version serves all traffic again)
+   */
+  stopExperiment(name: string): boolean {
+    const stored = this.getStored(name);
+    if (!stored.experiment) {
+      return false;
+    }
+
+    securityAuditor.log('prompt_experiment_stopped', { name, candidate: stored.experiment.candidate }, 'medium');
+    stored.experiment = null;
+    return true;
+  }
+
+  /**
+   * Version a request is served. With a bucket key the experiment arm is stable for that key
+   * (the same schema keeps its version, so cached answers stay consistent); without one it is random.
+   */
+  select(name: PromptName, bucketKey?: string): PromptVersionRef {
+    const stored = this.getStored(name);
+    const experiment = stored.experiment;
+
+    if (!experiment) {
+      return { name, version: stored.activeVersion };
+    }
+
+    return bucket(bucketKey) < experiment.split
+      ? { name, version: experiment.candidate, variant: 'candidate' }
+      : { name, version: stored.activeVersion, variant: 'control' };
+  }
+
+  /**
+   * Render a version (the active one when none was selected) with the given variables
+   */
+  render(name: PromptName, ref: PromptVersionRef | undefined, variables: Record<string, string | number>): RenderedPrompt {
+    const template = ref?.name === name ? this.getVersion(name, ref.version) : this.getVersion(name, this.getStored(name).activeVersion);
+
+    // Single pass, so placeholders inside values (schema code, samples) stay as they are
+    const fill = (text: string) =>
+      text.replace(PLACEHOLDER, (match, variable: string) =>
+        variable in variables ? String(variables[variable]) : match
+      );
+
+    return {
+      name,
+      version: template.version,
+      ...(ref?.name === name && ref.variant ? { variant: ref.variant } : {}),
+      system: fill(template.system),
+      user: fill(template.user),
+    };
+  }
+
+  /**
+   * Drop added versions and experiments (back to version 1 of every built-in prompt)
+   */
+  reset(): void {
+    const createdAt = new Date().toISOString();
+    this.prompts = new Map(
+      (Object.entries(BUILT_IN_PROMPTS) as Array<[PromptName, (typeof BUILT_IN_PROMPTS)[PromptName]]>).map(
+        ([name, { system, user }]) => [
+          name,
+          { versions: [{ name, version: 1, description: 'Built-in', system, user, createdAt }], activeVersion: 1, experiment: null },
+        ]
+      )
+    );
+  }
+
+  private getStored(name: string): StoredPrompt {
+    const stored = this.prompts.get(name as PromptName);
+    if (!stored) {
+      throw new PromptError('UNKNOWN_PROMPT', `Unknown prompt: ${name}`);
+    }
+    return stored;
+  }
+}
+
+/**
+ * Map a bucket key to [0, 1)
+ */
+function bucket(key?: string): number {
+  if (key === undefined) {
+    return Math.random();
+  }
+  return crypto.createHash('sha256').update(key).digest().readUInt32BE(0) / 2 ** 32;
+}
+
+/**
+ * Refinement prompt for a request, from the version the factory selected for it. Identical samples
+ * are shown once, the most varied first, with long values shortened; with a token budget only as
+ * many samples as fit (tighter value limits when not even one does).
+ */
+export function buildRefinementPrompt(request: RefinementRequest): RenderedPrompt {
+  const { schema, samples } = request;
+  const { ordered, duplicates } = orderSamples(samples);
+  const candidates = ordered.slice(0, MAX_PROMPT_SAMPLES);
+
+  const variables = {
+    typeName: schema.typeName,
+    schemaCode: schema.code,
+    fieldTypes: Object.entries(schema.fields)
+      .map(([field, type]) => `- ${field}: ${type}`)
+      .join('\n'),
+    sampleCount: samples.length,
+    fieldStatistics: summarizeFieldProfiles(profileSamples(samples)),
+    feedback: summarizeFeedback(request.feedback),
+    policy: describePolicy(request.policy),
+  };
+  const render = (shown: Array<{ index: number; value: any; truncated: boolean }>): RenderedPrompt => ({
+    ...promptRegistry.render('refine', request.prompt, {
+      ...variables,
+      shownSampleCount: shown.length,
+      samples: JSON.stringify(shown.map(({ value }) => value), null, 2),
+    }),
+    sampleReport: {
+      sent: shown.map(({ index }) => index),
+      total: samples.length,
+      duplicates,
+      truncated: shown.some(({ truncated }) => truncated),
+    },
+  });
+
+  for (const limits of SAMPLE_VALUE_LIMITS) {
+    const shortened = candidates.map(({ index, sample }) => ({ index, ...shortenSample(sample, limits) }));
+    for (let count = shortened.length; count > 0; count--) {
+      const prompt = render(shortened.slice(0, count));
+      if (request.tokenBudget === undefined || estimatePromptTokens(prompt) <= request.tokenBudget) {
+        return prompt;
+      }
+    }
+  }
+
+  return render([]);
+}
+
+/**
+ * The version reference of a rendered prompt (as reported in results)
+ */
+export function promptVersionOf({ name, version, variant }: RenderedPrompt): PromptVersionRef {
+  return variant ? { name, version, variant } : { name, version };
+}
+
+/**
+ * Estimate the input tokens of a rendered prompt (local tokenizer)
+ */
+export function estimatePromptTokens(prompt: RenderedPrompt): number {
+  return estimateTokens(prompt.system) + estimateTokens(prompt.user);
+}
+
+// Export singleton instance
+export const promptRegistry = new PromptRegistry();
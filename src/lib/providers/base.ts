@@ -1,8 +1,15 @@
 // AI Provider abstraction layer
-import type { RefinementRequest, RefinementResponse } from '../../types/index.js';
+import type {
+  ExplanationProviderRequest,
+  ExplanationResult,
+  RefinementRequest,
+  RefinementResponse,
+} from '../../types/index.js';
 
 /**
- * Streaming chunk for real-time responses
+ * Streaming chunk for real-time responses.
+ * Provider streams put each improvement in `metadata.improvement` as soon as it is parsed,
+ * and the final response in `metadata.result` of the `done` chunk.
  */
 export interface StreamChunk {
   delta: string;
@@ -40,6 +47,16 @@ export interface AIProvider {
     request: RefinementRequest
   ): AsyncIterableIterator<StreamChunk>;
 
+  /**
+   * Explain the validation issues of payloads that fail a schema (optional)
+   *
+   * @param request - Schema and the issues Zod reported for the payloads
+   * @returns Wording and a suggested fix per issue (by index into request.issues)
+   */
+  explainIssues?(
+    request: ExplanationProviderRequest
+  ): Promise<ExplanationResult>;
+
   /**
    * Check if the provider is available and healthy
    *
@@ -96,3 +113,19 @@ export class ProviderError extends Error {
     this.name = 'ProviderError';
   }
 }
+
+/**
+ * Provider output that still does not match the expected shape after the repair attempt
+ */
+export class ProviderOutputError extends ProviderError {
+  constructor(
+    provider: string,
+    public readonly issues: string[]
+  ) {
+    super(
+      provider,
+      `${provider} provider returned output that does not match the expected format: ${issues.slice(0, 3).join('; ')}`
+    );
+    this.name = 'ProviderOutputError';
+  }
+}
@@ -2,6 +2,7 @@
 import { providerFactoryV2 } from './factory-v2.js';
 import { openaiProvider } from './openai-provider.js';
 import { anthropicProvider } from './anthropic-provider.js';
+import { heuristicProvider } from './heuristic-provider.js';
 import { mockProvider } from './mock-provider.js';
 import type { ProviderMetadata } from './registry.js';
 
@@ -42,7 +43,7 @@ const anthropicMetadata: ProviderMetadata = {
   maxTokensPerRequest: 4096,
   features: {
     streaming: true,
-    jsonMode: false,
+    jsonMode: true,
     functionCalling: true,
     vision: true,
   },
@@ -51,6 +52,29 @@ const anthropicMetadata: ProviderMetadata = {
   enabled: true,
 };
 
+/**
+ * Heuristic provider metadata
+ * Runs locally without network access - used as last-resort fallback
+ */
+const heuristicMetadata: ProviderMetadata = {
+  name: 'heuristic',
+  displayName: 'Heuristic (local)',
+  description: 'Deterministic pattern detection from samples, no LLM required',
+  costPerInputToken: 0,
+  costPerOutputToken: 0,
+  maxRequestsPerMinute: 10000,
+  maxTokensPerRequest: 100000,
+  features: {
+    streaming: false,
+    jsonMode: true,
+    functionCalling: false,
+    vision: false,
+  },
+  priority: 10,
+  weight: 0,
+  enabled: true,
+};
+
 /**
  * Mock provider metadata (for testing)
  */
@@ -93,6 +117,13 @@ export function bootstrapProviders(): void {
     console.error('Failed to register Anthropic provider:', error);
   }
 
+  // Register Heuristic provider (offline, last-resort fallback)
+  try {
+    providerFactoryV2.registerProvider(heuristicProvider, heuristicMetadata);
+  } catch (error) {
+    console.error('Failed to register Heuristic provider:', error);
+  }
+
   // Register Mock provider (for testing)
   try {
     providerFactoryV2.registerProvider(mockProvider, mockMetadata);
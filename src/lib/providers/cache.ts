@@ -78,7 +78,15 @@ export class ResponseCache {
         provider: request.options?.provider,
         model: request.options?.model,
         temperature: request.options?.temperature,
+        mode: request.options?.mode,
       },
+      feedback: request.feedback,
+      policy: request.policy && {
+        customerId: request.policy.customerId,
+        packs: request.policy.packs,
+        rules: request.policy.rules,
+      },
+      prompt: request.prompt,
     });
 
     return crypto.createHash('sha256').update(data).digest('hex');
@@ -1,5 +1,6 @@
 // Configuration management system for AI providers
 import type { ProviderMetadata } from './registry.js';
+import type { PiiPolicy } from '../../types/index.js';
 
 /**
  * Provider selection strategy
@@ -56,6 +57,16 @@ export interface GlobalConfig {
    */
   enableMetrics: boolean;
 
+  /**
+   * Validate refined schemas against the submitted samples
+   */
+  enableSampleValidation: boolean;
+
+  /**
+   * What to do with PII in samples for keys without their own policy
+   */
+  piiPolicy: PiiPolicy;
+
   /**
    * Request timeout in milliseconds
    */
@@ -75,6 +86,11 @@ export interface GlobalConfig {
    * Preferred providers (in order)
    */
   preferredProviders?: string[];
+
+  /**
+   * Provider tried after every other provider has failed (excluded from normal selection)
+   */
+  lastResortProvider?: string;
 }
 
 /**
@@ -95,7 +111,10 @@ export class ConfigManager {
       enableRateLimiting: true,
       enableCostTracking: true,
       enableMetrics: true,
+      enableSampleValidation: true,
+      piiPolicy: 'redact',
       requestTimeout: 30000,
+      lastResortProvider: 'heuristic',
       ...initialConfig,
     };
 
@@ -229,7 +248,7 @@ export class ConfigManager {
   /**
    * Check if a feature is enabled
    */
-  isEnabled(feature: keyof Pick<GlobalConfig, 'enableCache' | 'enableRateLimiting' | 'enableCostTracking' | 'enableMetrics'>): boolean {
+  isEnabled(feature: keyof Pick<GlobalConfig, 'enableCache' | 'enableRateLimiting' | 'enableCostTracking' | 'enableMetrics' | 'enableSampleValidation'>): boolean {
     return this.config[feature];
   }
 
@@ -273,7 +292,10 @@ export class ConfigManager {
       enableRateLimiting: true,
       enableCostTracking: true,
       enableMetrics: true,
+      enableSampleValidation: true,
+      piiPolicy: 'redact',
       requestTimeout: 30000,
+      lastResortProvider: 'heuristic',
     };
     this.roundRobinIndex = 0;
     console.log('⚙️  Configuration reset to defaults');
@@ -312,5 +334,8 @@ export const configManager = new ConfigManager({
   enableRateLimiting: true,
   enableCostTracking: true,
   enableMetrics: true,
+  enableSampleValidation: true,
+  piiPolicy: 'redact',
   requestTimeout: 30000,
+  lastResortProvider: 'heuristic',
 });
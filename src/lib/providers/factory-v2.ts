@@ -1,6 +1,18 @@
 // Enhanced AI Provider factory with plugin system, caching, rate limiting, and cost tracking
-import type { RefinementRequest, RefinementResponse } from '../../types/index.js';
-import type { AIProvider } from './base.js';
+import type {
+  ExplanationProviderRequest,
+  ExplanationRequest,
+  ExplanationResponse,
+  ExplanationResult,
+  PiiReport,
+  PolicyReport,
+  RefinementContext,
+  RefinementRequest,
+  RefinementResponse,
+  SchemaImprovement,
+  TokenUsage,
+} from '../../types/index.js';
+import type { AIProvider, StreamChunk } from './base.js';
 import { ProviderError } from './base.js';
 import { providerRegistry, type ProviderMetadata } from './registry.js';
 import { responseCache } from './cache.js';
@@ -8,7 +20,33 @@ import { rateLimiter } from './rate-limiter.js';
 import { costTracker } from './cost-tracker.js';
 import { metricsCollector } from './metrics.js';
 import { configManager, type ProviderStrategy } from './config-manager.js';
-import { securityAuditor } from '../security.js';
+import { securityAuditor, sanitizeError } from '../security.js';
+import { validateImprovements } from '../sample-validator.js';
+import { withSandbox, type SandboxedSchema } from '../schema-sandbox.js';
+import { profileSamples } from '../sample-profiler.js';
+import { applyPiiPolicy, PiiBlockedError } from '../pii.js';
+import { renderOutputFormats } from '../output-formats.js';
+import { mergeConsensus } from '../consensus.js';
+import { isRejected } from '../refinement-feedback.js';
+import { applyImprovements, normalizeZodCode } from '../schema-patcher.js';
+import { enforcePolicy, enforcePolicyOnCode, policyRules } from '../policies.js';
+import { analyzeCompatibility } from '../compatibility.js';
+import { buildExplanationPrompt, collectIssues, mergeExplanations, receivedAt } from '../explain.js';
+import { buildRefinementPrompt, estimatePromptTokens, promptRegistry } from '../prompts.js';
+import { inputTokenBudget, mergeSchemaParts, SCHEMA_BUDGET_SHARE, splitSchema } from '../prompt-budget.js';
+import { estimateTokens, sumUsage } from '../tokens.js';
+
+/**
+ * Providers asked in consensus mode (highest priority first)
+ */
+const MAX_CONSENSUS_PROVIDERS = 3;
+
+/**
+ * Experiment bucket of a schema (the same schema keeps its prompt version)
+ */
+function promptBucket(schema: { code: string; typeName: string }): string {
+  return `${schema.typeName}\n${schema.code}`;
+}
 
 /**
  * Enhanced provider factory with advanced features
@@ -49,27 +87,271 @@ export class ProviderFactoryV2 {
    * Refine schema with automatic provider selection, caching, and fallback
    */
   async refineSchema(
-    request: RefinementRequest
+    request: RefinementRequest,
+    context: RefinementContext = {}
   ): Promise<Omit<RefinementResponse, 'success' | 'error' | 'errorCode'>> {
     const startTime = Date.now();
 
+    // The customer's policy travels with the request (prompts, cache key and enforcement)
+    if (context.policy) {
+      request = { ...request, policy: context.policy };
+    }
+
+    // So does the prompt version (the active one, or an experiment's candidate for this schema)
+    request = { ...request, prompt: promptRegistry.select('refine', promptBucket(request.schema)) };
+
+    // Redact (or block) PII before any sample leaves the API
+    context.onProgress?.('screening', 0);
+    const { outbound, piiReport } = this.screenSamples(request, context);
+
     // Check cache first
     if (configManager.isEnabled('enableCache')) {
       const cached = responseCache.get(request);
       if (cached) {
         securityAuditor.log('cache_hit', { typeName: request.schema.typeName }, 'low');
-        return cached;
+        this.emitImprovements(cached, context);
+        context.onProgress?.('rendering', 0.95);
+        return { ...renderOutputFormats(request, cached), piiReport };
       }
     }
 
-    // Get available providers
-    const availableProviders = providerRegistry.getEnabledProviders();
-    if (availableProviders.length === 0) {
+    let result: Omit<RefinementResponse, 'success' | 'error' | 'errorCode'>;
+
+    if (request.options?.mode === 'consensus') {
+      context.onProgress?.('refining', 0.1);
+      result = await this.refineConsensus(outbound, context);
+    } else {
+      const { primaryProviderName, fallbackProviders } = this.selectProviders(request.options?.provider, request.schema.code);
+
+      // Try primary provider
+      context.onProgress?.('refining', 0.1);
+      result = await this.tryProvider(
+        primaryProviderName,
+        outbound,
+        'primary',
+        fallbackProviders,
+        context
+      );
+    }
+
+    const response = withSandbox(undefined, (sandbox) =>
+      this.finalizeResult(request, outbound, result, piiReport, context, startTime, sandbox)
+    );
+    this.emitImprovements(response, context);
+    return response;
+  }
+
+  /**
+   * Streaming counterpart of refineSchema: yields improvements as providers parse them,
+   * then a `done` chunk whose `metadata.result` is what refineSchema would have returned.
+   * Streamed improvements that validation drops come back in a `retracted` chunk before it.
+   * Providers without streaming support are called normally. A stream that fails before
+   * its first chunk falls back like refineSchema; once chunks were sent the error is thrown.
+   */
+  async *refineSchemaStream(
+    request: RefinementRequest,
+    context: RefinementContext = {}
+  ): AsyncIterableIterator<StreamChunk> {
+    const startTime = Date.now();
+
+    if (context.policy) {
+      request = { ...request, policy: context.policy };
+    }
+    request = { ...request, prompt: promptRegistry.select('refine', promptBucket(request.schema)) };
+
+    context.onProgress?.('screening', 0);
+    const { outbound, piiReport } = this.screenSamples(request, context);
+
+    if (configManager.isEnabled('enableCache')) {
+      const cached = responseCache.get(request);
+      if (cached) {
+        securityAuditor.log('cache_hit', { typeName: request.schema.typeName }, 'low');
+        yield* this.improvementChunks(cached);
+        context.onProgress?.('rendering', 0.95);
+        yield { delta: '', done: true, metadata: { result: { ...renderOutputFormats(request, cached), piiReport } } };
+        return;
+      }
+    }
+
+    let result: Omit<RefinementResponse, 'success' | 'error' | 'errorCode'>;
+    const streamed: SchemaImprovement[] = [];
+
+    if (request.options?.mode === 'consensus') {
+      // Improvements are only known once the providers' answers are merged
+      context.onProgress?.('refining', 0.1);
+      result = await this.refineConsensus(outbound, context);
+      yield* this.collectImprovements(this.improvementChunks(result), streamed);
+    } else {
+      const { primaryProviderName, fallbackProviders } = this.selectProviders(request.options?.provider, request.schema.code);
+
+      context.onProgress?.('refining', 0.1);
+      result = yield* this.collectImprovements(
+        this.tryProviderStream(primaryProviderName, outbound, 'primary', fallbackProviders, context),
+        streamed
+      );
+    }
+
+    const finalResult = withSandbox(undefined, (sandbox) =>
+      this.finalizeResult(request, outbound, result, piiReport, context, startTime, sandbox)
+    );
+    yield* this.revisionChunks(streamed, finalResult);
+    yield { delta: '', done: true, metadata: { result: finalResult } };
+  }
+
+  /**
+   * Explain why payloads fail a schema. The issues are found locally; a provider selected like
+   * refineSchema words them. Issues the provider leaves out get the built-in wording.
+   */
+  async explainPayloads(
+    request: ExplanationRequest,
+    context: RefinementContext = {}
+  ): Promise<Omit<ExplanationResponse, 'success' | 'error' | 'errorCode'>> {
+    const startTime = Date.now();
+    const { issues, valid } = collectIssues(request.schema.code, request.schema.typeName, request.payloads);
+
+    // Nothing to explain (and nothing to bill)
+    if (issues.length === 0) {
+      return {
+        payloads: mergeExplanations(valid, [], []),
+        creditsUsed: 0,
+        creditsRemaining: -1,
+        processingTime: Date.now() - startTime,
+      };
+    }
+
+    // Providers only see the received values after the PII policy
+    const { values: screened, report: piiReport } = this.screenValues(
+      request.payloads,
+      request.schema.typeName,
+      context
+    );
+    const outbound: ExplanationProviderRequest = {
+      schema: request.schema,
+      issues: issues.map(({ received, ...issue }) => ({ ...issue, ...receivedAt(screened[issue.payloadIndex], issue) })),
+      options: request.options,
+      prompt: promptRegistry.select('explain', promptBucket(request.schema)),
+    };
+
+    const { primaryProviderName, fallbackProviders } = this.selectProviders(
+      request.options?.provider,
+      request.schema.code,
+      (provider) => typeof provider.explainIssues === 'function'
+    );
+    const result = await this.tryExplain(primaryProviderName, outbound, 'primary', fallbackProviders);
+
+    console.log(`✅ Explanation completed in ${Date.now() - startTime}ms`);
+
+    return {
+      payloads: mergeExplanations(valid, issues, result.explanations),
+      ...(result.summary ? { summary: result.summary } : {}),
+      piiReport,
+      ...(result.prompt ? { prompt: result.prompt } : {}),
+      ...(result.usage ? { usage: result.usage } : {}),
+      creditsUsed: result.creditsUsed ?? 1,
+      creditsRemaining: result.creditsRemaining ?? -1,
+      processingTime: Date.now() - startTime,
+      aiProvider: result.aiProvider,
+    };
+  }
+
+  /**
+   * Ask several enabled providers in parallel and merge their answers (options.mode: 'consensus').
+   * The last-resort provider only joins when fewer than two other providers answered.
+   */
+  private async refineConsensus(
+    request: RefinementRequest,
+    context: RefinementContext
+  ): Promise<Omit<RefinementResponse, 'success' | 'error' | 'errorCode'>> {
+    const lastResortProvider = configManager.getConfig().lastResortProvider;
+    const enabledProviders = providerRegistry.getEnabledProviders();
+    const participants = enabledProviders
+      .filter((p) => p.name !== lastResortProvider)
+      .slice(0, MAX_CONSENSUS_PROVIDERS)
+      .map((p) => p.name);
+
+    const results: Array<{ provider: string; result: Omit<RefinementResponse, 'success' | 'error' | 'errorCode'> }> = [];
+    const failures: Array<{ provider: string; error: string }> = [];
+
+    const run = async (names: string[]) => {
+      const settled = await Promise.allSettled(
+        names.map((name) => this.tryProvider(name, request, 'consensus', [], context))
+      );
+      settled.forEach((outcome, i) => {
+        if (outcome.status === 'fulfilled') {
+          results.push({ provider: names[i], result: outcome.value });
+        } else {
+          failures.push({ provider: names[i], error: sanitizeError(outcome.reason) });
+        }
+      });
+    };
+
+    await run(participants);
+
+    if (
+      results.length < 2 &&
+      lastResortProvider &&
+      !participants.includes(lastResortProvider) &&
+      enabledProviders.some((p) => p.name === lastResortProvider)
+    ) {
+      console.log(`🛟 Consensus short of answers, adding last-resort provider ${lastResortProvider}...`);
+      await run([lastResortProvider]);
+    }
+
+    if (results.length < 2) {
+      throw new ProviderError(
+        'consensus',
+        `Consensus mode needs answers from at least two providers (got ${results.length})`
+      );
+    }
+
+    // Every participant was rendered the same prompt version
+    const prompt = results.find(({ result }) => result.prompt)?.result.prompt;
+    const usage = sumUsage(results.map(({ result }) => result.usage));
+    const merged = {
+      ...mergeConsensus(request, results, failures),
+      ...(prompt ? { prompt } : {}),
+      ...(usage ? { usage } : {}),
+    };
+
+    securityAuditor.log(
+      'consensus_merged',
+      {
+        typeName: request.schema.typeName,
+        providers: results.map(({ provider }) => provider),
+        failed: failures.map(({ provider }) => provider),
+        agreed: merged.consensus?.agreed,
+        disagreements: merged.consensus?.disagreements.length,
+      },
+      'low'
+    );
+
+    return merged;
+  }
+
+  /**
+   * Pick the primary provider (requested or by strategy) and its fallbacks
+   */
+  private selectProviders(
+    requestedProvider: string | undefined,
+    schemaCode: string,
+    canServe: (provider: AIProvider) => boolean = () => true
+  ): {
+    primaryProviderName: string;
+    fallbackProviders: string[];
+  } {
+    // Get available providers (the last-resort provider only joins when nothing else is enabled)
+    const enabledProviders = providerRegistry.getEnabledProviders().filter(({ provider }) => canServe(provider));
+    if (enabledProviders.length === 0) {
       throw new Error('No providers available');
     }
 
+    const lastResortProvider = configManager.getConfig().lastResortProvider;
+    let availableProviders = enabledProviders.filter((p) => p.name !== lastResortProvider);
+    if (availableProviders.length === 0) {
+      availableProviders = enabledProviders;
+    }
+
     // Determine provider selection
-    const requestedProvider = request.options?.provider;
     let primaryProviderName: string | null = null;
 
     if (requestedProvider && requestedProvider !== 'auto') {
@@ -79,7 +361,7 @@ export class ProviderFactoryV2 {
       // Use strategy to select provider
       primaryProviderName = configManager.selectProvider(
         availableProviders,
-        this.estimateTokens(request.schema.code),
+        estimateTokens(schemaCode),
         500 // Estimated output tokens
       );
     }
@@ -94,23 +376,124 @@ export class ProviderFactoryV2 {
       availableProviders
     );
 
-    // Try primary provider
-    const result = await this.tryProvider(
-      primaryProviderName,
-      request,
-      'primary',
-      fallbackProviders
-    );
+    return { primaryProviderName, fallbackProviders };
+  }
+
+  /**
+   * Validate, profile, cache and render a provider result. Every schema variant (sample
+   * validation, compatibility, output formats) is evaluated in the request's one sandbox.
+   */
+  private finalizeResult(
+    request: RefinementRequest,
+    outbound: RefinementRequest,
+    providerResult: Omit<RefinementResponse, 'success' | 'error' | 'errorCode'>,
+    piiReport: PiiReport,
+    context: RefinementContext,
+    startTime: number,
+    sandbox: SandboxedSchema
+  ): Omit<RefinementResponse, 'success' | 'error' | 'errorCode'> {
+    // Providers may repeat improvements the caller rejected in an earlier session round
+    let result = this.dropRejected(request, providerResult);
+
+    // Rewrite or reject improvements that break the customer's policy
+    result = this.applyPolicy(request, result);
+
+    // Drop improvements that break the submitted samples
+    context.onProgress?.('validating', 0.8);
+    if (configManager.isEnabled('enableSampleValidation')) {
+      result = this.validateAgainstSamples(request, result, sandbox);
+    }
+
+    // Code-wide policy rules (strict objects) apply to the final code
+    if (request.policy && result.refinedSchema) {
+      result = {
+        ...result,
+        refinedSchema: {
+          ...result.refinedSchema,
+          code: enforcePolicyOnCode(result.refinedSchema.code, request.policy),
+        },
+      };
+    }
 
-    // Cache successful result
+    // Classify every change and find the samples whose result changes
+    if (result.refinedSchema) {
+      result = {
+        ...result,
+        compatibility: analyzeCompatibility(
+          request.schema.code,
+          result.refinedSchema.code,
+          request.schema.typeName,
+          result.refinedSchema.improvements,
+          request.samples,
+          sandbox
+        ),
+      };
+    }
+
+    // Statistics over all samples (the prompt only shows a selection)
+    result = { ...result, fieldProfiles: profileSamples(outbound.samples) };
+
+    // Cache successful result (a cache hit uses no provider tokens)
     if (configManager.isEnabled('enableCache') && result) {
-      responseCache.set(request, result, configManager.getConfig().cacheTTL);
+      const { usage: _usage, ...cacheable } = result;
+      responseCache.set(request, cacheable, configManager.getConfig().cacheTTL);
     }
 
     const totalTime = Date.now() - startTime;
     console.log(`✅ Request completed in ${totalTime}ms`);
 
-    return result;
+    context.onProgress?.('rendering', 0.95);
+    return { ...renderOutputFormats(request, result, sandbox), piiReport };
+  }
+
+  /**
+   * Apply the caller's PII policy to the samples sent to providers
+   * (sample validation still runs locally against the original samples)
+   */
+  private screenSamples(
+    request: RefinementRequest,
+    context: RefinementContext
+  ): { outbound: RefinementRequest; piiReport: PiiReport } {
+    const { values, report } = this.screenValues(request.samples, request.schema.typeName, context);
+    return { outbound: report.redacted ? { ...request, samples: values } : request, piiReport: report };
+  }
+
+  /**
+   * Apply the caller's PII policy to values (samples or payloads) before they reach a provider
+   */
+  private screenValues(
+    values: any[],
+    typeName: string,
+    context: RefinementContext
+  ): { values: any[]; report: PiiReport } {
+    const policy = context.piiPolicy || configManager.getConfig().piiPolicy;
+
+    try {
+      const { samples, report } = applyPiiPolicy(values, policy);
+
+      if (report.findings.length > 0) {
+        securityAuditor.log(
+          report.redacted ? 'pii_redacted' : 'pii_allowed',
+          {
+            typeName,
+            valuesRedacted: report.valuesRedacted,
+            types: Array.from(new Set(report.findings.map((finding) => finding.type))),
+          },
+          report.redacted ? 'low' : 'medium'
+        );
+      }
+
+      return { values: report.redacted ? samples : values, report };
+    } catch (error) {
+      if (error instanceof PiiBlockedError) {
+        securityAuditor.log(
+          'pii_blocked',
+          { typeName, findings: error.report.findings.length },
+          'medium'
+        );
+      }
+      throw error;
+    }
   }
 
   /**
@@ -119,8 +502,9 @@ export class ProviderFactoryV2 {
   private async tryProvider(
     providerName: string,
     request: RefinementRequest,
-    attemptType: 'primary' | 'fallback',
-    fallbackProviders: string[] = []
+    attemptType: 'primary' | 'fallback' | 'consensus',
+    fallbackProviders: string[] = [],
+    context: RefinementContext = {}
   ): Promise<Omit<RefinementResponse, 'success' | 'error' | 'errorCode'>> {
     const provider = providerRegistry.getProvider(providerName);
     const metadata = providerRegistry.getMetadata(providerName);
@@ -140,14 +524,24 @@ export class ProviderFactoryV2 {
         // Try fallback instead
         if (fallbackProviders.length > 0) {
           console.log(`🔄 Trying fallback due to rate limit...`);
+          context.onEvent?.({ type: 'fallback', from: providerName, to: fallbackProviders[0], reason: 'rate_limited' });
           return this.tryProvider(
             fallbackProviders[0],
             request,
             'fallback',
-            fallbackProviders.slice(1)
+            fallbackProviders.slice(1),
+            context
           );
         }
 
+        // Consensus attempts never fall back (the other participants already cover for them)
+        const lastResort = attemptType === 'consensus' ? null : this.getLastResortProvider(providerName);
+        if (lastResort) {
+          console.log(`🛟 Trying last-resort provider ${lastResort} due to rate limit...`);
+          context.onEvent?.({ type: 'fallback', from: providerName, to: lastResort, reason: 'rate_limited' });
+          return this.tryProvider(lastResort, request, 'fallback', [], context);
+        }
+
         throw new ProviderError(
           providerName,
           `Rate limit exceeded. Retry after ${limitCheck.retryAfter}s`
@@ -156,6 +550,7 @@ export class ProviderFactoryV2 {
     }
 
     const requestStartTime = Date.now();
+    context.onEvent?.({ type: 'provider_selected', provider: providerName, attempt: attemptType });
 
     try {
       securityAuditor.log(
@@ -164,48 +559,22 @@ export class ProviderFactoryV2 {
           provider: providerName,
           typeName: request.schema.typeName,
           attempt: attemptType,
+          prompt: request.prompt,
         },
         'low'
       );
 
-      const result = await provider.refineSchema(request);
+      // The prompt must fit the model's context window (split the schema when it is too large)
+      const budgeted = { ...request, tokenBudget: inputTokenBudget(metadata.maxTokensPerRequest) };
+
+      // Tokens and cost (recorded with cost tracking on)
+      const result = this.accountRefinement(providerName, metadata, budgeted, await this.refineWithinBudget(provider, budgeted));
       const responseTime = Date.now() - requestStartTime;
 
       // Record metrics
       if (configManager.isEnabled('enableMetrics')) {
         metricsCollector.record(providerName, true, responseTime);
-      }
-
-      // Track cost
-      if (configManager.isEnabled('enableCostTracking')) {
-        const inputTokens = this.estimateTokens(request.schema.code);
-        const outputTokens = this.estimateTokens(result.refinedSchema?.code || '');
-        const cost = costTracker.calculateCost(
-          providerName,
-          inputTokens,
-          outputTokens,
-          metadata.costPerInputToken,
-          metadata.costPerOutputToken
-        );
-
-        costTracker.track({
-          provider: providerName,
-          inputTokens,
-          outputTokens,
-          cost,
-          model: request.options?.model,
-        });
-
-        // Check daily budget
-        const config = configManager.getConfig();
-        if (config.dailyBudgetLimit) {
-          const today = new Date();
-          today.setHours(0, 0, 0, 0);
-          const exceeded = costTracker.checkBudget(config.dailyBudgetLimit, today);
-          if (exceeded) {
-            console.warn('⚠️  Daily budget limit exceeded!');
-          }
-        }
+        this.recordPromptOutcome(providerName, result);
       }
 
       securityAuditor.log(
@@ -213,6 +582,7 @@ export class ProviderFactoryV2 {
         {
           provider: providerName,
           processingTime: responseTime,
+          prompt: result.prompt,
         },
         'low'
       );
@@ -259,7 +629,27 @@ export class ProviderFactoryV2 {
           'medium'
         );
 
-        return this.tryProvider(nextFallback, request, 'fallback', fallbackProviders.slice(1));
+        context.onEvent?.({ type: 'fallback', from: providerName, to: nextFallback, reason: 'provider_error' });
+        return this.tryProvider(nextFallback, request, 'fallback', fallbackProviders.slice(1), context);
+      }
+
+      // Every other provider failed - try the last-resort provider
+      const lastResort = attemptType === 'consensus' ? null : this.getLastResortProvider(providerName);
+      if (lastResort) {
+        console.log(`🛟 All providers failed, trying last-resort provider ${lastResort}...`);
+
+        securityAuditor.log(
+          'provider_last_resort_attempt',
+          {
+            from: providerName,
+            to: lastResort,
+            typeName: request.schema.typeName,
+          },
+          'medium'
+        );
+
+        context.onEvent?.({ type: 'fallback', from: providerName, to: lastResort, reason: 'provider_error' });
+        return this.tryProvider(lastResort, request, 'fallback', [], context);
       }
 
       // No fallbacks available
@@ -268,11 +658,616 @@ export class ProviderFactoryV2 {
   }
 
   /**
-   * Estimate token count (rough approximation)
+   * Ask a provider to word explanations, with rate limiting, metrics, cost tracking and fallback
    */
-  private estimateTokens(text: string): number {
-    // Rough estimate: ~4 characters per token
-    return Math.ceil(text.length / 4);
+  private async tryExplain(
+    providerName: string,
+    request: ExplanationProviderRequest,
+    attemptType: 'primary' | 'fallback',
+    fallbackProviders: string[]
+  ): Promise<ExplanationResult> {
+    const provider = providerRegistry.getProvider(providerName);
+    const metadata = providerRegistry.getMetadata(providerName);
+
+    if (!provider || !metadata) {
+      throw new Error(`Provider not found: ${providerName}`);
+    }
+
+    // Providers without explanation support are skipped, not counted as failures
+    if (!provider.explainIssues) {
+      const next = this.getNextProvider(providerName, fallbackProviders);
+      if (next) {
+        return this.tryExplain(next.name, request, attemptType, next.remaining);
+      }
+      throw new ProviderError(providerName, `Provider ${providerName} cannot explain validation issues`);
+    }
+
+    if (configManager.isEnabled('enableRateLimiting')) {
+      const limitCheck = await rateLimiter.checkLimit(providerName);
+      if (!limitCheck.allowed) {
+        console.warn(
+          `⏱️  Rate limit exceeded for ${providerName}, retry after ${limitCheck.retryAfter}s`
+        );
+
+        const next = this.getNextProvider(providerName, fallbackProviders);
+        if (next) {
+          return this.tryExplain(next.name, request, 'fallback', next.remaining);
+        }
+
+        throw new ProviderError(
+          providerName,
+          `Rate limit exceeded. Retry after ${limitCheck.retryAfter}s`
+        );
+      }
+    }
+
+    const requestStartTime = Date.now();
+    securityAuditor.log(
+      'provider_attempt',
+      {
+        provider: providerName,
+        typeName: request.schema.typeName,
+        attempt: attemptType,
+        prompt: request.prompt,
+        explanation: true,
+      },
+      'low'
+    );
+
+    try {
+      const explained = await provider.explainIssues(request);
+      const responseTime = Date.now() - requestStartTime;
+
+      if (configManager.isEnabled('enableMetrics')) {
+        metricsCollector.record(providerName, true, responseTime);
+      }
+
+      // Tokens and cost (recorded with cost tracking on)
+      const usage = explained.usage ?? {
+        inputTokens: estimatePromptTokens(buildExplanationPrompt(request)),
+        outputTokens: estimateTokens(JSON.stringify({ explanations: explained.explanations, summary: explained.summary })),
+        estimated: true,
+      };
+      const result = { ...explained, usage: this.priceUsage(providerName, metadata, usage, request.options?.model) };
+
+      securityAuditor.log(
+        'provider_success',
+        {
+          provider: providerName,
+          processingTime: responseTime,
+          prompt: result.prompt,
+          explanation: true,
+        },
+        'low'
+      );
+      providerRegistry.updateHealthStatus(providerName, true);
+
+      return result;
+    } catch (error: any) {
+      const responseTime = Date.now() - requestStartTime;
+
+      if (configManager.isEnabled('enableMetrics')) {
+        metricsCollector.record(providerName, false, responseTime, error.message);
+      }
+      providerRegistry.updateHealthStatus(providerName, false);
+
+      const next = this.getNextProvider(providerName, fallbackProviders);
+
+      securityAuditor.log(
+        'provider_failure',
+        {
+          provider: providerName,
+          error: error instanceof ProviderError ? error.message : String(error),
+          hasFallback: !!next,
+          explanation: true,
+        },
+        'medium'
+      );
+
+      if (!next) {
+        throw error;
+      }
+
+      console.log(`⚠️  Provider ${providerName} failed to explain (${attemptType}), trying ${next.name}...`);
+      return this.tryExplain(next.name, request, 'fallback', next.remaining);
+    }
+  }
+
+  /**
+   * Streaming counterpart of tryProvider (returns the provider's final result)
+   */
+  private async *tryProviderStream(
+    providerName: string,
+    request: RefinementRequest,
+    attemptType: 'primary' | 'fallback',
+    fallbackProviders: string[],
+    context: RefinementContext
+  ): AsyncGenerator<StreamChunk, Omit<RefinementResponse, 'success' | 'error' | 'errorCode'>> {
+    const provider = providerRegistry.getProvider(providerName);
+    const metadata = providerRegistry.getMetadata(providerName);
+
+    if (!provider || !metadata) {
+      throw new Error(`Provider not found: ${providerName}`);
+    }
+
+    const budgeted = { ...request, tokenBudget: inputTokenBudget(metadata.maxTokensPerRequest) };
+
+    // No streaming support, or a schema refined in parts: refine normally (with the usual fallback)
+    // and report the improvements at once
+    if (
+      !provider.refineSchemaStream ||
+      provider.getCapabilities?.().supportsStreaming === false ||
+      this.needsSchemaSplit(budgeted)
+    ) {
+      const result = await this.tryProvider(providerName, request, attemptType, fallbackProviders, context);
+      yield* this.improvementChunks(result);
+      return result;
+    }
+
+    if (configManager.isEnabled('enableRateLimiting')) {
+      const limitCheck = await rateLimiter.checkLimit(providerName);
+      if (!limitCheck.allowed) {
+        console.warn(
+          `⏱️  Rate limit exceeded for ${providerName}, retry after ${limitCheck.retryAfter}s`
+        );
+
+        const next = this.getNextProvider(providerName, fallbackProviders);
+        if (next) {
+          context.onEvent?.({ type: 'fallback', from: providerName, to: next.name, reason: 'rate_limited' });
+          return yield* this.tryProviderStream(next.name, request, 'fallback', next.remaining, context);
+        }
+
+        throw new ProviderError(
+          providerName,
+          `Rate limit exceeded. Retry after ${limitCheck.retryAfter}s`
+        );
+      }
+    }
+
+    const requestStartTime = Date.now();
+    context.onEvent?.({ type: 'provider_selected', provider: providerName, attempt: attemptType });
+    securityAuditor.log(
+      'provider_attempt',
+      {
+        provider: providerName,
+        typeName: request.schema.typeName,
+        attempt: attemptType,
+        prompt: request.prompt,
+        streaming: true,
+      },
+      'low'
+    );
+
+    let chunksReceived = 0;
+    let result: Omit<RefinementResponse, 'success' | 'error' | 'errorCode'> | undefined;
+
+    try {
+      for await (const chunk of provider.refineSchemaStream(budgeted)) {
+        chunksReceived++;
+
+        if (chunk.done) {
+          result = chunk.metadata?.result;
+          break;
+        }
+        yield chunk;
+      }
+
+      if (!result) {
+        throw new ProviderError(providerName, `Stream from ${providerName} provider ended without a result`);
+      }
+    } catch (error: any) {
+      const responseTime = Date.now() - requestStartTime;
+
+      if (configManager.isEnabled('enableMetrics')) {
+        metricsCollector.record(providerName, false, responseTime, error.message);
+      }
+      providerRegistry.updateHealthStatus(providerName, false);
+
+      const next = chunksReceived === 0 ? this.getNextProvider(providerName, fallbackProviders) : null;
+
+      securityAuditor.log(
+        'provider_failure',
+        {
+          provider: providerName,
+          error: error instanceof ProviderError ? error.message : String(error),
+          hasFallback: !!next,
+          chunksReceived,
+        },
+        'medium'
+      );
+
+      // Chunks already went to the caller, so switching providers would mix two answers
+      if (!next) {
+        throw error;
+      }
+
+      console.log(`⚠️  Stream from ${providerName} failed before its first chunk, trying ${next.name}...`);
+      context.onEvent?.({ type: 'fallback', from: providerName, to: next.name, reason: 'provider_error' });
+      return yield* this.tryProviderStream(next.name, request, 'fallback', next.remaining, context);
+    }
+
+    // Tokens and cost (recorded with cost tracking on)
+    result = this.accountRefinement(providerName, metadata, budgeted, result);
+
+    const responseTime = Date.now() - requestStartTime;
+    if (configManager.isEnabled('enableMetrics')) {
+      metricsCollector.record(providerName, true, responseTime);
+      this.recordPromptOutcome(providerName, result);
+    }
+
+    securityAuditor.log(
+      'provider_success',
+      {
+        provider: providerName,
+        processingTime: responseTime,
+        prompt: result.prompt,
+        streaming: true,
+      },
+      'low'
+    );
+    providerRegistry.updateHealthStatus(providerName, true);
+
+    return result;
+  }
+
+  /**
+   * Refine within the request's token budget. A schema whose prompt leaves too little room for
+   * samples is refined per nested object, one part after another, and the answers are merged.
+   */
+  private async refineWithinBudget(
+    provider: AIProvider,
+    request: RefinementRequest
+  ): Promise<Omit<RefinementResponse, 'success' | 'error' | 'errorCode'>> {
+    const parts = this.needsSchemaSplit(request) ? splitSchema(request) : [];
+    if (parts.length === 0) {
+      return provider.refineSchema(request);
+    }
+
+    securityAuditor.log(
+      'schema_split',
+      {
+        provider: provider.name,
+        typeName: request.schema.typeName,
+        parts: parts.map(({ prefix }) => prefix || '(root)'),
+        tokenBudget: request.tokenBudget,
+      },
+      'low'
+    );
+
+    const results: Array<Omit<RefinementResponse, 'success' | 'error' | 'errorCode'>> = [];
+    for (const part of parts) {
+      results.push(await this.refineWithinBudget(provider, part.request));
+    }
+
+    return mergeSchemaParts(request, parts, results);
+  }
+
+  /**
+   * Whether the prompt without samples already takes most of the token budget
+   */
+  private needsSchemaSplit(request: RefinementRequest): boolean {
+    if (request.tokenBudget === undefined) {
+      return false;
+    }
+
+    const schemaOnly = estimatePromptTokens(buildRefinementPrompt({ ...request, samples: [] }));
+    return schemaOnly > request.tokenBudget * SCHEMA_BUDGET_SHARE;
+  }
+
+  /**
+   * Confidence and improvement count per prompt version (answers of prompt-based providers only)
+   */
+  private recordPromptOutcome(
+    providerName: string,
+    result: Omit<RefinementResponse, 'success' | 'error' | 'errorCode'>
+  ): void {
+    if (result.prompt) {
+      metricsCollector.recordPromptOutcome(
+        result.prompt,
+        providerName,
+        result.refinedSchema?.confidence ?? 0,
+        result.refinedSchema?.improvements.length ?? 0
+      );
+    }
+  }
+
+  /**
+   * Next provider to try after a failure: the next fallback, else the last-resort provider
+   */
+  private getNextProvider(
+    failedProvider: string,
+    fallbackProviders: string[]
+  ): { name: string; remaining: string[] } | null {
+    if (fallbackProviders.length > 0) {
+      return { name: fallbackProviders[0], remaining: fallbackProviders.slice(1) };
+    }
+
+    const lastResort = this.getLastResortProvider(failedProvider);
+    return lastResort ? { name: lastResort, remaining: [] } : null;
+  }
+
+  /**
+   * One chunk per improvement of a finished result
+   */
+  private *improvementChunks(
+    result: Omit<RefinementResponse, 'success' | 'error' | 'errorCode'>
+  ): Generator<StreamChunk> {
+    for (const improvement of result.refinedSchema?.improvements || []) {
+      yield { delta: '', done: false, metadata: { improvement } };
+    }
+  }
+
+  /**
+   * Pass chunks through and record the improvements among them (returns the source's result)
+   */
+  private async *collectImprovements<T>(
+    source: Iterator<StreamChunk, T> | AsyncIterator<StreamChunk, T>,
+    streamed: SchemaImprovement[]
+  ): AsyncGenerator<StreamChunk, T> {
+    let step = await source.next();
+    while (!step.done) {
+      if (step.value.metadata?.improvement) {
+        streamed.push(step.value.metadata.improvement);
+      }
+      yield step.value;
+      step = await source.next();
+    }
+    return step.value;
+  }
+
+  /**
+   * Reconcile streamed improvements with the final result: a `retracted` chunk lists the ones
+   * dropped by feedback, the policy or sample validation, then the ones the policy rewrote follow
+   */
+  private *revisionChunks(
+    streamed: SchemaImprovement[],
+    result: Omit<RefinementResponse, 'success' | 'error' | 'errorCode'>
+  ): Generator<StreamChunk> {
+    const improvementKey = ({ field, after }: SchemaImprovement) => JSON.stringify([field, normalizeZodCode(after)]);
+    const final = result.refinedSchema?.improvements || [];
+    const finalKeys = new Set(final.map(improvementKey));
+    const streamedKeys = new Set(streamed.map(improvementKey));
+
+    const retracted = streamed.filter((improvement) => !finalKeys.has(improvementKey(improvement)));
+    if (retracted.length > 0) {
+      yield { delta: '', done: false, metadata: { retracted } };
+    }
+
+    for (const improvement of final) {
+      if (!streamedKeys.has(improvementKey(improvement))) {
+        yield { delta: '', done: false, metadata: { improvement } };
+      }
+    }
+  }
+
+  /**
+   * Attach the tokens of a refinement and their cost. Providers that report no usage are
+   * estimated from the rendered prompt and the answer.
+   */
+  private accountRefinement(
+    providerName: string,
+    metadata: ProviderMetadata,
+    request: RefinementRequest,
+    result: Omit<RefinementResponse, 'success' | 'error' | 'errorCode'>
+  ): Omit<RefinementResponse, 'success' | 'error' | 'errorCode'> {
+    const usage = result.usage ?? {
+      inputTokens: estimatePromptTokens(buildRefinementPrompt(request)),
+      outputTokens: estimateTokens(
+        JSON.stringify({ improvements: result.refinedSchema?.improvements ?? [], suggestions: result.suggestions ?? [] })
+      ),
+      estimated: true,
+    };
+
+    return { ...result, usage: this.priceUsage(providerName, metadata, usage, request.options?.model) };
+  }
+
+  /**
+   * Price token usage at the provider's rates (recorded when cost tracking is on)
+   */
+  private priceUsage(providerName: string, metadata: ProviderMetadata, usage: TokenUsage, model?: string): TokenUsage {
+    const cost = costTracker.calculateCost(
+      providerName,
+      usage.inputTokens,
+      usage.outputTokens,
+      metadata.costPerInputToken,
+      metadata.costPerOutputToken
+    );
+
+    if (configManager.isEnabled('enableCostTracking')) {
+      this.recordCost(providerName, usage, cost, model);
+    }
+
+    return { ...usage, cost };
+  }
+
+  /**
+   * Record the cost of a provider call and warn when the daily budget is exceeded
+   */
+  private recordCost(providerName: string, usage: TokenUsage, cost: number, model?: string): void {
+    costTracker.track({
+      provider: providerName,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      cost,
+      model,
+    });
+
+    // Check daily budget
+    const config = configManager.getConfig();
+    if (config.dailyBudgetLimit) {
+      const today = new Date();
+      today.setHours(0, 0, 0, 0);
+      const exceeded = costTracker.checkBudget(config.dailyBudgetLimit, today);
+      if (exceeded) {
+        console.warn('⚠️  Daily budget limit exceeded!');
+      }
+    }
+  }
+
+  /**
+   * Strip improvements the caller already rejected and re-patch the schema code
+   */
+  private dropRejected(
+    request: RefinementRequest,
+    result: Omit<RefinementResponse, 'success' | 'error' | 'errorCode'>
+  ): Omit<RefinementResponse, 'success' | 'error' | 'errorCode'> {
+    const refinedSchema = result.refinedSchema;
+    if (!refinedSchema || !request.feedback?.rejected.length) {
+      return result;
+    }
+
+    const kept = refinedSchema.improvements.filter((improvement) => !isRejected(improvement, request.feedback));
+    if (kept.length === refinedSchema.improvements.length) {
+      return result;
+    }
+
+    securityAuditor.log(
+      'rejected_improvements_dropped',
+      {
+        provider: result.aiProvider,
+        typeName: request.schema.typeName,
+        dropped: refinedSchema.improvements.length - kept.length,
+      },
+      'low'
+    );
+
+    const patch = applyImprovements(request.schema.code, kept, request.schema.typeName);
+    return {
+      ...result,
+      refinedSchema: {
+        ...refinedSchema,
+        code: patch.code,
+        improvements: kept,
+        unappliedImprovements: patch.unapplied,
+      },
+    };
+  }
+
+  /**
+   * Enforce the customer's policy on the improvements and re-patch the schema code
+   */
+  private applyPolicy(
+    request: RefinementRequest,
+    result: Omit<RefinementResponse, 'success' | 'error' | 'errorCode'>
+  ): Omit<RefinementResponse, 'success' | 'error' | 'errorCode'> {
+    const policy = request.policy;
+    const rules = policyRules(policy);
+    if (!policy || rules.length === 0) {
+      return result;
+    }
+
+    const refinedSchema = result.refinedSchema;
+    const { improvements, violations } = enforcePolicy(refinedSchema?.improvements || [], policy);
+    const policyReport: PolicyReport = {
+      customerId: policy.customerId,
+      packs: policy.packs,
+      rules: rules.length,
+      violations,
+    };
+
+    if (!refinedSchema || violations.length === 0) {
+      return { ...result, policyReport };
+    }
+
+    securityAuditor.log(
+      'policy_enforced',
+      {
+        provider: result.aiProvider,
+        typeName: request.schema.typeName,
+        customerId: policy.customerId,
+        rewritten: violations.filter(({ action }) => action === 'rewritten').length,
+        rejected: violations.filter(({ action }) => action === 'rejected').length,
+      },
+      'low'
+    );
+
+    const patch = applyImprovements(request.schema.code, improvements, request.schema.typeName);
+    return {
+      ...result,
+      policyReport,
+      refinedSchema: {
+        ...refinedSchema,
+        code: patch.code,
+        improvements,
+        unappliedImprovements: patch.unapplied,
+      },
+    };
+  }
+
+  /**
+   * Re-check improvements against the samples and strip the ones that reject them
+   */
+  private validateAgainstSamples(
+    request: RefinementRequest,
+    result: Omit<RefinementResponse, 'success' | 'error' | 'errorCode'>,
+    sandbox: SandboxedSchema
+  ): Omit<RefinementResponse, 'success' | 'error' | 'errorCode'> {
+    const refinedSchema = result.refinedSchema;
+    if (!refinedSchema || refinedSchema.improvements.length === 0 || request.samples.length === 0) {
+      return result;
+    }
+
+    const validation = validateImprovements(
+      request.schema.code,
+      request.schema.typeName,
+      refinedSchema.improvements,
+      request.samples,
+      sandbox
+    );
+
+    if (!validation || validation.rejected.length === 0) {
+      return result;
+    }
+
+    securityAuditor.log(
+      'sample_validation_rejected',
+      {
+        provider: result.aiProvider,
+        typeName: request.schema.typeName,
+        rejected: validation.rejected.map((r) => r.field),
+      },
+      'low'
+    );
+
+    return {
+      ...result,
+      refinedSchema: {
+        ...refinedSchema,
+        code: validation.code,
+        improvements: validation.improvements,
+        unappliedImprovements: validation.unapplied,
+        rejectedImprovements: validation.rejected,
+      },
+    };
+  }
+
+  /**
+   * Report the final improvements to event listeners (after sample validation)
+   */
+  private emitImprovements(
+    result: Omit<RefinementResponse, 'success' | 'error' | 'errorCode'>,
+    context: RefinementContext
+  ): void {
+    if (!context.onEvent) {
+      return;
+    }
+
+    for (const improvement of result.refinedSchema?.improvements || []) {
+      context.onEvent({ type: 'improvement', improvement });
+    }
+  }
+
+  /**
+   * Get the last-resort provider, if configured, enabled and not the one that just failed
+   */
+  private getLastResortProvider(failedProvider: string): string | null {
+    const name = configManager.getConfig().lastResortProvider;
+    if (!name || name === failedProvider) {
+      return null;
+    }
+
+    const metadata = providerRegistry.getMetadata(name);
+    return metadata?.enabled ? name : null;
   }
 
   /**
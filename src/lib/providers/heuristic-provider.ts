@@ -0,0 +1,246 @@
+// Heuristic provider - deterministic, offline schema refinement from samples
+import ts from 'typescript';
+import type {
+  ExplanationProviderRequest,
+  ExplanationResult,
+  RefinementRequest,
+  RefinementResponse,
+  SchemaImprovement,
+} from '../../types/index.js';
+import type { AIProvider } from './base.js';
+import {
+  detectStringFormat,
+  detectEnumValues,
+  getLengthBounds,
+  isIntegerOnly,
+} from '../sample-patterns.js';
+import { applyImprovements, parseSchemaCode } from '../schema-patcher.js';
+import { explainIssue } from '../explain.js';
+import { quote } from '../code-literals.js';
+
+/**
+ * Minimum samples before length bounds are suggested
+ */
+const MIN_SAMPLES_FOR_LENGTH = 3;
+
+/**
+ * Chained methods every Zod type has (string checks like `.min()` or `.email()` do not exist on enums)
+ */
+const WRAPPER_MODIFIERS = new Set(['optional', 'nullable', 'nullish', 'default', 'describe']);
+
+/**
+ * Heuristic provider: refines schemas without calling any LLM.
+ * Used directly by air-gapped deployments and as the last-resort fallback.
+ */
+export class HeuristicProvider implements AIProvider {
+  readonly name = 'heuristic';
+
+  getCapabilities() {
+    return {
+      supportsStreaming: false,
+      supportsJsonMode: true,
+      supportsFunctionCalling: false,
+      supportsVision: false,
+    };
+  }
+
+  async refineSchema(
+    request: RefinementRequest
+  ): Promise<Omit<RefinementResponse, 'success' | 'error' | 'errorCode'>> {
+    const startTime = Date.now();
+
+    const improvements: SchemaImprovement[] = [];
+    for (const [field, before] of Object.entries(request.schema.fields)) {
+      const values = request.samples
+        .map((sample) => (sample && typeof sample === 'object' ? sample[field] : undefined))
+        .filter((value) => value !== undefined && value !== null);
+
+      const improvement = this.analyzeField(field, before, values);
+      if (improvement) {
+        improvements.push(improvement);
+      }
+    }
+
+    const confidence =
+      improvements.length > 0
+        ? improvements.reduce((sum, imp) => sum + imp.confidence, 0) / improvements.length
+        : 0.9;
+
+    const patch = applyImprovements(request.schema.code, improvements, request.schema.typeName);
+
+    return {
+      refinedSchema: {
+        code: patch.code,
+        improvements,
+        confidence,
+        unappliedImprovements: patch.unapplied,
+      },
+      suggestions: improvements.length === 0
+        ? ['No deterministic patterns detected - consider an AI provider for semantic analysis']
+        : [],
+      usage: { inputTokens: 0, outputTokens: 0 }, // No model call
+      creditsUsed: 1,
+      creditsRemaining: -1, // Unlimited for MVP
+      processingTime: Date.now() - startTime,
+      aiProvider: 'heuristic',
+    };
+  }
+
+  /**
+   * Built-in wording for every issue (no semantic reading of the values)
+   */
+  async explainIssues(request: ExplanationProviderRequest): Promise<ExplanationResult> {
+    const startTime = Date.now();
+
+    return {
+      explanations: request.issues.map((issue, issueIndex) => ({ issueIndex, ...explainIssue(issue) })),
+      usage: { inputTokens: 0, outputTokens: 0 }, // No model call
+      creditsUsed: 1,
+      creditsRemaining: -1, // Unlimited for MVP
+      processingTime: Date.now() - startTime,
+      aiProvider: 'heuristic',
+    };
+  }
+
+  async checkHealth(): Promise<boolean> {
+    return true;
+  }
+
+  /**
+   * Derive a single improvement for a field from its sample values
+   */
+  private analyzeField(
+    field: string,
+    before: string,
+    values: unknown[]
+  ): SchemaImprovement | null {
+    const type = before.trim();
+    if (values.length === 0) {
+      return null;
+    }
+
+    const confidence = sampleConfidence(values.length);
+
+    if (type.startsWith('z.string()') && values.every((v) => typeof v === 'string')) {
+      const strings = values as string[];
+      const rest = type.slice('z.string()'.length);
+
+      const format = detectStringFormat(strings);
+      if (format) {
+        // Already validated by the same method, possibly with other options or elsewhere in the chain
+        const [{ method }] = chainCalls(format.zodMethod);
+        if (hasMethod(rest, method)) {
+          return null;
+        }
+        return {
+          field,
+          before: type,
+          after: `z.string()${format.zodMethod}${rest}`,
+          reason: `All ${strings.length} sample values match the ${format.format} format.`,
+          confidence,
+          sourceSnippet: strings[0],
+          detectedPattern: format.detectedPattern,
+          ruleApplied: format.ruleApplied,
+        };
+      }
+
+      const enumValues = detectEnumValues(strings);
+      if (enumValues) {
+        return {
+          field,
+          before: type,
+          after: `z.enum([${enumValues.map(quote).join(', ')}])${wrapperModifiers(rest)}`,
+          reason: `${strings.length} samples contain only ${enumValues.length} distinct values.`,
+          confidence,
+          sourceSnippet: strings[0],
+          detectedPattern: 'enum',
+          ruleApplied: 'low_cardinality_enum',
+        };
+      }
+
+      const bounds = getLengthBounds(strings);
+      if (bounds && strings.length >= MIN_SAMPLES_FOR_LENGTH && !/\.(min|max|length)\(/.test(rest)) {
+        return {
+          field,
+          before: type,
+          after: `z.string().min(${bounds.min}).max(${bounds.max})${rest}`,
+          reason: `Sample lengths range from ${bounds.min} to ${bounds.max} characters.`,
+          confidence: Math.min(confidence, 0.8),
+          sourceSnippet: strings[0],
+          detectedPattern: 'string_length',
+          ruleApplied: 'observed_length_bounds',
+        };
+      }
+
+      return null;
+    }
+
+    if (type.startsWith('z.number()') && values.every((v) => typeof v === 'number')) {
+      const numbers = values as number[];
+      const rest = type.slice('z.number()'.length);
+
+      if (isIntegerOnly(numbers) && !hasMethod(rest, 'int')) {
+        return {
+          field,
+          before: type,
+          after: `z.number().int()${rest}`,
+          reason: `All ${numbers.length} sample values are integers.`,
+          confidence,
+          sourceSnippet: String(numbers[0]),
+          detectedPattern: 'integer',
+          ruleApplied: 'integer_only',
+        };
+      }
+    }
+
+    return null;
+  }
+}
+
+/**
+ * Confidence grows with the number of supporting samples
+ */
+function sampleConfidence(sampleCount: number): number {
+  return Math.min(0.95, 0.5 + sampleCount * 0.05);
+}
+
+/**
+ * Keep only the wrapper modifiers of a method chain (`.min(1).optional()` -> `.optional()`)
+ */
+function wrapperModifiers(chain: string): string {
+  return chainCalls(chain)
+    .filter(({ method }) => WRAPPER_MODIFIERS.has(method))
+    .map(({ text }) => text)
+    .join('');
+}
+
+/**
+ * Check if a method chain already calls a method (`.datetime({ offset: true })` has `datetime`),
+ * whatever its arguments and position
+ */
+function hasMethod(chain: string, method: string): boolean {
+  return chainCalls(chain).some((call) => call.method === method);
+}
+
+/**
+ * Method calls of a chain in order (`.min(1).optional()` -> min, optional), with their source text
+ */
+function chainCalls(chain: string): Array<{ method: string; text: string }> {
+  const source = parseSchemaCode(`_${chain}`);
+  const statement = source.statements[0];
+  const calls: Array<{ method: string; text: string }> = [];
+
+  let node = statement && ts.isExpressionStatement(statement) ? statement.expression : undefined;
+  while (node && ts.isCallExpression(node) && ts.isPropertyAccessExpression(node.expression)) {
+    calls.unshift({
+      method: node.expression.name.text,
+      text: source.text.slice(node.expression.expression.end, node.end),
+    });
+    node = node.expression.expression;
+  }
+
+  return calls;
+}
+
+// Export singleton instance
+export const heuristicProvider = new HeuristicProvider();
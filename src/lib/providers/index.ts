@@ -7,7 +7,7 @@ export { providerFactoryV2 } from './factory-v2.js';
 
 // Export base interfaces
 export type { AIProvider, StreamChunk } from './base.js';
-export { ProviderError } from './base.js';
+export { ProviderError, ProviderOutputError } from './base.js';
 
 // Export registry
 export { providerRegistry, type ProviderMetadata } from './registry.js';
@@ -22,7 +22,7 @@ export { rateLimiter, type RateLimitConfig } from './rate-limiter.js';
 export { costTracker, type CostEntry, type CostSummary } from './cost-tracker.js';
 
 // Export metrics
-export { metricsCollector, type ProviderMetrics } from './metrics.js';
+export { metricsCollector, type ProviderMetrics, type PromptVersionMetrics } from './metrics.js';
 
 // Export config manager
 export { configManager, type ProviderStrategy, type GlobalConfig } from './config-manager.js';
@@ -30,6 +30,7 @@ export { configManager, type ProviderStrategy, type GlobalConfig } from './confi
 // Export providers
 export { openaiProvider, OpenAIProvider } from './openai-provider.js';
 export { anthropicProvider, AnthropicProvider } from './anthropic-provider.js';
+export { heuristicProvider, HeuristicProvider } from './heuristic-provider.js';
 export { mockProvider, MockProvider, createMockProvider } from './mock-provider.js';
 
 // Export bootstrap
@@ -1,4 +1,6 @@
 // Provider metrics collection and monitoring
+import type { PromptVersionRef } from '../../types/index.js';
+
 export interface ProviderMetrics {
   provider: string;
   totalRequests: number;
@@ -14,6 +16,20 @@ export interface ProviderMetrics {
   lastFailureTime?: number;
 }
 
+/**
+ * Outcomes of one prompt version (confidence from provider answers, acceptance from session feedback)
+ */
+export interface PromptVersionMetrics {
+  name: string;
+  version: number;
+  requests: number;           // Successful provider answers
+  averageConfidence: number;
+  averageImprovements: number;
+  accepted: number;           // Improvements accepted in refinement sessions
+  rejected: number;
+  acceptanceRate: number;     // accepted / (accepted + rejected), 0 without feedback
+}
+
 interface MetricEntry {
   timestamp: number;
   provider: string;
@@ -22,11 +38,20 @@ interface MetricEntry {
   error?: string;
 }
 
+interface PromptEntry {
+  timestamp: number;
+  name: string;
+  version: number;
+  outcome?: { provider: string; confidence: number; improvements: number };
+  feedback?: { accepted: number; rejected: number };
+}
+
 /**
  * Metrics collector for provider performance monitoring
  */
 export class MetricsCollector {
   private entries: MetricEntry[] = [];
+  private promptEntries: PromptEntry[] = [];
   private maxEntries: number;
 
   constructor(maxEntries = 10000) {
@@ -59,6 +84,65 @@ export class MetricsCollector {
     );
   }
 
+  /**
+   * Record a provider answer produced with a prompt version
+   */
+  recordPromptOutcome(prompt: PromptVersionRef, provider: string, confidence: number, improvements: number): void {
+    this.pushPromptEntry({
+      timestamp: Date.now(),
+      name: prompt.name,
+      version: prompt.version,
+      outcome: { provider, confidence, improvements },
+    });
+  }
+
+  /**
+   * Record session decisions on improvements that came from a prompt version
+   */
+  recordPromptFeedback(prompt: PromptVersionRef, accepted: number, rejected: number): void {
+    this.pushPromptEntry({
+      timestamp: Date.now(),
+      name: prompt.name,
+      version: prompt.version,
+      feedback: { accepted, rejected },
+    });
+  }
+
+  /**
+   * Compare the versions of a prompt (ordered by version)
+   */
+  getPromptComparison(name: string, since?: Date): PromptVersionMetrics[] {
+    const sinceTimestamp = since ? since.getTime() : 0;
+    const byVersion = new Map<number, PromptEntry[]>();
+
+    for (const entry of this.promptEntries) {
+      if (entry.name === name && entry.timestamp >= sinceTimestamp) {
+        byVersion.set(entry.version, [...(byVersion.get(entry.version) || []), entry]);
+      }
+    }
+
+    return [...byVersion.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([version, entries]) => {
+        const outcomes = entries.flatMap((e) => (e.outcome ? [e.outcome] : []));
+        const accepted = entries.reduce((sum, e) => sum + (e.feedback?.accepted || 0), 0);
+        const rejected = entries.reduce((sum, e) => sum + (e.feedback?.rejected || 0), 0);
+        const average = (values: number[]) =>
+          values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+        return {
+          name,
+          version,
+          requests: outcomes.length,
+          averageConfidence: average(outcomes.map((o) => o.confidence)),
+          averageImprovements: average(outcomes.map((o) => o.improvements)),
+          accepted,
+          rejected,
+          acceptanceRate: accepted + rejected > 0 ? accepted / (accepted + rejected) : 0,
+        };
+      });
+  }
+
   /**
    * Get metrics for a specific provider
    */
@@ -246,9 +330,18 @@ export class MetricsCollector {
    */
   clear(): void {
     this.entries = [];
+    this.promptEntries = [];
     console.log('📊 Metrics cleared');
   }
 
+  private pushPromptEntry(entry: PromptEntry): void {
+    this.promptEntries.push(entry);
+
+    if (this.promptEntries.length > this.maxEntries) {
+      this.promptEntries = this.promptEntries.slice(-this.maxEntries);
+    }
+  }
+
   /**
    * Get entry count
    */
@@ -2,9 +2,29 @@
 import OpenAI from 'openai';
 import { env } from '../../config/env.js';
 import { sanitizeError, securityAuditor, maskApiKey } from '../security.js';
-import type { RefinementRequest, RefinementResponse } from '../../types/index.js';
-import type { AIProvider } from './base.js';
-import { ProviderError } from './base.js';
+import { applyImprovements } from '../schema-patcher.js';
+import { buildRefinementPrompt, promptVersionOf, type RenderedPrompt } from '../prompts.js';
+import { buildExplanationPrompt, parseExplanations } from '../explain.js';
+import type {
+  ExplanationProviderRequest,
+  ExplanationResult,
+  RefinementRequest,
+  RefinementResponse,
+  TokenUsage,
+} from '../../types/index.js';
+import { IncrementalArrayParser } from '../streaming-json.js';
+import { addUsage } from '../tokens.js';
+import type { AIProvider, StreamChunk } from './base.js';
+import { ProviderError, ProviderOutputError } from './base.js';
+import {
+  ExplanationOutputSchema,
+  ImprovementOutputSchema,
+  REFINEMENT_OUTPUT_NAME,
+  REFINEMENT_OUTPUT_STRICT_JSON_SCHEMA,
+  RefinementOutputSchema,
+  validateWithRepair,
+  type RefinementOutput,
+} from './output-validation.js';
 
 // Initialize OpenAI with secured API key
 const openaiClient = new OpenAI({
@@ -15,113 +35,25 @@ const openaiClient = new OpenAI({
 
 console.log('🔐 OpenAI client initialized with key:', maskApiKey(env.OPENAI_API_KEY));
 
-const SYSTEM_PROMPT = `You are an expert TypeScript and Zod schema developer with semantic analysis capabilities. Your task is to analyze a Zod schema and suggest improvements based on sample data.
-
-**Goals**:
-1. Make types more accurate and specific
-2. Add appropriate constraints (min, max, regex, etc.)
-3. Improve validation rules based on business logic
-4. Detect enums where appropriate
-5. Add transformations for data normalization
-6. **Detect field relationships** (e.g., price+currency, lat+lng, street+city+postalCode)
-7. **Identify semantic patterns** beyond simple regex matching
-
-**Advanced Analysis - Context Reasoning**:
-- Detect composite schemas: price+currency → monetary value, lat+lng → geolocation
-- Identify missing fields in common patterns (e.g., createdAt without updatedAt)
-- Recognize domain relationships that suggest nested structures
-- Suggest composite types when fields are semantically related
-- Only suggest relationships with confidence >85%
-
-**Enhanced Explainability**:
-For each improvement, provide:
-1. **reason**: Why this change improves the schema
-2. **sourceSnippet**: Actual sample value that triggered this change (e.g., "user@Example.COM")
-3. **detectedPattern**: Pattern identifier (e.g., "email_format", "uuid_v4", "iso8601_datetime", "monetary_value")
-4. **ruleApplied**: Validation rule used (e.g., "RFC5322_email", "UUID_v4_regex", "ISO8601_datetime_format")
-
-**Rules**:
-- Only suggest changes with high confidence (>80%)
-- Only suggest relationships with confidence >85%
-- Preserve existing valid constraints
-- Consider real-world data patterns
-- Explain reasoning for each change with source attribution
-- Use standard Zod validators
-
-**Output Format** (JSON only, no markdown):
-{
-  "improvements": [
-    {
-      "field": "email",
-      "before": "z.string()",
-      "after": "z.string().email().toLowerCase().trim()",
-      "reason": "Field name and samples indicate email addresses. Added normalization.",
-      "confidence": 0.95,
-      "sourceSnippet": "user@Example.COM",
-      "detectedPattern": "email_format",
-      "ruleApplied": "RFC5322_email"
-    }
-  ],
-  "relationships": [
-    {
-      "fields": ["price", "currency"],
-      "pattern": "monetary_value",
-      "suggestion": "Consider creating a Money type: z.object({ amount: z.number().positive(), currency: z.enum(['USD', 'EUR', 'GBP']) })",
-      "confidence": 0.92
-    }
-  ],
-  "suggestions": [
-    "Consider adding @default for optional fields",
-    "Username should have length constraints"
-  ]
-}`;
-
-function buildPrompt(request: RefinementRequest): string {
-  const { schema, samples } = request;
-
-  return `Analyze this Zod schema and suggest improvements:
-
-**Schema Name**: ${schema.typeName}
-
-**Current Schema**:
-\`\`\`typescript
-${schema.code}
-\`\`\`
-
-**Field Types**:
-${Object.entries(schema.fields)
-  .map(([field, type]) => `- ${field}: ${type}`)
-  .join('\n')}
-
-**Sample Data** (${samples.length} samples):
-\`\`\`json
-${JSON.stringify(samples.slice(0, 10), null, 2)}
-\`\`\`
+type ResponseFormat = OpenAI.Chat.ChatCompletionCreateParams['response_format'];
 
-Provide improvements in JSON format.`;
-}
-
-function buildRefinedSchema(
-  originalSchema: RefinementRequest['schema'],
-  improvements: Array<{ field: string; before: string; after: string }>
-): string {
-  let refinedCode = originalSchema.code;
-
-  // Apply each improvement by replacing before → after
-  improvements.forEach((improvement) => {
-    const fieldPattern = new RegExp(
-      `(${improvement.field}\\s*:\\s*)${escapeRegex(improvement.before)}`,
-      'g'
-    );
-    refinedCode = refinedCode.replace(fieldPattern, `$1${improvement.after}`);
-  });
-
-  return refinedCode;
-}
+/**
+ * Refinement answers follow the generated JSON Schema, enforced by OpenAI (strict structured output)
+ */
+const STRUCTURED_FORMAT: ResponseFormat = {
+  type: 'json_schema',
+  json_schema: {
+    name: REFINEMENT_OUTPUT_NAME,
+    description: 'Improvements, field relationships and suggestions for the schema',
+    schema: REFINEMENT_OUTPUT_STRICT_JSON_SCHEMA,
+    strict: true,
+  },
+};
 
-function escapeRegex(str: string): string {
-  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-}
+/**
+ * Models that rejected the JSON Schema response format (they get free-text JSON mode)
+ */
+const freeTextModels = new Set<string>();
 
 /**
  * OpenAI provider implementation
@@ -156,67 +88,179 @@ export class OpenAIProvider implements AIProvider {
         'low'
       );
 
-      const prompt = buildPrompt(request);
+      const prompt = buildRefinementPrompt(request);
+      const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [
+        { role: 'system', content: prompt.system },
+        { role: 'user', content: prompt.user },
+      ];
 
-      const completion = await openaiClient.chat.completions.create({
-        model: request.options?.model || 'gpt-4-turbo-preview',
-        temperature: request.options?.temperature || 0.2,
-        max_tokens: 2000,
-        messages: [
-          { role: 'system', content: SYSTEM_PROMPT },
-          { role: 'user', content: prompt },
-        ],
-        response_format: { type: 'json_object' },
-      });
+      const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+      const response = await this.complete(request, messages, usage);
+      const parsed = await this.validate(request, messages, response, usage);
+
+      return this.toResponse(request, prompt, parsed, usage, startTime);
+    } catch (error: any) {
+      // Security audit: Log error (sanitized)
+      const sanitizedMessage = sanitizeError(error);
+      securityAuditor.log(
+        'openai_refinement_error',
+        {
+          error: sanitizedMessage,
+          model: request.options?.model,
+        },
+        'high'
+      );
+
+      // Output that failed validation after the repair attempt keeps its type
+      if (error instanceof ProviderOutputError) {
+        throw error;
+      }
+
+      // Throw ProviderError for fallback logic
+      throw new ProviderError('openai', `OpenAI API error: ${sanitizedMessage}`, error);
+    }
+  }
+
+  /**
+   * Stream the completion and yield each improvement as soon as its JSON object is complete
+   */
+  async *refineSchemaStream(request: RefinementRequest): AsyncIterableIterator<StreamChunk> {
+    const startTime = Date.now();
+
+    try {
+      securityAuditor.log(
+        'openai_refinement_request',
+        {
+          typeName: request.schema.typeName,
+          fieldCount: Object.keys(request.schema.fields).length,
+          sampleCount: request.samples.length,
+          model: request.options?.model || 'gpt-4-turbo-preview',
+          streaming: true,
+        },
+        'low'
+      );
+
+      const prompt = buildRefinementPrompt(request);
+      const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [
+        { role: 'system', content: prompt.system },
+        { role: 'user', content: prompt.user },
+      ];
+      const stream = await this.withStructuredOutput(request, (responseFormat) =>
+        openaiClient.chat.completions.create({
+          model: request.options?.model || 'gpt-4-turbo-preview',
+          temperature: request.options?.temperature || 0.2,
+          max_tokens: 2000,
+          messages,
+          response_format: responseFormat,
+          stream: true,
+          stream_options: { include_usage: true },
+        })
+      );
+
+      const parser = new IncrementalArrayParser('improvements');
+      const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+      let text = '';
+
+      for await (const chunk of stream) {
+        // The last chunk carries the usage of the whole completion (and no choices)
+        if (chunk.usage) {
+          addUsage(usage, chunk.usage.prompt_tokens, chunk.usage.completion_tokens);
+        }
+
+        const delta = chunk.choices[0]?.delta?.content;
+        if (!delta) {
+          continue;
+        }
+
+        text += delta;
+        yield { delta, done: false };
+        for (const improvement of parser.push(delta)) {
+          // Malformed improvements are left out here; the final result is validated (and repaired) as a whole
+          const checked = ImprovementOutputSchema.safeParse(improvement);
+          if (checked.success) {
+            yield { delta: '', done: false, metadata: { improvement: checked.data } };
+          }
+        }
+      }
 
-      const response = completion.choices[0]?.message?.content;
-      if (!response) {
+      if (!text.trim()) {
         securityAuditor.log('openai_empty_response', { model: request.options?.model }, 'medium');
         throw new ProviderError('openai', 'Empty response from OpenAI');
       }
 
-      const parsed = JSON.parse(response);
-      const processingTime = Date.now() - startTime;
+      const parsed = await this.validate(request, messages, parser.getJson() || text, usage);
+      const result = this.toResponse(request, prompt, parsed, usage, startTime);
+      yield { delta: '', done: true, metadata: { result } };
+    } catch (error: any) {
+      const sanitizedMessage = sanitizeError(error);
+      securityAuditor.log(
+        'openai_refinement_error',
+        {
+          error: sanitizedMessage,
+          model: request.options?.model,
+          streaming: true,
+        },
+        'high'
+      );
 
-      // Calculate overall confidence
-      const confidences = parsed.improvements?.map((imp: any) => imp.confidence) || [];
-      const averageConfidence =
-        confidences.length > 0
-          ? confidences.reduce((a: number, b: number) => a + b, 0) / confidences.length
-          : 0.9;
+      if (error instanceof ProviderOutputError) {
+        throw error;
+      }
+
+      throw new ProviderError('openai', `OpenAI API error: ${sanitizedMessage}`, error);
+    }
+  }
 
-      // Rebuild the refined schema code
-      const refinedCode = buildRefinedSchema(request.schema, parsed.improvements || []);
+  /**
+   * Explain validation issues in plain language, with a suggested fix per issue
+   */
+  async explainIssues(request: ExplanationProviderRequest): Promise<ExplanationResult> {
+    const startTime = Date.now();
 
-      // Security audit: Log successful refinement
+    try {
       securityAuditor.log(
-        'openai_refinement_success',
+        'openai_explanation_request',
         {
-          improvementsCount: parsed.improvements?.length || 0,
-          confidence: averageConfidence,
-          processingTime,
+          typeName: request.schema.typeName,
+          issueCount: request.issues.length,
+          model: request.options?.model || 'gpt-4-turbo-preview',
         },
         'low'
       );
 
+      const prompt = buildExplanationPrompt(request);
+      const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [
+        { role: 'system', content: prompt.system },
+        { role: 'user', content: prompt.user },
+      ];
+
+      // Same validation and single repair round trip as refinements
+      const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+      const output = await validateWithRepair(
+        'openai',
+        ExplanationOutputSchema,
+        await this.completeExplanation(request, messages, usage),
+        (previous, repairPrompt) =>
+          this.completeExplanation(
+            request,
+            [...messages, { role: 'assistant', content: previous }, { role: 'user', content: repairPrompt }],
+            usage
+          )
+      );
+
       return {
-        refinedSchema: {
-          code: refinedCode,
-          improvements: parsed.improvements || [],
-          confidence: averageConfidence,
-          relationships: parsed.relationships || [],
-        },
-        suggestions: parsed.suggestions || [],
+        ...parseExplanations(output, request.issues.length),
+        prompt: promptVersionOf(prompt),
+        ...(usage.inputTokens + usage.outputTokens > 0 ? { usage } : {}),
         creditsUsed: 1,
         creditsRemaining: -1, // Unlimited for MVP
-        processingTime,
+        processingTime: Date.now() - startTime,
         aiProvider: 'openai',
       };
     } catch (error: any) {
-      // Security audit: Log error (sanitized)
       const sanitizedMessage = sanitizeError(error);
       securityAuditor.log(
-        'openai_refinement_error',
+        'openai_explanation_error',
         {
           error: sanitizedMessage,
           model: request.options?.model,
@@ -224,11 +268,172 @@ export class OpenAIProvider implements AIProvider {
         'high'
       );
 
-      // Throw ProviderError for fallback logic
+      if (error instanceof ProviderOutputError) {
+        throw error;
+      }
+
       throw new ProviderError('openai', `OpenAI API error: ${sanitizedMessage}`, error);
     }
   }
 
+  /**
+   * Run a chat completion and return its text (its tokens are added to usage)
+   */
+  private async complete(
+    request: RefinementRequest,
+    messages: OpenAI.Chat.ChatCompletionMessageParam[],
+    usage: TokenUsage
+  ): Promise<string> {
+    const completion = await this.withStructuredOutput(request, (responseFormat) =>
+      openaiClient.chat.completions.create({
+        model: request.options?.model || 'gpt-4-turbo-preview',
+        temperature: request.options?.temperature || 0.2,
+        max_tokens: 2000,
+        messages,
+        response_format: responseFormat,
+      })
+    );
+
+    addUsage(usage, completion.usage?.prompt_tokens, completion.usage?.completion_tokens);
+
+    const response = completion.choices[0]?.message?.content;
+    if (!response) {
+      securityAuditor.log('openai_empty_response', { model: request.options?.model }, 'medium');
+      throw new ProviderError('openai', 'Empty response from OpenAI');
+    }
+
+    return response;
+  }
+
+  /**
+   * Run an explanation completion in JSON mode and return its text (its tokens are added to usage)
+   */
+  private async completeExplanation(
+    request: ExplanationProviderRequest,
+    messages: OpenAI.Chat.ChatCompletionMessageParam[],
+    usage: TokenUsage
+  ): Promise<string> {
+    const completion = await openaiClient.chat.completions.create({
+      model: request.options?.model || 'gpt-4-turbo-preview',
+      temperature: 0.2,
+      max_tokens: 2000,
+      messages,
+      response_format: { type: 'json_object' },
+    });
+
+    addUsage(usage, completion.usage?.prompt_tokens, completion.usage?.completion_tokens);
+
+    const response = completion.choices[0]?.message?.content;
+    if (!response) {
+      securityAuditor.log('openai_empty_response', { model: request.options?.model }, 'medium');
+      throw new ProviderError('openai', 'Empty response from OpenAI');
+    }
+
+    return response;
+  }
+
+  /**
+   * Request the JSON Schema response format; models that reject it are asked again (and from then on)
+   * in free-text JSON mode
+   */
+  private async withStructuredOutput<T>(
+    request: RefinementRequest,
+    create: (responseFormat: ResponseFormat) => Promise<T>
+  ): Promise<T> {
+    const model = request.options?.model || 'gpt-4-turbo-preview';
+
+    if (!freeTextModels.has(model)) {
+      try {
+        return await create(STRUCTURED_FORMAT);
+      } catch (error: any) {
+        if (error?.status !== 400 || !/response_format|json_schema/i.test(String(error?.message))) {
+          throw error;
+        }
+
+        freeTextModels.add(model);
+        securityAuditor.log('openai_structured_output_unsupported', { model }, 'medium');
+      }
+    }
+
+    return create({ type: 'json_object' });
+  }
+
+  /**
+   * Check the answer's shape, asking the model once to repair a mismatch
+   */
+  private validate(
+    request: RefinementRequest,
+    messages: OpenAI.Chat.ChatCompletionMessageParam[],
+    text: string,
+    usage: TokenUsage
+  ): Promise<RefinementOutput> {
+    return validateWithRepair('openai', RefinementOutputSchema, text, (previous, repairPrompt) =>
+      this.complete(
+        request,
+        [...messages, { role: 'assistant', content: previous }, { role: 'user', content: repairPrompt }],
+        usage
+      )
+    );
+  }
+
+  /**
+   * Turn the validated model output into a refinement response
+   */
+  private toResponse(
+    request: RefinementRequest,
+    prompt: RenderedPrompt,
+    parsed: RefinementOutput,
+    usage: TokenUsage,
+    startTime: number
+  ): Omit<RefinementResponse, 'success' | 'error' | 'errorCode'> {
+    const processingTime = Date.now() - startTime;
+
+    // Calculate overall confidence
+    const confidences = parsed.improvements?.map((imp: any) => imp.confidence) || [];
+    const averageConfidence =
+      confidences.length > 0
+        ? confidences.reduce((a: number, b: number) => a + b, 0) / confidences.length
+        : 0.9;
+
+    // Patch the improvements into the schema code (AST-based)
+    const patch = applyImprovements(
+      request.schema.code,
+      parsed.improvements || [],
+      request.schema.typeName
+    );
+
+    // Security audit: Log successful refinement
+    securityAuditor.log(
+      'openai_refinement_success',
+      {
+        improvementsCount: parsed.improvements?.length || 0,
+        unappliedCount: patch.unapplied.length,
+        confidence: averageConfidence,
+        processingTime,
+      },
+      'low'
+    );
+
+    return {
+      refinedSchema: {
+        code: patch.code,
+        improvements: parsed.improvements || [],
+        confidence: averageConfidence,
+        relationships: parsed.relationships || [],
+        unappliedImprovements: patch.unapplied,
+      },
+      suggestions: parsed.suggestions || [],
+      prompt: promptVersionOf(prompt),
+      promptSamples: prompt.sampleReport,
+      // Without reported usage the provider factory estimates it
+      ...(usage.inputTokens + usage.outputTokens > 0 ? { usage } : {}),
+      creditsUsed: 1,
+      creditsRemaining: -1, // Unlimited for MVP
+      processingTime,
+      aiProvider: 'openai',
+    };
+  }
+
   async checkHealth(): Promise<boolean> {
     try {
       // Simple health check: try to create a minimal completion
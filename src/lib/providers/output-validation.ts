@@ -0,0 +1,214 @@
+// Validation of model output against the expected shape, with one repair round trip
+import { z } from 'zod';
+import { securityAuditor } from '../security.js';
+import { issueLabel } from '../explain.js';
+import { ProviderOutputError } from './base.js';
+
+/**
+ * Validation errors quoted in the repair prompt
+ */
+const MAX_REPAIR_ERRORS = 10;
+
+/**
+ * One improvement as the model must return it
+ */
+export const ImprovementOutputSchema = z.object({
+  field: z.string().min(1),
+  before: z.string(),
+  after: z.string().min(1),
+  reason: z.string(),
+  confidence: z.number().min(0).max(1),
+  // Models quote numeric or boolean sample values unquoted
+  sourceSnippet: z.union([z.string(), z.number(), z.boolean()]).transform(String).optional(),
+  detectedPattern: z.string().optional(),
+  ruleApplied: z.string().optional(),
+});
+
+/**
+ * Refinement answer: improvements, relationships and suggestions
+ */
+export const RefinementOutputSchema = z.object({
+  improvements: z.array(ImprovementOutputSchema).default([]),
+  relationships: z
+    .array(
+      z.object({
+        fields: z.array(z.string()).min(1),
+        pattern: z.string(),
+        suggestion: z.string(),
+        confidence: z.number().min(0).max(1),
+      })
+    )
+    .default([]),
+  suggestions: z.array(z.string()).default([]),
+});
+
+export type RefinementOutput = z.infer<typeof RefinementOutputSchema>;
+
+/**
+ * Name of the refinement answer as an OpenAI response format and an Anthropic tool
+ */
+export const REFINEMENT_OUTPUT_NAME = 'submit_schema_refinement';
+
+const { $schema: _draft, ...refinementJsonSchema } = z.toJSONSchema(RefinementOutputSchema, { io: 'input' });
+
+/**
+ * JSON Schema of the refinement answer, for native structured output (generated from RefinementOutputSchema)
+ */
+export const REFINEMENT_OUTPUT_JSON_SCHEMA: Record<string, unknown> = { ...refinementJsonSchema, required: ['improvements'] };
+
+/**
+ * The same answer in the subset OpenAI enforces with `strict: true`: every property required,
+ * no additional properties, optional properties nullable instead (nulls are dropped before validation)
+ */
+export const REFINEMENT_OUTPUT_STRICT_JSON_SCHEMA: Record<string, unknown> = toStrictJsonSchema(REFINEMENT_OUTPUT_JSON_SCHEMA);
+
+function toStrictJsonSchema(schema: any): any {
+  if (Array.isArray(schema)) {
+    return schema.map(toStrictJsonSchema);
+  }
+  if (!schema || typeof schema !== 'object') {
+    return schema;
+  }
+
+  // Defaults are not supported in strict mode (the Zod schema fills them in)
+  const { default: _default, ...rest } = schema;
+  const strict: Record<string, any> = Object.fromEntries(
+    Object.entries(rest).map(([key, value]) => [key, key === 'properties' ? value : toStrictJsonSchema(value)])
+  );
+
+  if (rest.type === 'object' && rest.properties) {
+    const required = new Set<string>(rest.required ?? []);
+    strict.properties = Object.fromEntries(
+      Object.entries(rest.properties).map(([key, value]) => {
+        const property = toStrictJsonSchema(value);
+        return [key, required.has(key) ? property : nullable(property)];
+      })
+    );
+    strict.required = Object.keys(rest.properties);
+    strict.additionalProperties = false;
+  }
+
+  return strict;
+}
+
+function nullable(schema: Record<string, any>): Record<string, any> {
+  return schema.anyOf ? { ...schema, anyOf: [...schema.anyOf, { type: 'null' }] } : { anyOf: [schema, { type: 'null' }] };
+}
+
+/**
+ * Explanation answer: one plain-language explanation and fix per issue index
+ */
+export const ExplanationOutputSchema = z.object({
+  explanations: z.array(
+    z.object({
+      issue: z.number().int().min(0),
+      explanation: z.string().min(1),
+      fix: z.object({
+        target: z.enum(['schema', 'data']),
+        suggestion: z.string().min(1),
+        code: z.string().optional(),
+      }),
+    })
+  ),
+  summary: z.string().optional(),
+});
+
+export type ExplanationOutput = z.infer<typeof ExplanationOutputSchema>;
+
+export type OutputValidation<T> = { success: true; data: T } | { success: false; errors: string[] };
+
+/**
+ * The JSON text of a model answer: the content of a markdown code fence, or the outermost object
+ */
+export function extractJson(text: string): string {
+  const trimmed = text.trim();
+
+  const fenced = trimmed.match(/```(?:json)?\s*\n([\s\S]*?)\n?```/);
+  if (fenced) {
+    return fenced[1].trim();
+  }
+
+  const start = trimmed.indexOf('{');
+  const end = trimmed.lastIndexOf('}');
+  return start !== -1 && end > start ? trimmed.slice(start, end + 1) : trimmed;
+}
+
+/**
+ * Parse a model answer and check it against a schema. Null properties count as absent
+ * (strict structured output sends null for optional properties).
+ */
+export function validateModelOutput<T>(text: string, schema: z.ZodType<T>): OutputValidation<T> {
+  let parsed: unknown;
+  try {
+    parsed = withoutNullProperties(JSON.parse(extractJson(text)));
+  } catch (error: any) {
+    return { success: false, errors: [`Response is not valid JSON (${error.message})`] };
+  }
+
+  const result = schema.safeParse(parsed);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  return {
+    success: false,
+    errors: result.error.issues.map((issue) => `${issueLabel(issue.path as Array<string | number>)}: ${issue.message}`),
+  };
+}
+
+function withoutNullProperties(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(withoutNullProperties);
+  }
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+
+  return Object.fromEntries(
+    Object.entries(value)
+      .filter(([, property]) => property !== null)
+      .map(([key, property]) => [key, withoutNullProperties(property)])
+  );
+}
+
+/**
+ * Follow-up message asking the model to fix its previous answer
+ */
+export function buildRepairPrompt(errors: string[]): string {
+  const listed = errors.slice(0, MAX_REPAIR_ERRORS).map((error) => `- ${error}`);
+  if (errors.length > MAX_REPAIR_ERRORS) {
+    listed.push(`- ... and ${errors.length - MAX_REPAIR_ERRORS} more`);
+  }
+
+  return `Your previous answer does not match the required output format:
+${listed.join('\n')}
+
+Return the complete corrected answer as valid JSON in the format from the instructions. Return ONLY the JSON, no markdown.`;
+}
+
+/**
+ * Validate a model answer. On a mismatch the model is asked once to repair it (with the
+ * validation errors); a repaired answer that still does not match throws ProviderOutputError.
+ */
+export async function validateWithRepair<T>(
+  provider: string,
+  schema: z.ZodType<T>,
+  text: string,
+  repair: (previous: string, repairPrompt: string) => Promise<string>
+): Promise<T> {
+  const first = validateModelOutput(text, schema);
+  if (first.success) {
+    return first.data;
+  }
+
+  securityAuditor.log('provider_output_invalid', { provider, errorCount: first.errors.length, repairing: true }, 'medium');
+
+  const repaired = validateModelOutput(await repair(text, buildRepairPrompt(first.errors)), schema);
+  if (repaired.success) {
+    securityAuditor.log('provider_output_repaired', { provider }, 'low');
+    return repaired.data;
+  }
+
+  securityAuditor.log('provider_output_invalid', { provider, errorCount: repaired.errors.length, repairing: false }, 'high');
+  throw new ProviderOutputError(provider, repaired.errors);
+}
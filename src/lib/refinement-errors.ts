@@ -0,0 +1,23 @@
+// Error bodies for refinements that run outside a single request/response (batch items, jobs)
+import { z } from 'zod';
+import { PiiBlockedError } from './pii.js';
+import type { RefinementResponse } from '../types/index.js';
+
+/**
+ * Map a refinement failure to the error body /refine would have returned for it
+ */
+export function toRefinementError(error: any): RefinementResponse {
+  if (error instanceof z.ZodError) {
+    return { success: false, error: 'Invalid request format', errorCode: 'INVALID_REQUEST' };
+  }
+
+  if (error instanceof PiiBlockedError) {
+    return { success: false, error: error.message, errorCode: 'PII_BLOCKED', piiReport: error.report };
+  }
+
+  if (error?.message?.includes('API error') || error?.message?.includes('provider')) {
+    return { success: false, error: error.message, errorCode: 'AI_PROVIDER_ERROR' };
+  }
+
+  return { success: false, error: 'Internal server error', errorCode: 'INTERNAL_ERROR' };
+}
@@ -0,0 +1,47 @@
+// Accept/reject decisions from refinement sessions, for prompts and result filtering
+import { normalizeZodCode } from './schema-patcher.js';
+import type { RefinementFeedback, SchemaImprovement } from '../types/index.js';
+
+const MAX_COMMENT_LENGTH = 200;
+
+/**
+ * Check if an improvement repeats one the caller rejected (same field, same Zod type)
+ */
+export function isRejected(improvement: SchemaImprovement, feedback?: RefinementFeedback): boolean {
+  const after = normalizeZodCode(improvement.after);
+  return !!feedback?.rejected.some(
+    (rejected) => rejected.field === improvement.field && normalizeZodCode(rejected.after) === after
+  );
+}
+
+/**
+ * Prompt section describing earlier decisions (empty without feedback)
+ */
+export function summarizeFeedback(feedback?: RefinementFeedback): string {
+  if (!feedback || (feedback.accepted.length === 0 && feedback.rejected.length === 0)) {
+    return '';
+  }
+
+  const sections: string[] = [];
+
+  if (feedback.accepted.length > 0) {
+    sections.push(
+      `**Accepted Changes** (already applied to the schema above, keep them):\n${feedback.accepted
+        .map(({ field, after }) => `- ${field}: ${after}`)
+        .join('\n')}`
+    );
+  }
+
+  if (feedback.rejected.length > 0) {
+    sections.push(
+      `**Rejected Changes** (the user rejected these, do not propose them again):\n${feedback.rejected
+        .map(({ field, after, comment }) => {
+          const note = comment ? ` (comment: ${JSON.stringify(comment.slice(0, MAX_COMMENT_LENGTH))})` : '';
+          return `- ${field}: ${after}${note}`;
+        })
+        .join('\n')}`
+    );
+  }
+
+  return `\n${sections.join('\n\n')}\n`;
+}
@@ -0,0 +1,137 @@
+// Deterministic pattern detection over sample values (no AI required)
+
+/**
+ * String formats that can be detected from sample values
+ */
+export type StringFormat = 'email' | 'uuid' | 'datetime' | 'date' | 'url';
+
+/**
+ * Detection rule for a string format
+ */
+export interface StringFormatRule {
+  format: StringFormat;
+  test: (value: string) => boolean;
+  zodMethod: string; // e.g. ".email()"
+  detectedPattern: string;
+  ruleApplied: string;
+}
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/;
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-8][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+const ISO_DATETIME_REGEX =
+  /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/;
+const ISO_DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Ordered list of string format rules (first match wins)
+ */
+export const STRING_FORMAT_RULES: StringFormatRule[] = [
+  {
+    format: 'uuid',
+    test: (value) => UUID_REGEX.test(value),
+    zodMethod: '.uuid()',
+    detectedPattern: 'uuid',
+    ruleApplied: 'RFC9562_uuid',
+  },
+  {
+    format: 'email',
+    test: (value) => EMAIL_REGEX.test(value),
+    zodMethod: '.email()',
+    detectedPattern: 'email_format',
+    ruleApplied: 'RFC5322_email',
+  },
+  {
+    format: 'datetime',
+    test: (value) => ISO_DATETIME_REGEX.test(value) && !Number.isNaN(Date.parse(value)),
+    zodMethod: '.datetime({ offset: true })',
+    detectedPattern: 'iso8601_datetime',
+    ruleApplied: 'ISO8601_datetime_format',
+  },
+  {
+    format: 'date',
+    test: (value) => ISO_DATE_REGEX.test(value) && !Number.isNaN(Date.parse(value)),
+    zodMethod: '.date()',
+    detectedPattern: 'iso8601_date',
+    ruleApplied: 'ISO8601_date_format',
+  },
+  {
+    format: 'url',
+    test: isUrl,
+    zodMethod: '.url()',
+    detectedPattern: 'url',
+    ruleApplied: 'WHATWG_url',
+  },
+];
+
+/**
+ * Enum detection thresholds
+ */
+export const ENUM_MAX_DISTINCT_VALUES = 10;
+export const ENUM_MIN_SAMPLES = 4;
+export const ENUM_MAX_CARDINALITY_RATIO = 0.5;
+
+/**
+ * Detect the string format shared by every value (null when values disagree)
+ */
+export function detectStringFormat(values: string[]): StringFormatRule | null {
+  if (values.length === 0) {
+    return null;
+  }
+
+  return STRING_FORMAT_RULES.find((rule) => values.every((value) => rule.test(value))) || null;
+}
+
+/**
+ * Check whether string values look like an enum (low cardinality)
+ */
+export function detectEnumValues(values: string[]): string[] | null {
+  if (values.length < ENUM_MIN_SAMPLES) {
+    return null;
+  }
+
+  const distinct = Array.from(new Set(values));
+  if (
+    distinct.length > ENUM_MAX_DISTINCT_VALUES ||
+    distinct.length / values.length > ENUM_MAX_CARDINALITY_RATIO ||
+    distinct.some((value) => value.length === 0)
+  ) {
+    return null;
+  }
+
+  return distinct.sort();
+}
+
+/**
+ * Get min/max string length
+ */
+export function getLengthBounds(values: string[]): { min: number; max: number } | null {
+  if (values.length === 0) {
+    return null;
+  }
+
+  const lengths = values.map((value) => value.length);
+  return { min: Math.min(...lengths), max: Math.max(...lengths) };
+}
+
+/**
+ * Check whether every number is an integer
+ */
+export function isIntegerOnly(values: number[]): boolean {
+  return values.length > 0 && values.every((value) => Number.isInteger(value));
+}
+
+/**
+ * Check whether a string is an absolute http(s) URL
+ */
+function isUrl(value: string): boolean {
+  if (!/^https?:\/\//i.test(value)) {
+    return false;
+  }
+
+  try {
+    new URL(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,232 @@
+// Per-field statistics over all samples (fed into prompts and returned to callers)
+import type { FieldProfile } from '../types/index.js';
+import { STRING_FORMAT_RULES } from './sample-patterns.js';
+
+/**
+ * Profiling limits (keeps pathological samples cheap)
+ */
+export const MAX_PROFILE_DEPTH = 8;
+export const MAX_PROFILED_FIELDS = 200;
+export const MAX_TOP_VALUES = 5;
+const MAX_TRACKED_VALUES = 1000;
+const MAX_TOP_VALUE_LENGTH = 50;
+
+/**
+ * Fields listed in the prompt summary
+ */
+export const MAX_PROMPT_PROFILE_FIELDS = 50;
+
+interface FieldAccumulator {
+  parentPath: string;
+  present: number;
+  nulls: number;
+  values: Map<string, { value: string | number | boolean; count: number }>;
+  types: Record<string, number>;
+  strings: number;
+  length?: { min: number; max: number };
+  range?: { min: number; max: number; integer: boolean };
+  formats: Record<string, number>;
+}
+
+const profileCache = new WeakMap<any[], Record<string, FieldProfile>>();
+
+/**
+ * Profile every field across all samples.
+ *
+ * Nested fields use dotted paths ("address.city"); array elements use "[]"
+ * ("items[].sku"). Missing rate is relative to the parent objects that were seen,
+ * null rate to the values that were present. Results are memoized per samples array.
+ */
+export function profileSamples(samples: any[]): Record<string, FieldProfile> {
+  const cached = profileCache.get(samples);
+  if (cached) {
+    return cached;
+  }
+
+  const fields = new Map<string, FieldAccumulator>();
+  const objectCounts = new Map<string, number>();
+
+  const visitObject = (object: Record<string, any>, path: string, depth: number): void => {
+    objectCounts.set(path, (objectCounts.get(path) || 0) + 1);
+    if (depth >= MAX_PROFILE_DEPTH) {
+      return;
+    }
+
+    for (const [key, value] of Object.entries(object)) {
+      visitValue(value, path ? `${path}.${key}` : key, path, depth + 1);
+    }
+  };
+
+  const visitValue = (value: any, path: string, parentPath: string, depth: number): void => {
+    let field = fields.get(path);
+    if (!field) {
+      if (fields.size >= MAX_PROFILED_FIELDS) {
+        return;
+      }
+      field = { parentPath, present: 0, nulls: 0, values: new Map(), types: {}, strings: 0, formats: {} };
+      fields.set(path, field);
+    }
+
+    recordValue(field, value);
+
+    if (Array.isArray(value)) {
+      if (depth < MAX_PROFILE_DEPTH) {
+        const elementPath = `${path}[]`;
+        for (const element of value) {
+          if (isPlainObject(element)) {
+            visitObject(element, elementPath, depth);
+          }
+        }
+      }
+    } else if (isPlainObject(value)) {
+      visitObject(value, path, depth);
+    }
+  };
+
+  for (const sample of samples) {
+    if (isPlainObject(sample)) {
+      visitObject(sample, '', 0);
+    }
+  }
+
+  const profiles: Record<string, FieldProfile> = {};
+  for (const [path, field] of fields) {
+    profiles[path] = toProfile(field, objectCounts.get(field.parentPath) || field.present);
+  }
+
+  profileCache.set(samples, profiles);
+  return profiles;
+}
+
+function recordValue(field: FieldAccumulator, value: any): void {
+  field.present++;
+
+  if (value === null || value === undefined) {
+    field.nulls++;
+    return;
+  }
+
+  const type = Array.isArray(value) ? 'array' : typeof value;
+  field.types[type] = (field.types[type] || 0) + 1;
+
+  if (type === 'string') {
+    field.strings++;
+    field.length = extend(field.length, value.length);
+    for (const rule of STRING_FORMAT_RULES) {
+      if (rule.test(value)) {
+        field.formats[rule.format] = (field.formats[rule.format] || 0) + 1;
+      }
+    }
+  } else if (type === 'number' && Number.isFinite(value)) {
+    const range = extend(field.range, value);
+    field.range = { ...range, integer: (field.range?.integer ?? true) && Number.isInteger(value) };
+  }
+
+  if (type === 'string' || type === 'number' || type === 'boolean') {
+    const key = `${type}:${value}`;
+    const entry = field.values.get(key);
+    if (entry) {
+      entry.count++;
+    } else if (field.values.size < MAX_TRACKED_VALUES) {
+      field.values.set(key, { value, count: 1 });
+    }
+  }
+}
+
+function toProfile(field: FieldAccumulator, parentCount: number): FieldProfile {
+  const profile: FieldProfile = {
+    presentCount: field.present,
+    missingRate: parentCount > 0 ? round(1 - field.present / parentCount) : 0,
+    nullRate: field.present > 0 ? round(field.nulls / field.present) : 0,
+    distinctCount: field.values.size,
+    topValues: [...field.values.values()]
+      .sort((a, b) => b.count - a.count)
+      .slice(0, MAX_TOP_VALUES)
+      .map(({ value, count }) => ({
+        value: typeof value === 'string' ? truncate(value) : value,
+        count,
+      })),
+    types: field.types,
+  };
+
+  if (field.length) {
+    profile.length = field.length;
+  }
+  if (field.range) {
+    profile.range = field.range;
+  }
+  if (field.strings > 0 && Object.keys(field.formats).length > 0) {
+    profile.formats = Object.fromEntries(
+      Object.entries(field.formats).map(([format, count]) => [format, round(count / field.strings)])
+    );
+  }
+
+  return profile;
+}
+
+/**
+ * Summarize field profiles as compact prompt lines
+ */
+export function summarizeFieldProfiles(
+  profiles: Record<string, FieldProfile>,
+  maxFields = MAX_PROMPT_PROFILE_FIELDS
+): string {
+  const entries = Object.entries(profiles);
+  const lines = entries.slice(0, maxFields).map(([path, profile]) => {
+    const parts = [
+      Object.keys(profile.types).join('|') || 'null',
+      `missing ${percent(profile.missingRate)}`,
+      `null ${percent(profile.nullRate)}`,
+      `${profile.distinctCount} distinct`,
+    ];
+
+    if (profile.length) {
+      parts.push(`length ${profile.length.min}-${profile.length.max}`);
+    }
+    if (profile.range) {
+      parts.push(`range ${profile.range.min}..${profile.range.max}${profile.range.integer ? ' (integers)' : ''}`);
+    }
+    if (profile.formats) {
+      parts.push(
+        `formats ${Object.entries(profile.formats)
+          .map(([format, share]) => `${format} ${percent(share)}`)
+          .join(', ')}`
+      );
+    }
+    if (profile.topValues.length > 0) {
+      parts.push(
+        `top ${profile.topValues.map(({ value, count }) => `${JSON.stringify(value)} (${count})`).join(', ')}`
+      );
+    }
+
+    return `- ${path}: ${parts.join('; ')}`;
+  });
+
+  if (entries.length > maxFields) {
+    lines.push(`- ... ${entries.length - maxFields} more fields`);
+  }
+
+  return lines.join('\n');
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function extend(bounds: { min: number; max: number } | undefined, value: number) {
+  return bounds
+    ? { min: Math.min(bounds.min, value), max: Math.max(bounds.max, value) }
+    : { min: value, max: value };
+}
+
+function truncate(value: string): string {
+  return value.length > MAX_TOP_VALUE_LENGTH ? `${value.slice(0, MAX_TOP_VALUE_LENGTH)}…` : value;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function percent(share: number): string {
+  return `${Math.round(share * 100)}%`;
+}
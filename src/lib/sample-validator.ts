@@ -0,0 +1,171 @@
+// Validation of schema improvements against the submitted samples
+import type {
+  SchemaImprovement,
+  UnappliedImprovement,
+  RejectedImprovement,
+  SampleFailure,
+} from '../types/index.js';
+import { applyImprovements } from './schema-patcher.js';
+import { withSandbox, type SandboxedSchema, type SandboxParseResult } from './schema-sandbox.js';
+
+/**
+ * Maximum failures reported per rejected improvement
+ */
+const MAX_FAILURES_PER_IMPROVEMENT = 10;
+
+/**
+ * Result of validating improvements against samples
+ */
+export interface SampleValidationResult {
+  code: string;                         // Schema code with only the accepted improvements
+  improvements: SchemaImprovement[];    // Accepted (and unapplied) improvements
+  unapplied: UnappliedImprovement[];
+  rejected: RejectedImprovement[];
+}
+
+/**
+ * Improvements checked one by one when the combined schema rejects samples
+ */
+export const MAX_ISOLATED_CHECKS = 16;
+
+/**
+ * Validate the applicable improvements against the samples.
+ *
+ * All schema variants run in one sandbox isolate (Zod is loaded once). The schema with every
+ * improvement applied is checked first; only when it makes a sample fail (where the original
+ * schema accepted it) are the improvements patched in and checked one by one, at most
+ * MAX_ISOLATED_CHECKS of them. The failing ones are rejected, and so are those left unchecked.
+ *
+ * The variants are loaded into the given sandbox (shared with the rest of the request), else
+ * into one created for the validation.
+ *
+ * Returns null when the original schema cannot be evaluated.
+ */
+export function validateImprovements(
+  code: string,
+  typeName: string,
+  improvements: SchemaImprovement[],
+  samples: unknown[],
+  sandbox?: SandboxedSchema
+): SampleValidationResult | null {
+  return withSandbox(sandbox, (shared) => {
+    let baseline: SandboxParseResult[];
+    try {
+      shared.load(code, typeName);
+      baseline = shared.safeParseAll(samples);
+    } catch {
+      return null;
+    }
+
+    return validateInSandbox(shared, baseline, code, typeName, improvements, samples);
+  });
+}
+
+function validateInSandbox(
+  sandbox: SandboxedSchema,
+  baseline: SandboxParseResult[],
+  code: string,
+  typeName: string,
+  improvements: SchemaImprovement[],
+  samples: unknown[]
+): SampleValidationResult {
+  const initial = applyImprovements(code, improvements, typeName);
+
+  // Failures a schema variant adds to the baseline (a variant that does not compile throws)
+  const newFailures = (variant: string): SampleFailure[] => {
+    sandbox.load(variant, typeName);
+    return findNewFailures(baseline, sandbox.safeParseAll(samples));
+  };
+
+  if (initial.applied.length === 0 || combinedPasses(() => newFailures(initial.code))) {
+    return { code: initial.code, improvements, unapplied: initial.unapplied, rejected: [] };
+  }
+
+  const rejected: RejectedImprovement[] = [];
+
+  initial.applied.forEach((improvement, index) => {
+    if (index >= MAX_ISOLATED_CHECKS) {
+      rejected.push({
+        ...improvement,
+        rejectedReason: `Not validated: the combined schema rejects samples and only ${MAX_ISOLATED_CHECKS} improvements are checked one by one`,
+        failures: [],
+      });
+      return;
+    }
+
+    let failures: SampleFailure[];
+    try {
+      failures = newFailures(applyImprovements(code, [improvement], typeName).code);
+    } catch (error: any) {
+      rejected.push({ ...improvement, rejectedReason: error.message, failures: [] });
+      return;
+    }
+
+    if (failures.length > 0) {
+      const failedSamples = new Set(failures.map((failure) => failure.sampleIndex)).size;
+      rejected.push({
+        ...improvement,
+        rejectedReason: `Improved schema rejects ${failedSamples} of ${samples.length} samples`,
+        failures: failures.slice(0, MAX_FAILURES_PER_IMPROVEMENT),
+      });
+    }
+  });
+
+  if (rejected.length === 0) {
+    return { code: initial.code, improvements, unapplied: initial.unapplied, rejected };
+  }
+
+  const accepted = improvements.filter(
+    (improvement) => !rejected.some((r) => isSameImprovement(r, improvement))
+  );
+
+  const patch = applyImprovements(code, accepted, typeName);
+
+  return {
+    code: patch.code,
+    improvements: accepted,
+    unapplied: patch.unapplied,
+    rejected,
+  };
+}
+
+function combinedPasses(check: () => SampleFailure[]): boolean {
+  try {
+    return check().length === 0;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Collect issues that are not present in the baseline results
+ */
+function findNewFailures(
+  baseline: SandboxParseResult[],
+  results: SandboxParseResult[]
+): SampleFailure[] {
+  const failures: SampleFailure[] = [];
+
+  results.forEach((result, sampleIndex) => {
+    if (result.success) {
+      return;
+    }
+
+    const known = new Set(baseline[sampleIndex]?.issues.map(issueKey) || []);
+    for (const issue of result.issues) {
+      if (!known.has(issueKey(issue))) {
+        failures.push({ sampleIndex, path: issue.path, message: issue.message, code: issue.code });
+      }
+    }
+  });
+
+  return failures;
+}
+
+function issueKey(issue: { path: Array<string | number>; code: string }): string {
+  return `${issue.path.join('.')}:${issue.code}`;
+}
+
+function isSameImprovement(a: SchemaImprovement, b: SchemaImprovement): boolean {
+  return a.field === b.field && a.before === b.before && a.after === b.after;
+}
@@ -0,0 +1,150 @@
+// Initial Zod schema inference from raw sample data
+import type { InferredSchema } from '../types/index.js';
+import { formatKey } from './code-literals.js';
+
+/**
+ * Maximum nesting depth that is inferred (deeper values become z.unknown())
+ */
+export const MAX_INFERENCE_DEPTH = 32;
+
+/**
+ * Merged shape of every value observed at one position in the samples
+ */
+interface TypeNode {
+  count: number; // Times a value (including null) was present
+  nullable: boolean;
+  primitives: Set<'string' | 'number' | 'boolean'>;
+  object?: Map<string, TypeNode>;
+  objectCount: number;
+  array?: TypeNode;
+}
+
+/**
+ * Infer a Zod schema from sample data.
+ *
+ * Keys missing from some objects become `.optional()`, null values become
+ * `.nullable()` and values with several types become `z.union([...])`.
+ */
+export function inferSchema(samples: unknown[], typeName: string): InferredSchema {
+  const root = createNode();
+  for (const sample of samples) {
+    mergeValue(root, sample, 0);
+  }
+
+  const schemaName = `${typeName}Schema`;
+  const expression = renderNode(root, 0);
+
+  const fields: Record<string, string> = {};
+  if (root.object && root.primitives.size === 0 && !root.array) {
+    for (const [key, property] of root.object) {
+      fields[key] = renderProperty(property, root.objectCount, 0);
+    }
+  }
+
+  const code = [
+    "import { z } from 'zod';",
+    '',
+    `export const ${schemaName} = ${expression};`,
+    '',
+    `export type ${typeName} = z.infer<typeof ${schemaName}>;`,
+    '',
+  ].join('\n');
+
+  return { code, typeName, fields };
+}
+
+function createNode(): TypeNode {
+  return { count: 0, nullable: false, primitives: new Set(), objectCount: 0 };
+}
+
+/**
+ * Merge a single value into a type node
+ */
+function mergeValue(node: TypeNode, value: unknown, depth: number): void {
+  node.count++;
+
+  if (value === null || value === undefined) {
+    node.nullable = true;
+    return;
+  }
+
+  if (depth >= MAX_INFERENCE_DEPTH) {
+    return;
+  }
+
+  if (Array.isArray(value)) {
+    node.array ??= createNode();
+    for (const item of value) {
+      mergeValue(node.array, item, depth + 1);
+    }
+    return;
+  }
+
+  if (typeof value === 'object') {
+    node.object ??= new Map();
+    node.objectCount++;
+    for (const [key, child] of Object.entries(value)) {
+      let property = node.object.get(key);
+      if (!property) {
+        property = createNode();
+        node.object.set(key, property);
+      }
+      mergeValue(property, child, depth + 1);
+    }
+    return;
+  }
+
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    node.primitives.add(typeof value as 'string' | 'number' | 'boolean');
+  }
+}
+
+/**
+ * Render a type node as a Zod expression
+ */
+function renderNode(node: TypeNode, indent: number): string {
+  const variants: string[] = [];
+
+  for (const primitive of node.primitives) {
+    variants.push(`z.${primitive}()`);
+  }
+
+  if (node.object) {
+    variants.push(renderObject(node, indent));
+  }
+
+  if (node.array) {
+    const element = node.array.count > 0 ? renderNode(node.array, indent) : 'z.unknown()';
+    variants.push(`z.array(${element})`);
+  }
+
+  // Only nulls (or nothing) observed - the type cannot be inferred
+  if (variants.length === 0) {
+    return 'z.unknown()';
+  }
+
+  const expression = variants.length === 1 ? variants[0] : `z.union([${variants.join(', ')}])`;
+  return node.nullable ? `${expression}.nullable()` : expression;
+}
+
+function renderObject(node: TypeNode, indent: number): string {
+  const properties = node.object!;
+  if (properties.size === 0) {
+    return 'z.object({})';
+  }
+
+  const padding = '  '.repeat(indent + 1);
+  const lines = Array.from(properties, ([key, property]) =>
+    `${padding}${formatKey(key)}: ${renderProperty(property, node.objectCount, indent + 1)},`
+  );
+
+  return `z.object({\n${lines.join('\n')}\n${'  '.repeat(indent)}})`;
+}
+
+/**
+ * Render an object property, optional when some objects lack the key
+ */
+function renderProperty(property: TypeNode, objectCount: number, indent: number): string {
+  const expression = renderNode(property, indent);
+  return property.count < objectCount ? `${expression}.optional()` : expression;
+}
@@ -0,0 +1,325 @@
+// Deterministic intermediate representation of a Zod schema (input for code generation targets)
+import { withCompiledSchema, type SandboxedSchema } from './schema-sandbox.js';
+
+export interface RegexSource {
+  source: string;
+  flags: string;
+}
+
+export type LiteralValue = string | number | boolean | null;
+
+/**
+ * A schema node. Constraints that cannot be represented (transforms, custom refinements)
+ * are dropped and reported in SchemaIR.warnings.
+ */
+export type SchemaNode =
+  | {
+      kind: 'string';
+      format?: string;             // Zod string format ("email", "uuid", "datetime", ...)
+      formatPattern?: RegexSource; // Regex Zod uses for the format (when it has one)
+      patterns?: RegexSource[];    // .regex(), .startsWith(), .includes(), ...
+      minLength?: number;
+      maxLength?: number;
+      length?: number;
+      coerce?: boolean;
+    }
+  | {
+      kind: 'number';
+      integer?: boolean;
+      minimum?: number;
+      maximum?: number;
+      exclusiveMinimum?: number;
+      exclusiveMaximum?: number;
+      multipleOf?: number;
+      coerce?: boolean;
+    }
+  | { kind: 'boolean'; coerce?: boolean }
+  | { kind: 'bigint'; coerce?: boolean }
+  | { kind: 'date'; coerce?: boolean }
+  | { kind: 'literal'; values: LiteralValue[] }
+  | { kind: 'enum'; values: Array<string | number> }
+  | { kind: 'array'; element: SchemaNode; minItems?: number; maxItems?: number; length?: number }
+  | { kind: 'tuple'; items: SchemaNode[]; rest?: SchemaNode }
+  | { kind: 'object'; properties: SchemaProperty[]; unknownKeys: 'strip' | 'strict' | 'passthrough'; catchall?: SchemaNode }
+  | { kind: 'record'; key: SchemaNode; value: SchemaNode }
+  | { kind: 'union'; options: SchemaNode[] }
+  | { kind: 'intersection'; left: SchemaNode; right: SchemaNode }
+  | { kind: 'optional'; inner: SchemaNode }
+  | { kind: 'nullable'; inner: SchemaNode }
+  | { kind: 'default'; inner: SchemaNode; value: unknown }
+  | { kind: 'null' }
+  | { kind: 'undefined' }
+  | { kind: 'any' }
+  | { kind: 'unknown' }
+  | { kind: 'never' };
+
+export interface SchemaProperty {
+  name: string;
+  schema: SchemaNode;
+}
+
+export interface SchemaIR {
+  root: SchemaNode;
+  warnings: string[]; // Parts of the Zod schema no target can reproduce
+}
+
+/**
+ * Compile Zod schema code (sandboxed) and describe its root schema
+ */
+export function buildSchemaIR(code: string, typeName?: string, sandbox?: SandboxedSchema): SchemaIR {
+  return withCompiledSchema(code, typeName, describeSchema, sandbox);
+}
+
+/**
+ * Describe an already compiled schema
+ */
+export function describeSchema(sandboxed: SandboxedSchema): SchemaIR {
+  return sandboxed.inspect((schema) => {
+    const warnings: string[] = [];
+    const root = describeNode(schema, '', warnings, []);
+    return { root, warnings };
+  });
+}
+
+/**
+ * Path label for warnings ("address.city", "items[]", "(root)")
+ */
+export function pathLabel(path: string): string {
+  return path || '(root)';
+}
+
+function describeNode(schema: any, path: string, warnings: string[], stack: any[]): SchemaNode {
+  const def = schema?._zod?.def;
+  if (!def) {
+    warnings.push(`${pathLabel(path)}: not a Zod schema`);
+    return { kind: 'unknown' };
+  }
+
+  // Recursive schemas (z.lazy) cannot be inlined
+  if (stack.includes(schema)) {
+    warnings.push(`${pathLabel(path)}: recursive schema is generated as unknown`);
+    return { kind: 'unknown' };
+  }
+
+  const inner = stack.concat(schema);
+  const child = (node: any, childPath: string) => describeNode(node, childPath, warnings, inner);
+  const checks: any[] = (def.checks || []).map((check: any) => check._zod?.def || {});
+
+  // Custom refinements (.refine(), .superRefine()) run code that cannot be generated
+  if (checks.some((check) => check.check === 'custom')) {
+    warnings.push(`${pathLabel(path)}: custom refinement is not generated`);
+  }
+  if (checks.some((check) => check.check === 'overwrite')) {
+    warnings.push(`${pathLabel(path)}: value normalization (trim, case) is not generated`);
+  }
+
+  switch (def.type) {
+    case 'string':
+      return describeString(def, checks);
+
+    case 'number':
+      return describeNumber(def, checks);
+
+    case 'boolean':
+    case 'bigint':
+    case 'date':
+      return { kind: def.type, ...(def.coerce ? { coerce: true } : {}) };
+
+    case 'literal':
+      return { kind: 'literal', values: def.values };
+
+    case 'enum':
+      return { kind: 'enum', values: Array.from(new Set(Object.values(def.entries) as Array<string | number>)) };
+
+    case 'array':
+      return {
+        kind: 'array',
+        element: child(def.element, `${path}[]`),
+        ...lengthBounds(checks, 'minItems', 'maxItems'),
+      } as SchemaNode;
+
+    case 'tuple':
+      return {
+        kind: 'tuple',
+        items: def.items.map((item: any, index: number) => child(item, `${path}[${index}]`)),
+        ...(def.rest ? { rest: child(def.rest, `${path}[]`) } : {}),
+      };
+
+    case 'object':
+      return describeObject(def, path, child);
+
+    case 'record':
+      return { kind: 'record', key: child(def.keyType, path), value: child(def.valueType, `${path}.*`) };
+
+    case 'union':
+      return { kind: 'union', options: def.options.map((option: any) => child(option, path)) };
+
+    case 'intersection':
+      return { kind: 'intersection', left: child(def.left, path), right: child(def.right, path) };
+
+    case 'optional':
+      return { kind: 'optional', inner: child(def.innerType, path) };
+
+    case 'nullable':
+      return { kind: 'nullable', inner: child(def.innerType, path) };
+
+    case 'default':
+    case 'prefault':
+      return { kind: 'default', inner: child(def.innerType, path), value: toJsonValue(def.defaultValue) };
+
+    case 'readonly':
+    case 'nonoptional':
+      return child(def.innerType, path);
+
+    case 'catch':
+      warnings.push(`${pathLabel(path)}: .catch() fallback is not generated`);
+      return child(def.innerType, path);
+
+    case 'pipe':
+      // .transform() is a pipe into a transform; only the input side can be generated
+      if (def.out?._zod?.def?.type === 'transform') {
+        warnings.push(`${pathLabel(path)}: .transform() is not generated (input validation only)`);
+        return child(def.in, path);
+      }
+      warnings.push(`${pathLabel(path)}: .pipe() is generated as its output schema`);
+      return child(def.out, path);
+
+    case 'lazy':
+      return child(def.getter(), path);
+
+    case 'null':
+    case 'undefined':
+    case 'any':
+    case 'unknown':
+    case 'never':
+      return { kind: def.type };
+
+    case 'void':
+      return { kind: 'undefined' };
+
+    default:
+      warnings.push(`${pathLabel(path)}: z.${def.type}() has no equivalent and is generated as unknown`);
+      return { kind: 'unknown' };
+  }
+}
+
+function describeString(def: any, checks: any[]): SchemaNode {
+  const node: Extract<SchemaNode, { kind: 'string' }> = { kind: 'string', ...lengthBounds(checks, 'minLength', 'maxLength') };
+
+  // z.email() and friends carry the format on the schema itself
+  for (const check of def.format ? [def, ...checks] : checks) {
+    if (check.check !== 'string_format') {
+      continue;
+    }
+
+    const pattern = isRealmObject(check.pattern, 'RegExp') ? toRegexSource(check.pattern) : undefined;
+    if (['regex', 'starts_with', 'ends_with', 'includes', 'lowercase', 'uppercase'].includes(check.format)) {
+      if (pattern) {
+        node.patterns = [...(node.patterns || []), pattern];
+      }
+    } else {
+      node.format = check.format;
+      if (pattern) {
+        node.formatPattern = pattern;
+      }
+    }
+  }
+
+  if (def.coerce) {
+    node.coerce = true;
+  }
+  return node;
+}
+
+function describeNumber(def: any, checks: any[]): SchemaNode {
+  const node: Extract<SchemaNode, { kind: 'number' }> = { kind: 'number' };
+
+  for (const check of def.format ? [def, ...checks] : checks) {
+    switch (check.check) {
+      case 'number_format':
+        if (['safeint', 'int32', 'uint32'].includes(check.format)) {
+          node.integer = true;
+        }
+        break;
+      case 'greater_than':
+        if (check.inclusive) {
+          node.minimum = Math.max(node.minimum ?? -Infinity, check.value);
+        } else {
+          node.exclusiveMinimum = Math.max(node.exclusiveMinimum ?? -Infinity, check.value);
+        }
+        break;
+      case 'less_than':
+        if (check.inclusive) {
+          node.maximum = Math.min(node.maximum ?? Infinity, check.value);
+        } else {
+          node.exclusiveMaximum = Math.min(node.exclusiveMaximum ?? Infinity, check.value);
+        }
+        break;
+      case 'multiple_of':
+        node.multipleOf = check.value;
+        break;
+    }
+  }
+
+  if (def.coerce) {
+    node.coerce = true;
+  }
+  return node;
+}
+
+function describeObject(def: any, path: string, child: (node: any, path: string) => SchemaNode): SchemaNode {
+  const properties: SchemaProperty[] = Object.entries(def.shape).map(([name, schema]) => ({
+    name,
+    schema: child(schema, path ? `${path}.${name}` : name),
+  }));
+
+  const catchallType = def.catchall?._zod?.def?.type;
+  if (!catchallType) {
+    return { kind: 'object', properties, unknownKeys: 'strip' };
+  }
+  if (catchallType === 'never') {
+    return { kind: 'object', properties, unknownKeys: 'strict' };
+  }
+  if (catchallType === 'unknown' || catchallType === 'any') {
+    return { kind: 'object', properties, unknownKeys: 'passthrough' };
+  }
+
+  return { kind: 'object', properties, unknownKeys: 'passthrough', catchall: child(def.catchall, `${path}.*`) };
+}
+
+/**
+ * min_length / max_length / length_equals checks of strings and arrays
+ */
+function lengthBounds(checks: any[], minKey: string, maxKey: string): Record<string, number> {
+  const bounds: Record<string, number> = {};
+
+  for (const check of checks) {
+    if (check.check === 'min_length') {
+      bounds[minKey] = Math.max(bounds[minKey] ?? 0, check.minimum);
+    } else if (check.check === 'max_length') {
+      bounds[maxKey] = Math.min(bounds[maxKey] ?? Infinity, check.maximum);
+    } else if (check.check === 'length_equals') {
+      bounds.length = check.length;
+    }
+  }
+
+  return bounds;
+}
+
+function toRegexSource(pattern: RegExp): RegexSource {
+  return { source: pattern.source, flags: pattern.flags };
+}
+
+/**
+ * Tag check rather than instanceof (works for RegExp and Date objects of any realm)
+ */
+function isRealmObject(value: unknown, type: 'RegExp' | 'Date'): boolean {
+  return Object.prototype.toString.call(value) === `[object ${type}]`;
+}
+
+/**
+ * Default values are emitted as literals (Dates become ISO strings)
+ */
+function toJsonValue(value: unknown): unknown {
+  return isRealmObject(value, 'Date') ? (value as Date).toISOString() : value;
+}
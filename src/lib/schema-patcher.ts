@@ -0,0 +1,324 @@
+// AST-based patching of Zod schema code
+import ts from 'typescript';
+import type { SchemaImprovement, UnappliedImprovement } from '../types/index.js';
+
+/**
+ * A single text edit against the original schema code
+ */
+export interface SchemaEdit {
+  improvementIndex: number;
+  field: string;
+  start: number;
+  end: number;
+  oldText: string;
+  newText: string;
+}
+
+/**
+ * Result of applying improvements to schema code
+ */
+export interface PatchResult {
+  code: string;
+  applied: SchemaImprovement[];
+  unapplied: UnappliedImprovement[];
+  edits: SchemaEdit[];
+}
+
+/**
+ * Parse Zod schema code into a TypeScript AST
+ */
+export function parseSchemaCode(code: string): ts.SourceFile {
+  return ts.createSourceFile('schema.ts', code, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+}
+
+/**
+ * Apply improvements to Zod schema code by swapping property initializers in the AST.
+ *
+ * Fields are resolved by path ("address.city", "items[].sku") inside the root
+ * `z.object({...})`, so the model's `before` text does not need to match exactly.
+ */
+export function applyImprovements(
+  code: string,
+  improvements: SchemaImprovement[],
+  typeName?: string
+): PatchResult {
+  const sourceFile = parseSchemaCode(code);
+  const root = findRootObject(sourceFile, typeName);
+
+  const applied: SchemaImprovement[] = [];
+  const unapplied: UnappliedImprovement[] = [];
+  const edits: SchemaEdit[] = [];
+
+  for (const [improvementIndex, improvement] of improvements.entries()) {
+    const reject = (unappliedReason: string) => unapplied.push({ ...improvement, unappliedReason });
+
+    if (!root) {
+      reject('No z.object() schema found in source code');
+      continue;
+    }
+
+    if (!isValidExpression(improvement.after)) {
+      reject('Replacement is not a valid expression');
+      continue;
+    }
+
+    const property = resolveProperty(root, splitFieldPath(improvement.field));
+    if (!property) {
+      reject(`Field "${improvement.field}" not found in schema`);
+      continue;
+    }
+
+    const edit = createEdit(sourceFile, property, improvement, improvementIndex);
+    if (edits.some((existing) => existing.start < edit.end && edit.start < existing.end)) {
+      reject(`Conflicts with another improvement for "${improvement.field}"`);
+      continue;
+    }
+
+    edits.push(edit);
+    applied.push(improvement);
+  }
+
+  // Apply from the end of the file so earlier offsets stay valid
+  let patched = code;
+  for (const edit of [...edits].sort((a, b) => b.start - a.start)) {
+    patched = patched.slice(0, edit.start) + edit.newText + patched.slice(edit.end);
+  }
+
+  return {
+    code: patched,
+    applied,
+    unapplied,
+    edits: edits.sort((a, b) => a.start - b.start),
+  };
+}
+
+/**
+ * Normalize Zod code for comparison (ignores whitespace and quote style)
+ */
+export function normalizeZodCode(code: string): string {
+  return code.replace(/\s+/g, '').replace(/"/g, "'");
+}
+
+/**
+ * Split a field path into segments ("items[].sku" → ["items", "sku"])
+ */
+export function splitFieldPath(field: string): string[] {
+  return field
+    .replace(/\[\d*\]/g, '')
+    .split('.')
+    .filter((segment) => segment.length > 0);
+}
+
+/**
+ * Get the name of an object literal property
+ */
+export function getPropertyName(property: ts.ObjectLiteralElementLike): string | null {
+  const name = property.name;
+  if (!name) {
+    return null;
+  }
+
+  if (ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name)) {
+    return name.text;
+  }
+
+  if (ts.isNoSubstitutionTemplateLiteral(name)) {
+    return name.text;
+  }
+
+  if (ts.isComputedPropertyName(name) && ts.isStringLiteralLike(name.expression)) {
+    return name.expression.text;
+  }
+
+  return null;
+}
+
+/**
+ * Find the object literal passed to the schema's root `z.object()` call.
+ * Prefers a declaration named after the type (UserSchema, userSchema, User).
+ */
+export function findRootObject(
+  sourceFile: ts.SourceFile,
+  typeName?: string
+): ts.ObjectLiteralExpression | null {
+  const candidates: Array<{ name?: string; object: ts.ObjectLiteralExpression }> = [];
+
+  for (const statement of sourceFile.statements) {
+    if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        const object = declaration.initializer && unwrapObjectSchema(declaration.initializer);
+        if (object) {
+          candidates.push({
+            name: ts.isIdentifier(declaration.name) ? declaration.name.text : undefined,
+            object,
+          });
+        }
+      }
+    } else if (ts.isExpressionStatement(statement) || ts.isExportAssignment(statement)) {
+      const object = unwrapObjectSchema(statement.expression);
+      if (object) {
+        candidates.push({ object });
+      }
+    }
+  }
+
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  if (typeName) {
+    const preferred = [`${typeName}Schema`, `${lowerFirst(typeName)}Schema`, typeName];
+    const named = candidates.find((candidate) => candidate.name && preferred.includes(candidate.name));
+    if (named) {
+      return named.object;
+    }
+  }
+
+  // The root schema is usually declared last (after the schemas it references)
+  return candidates[candidates.length - 1].object;
+}
+
+/**
+ * Unwrap an expression down to the object literal of a `z.object({...})` call.
+ * Looks through method chains (.strict(), .optional()) and wrappers (z.array, z.lazy).
+ */
+export function unwrapObjectSchema(expression: ts.Expression): ts.ObjectLiteralExpression | null {
+  let current: ts.Node = expression;
+
+  while (current) {
+    if (
+      ts.isParenthesizedExpression(current) ||
+      ts.isAsExpression(current) ||
+      ts.isSatisfiesExpression(current)
+    ) {
+      current = current.expression;
+      continue;
+    }
+
+    if (ts.isArrowFunction(current) && !ts.isBlock(current.body)) {
+      current = current.body;
+      continue;
+    }
+
+    if (!ts.isCallExpression(current) || !ts.isPropertyAccessExpression(current.expression)) {
+      return null;
+    }
+
+    const method = current.expression.name.text;
+    const target = current.expression.expression;
+    const [firstArg] = current.arguments;
+
+    if (ts.isIdentifier(target) && ['object', 'strictObject', 'looseObject'].includes(method)) {
+      return firstArg && ts.isObjectLiteralExpression(firstArg) ? firstArg : null;
+    }
+
+    if (ts.isIdentifier(target) && ['array', 'optional', 'nullable', 'lazy'].includes(method)) {
+      if (!firstArg) {
+        return null;
+      }
+      current = firstArg;
+      continue;
+    }
+
+    // Method chain: z.object({...}).strict(), z.array(...).min(1)
+    current = target;
+  }
+
+  return null;
+}
+
+/**
+ * Resolve a property by path, descending into nested object schemas.
+ * Quoted keys containing dots ("first.name") are matched before splitting.
+ */
+function resolveProperty(
+  object: ts.ObjectLiteralExpression,
+  segments: string[]
+): ts.PropertyAssignment | ts.ShorthandPropertyAssignment | null {
+  for (let length = segments.length; length > 0; length--) {
+    const name = segments.slice(0, length).join('.');
+    const property = object.properties.find(
+      (p): p is ts.PropertyAssignment | ts.ShorthandPropertyAssignment =>
+        (ts.isPropertyAssignment(p) || ts.isShorthandPropertyAssignment(p)) &&
+        getPropertyName(p) === name
+    );
+
+    if (!property) {
+      continue;
+    }
+
+    if (length === segments.length) {
+      return property;
+    }
+
+    const nested = ts.isPropertyAssignment(property)
+      ? unwrapObjectSchema(property.initializer)
+      : null;
+    if (nested) {
+      const resolved = resolveProperty(nested, segments.slice(length));
+      if (resolved) {
+        return resolved;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Create the text edit replacing a property's value
+ */
+function createEdit(
+  sourceFile: ts.SourceFile,
+  property: ts.PropertyAssignment | ts.ShorthandPropertyAssignment,
+  improvement: SchemaImprovement,
+  improvementIndex: number
+): SchemaEdit {
+  // Shorthand `{ email }` becomes `{ email: <after> }`
+  const node = ts.isPropertyAssignment(property) ? property.initializer : property;
+  const start = node.getStart(sourceFile);
+  const end = node.getEnd();
+  const oldText = sourceFile.text.slice(start, end);
+
+  return {
+    improvementIndex,
+    field: improvement.field,
+    start,
+    end,
+    oldText,
+    newText: ts.isPropertyAssignment(property)
+      ? improvement.after
+      : `${oldText}: ${improvement.after}`,
+  };
+}
+
+/**
+ * Check that a replacement parses as a single expression
+ */
+function isValidExpression(text: string): boolean {
+  if (!text || text.trim().length === 0) {
+    return false;
+  }
+
+  const source = `(${text});`;
+  const { diagnostics } = ts.transpileModule(source, {
+    compilerOptions: { target: ts.ScriptTarget.Latest },
+    reportDiagnostics: true,
+  });
+  if (diagnostics && diagnostics.length > 0) {
+    return false;
+  }
+
+  // One parenthesized expression (not "a), (b", which parses as a comma expression)
+  const [statement, ...rest] = parseSchemaCode(source).statements;
+  return (
+    rest.length === 0 &&
+    statement !== undefined &&
+    ts.isExpressionStatement(statement) &&
+    ts.isParenthesizedExpression(statement.expression)
+  );
+}
+
+function lowerFirst(value: string): string {
+  return value.charAt(0).toLowerCase() + value.slice(1);
+}
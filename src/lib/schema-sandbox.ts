@@ -0,0 +1,565 @@
+// Sandboxed evaluation of Zod schema code in a separate V8 isolate (isolated-vm)
+import fs from 'fs';
+import path from 'path';
+import { createRequire } from 'module';
+import ivm from 'isolated-vm';
+import ts from 'typescript';
+import { parseSchemaCode } from './schema-patcher.js';
+
+/**
+ * Maximum execution time for compiling or running a schema (ms)
+ */
+export const SANDBOX_TIMEOUT_MS = 1000;
+
+/**
+ * Heap limit of a sandbox isolate (MB)
+ */
+export const SANDBOX_MEMORY_MB = 64;
+
+/**
+ * Schemas (and checks) an inspection copies out of the sandbox
+ */
+const MAX_INSPECTED_NODES = 5000;
+
+/**
+ * Globals that schema code may never reference
+ */
+const FORBIDDEN_GLOBALS = new Set([
+  'eval',
+  'Function',
+  'process',
+  'global',
+  'globalThis',
+  'require',
+  'module',
+  'exports',
+  'Reflect',
+  'Proxy',
+  'WebAssembly',
+  'setTimeout',
+  'setInterval',
+]);
+
+/**
+ * Names that could reach a realm's constructors through the prototype chain (never allowed,
+ * not even as object keys or destructured names)
+ */
+const FORBIDDEN_PROPERTIES = new Set([
+  'constructor',
+  'prototype',
+  '__proto__',
+  '__defineGetter__',
+  '__defineSetter__',
+  '__lookupGetter__',
+  '__lookupSetter__',
+]);
+
+/**
+ * Error raised when schema code cannot be evaluated
+ */
+export class SchemaEvaluationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SchemaEvaluationError';
+  }
+}
+
+/**
+ * Zod issue as returned from the sandbox
+ */
+export interface SandboxIssue {
+  path: Array<string | number>;
+  message: string;
+  code: string;
+}
+
+/**
+ * Result of parsing one value in the sandbox
+ */
+export interface SandboxParseResult {
+  success: boolean;
+  issues: SandboxIssue[];
+  data?: unknown;
+}
+
+/**
+ * Copies a schema's definitions (`_zod.def`, nested schemas by reference) into JSON, so the host
+ * never touches objects of the sandbox. Lazy getters and default factories run here, under the timeout.
+ */
+const DESCRIBE_GRAPH_SOURCE = `
+function __describeGraph(root) {
+  var ids = new Map();
+  var nodes = [];
+
+  function isSchema(value) {
+    return value !== null && typeof value === 'object' && value._zod !== null && typeof value._zod === 'object' &&
+      value._zod.def !== null && typeof value._zod.def === 'object';
+  }
+
+  function entries(object, depth) {
+    var out = {};
+    Object.keys(object).forEach(function (key) {
+      Object.defineProperty(out, key, { value: encode(object[key], depth + 1), enumerable: true, writable: true, configurable: true });
+    });
+    return out;
+  }
+
+  function ref(schema) {
+    if (!ids.has(schema)) {
+      if (nodes.length >= ${MAX_INSPECTED_NODES}) {
+        throw new Error('Schema is too large to inspect');
+      }
+      var id = nodes.length;
+      ids.set(schema, id);
+      nodes.push(null);
+
+      var def = schema._zod.def;
+      var copy = entries(def, 0);
+      if (typeof def.getter === 'function') {
+        copy.getter = { $lazy: ref(def.getter()).$ref };
+      }
+      if ('defaultValue' in def) {
+        copy.defaultValue = encode(def.defaultValue, 1);
+      }
+      nodes[id] = copy;
+    }
+    return { $ref: ids.get(schema) };
+  }
+
+  function encode(value, depth) {
+    if (depth > 32) return null;
+    if (isSchema(value)) return ref(value);
+    if (typeof value === 'function' || typeof value === 'symbol') return undefined;
+    if (typeof value === 'bigint') return { $bigint: String(value) };
+    if (typeof value === 'number' && !isFinite(value)) return { $number: String(value) };
+    if (value instanceof RegExp) return { $regexp: { source: value.source, flags: value.flags } };
+    if (value instanceof Date) return { $date: isNaN(value.getTime()) ? null : value.toISOString() };
+    if (Array.isArray(value)) return value.map(function (item) { return encode(item, depth + 1); });
+    if (value !== null && typeof value === 'object') return { $object: entries(value, depth) };
+    return value;
+  }
+
+  var root = ref(root).$ref;
+  return JSON.stringify({ root: root, nodes: nodes });
+}
+`;
+
+let zodBootstrap: string | undefined;
+
+/**
+ * Script that loads Zod (its CommonJS build) inside an isolate and provides `z`, `require('zod')`,
+ * `exports`/`module` for the transpiled schema code, and the inspection helper
+ */
+function getZodBootstrap(): string {
+  if (zodBootstrap) {
+    return zodBootstrap;
+  }
+
+  const entry = createRequire(import.meta.url).resolve('zod');
+  const root = path.dirname(entry);
+  const sources: Record<string, string> = {};
+  const queue = [entry];
+
+  while (queue.length > 0) {
+    const file = queue.pop()!;
+    const name = path.relative(root, file).split(path.sep).join('/');
+    if (name in sources) {
+      continue;
+    }
+
+    const source = fs.readFileSync(file, 'utf8');
+    sources[name] = source;
+    for (const [, specifier] of source.matchAll(/require\("(\.[^"]+)"\)/g)) {
+      queue.push(path.resolve(path.dirname(file), specifier));
+    }
+  }
+
+  zodBootstrap = `
+var __zod = (function (sources) {
+  var cache = {};
+  function resolve(from, specifier) {
+    var parts = from.split('/');
+    parts.pop();
+    specifier.split('/').forEach(function (segment) {
+      if (segment === '..') parts.pop();
+      else if (segment !== '.') parts.push(segment);
+    });
+    return parts.join('/');
+  }
+  function load(file) {
+    if (cache[file]) return cache[file].exports;
+    var module = { exports: {} };
+    cache[file] = module;
+    new Function('exports', 'require', 'module', sources[file])(module.exports, function (specifier) {
+      return load(resolve(file, specifier));
+    }, module);
+    return module.exports;
+  }
+  return load(${JSON.stringify(path.relative(root, entry))});
+})(${JSON.stringify(sources)});
+// Global properties rather than var bindings, so schema code may declare its own (import * as z from 'zod')
+globalThis.z = __zod.z;
+globalThis.exports = {};
+globalThis.module = { exports: globalThis.exports };
+globalThis.__schema = undefined;
+globalThis.require = function (specifier) {
+  if (specifier !== 'zod') {
+    throw new Error('Import of "' + specifier + '" is not allowed');
+  }
+  return __zod;
+};
+${DESCRIBE_GRAPH_SOURCE}`;
+
+  return zodBootstrap;
+}
+
+/**
+ * A schema compiled inside its own isolate. Only strings cross the boundary; call dispose() when done.
+ */
+export class SandboxedSchema {
+  constructor(
+    private isolate: ivm.Isolate,
+    private context: ivm.Context
+  ) {}
+
+  /**
+   * Replace the schema with other schema code, reusing the isolate (and its copy of Zod)
+   */
+  load(code: string, typeName?: string): void {
+    evaluateSchemaScript(this.context, transpileSchemaCode(code, typeName));
+  }
+
+  /**
+   * Run values through the schema (inside the sandbox, with timeout)
+   */
+  safeParseAll(values: unknown[]): SandboxParseResult[] {
+    try {
+      // Structured copies, so dates, maps and sets reach the schema as they are
+      this.context.global.setSync('__values', new ivm.ExternalCopy(values).copyInto());
+      return this.context.evalSync(
+        `__values.map((value) => {
+          const result = __schema.safeParse(value);
+          return result.success
+            ? { success: true, issues: [], data: result.data }
+            : {
+                success: false,
+                issues: result.error.issues.map((issue) => ({
+                  path: issue.path.map((key) => (typeof key === 'number' ? key : String(key))),
+                  message: issue.message,
+                  code: issue.code,
+                })),
+              };
+        })`,
+        { timeout: SANDBOX_TIMEOUT_MS, copy: true }
+      );
+    } catch (error: any) {
+      throw new SchemaEvaluationError(`Schema execution failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Convert the schema to JSON Schema (draft 2020-12 or OpenAPI 3.0) inside the sandbox.
+   * Describes what the schema accepts (input mode), so objects stay open to unknown keys.
+   */
+  toJSONSchema(target: 'draft-2020-12' | 'openapi-3.0' = 'draft-2020-12'): Record<string, unknown> {
+    try {
+      this.context.global.setSync('__target', target);
+      const json = this.context.evalSync(
+        `JSON.stringify(z.toJSONSchema(__schema, { target: __target, unrepresentable: 'any', io: 'input' }))`,
+        { timeout: SANDBOX_TIMEOUT_MS }
+      );
+
+      return JSON.parse(json);
+    } catch (error: any) {
+      throw new SchemaEvaluationError(`JSON Schema conversion failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Run a host function over a copy of the schema's definitions (`schema._zod.def`, nested schemas
+   * and checks alike; lazy schemas resolved). The copy is made in the sandbox under the timeout.
+   */
+  inspect<T>(inspector: (schema: any) => T): T {
+    let graph: { root: number; nodes: Array<Record<string, unknown>> };
+    try {
+      graph = JSON.parse(this.context.evalSync('__describeGraph(__schema)', { timeout: SANDBOX_TIMEOUT_MS }));
+    } catch (error: any) {
+      throw new SchemaEvaluationError(`Schema inspection failed: ${error.message}`);
+    }
+
+    const nodes = graph.nodes.map(() => ({ _zod: { def: {} as Record<string, unknown> } }));
+    const decode = (value: any): any => {
+      if (Array.isArray(value)) {
+        return value.map(decode);
+      }
+      if (value === null || typeof value !== 'object') {
+        return value;
+      }
+      if ('$ref' in value) return nodes[value.$ref];
+      if ('$lazy' in value) return () => nodes[value.$lazy];
+      if ('$regexp' in value) return new RegExp(value.$regexp.source, value.$regexp.flags);
+      if ('$date' in value) return new Date(value.$date ?? NaN);
+      if ('$bigint' in value) return BigInt(value.$bigint);
+      if ('$number' in value) return Number(value.$number);
+      return defineAll({}, value.$object);
+    };
+    const defineAll = (target: Record<string, unknown>, encoded: Record<string, unknown>) => {
+      for (const [key, item] of Object.entries(encoded)) {
+        Object.defineProperty(target, key, { value: decode(item), enumerable: true, writable: true, configurable: true });
+      }
+      return target;
+    };
+
+    graph.nodes.forEach((encoded, i) => defineAll(nodes[i]._zod.def, encoded));
+    return inspector(nodes[graph.root]);
+  }
+
+  /**
+   * Free the isolate (the schema cannot be used afterwards)
+   */
+  dispose(): void {
+    if (!this.isolate.isDisposed) {
+      this.isolate.dispose();
+    }
+  }
+}
+
+/**
+ * Create an isolate with Zod loaded and no schema yet; load() schema code into it.
+ * One sandbox can serve every schema variant of a request (Zod is bootstrapped once).
+ */
+export function createSandbox(): SandboxedSchema {
+  return bootstrapIsolate();
+}
+
+/**
+ * Compile Zod schema code in its own isolate.
+ *
+ * The root schema is the declaration named after the type (UserSchema, User),
+ * otherwise the last declaration or bare expression in the code.
+ */
+export function compileSchema(code: string, typeName?: string): SandboxedSchema {
+  // Checked and transpiled before an isolate is created
+  const script = transpileSchemaCode(code, typeName);
+  return bootstrapIsolate(script);
+}
+
+/**
+ * Create an isolate, load Zod and optionally run a transpiled schema script in it
+ */
+function bootstrapIsolate(script?: string): SandboxedSchema {
+  const isolate = new ivm.Isolate({ memoryLimit: SANDBOX_MEMORY_MB });
+  try {
+    const context = isolate.createContextSync();
+    context.evalSync(getZodBootstrap(), { timeout: SANDBOX_TIMEOUT_MS * 5 });
+    if (script !== undefined) {
+      evaluateSchemaScript(context, script);
+    }
+
+    return new SandboxedSchema(isolate, context);
+  } catch (error) {
+    isolate.dispose();
+    throw error;
+  }
+}
+
+/**
+ * Run a transpiled schema script in the context and check that it produced a Zod schema
+ */
+function evaluateSchemaScript(context: ivm.Context, script: string): void {
+  try {
+    // Function scope, so declarations of code loaded earlier into the same context do not clash
+    context.evalSync(`__schema = undefined; (function () {\n${script}\n})();`, { timeout: SANDBOX_TIMEOUT_MS });
+  } catch (error: any) {
+    throw new SchemaEvaluationError(`Schema compilation failed: ${error.message}`);
+  }
+
+  if (context.evalSync('__schema instanceof __zod.ZodType') !== true) {
+    throw new SchemaEvaluationError('Root expression is not a Zod schema');
+  }
+}
+
+/**
+ * Check schema code and transpile it to a script that assigns the root schema to `__schema`
+ */
+function transpileSchemaCode(code: string, typeName?: string): string {
+  const sourceFile = parseSchemaCode(code);
+  assertSafeCode(sourceFile);
+
+  const root = findRootSchema(sourceFile, typeName);
+  if (!root) {
+    throw new SchemaEvaluationError('No schema declaration or expression found');
+  }
+
+  // Expose the root schema through a sandbox global
+  const source =
+    root.kind === 'declaration'
+      ? `${code}\n;__schema = ${root.name};`
+      : code.slice(0, root.start) + `__schema = (${code.slice(root.start, root.end)})` + code.slice(root.end);
+
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2020,
+      esModuleInterop: false,
+    },
+    reportDiagnostics: false,
+  });
+
+  return outputText;
+}
+
+/**
+ * Compile schema code, use it and free its isolate. Given a sandbox, the code is loaded into
+ * it instead (the caller keeps and disposes the sandbox).
+ */
+export function withCompiledSchema<T>(
+  code: string,
+  typeName: string | undefined,
+  use: (schema: SandboxedSchema) => T,
+  sandbox?: SandboxedSchema
+): T {
+  if (sandbox) {
+    sandbox.load(code, typeName);
+    return use(sandbox);
+  }
+
+  const schema = compileSchema(code, typeName);
+  try {
+    return use(schema);
+  } finally {
+    schema.dispose();
+  }
+}
+
+/**
+ * Use the given sandbox, or a new one that is freed afterwards
+ */
+export function withSandbox<T>(sandbox: SandboxedSchema | undefined, use: (sandbox: SandboxedSchema) => T): T {
+  if (sandbox) {
+    return use(sandbox);
+  }
+
+  const created = createSandbox();
+  try {
+    return use(created);
+  } finally {
+    created.dispose();
+  }
+}
+
+/**
+ * Reject code that references anything outside of Zod
+ */
+function assertSafeCode(sourceFile: ts.SourceFile): void {
+  const visit = (node: ts.Node): void => {
+    // Destructuring reads properties without naming them in an access expression
+    if (
+      ts.isObjectBindingPattern(node) ||
+      ts.isArrayBindingPattern(node) ||
+      (ts.isBinaryExpression(node) &&
+        node.operatorToken.kind === ts.SyntaxKind.EqualsToken &&
+        (ts.isObjectLiteralExpression(node.left) || ts.isArrayLiteralExpression(node.left)))
+    ) {
+      throw new SchemaEvaluationError('Destructuring is not allowed in schema code');
+    }
+
+    if (ts.isComputedPropertyName(node)) {
+      throw new SchemaEvaluationError('Computed property names are not allowed in schema code');
+    }
+
+    if ((ts.isIdentifier(node) || ts.isPrivateIdentifier(node)) && FORBIDDEN_PROPERTIES.has(node.text)) {
+      throw new SchemaEvaluationError(`Forbidden property in schema code: ${node.text}`);
+    }
+
+    if (ts.isIdentifier(node)) {
+      const parent = node.parent;
+      const isPropertyName =
+        (ts.isPropertyAccessExpression(parent) || ts.isPropertyAssignment(parent) || ts.isMethodDeclaration(parent)) &&
+        parent.name === node;
+      if (!isPropertyName && FORBIDDEN_GLOBALS.has(node.text)) {
+        throw new SchemaEvaluationError(`Forbidden identifier in schema code: ${node.text}`);
+      }
+    }
+
+    if (ts.isStringLiteralLike(node) && ts.isPropertyAssignment(node.parent) && FORBIDDEN_PROPERTIES.has(node.text)) {
+      throw new SchemaEvaluationError(`Forbidden property in schema code: ${node.text}`);
+    }
+
+    if (ts.isElementAccessExpression(node)) {
+      const argument = node.argumentExpression;
+      const isLiteral = ts.isNumericLiteral(argument) || ts.isStringLiteralLike(argument);
+      if (!isLiteral || (ts.isStringLiteralLike(argument) && FORBIDDEN_PROPERTIES.has(argument.text))) {
+        throw new SchemaEvaluationError('Computed property access is not allowed in schema code');
+      }
+    }
+
+    if (
+      ts.isImportDeclaration(node) &&
+      ts.isStringLiteral(node.moduleSpecifier) &&
+      node.moduleSpecifier.text !== 'zod'
+    ) {
+      throw new SchemaEvaluationError(`Import of "${node.moduleSpecifier.text}" is not allowed`);
+    }
+
+    if (node.kind === ts.SyntaxKind.ImportKeyword && ts.isCallExpression(node.parent)) {
+      throw new SchemaEvaluationError('Dynamic import is not allowed in schema code');
+    }
+
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+}
+
+type RootSchema =
+  | { kind: 'declaration'; name: string }
+  | { kind: 'expression'; start: number; end: number };
+
+/**
+ * Locate the root schema in the source file
+ */
+function findRootSchema(sourceFile: ts.SourceFile, typeName?: string): RootSchema | null {
+  const declarations: string[] = [];
+  let lastExpression: ts.Expression | null = null;
+
+  for (const statement of sourceFile.statements) {
+    if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        if (ts.isIdentifier(declaration.name) && declaration.initializer) {
+          declarations.push(declaration.name.text);
+        }
+      }
+    } else if (ts.isExpressionStatement(statement)) {
+      lastExpression = statement.expression;
+    } else if (ts.isExportAssignment(statement)) {
+      lastExpression = statement.expression;
+    }
+  }
+
+  if (typeName) {
+    const preferred = [
+      `${typeName}Schema`,
+      `${typeName.charAt(0).toLowerCase()}${typeName.slice(1)}Schema`,
+      typeName,
+    ];
+    const named = preferred.find((name) => declarations.includes(name));
+    if (named) {
+      return { kind: 'declaration', name: named };
+    }
+  }
+
+  if (lastExpression) {
+    return {
+      kind: 'expression',
+      start: lastExpression.getStart(sourceFile),
+      end: lastExpression.getEnd(),
+    };
+  }
+
+  if (declarations.length > 0) {
+    return { kind: 'declaration', name: declarations[declarations.length - 1] };
+  }
+
+  return null;
+}
@@ -0,0 +1,269 @@
+// Interactive refinement sessions (accept/reject feedback across rounds)
+import crypto from 'crypto';
+import { securityAuditor } from './security.js';
+import { applyImprovements } from './schema-patcher.js';
+import { configManager, metricsCollector, providerFactoryV2 } from './providers/index.js';
+import type {
+  ImprovementFeedback,
+  RefinementContext,
+  RefinementRequest,
+  RefinementResponse,
+  RefinementSession,
+  SchemaImprovement,
+} from '../types/index.js';
+
+/**
+ * Sessions are dropped after this long without activity
+ */
+export const SESSION_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+const MAX_SESSIONS = 10000;
+
+/**
+ * Runs one refinement round (the provider factory in production)
+ */
+export type SessionRefiner = (
+  request: RefinementRequest,
+  context: RefinementContext
+) => Promise<Omit<RefinementResponse, 'success' | 'error' | 'errorCode'>>;
+
+/**
+ * Feedback that cannot be applied to a session
+ */
+export class SessionError extends Error {
+  constructor(
+    public readonly code: 'INVALID_FEEDBACK' | 'SESSION_BUSY',
+    message: string
+  ) {
+    super(message);
+    this.name = 'SessionError';
+  }
+}
+
+interface StoredSession {
+  session: RefinementSession;
+  request: RefinementRequest; // Original request (samples stay server-side)
+  busy: boolean;              // A refinement round is running
+}
+
+/**
+ * Session manager: keeps each session's request, history and accepted code in memory
+ */
+export class SessionManager {
+  private sessions: Map<string, StoredSession> = new Map();
+
+  constructor(private readonly refine: SessionRefiner) {}
+
+  /**
+   * Start a session and run its first refinement round
+   */
+  async create(
+    request: RefinementRequest,
+    { ownerId, context = {} }: { ownerId: string; context?: RefinementContext }
+  ): Promise<RefinementSession> {
+    const response = await this.runRound(request, context);
+
+    this.evictExpired();
+
+    const now = new Date().toISOString();
+    const session: RefinementSession = {
+      id: `ses_${crypto.randomBytes(12).toString('hex')}`,
+      ownerId,
+      createdAt: now,
+      updatedAt: now,
+      typeName: request.schema.typeName,
+      sampleCount: request.samples.length,
+      currentCode: request.schema.code,
+      accepted: [],
+      rejected: [],
+      history: [{ round: 1, createdAt: now, schemaCode: request.schema.code, response }],
+    };
+
+    this.sessions.set(session.id, { session, request, busy: false });
+    securityAuditor.log('session_created', { sessionId: session.id, typeName: session.typeName }, 'low');
+
+    return structuredClone(session);
+  }
+
+  /**
+   * Get a session (only visible to the key that created it)
+   */
+  get(id: string, ownerId: string): RefinementSession | null {
+    const stored = this.getStored(id, ownerId);
+    return stored ? structuredClone(stored.session) : null;
+  }
+
+  /**
+   * Record decisions on the latest round's improvements, apply the accepted ones and
+   * run a follow-up round that knows about every rejection so far.
+   * The session is only updated when the follow-up round succeeds.
+   */
+  async submitFeedback(
+    id: string,
+    ownerId: string,
+    feedback: ImprovementFeedback[],
+    context: RefinementContext = {}
+  ): Promise<RefinementSession | null> {
+    const stored = this.getStored(id, ownerId);
+    if (!stored) {
+      return null;
+    }
+
+    if (stored.busy) {
+      throw new SessionError('SESSION_BUSY', 'A refinement round is already running for this session');
+    }
+
+    const { session, request } = stored;
+    const latest = session.history[session.history.length - 1];
+    const improvements = latest.response.refinedSchema?.improvements || [];
+    const decisions = this.resolveFeedback(feedback, improvements);
+
+    // Accepted improvements are patched into the code the round started from
+    const accepted = decisions.filter(({ decision }) => decision === 'accept').map(({ improvement }) => improvement);
+    const patch = applyImprovements(latest.schemaCode, accepted, request.schema.typeName);
+    const rejected = [
+      ...session.rejected,
+      ...decisions
+        .filter(({ decision }) => decision === 'reject')
+        .map(({ improvement, comment }) => ({ ...improvement, ...(comment ? { comment } : {}) })),
+    ];
+    const allAccepted = [...session.accepted, ...patch.applied];
+
+    const followUp: RefinementRequest = {
+      ...request,
+      schema: {
+        ...request.schema,
+        code: patch.code,
+        fields: this.updateFields(request.schema.fields, allAccepted),
+      },
+      feedback: {
+        accepted: allAccepted.map(({ field, after }) => ({ field, after })),
+        rejected: rejected.map(({ field, after, comment }) => ({ field, after, ...(comment ? { comment } : {}) })),
+      },
+    };
+
+    stored.busy = true;
+    try {
+      const response = await this.runRound(followUp, context);
+      const now = new Date().toISOString();
+
+      latest.feedback = decisions.map(({ index, decision, comment, improvement }) => ({
+        index,
+        decision,
+        ...(comment ? { comment } : {}),
+        field: improvement.field,
+        after: improvement.after,
+      }));
+      session.history.push({ round: latest.round + 1, createdAt: now, schemaCode: patch.code, response });
+      session.currentCode = patch.code;
+      session.accepted = allAccepted;
+      session.rejected = rejected;
+      session.updatedAt = now;
+    } finally {
+      stored.busy = false;
+    }
+
+    securityAuditor.log(
+      'session_feedback',
+      {
+        sessionId: id,
+        round: latest.round,
+        accepted: accepted.length,
+        rejected: decisions.length - accepted.length,
+        prompt: latest.response.prompt,
+      },
+      'low'
+    );
+
+    // Acceptance per prompt version (the round's improvements came from that version)
+    if (latest.response.prompt && configManager.isEnabled('enableMetrics')) {
+      metricsCollector.recordPromptFeedback(latest.response.prompt, accepted.length, decisions.length - accepted.length);
+    }
+
+    return structuredClone(session);
+  }
+
+  private async runRound(request: RefinementRequest, context: RefinementContext): Promise<RefinementResponse> {
+    const result = await this.refine(request, context);
+    return { success: true, ...result };
+  }
+
+  private getStored(id: string, ownerId: string): StoredSession | null {
+    const stored = this.sessions.get(id);
+    if (!stored || stored.session.ownerId !== ownerId) {
+      return null;
+    }
+
+    if (Date.parse(stored.session.updatedAt) < Date.now() - SESSION_TTL_MS) {
+      this.sessions.delete(id);
+      return null;
+    }
+
+    return stored;
+  }
+
+  /**
+   * Match feedback to the latest round's improvements (each index at most once)
+   */
+  private resolveFeedback(
+    feedback: ImprovementFeedback[],
+    improvements: SchemaImprovement[]
+  ): Array<ImprovementFeedback & { improvement: SchemaImprovement }> {
+    const seen = new Set<number>();
+
+    return feedback.map((entry) => {
+      const improvement = improvements[entry.index];
+      if (!improvement) {
+        throw new SessionError(
+          'INVALID_FEEDBACK',
+          `Improvement ${entry.index} does not exist in the latest round (${improvements.length} improvements)`
+        );
+      }
+      if (seen.has(entry.index)) {
+        throw new SessionError('INVALID_FEEDBACK', `Improvement ${entry.index} has more than one decision`);
+      }
+      seen.add(entry.index);
+
+      return { ...entry, improvement };
+    });
+  }
+
+  /**
+   * Keep the field → Zod type map in line with accepted top-level improvements
+   */
+  private updateFields(fields: Record<string, string>, accepted: SchemaImprovement[]): Record<string, string> {
+    const updated = { ...fields };
+    for (const { field, after } of accepted) {
+      if (field in updated) {
+        updated[field] = after;
+      }
+    }
+    return updated;
+  }
+
+  /**
+   * Drop idle sessions, then the least recently used ones when over capacity
+   */
+  private evictExpired(): void {
+    const cutoff = Date.now() - SESSION_TTL_MS;
+
+    for (const [id, { session }] of this.sessions) {
+      if (Date.parse(session.updatedAt) < cutoff) {
+        this.sessions.delete(id);
+      }
+    }
+
+    const excess = this.sessions.size - MAX_SESSIONS + 1;
+    if (excess > 0) {
+      Array.from(this.sessions.values())
+        .filter(({ busy }) => !busy)
+        .sort((a, b) => a.session.updatedAt.localeCompare(b.session.updatedAt))
+        .slice(0, excess)
+        .forEach(({ session }) => this.sessions.delete(session.id));
+    }
+  }
+}
+
+// Export singleton instance
+export const sessionManager = new SessionManager((request, context) =>
+  providerFactoryV2.refineSchema(request, context)
+);
@@ -0,0 +1,133 @@
+// Incremental JSON parsing for streamed provider responses
+/**
+ * Scans a JSON object as it arrives and returns each element of one top-level array
+ * (e.g. "improvements") as soon as that element is complete.
+ *
+ * Text before the root object (such as a markdown code fence) is ignored, and so is
+ * everything after the root object closes.
+ */
+export class IncrementalArrayParser {
+  private text = '';
+  private position = 0;
+  private rootStart = -1;
+  private rootEnd = -1;
+
+  // Scanner state
+  private stack: Array<'object' | 'array'> = [];
+  private inString = false;
+  private escaped = false;
+  private stringStart = -1;
+  private expectingKey = false;
+  private rootKey: string | null = null;
+  private itemStart = -1;
+
+  constructor(private readonly arrayKey: string) {}
+
+  /**
+   * Add a chunk of text and return the array elements it completed
+   */
+  push(delta: string): unknown[] {
+    this.text += delta;
+    const completed: unknown[] = [];
+
+    for (; this.position < this.text.length && this.rootEnd === -1; this.position++) {
+      const char = this.text[this.position];
+
+      if (this.rootStart === -1) {
+        if (char === '{') {
+          this.rootStart = this.position;
+          this.stack.push('object');
+          this.expectingKey = true;
+        }
+        continue;
+      }
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === '\\') {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+          this.onStringEnd();
+        }
+        continue;
+      }
+
+      switch (char) {
+        case '"':
+          this.inString = true;
+          this.stringStart = this.position;
+          break;
+        case '{':
+        case '[':
+          this.stack.push(char === '{' ? 'object' : 'array');
+          this.expectingKey = char === '{';
+          if (this.isItemDepth(this.stack.length - 1)) {
+            this.itemStart = this.position;
+          }
+          break;
+        case '}':
+        case ']':
+          this.stack.pop();
+          if (this.stack.length === 0) {
+            this.rootEnd = this.position;
+          } else if (this.itemStart !== -1 && this.isItemDepth(this.stack.length)) {
+            const item = this.parseItem(this.itemStart, this.position + 1);
+            if (item !== undefined) {
+              completed.push(item);
+            }
+            this.itemStart = -1;
+          }
+          break;
+        case ',':
+          this.expectingKey = this.stack[this.stack.length - 1] === 'object';
+          break;
+        case ':':
+          this.expectingKey = false;
+          break;
+      }
+    }
+
+    return completed;
+  }
+
+  /**
+   * Accumulated text of the root object (everything received when it has not closed yet)
+   */
+  getJson(): string {
+    if (this.rootStart === -1) {
+      return this.text.trim();
+    }
+    return this.text.slice(this.rootStart, this.rootEnd === -1 ? undefined : this.rootEnd + 1);
+  }
+
+  /**
+   * True once the root object has closed
+   */
+  isComplete(): boolean {
+    return this.rootEnd !== -1;
+  }
+
+  private onStringEnd(): void {
+    // Only keys of the root object matter
+    if (this.expectingKey && this.stack.length === 1) {
+      this.rootKey = this.parseItem(this.stringStart, this.position + 1) as string;
+    }
+  }
+
+  /**
+   * Elements of the tracked array sit at depth 2 (root object → array → element)
+   */
+  private isItemDepth(depth: number): boolean {
+    return depth === 2 && this.stack[1] === 'array' && this.rootKey === this.arrayKey;
+  }
+
+  private parseItem(start: number, end: number): unknown {
+    try {
+      return JSON.parse(this.text.slice(start, end));
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,59 @@
+// Token counting: provider-reported usage and a local estimate
+import type { TokenUsage } from '../types/index.js';
+
+/**
+ * Pieces a BPE tokenizer (cl100k-like) usually keeps together: a word with its leading space,
+ * up to three digits (also with a leading space), a run of whitespace, or a single other character
+ */
+const TOKEN_PIECES = /[ ]?[A-Za-z]+|[ ]?\d{1,3}|\s+|[^\sA-Za-z\d]/g;
+
+/**
+ * Letters a long word contributes per token
+ */
+const LETTERS_PER_TOKEN = 6;
+
+/**
+ * Estimate the number of tokens in a text without calling a provider.
+ * Used for pre-flight routing and when a provider does not report usage.
+ */
+export function estimateTokens(text: string): number {
+  let tokens = 0;
+
+  for (const [piece] of text.matchAll(TOKEN_PIECES)) {
+    const letters = piece.trimStart().length;
+    tokens += /[A-Za-z]/.test(piece) ? Math.ceil(letters / LETTERS_PER_TOKEN) : 1;
+  }
+
+  return tokens;
+}
+
+/**
+ * Add the tokens of one provider call to a running total
+ */
+export function addUsage(total: TokenUsage, inputTokens = 0, outputTokens = 0): void {
+  total.inputTokens += inputTokens;
+  total.outputTokens += outputTokens;
+}
+
+/**
+ * Combined usage of several results (consensus mode); undefined when none reported any
+ */
+export function sumUsage(usages: Array<TokenUsage | undefined>): TokenUsage | undefined {
+  const reported = usages.filter((usage): usage is TokenUsage => usage !== undefined);
+  if (reported.length === 0) {
+    return undefined;
+  }
+
+  const total: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+  for (const usage of reported) {
+    addUsage(total, usage.inputTokens, usage.outputTokens);
+    if (usage.cost !== undefined) {
+      total.cost = (total.cost ?? 0) + usage.cost;
+    }
+    if (usage.estimated) {
+      total.estimated = true;
+    }
+  }
+
+  return total;
+}
@@ -1,9 +1,10 @@
 // Enhanced authentication middleware with JWT support and comprehensive audit logging
 import { FastifyRequest, FastifyReply } from 'fastify';
 import { env } from '../config/env.js';
-import { securityAuditor, hashApiKey, maskApiKey } from '../lib/security.js';
+import { securityAuditor, rateLimiter, hashApiKey, maskApiKey } from '../lib/security.js';
 import { getJwtKeyManager, type ApiKeyPayload } from '../lib/jwt-keys.js';
-import { getAuditLogger } from '../lib/audit-logger.js';
+import { getAuditLogger, type AuditLogEntry } from '../lib/audit-logger.js';
+import type { AIProviderName, PromptVersionRef, TokenUsage } from '../types/index.js';
 
 // Extend FastifyRequest to include API key info
 declare module 'fastify' {
@@ -229,6 +230,32 @@ async function handleJwtAuth(
       });
     }
 
+    // Check monthly token quota (-1 = unlimited)
+    const tokenQuota = await checkTokenQuota(payload);
+    if (!tokenQuota.allowed) {
+      await auditLogger.log({
+        requestId: request.id,
+        kid: payload.kid,
+        customerId: payload.customerId,
+        endpoint: request.url,
+        method: request.method,
+        statusCode: 429,
+        success: false,
+        errorCode: 'TOKEN_QUOTA_EXCEEDED',
+        quotaExceeded: true,
+        ipAddress: clientIp,
+        userAgent: request.headers['user-agent'],
+        latencyMs: Date.now() - startTime,
+      });
+
+      return reply.code(429).send({
+        success: false,
+        error: `Token quota exceeded: ${tokenQuota.limit} tokens per month`,
+        errorCode: 'TOKEN_QUOTA_EXCEEDED',
+        tier: payload.tier,
+      });
+    }
+
     // Add rate limit headers
     reply.headers({
       'X-RateLimit-Limit-Minute': String(payload.rateLimit.requestsPerMinute),
@@ -330,9 +357,33 @@ async function handleLegacyAuth(
     });
   }
 
-  // Legacy keys get default free tier limits
+  // Legacy keys get the default in-memory window limit (same as the v1 middleware)
+  const rateLimit = rateLimiter.checkLimit(legacyRateLimitKey(clientIp, apiKey));
+
+  if (!rateLimit.allowed) {
+    securityAuditor.log(
+      'rate_limit_exceeded',
+      {
+        requestId: request.id,
+        ip: clientIp,
+        path: request.url,
+        resetTime: new Date(rateLimit.resetTime).toISOString(),
+      },
+      'high'
+    );
+
+    return reply.code(429).send({
+      success: false,
+      error: 'Rate limit exceeded',
+      errorCode: 'RATE_LIMIT_EXCEEDED',
+      retryAfter: Math.ceil((rateLimit.resetTime - Date.now()) / 1000),
+    });
+  }
+
   reply.headers({
     'X-RateLimit-Limit': String(env.RATE_LIMIT_MAX),
+    'X-RateLimit-Remaining': String(rateLimit.remaining),
+    'X-RateLimit-Reset': String(Math.ceil(rateLimit.resetTime / 1000)),
     'X-API-Key-Tier': 'legacy',
   });
 
@@ -345,3 +396,111 @@ async function handleLegacyAuth(
     'low'
   );
 }
+
+/**
+ * In-memory rate limit window of a legacy key (per client IP and key prefix)
+ */
+function legacyRateLimitKey(clientIp: string, apiKey: string): string {
+  return `${clientIp}:${apiKey.substring(0, 10)}`;
+}
+
+/**
+ * Charge one more request against the caller's per-key limits (checked and counted atomically).
+ * Used for accepted batch items after the first (the first is charged by the middleware itself).
+ */
+export async function consumeKeyRequest(
+  request: FastifyRequest
+): Promise<{ allowed: true } | { allowed: false; error: string; errorCode: string }> {
+  const payload = request.apiKey;
+
+  // Legacy keys count against the same in-memory window as the middleware
+  if (!payload) {
+    const apiKey = (request.headers.authorization || '').substring(7);
+    const rateLimit = rateLimiter.checkLimit(legacyRateLimitKey(request.ip || 'unknown', apiKey));
+    return rateLimit.allowed
+      ? { allowed: true }
+      : { allowed: false, error: 'Rate limit exceeded', errorCode: 'RATE_LIMIT_EXCEEDED' };
+  }
+
+  // Tokens are only known after the provider answered, so the quota is checked, not reserved
+  const tokenQuota = await checkTokenQuota(payload);
+  if (!tokenQuota.allowed) {
+    return {
+      allowed: false,
+      error: `Token quota exceeded: ${tokenQuota.limit} tokens per month`,
+      errorCode: 'TOKEN_QUOTA_EXCEEDED',
+    };
+  }
+
+  const charge = await getAuditLogger().consumeRateLimit(payload.kid, {
+    minute: payload.rateLimit.requestsPerMinute,
+    day: payload.rateLimit.requestsPerDay,
+  });
+  if (!charge.allowed) {
+    return charge.windowType === 'minute'
+      ? {
+          allowed: false,
+          error: `Rate limit exceeded: ${charge.limit} requests per minute`,
+          errorCode: 'RATE_LIMIT_EXCEEDED',
+        }
+      : {
+          allowed: false,
+          error: `Daily quota exceeded: ${charge.limit} requests per day`,
+          errorCode: 'DAILY_QUOTA_EXCEEDED',
+        };
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Audit a request answered by a provider, with the tokens it used, and add the tokens to the
+ * key's monthly count (legacy keys have no token quota)
+ */
+export async function recordProviderUsage(
+  request: FastifyRequest,
+  result: { aiProvider?: AIProviderName; usage?: TokenUsage; processingTime?: number; prompt?: PromptVersionRef },
+  details: Pick<AuditLogEntry, 'schemaTypeName' | 'sampleCount' | 'aiModel'> = {}
+): Promise<void> {
+  const auditLogger = getAuditLogger();
+  const { usage } = result;
+  const totalTokens = usage ? usage.inputTokens + usage.outputTokens : undefined;
+
+  await auditLogger.log({
+    requestId: request.id,
+    kid: request.apiKey?.kid,
+    customerId: request.apiKey?.customerId,
+    endpoint: request.url,
+    method: request.method,
+    ...details,
+    statusCode: 200,
+    success: true,
+    aiProvider: result.aiProvider,
+    promptName: result.prompt?.name,
+    promptVersion: result.prompt?.version,
+    promptVariant: result.prompt?.variant,
+    inputTokens: usage?.inputTokens,
+    outputTokens: usage?.outputTokens,
+    totalTokens,
+    cost: usage?.cost,
+    processingTimeMs: result.processingTime,
+    ipAddress: request.ip,
+    userAgent: request.headers['user-agent'],
+    ...(usage?.estimated ? { metadata: { tokensEstimated: true } } : {}),
+  });
+
+  if (request.apiKey && totalTokens) {
+    await auditLogger.incrementTokenUsage(request.apiKey.kid, totalTokens);
+  }
+}
+
+/**
+ * Monthly token quota of a JWT key (-1 = unlimited)
+ */
+async function checkTokenQuota(payload: ApiKeyPayload): Promise<{ allowed: boolean; limit: number }> {
+  if (payload.quota.tokensPerMonth < 0) {
+    return { allowed: true, limit: payload.quota.tokensPerMonth };
+  }
+
+  return getAuditLogger().checkTokenQuota(payload.kid, payload.quota.tokensPerMonth);
+}
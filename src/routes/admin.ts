@@ -1,5 +1,5 @@
 // Admin dashboard endpoint for monitoring provider system
-import { FastifyInstance } from 'fastify';
+import { FastifyInstance, FastifyReply } from 'fastify';
 import { z } from 'zod';
 import { authMiddleware } from '../middleware/auth.js';
 import {
@@ -11,6 +11,7 @@ import {
   configManager,
   providerRegistry,
 } from '../lib/providers/index.js';
+import { promptRegistry, PromptError } from '../lib/prompts.js';
 
 // Admin auth middleware (could be extended with admin-specific auth)
 const adminAuthMiddleware = authMiddleware; // For now, same as regular auth
@@ -40,6 +41,8 @@ export async function adminRoute(fastify: FastifyInstance) {
             enableRateLimiting: config.enableRateLimiting,
             enableCostTracking: config.enableCostTracking,
             enableMetrics: config.enableMetrics,
+            enableSampleValidation: config.enableSampleValidation,
+            piiPolicy: config.piiPolicy,
             requestTimeout: config.requestTimeout,
             dailyBudgetLimit: config.dailyBudgetLimit,
           },
@@ -208,8 +211,17 @@ export async function adminRoute(fastify: FastifyInstance) {
         enableRateLimiting: z.boolean().optional(),
         enableCostTracking: z.boolean().optional(),
         enableMetrics: z.boolean().optional(),
+        enableSampleValidation: z.boolean().optional(),
+        piiPolicy: z.enum(['redact', 'block', 'allow']).optional(),
         requestTimeout: z.number().min(1000).max(120000).optional(),
         dailyBudgetLimit: z.number().min(0).optional(),
+        // Must name a registered provider, or the last-resort fallback silently never runs
+        lastResortProvider: z
+          .string()
+          .refine((name) => providerRegistry.getProvider(name) !== undefined, {
+            message: 'Must be a registered provider',
+          })
+          .optional(),
       });
 
       const updates = ConfigUpdateSchema.parse(request.body);
@@ -336,17 +348,10 @@ export async function adminRoute(fastify: FastifyInstance) {
     try {
       const { provider, period } = z.object({
         provider: z.string().optional(),
-        period: z.enum(['overall', 'today', 'week', 'month']).optional().default('overall'),
+        period: PeriodSchema,
       }).parse(request.query);
 
-      let since: Date | undefined;
-      if (period === 'today') {
-        since = getTodayStart();
-      } else if (period === 'week') {
-        since = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
-      } else if (period === 'month') {
-        since = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
-      }
+      const since = getPeriodStart(period);
 
       if (provider) {
         const metrics = metricsCollector.getMetrics(provider, since);
@@ -383,6 +388,131 @@ export async function adminRoute(fastify: FastifyInstance) {
     }
   });
 
+  /**
+   * GET /admin/prompts - Prompt templates with their versions, active version and experiment
+   */
+  fastify.get('/admin/prompts', async (_request, reply) => {
+    reply.code(200).send({
+      success: true,
+      prompts: promptRegistry.list(),
+    });
+  });
+
+  /**
+   * GET /admin/prompts/:name - One prompt template
+   */
+  fastify.get<{ Params: { name: string } }>('/admin/prompts/:name', async (request, reply) => {
+    try {
+      reply.code(200).send({
+        success: true,
+        prompt: promptRegistry.get(request.params.name),
+      });
+    } catch (error: any) {
+      sendPromptError(fastify, reply, error, 'Failed to fetch prompt');
+    }
+  });
+
+  /**
+   * POST /admin/prompts/:name/versions - Add a version (optionally serving it right away)
+   */
+  fastify.post<{ Params: { name: string } }>('/admin/prompts/:name/versions', async (request, reply) => {
+    try {
+      const { system, user, description, activate } = z.object({
+        system: z.string().min(1).max(50000),
+        user: z.string().min(1).max(50000),
+        description: z.string().max(500).optional(),
+        activate: z.boolean().optional().default(false),
+      }).parse(request.body);
+
+      const template = promptRegistry.addVersion(request.params.name, { system, user, description }, activate);
+
+      reply.code(200).send({
+        success: true,
+        message: `Prompt ${template.name} version ${template.version} created`,
+        template,
+      });
+    } catch (error: any) {
+      sendPromptError(fastify, reply, error, 'Failed to create prompt version');
+    }
+  });
+
+  /**
+   * POST /admin/prompts/:name/active - Serve a version to all traffic
+   */
+  fastify.post<{ Params: { name: string } }>('/admin/prompts/:name/active', async (request, reply) => {
+    try {
+      const { version } = z.object({ version: z.number().int().min(1) }).parse(request.body);
+
+      promptRegistry.setActive(request.params.name, version);
+
+      reply.code(200).send({
+        success: true,
+        message: `Prompt ${request.params.name} version ${version} activated`,
+      });
+    } catch (error: any) {
+      sendPromptError(fastify, reply, error, 'Failed to activate prompt version');
+    }
+  });
+
+  /**
+   * POST /admin/prompts/:name/experiment - Split traffic between the active version and a candidate
+   */
+  fastify.post<{ Params: { name: string } }>('/admin/prompts/:name/experiment', async (request, reply) => {
+    try {
+      const { candidate, split } = z.object({
+        candidate: z.number().int().min(1),
+        split: z.number().gt(0).lt(1).optional().default(0.5),
+      }).parse(request.body);
+
+      const experiment = promptRegistry.startExperiment(request.params.name, candidate, split);
+
+      reply.code(200).send({
+        success: true,
+        message: `Prompt ${request.params.name} version ${candidate} serves ${Math.round(split * 100)}% of traffic`,
+        experiment,
+      });
+    } catch (error: any) {
+      sendPromptError(fastify, reply, error, 'Failed to start prompt experiment');
+    }
+  });
+
+  /**
+   * POST /admin/prompts/:name/experiment/stop - Serve the active version to all traffic again
+   */
+  fastify.post<{ Params: { name: string } }>('/admin/prompts/:name/experiment/stop', async (request, reply) => {
+    try {
+      const stopped = promptRegistry.stopExperiment(request.params.name);
+
+      reply.code(200).send({
+        success: true,
+        message: stopped ? `Prompt ${request.params.name} experiment stopped` : 'No experiment running',
+      });
+    } catch (error: any) {
+      sendPromptError(fastify, reply, error, 'Failed to stop prompt experiment');
+    }
+  });
+
+  /**
+   * GET /admin/prompts/:name/comparison - Confidence and acceptance per version
+   */
+  fastify.get<{ Params: { name: string } }>('/admin/prompts/:name/comparison', async (request, reply) => {
+    try {
+      const { period } = z.object({ period: PeriodSchema }).parse(request.query);
+      const prompt = promptRegistry.get(request.params.name);
+
+      reply.code(200).send({
+        success: true,
+        name: prompt.name,
+        period,
+        activeVersion: prompt.activeVersion,
+        experiment: prompt.experiment,
+        versions: metricsCollector.getPromptComparison(prompt.name, getPeriodStart(period)),
+      });
+    } catch (error: any) {
+      sendPromptError(fastify, reply, error, 'Failed to compare prompt versions');
+    }
+  });
+
   /**
    * POST /admin/rate-limits/reset - Reset rate limits
    */
@@ -437,6 +567,46 @@ export async function adminRoute(fastify: FastifyInstance) {
   });
 }
 
+const PeriodSchema = z.enum(['overall', 'today', 'week', 'month']).optional().default('overall');
+
+/**
+ * Helper: Get the start of a reporting period (undefined for 'overall')
+ */
+function getPeriodStart(period: 'overall' | 'today' | 'week' | 'month'): Date | undefined {
+  if (period === 'today') {
+    return getTodayStart();
+  } else if (period === 'week') {
+    return new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+  } else if (period === 'month') {
+    return new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
+  }
+  return undefined;
+}
+
+/**
+ * Helper: Reply to a failed prompt operation (404 unknown prompt/version, 400 invalid input)
+ */
+function sendPromptError(fastify: FastifyInstance, reply: FastifyReply, error: any, fallback: string): void {
+  if (error instanceof z.ZodError) {
+    reply.code(400).send({
+      success: false,
+      error: 'Invalid request body',
+      details: error.issues,
+    });
+  } else if (error instanceof PromptError) {
+    reply.code(error.code === 'UNKNOWN_PROMPT' || error.code === 'UNKNOWN_VERSION' ? 404 : 400).send({
+      success: false,
+      error: error.message,
+    });
+  } else {
+    fastify.log.error(error);
+    reply.code(500).send({
+      success: false,
+      error: fallback,
+    });
+  }
+}
+
 /**
  * Helper: Get start of today (00:00:00)
  */
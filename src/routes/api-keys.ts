@@ -27,6 +27,7 @@ export async function apiKeysRoute(fastify: FastifyInstance) {
           createdBy: z.string().optional(),
           environment: z.enum(['development', 'production']).optional(),
           ipWhitelist: z.array(z.string()).optional(),
+          piiPolicy: z.enum(['redact', 'block', 'allow']).optional(),
         }).optional(),
       });
 
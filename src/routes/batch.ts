@@ -0,0 +1,123 @@
+// Batch refinement endpoint (one result or error per item)
+import { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { authMiddlewareV2 as authMiddleware, consumeKeyRequest, recordProviderUsage } from '../middleware/auth-v2.js';
+import { providerFactoryV2 } from '../lib/providers/index.js';
+import { resolveSchemaInput } from '../lib/json-schema.js';
+import { mapWithConcurrency } from '../lib/concurrency.js';
+import { toRefinementError } from '../lib/refinement-errors.js';
+import { policyManager } from '../lib/policies.js';
+import { RefinementRequestSchema } from './refine.js';
+import type {
+  BatchItemResult,
+  BatchRefinementRequest,
+  BatchRefinementResponse,
+  RefinementRequest,
+} from '../types/index.js';
+
+/**
+ * Batch limits
+ */
+export const MAX_BATCH_SIZE = 100;
+export const DEFAULT_BATCH_CONCURRENCY = 4;
+
+// Zod schema for request validation (items are validated one by one)
+const BatchRefinementRequestSchema = z.object({
+  requests: z.array(z.any()).min(1).max(MAX_BATCH_SIZE),
+  options: z.object({
+    concurrency: z.number().int().min(1).max(10).optional(),
+  }).optional(),
+});
+
+export async function batchRoute(fastify: FastifyInstance) {
+  // Apply authentication middleware to this route
+  fastify.addHook('preHandler', authMiddleware);
+
+  fastify.post<{ Body: BatchRefinementRequest }>('/refine/batch', async (request, reply) => {
+    const startTime = Date.now();
+
+    try {
+      // Validate request body
+      const { requests, options } = BatchRefinementRequestSchema.parse(request.body);
+      const context = {
+        piiPolicy: request.apiKey?.metadata?.piiPolicy,
+        policy: await policyManager.resolve(request.apiKey?.customerId || 'legacy'),
+      };
+
+      // The middleware charged the batch request itself; it pays for the first accepted item
+      let middlewareChargeUsed = false;
+
+      const results = await mapWithConcurrency(
+        requests,
+        options?.concurrency || DEFAULT_BATCH_CONCURRENCY,
+        async (item, index): Promise<BatchItemResult> => {
+          try {
+            const validatedItem = RefinementRequestSchema.parse(item);
+            const { schema, warnings } = resolveSchemaInput(validatedItem.schema);
+
+            // Every accepted item counts against the per-key limits (invalid items are not charged)
+            if (middlewareChargeUsed) {
+              const charge = await consumeKeyRequest(request);
+              if (!charge.allowed) {
+                return { index, success: false, error: charge.error, errorCode: charge.errorCode };
+              }
+            }
+            middlewareChargeUsed = true;
+
+            const result = await providerFactoryV2.refineSchema(
+              { ...validatedItem, schema } as RefinementRequest,
+              context
+            );
+
+            await recordProviderUsage(request, result, {
+              schemaTypeName: schema.typeName,
+              sampleCount: validatedItem.samples.length,
+              aiModel: validatedItem.options?.model,
+            });
+
+            const itemResult: BatchItemResult = { index, success: true, ...result };
+            if (warnings.length > 0) {
+              itemResult.suggestions = [...warnings, ...(result.suggestions || [])];
+            }
+            return itemResult;
+          } catch (error: any) {
+            const itemError = toRefinementError(error);
+            if (itemError.errorCode === 'INTERNAL_ERROR') {
+              fastify.log.error(error);
+            }
+            return { index, ...itemError };
+          }
+        }
+      );
+
+      const succeeded = results.filter((result) => result.success).length;
+      const response: BatchRefinementResponse = {
+        success: true,
+        results,
+        succeeded,
+        failed: results.length - succeeded,
+        creditsUsed: results.reduce((sum, result) => sum + (result.creditsUsed || 0), 0),
+        processingTime: Date.now() - startTime,
+      };
+
+      reply.code(200).send(response);
+    } catch (error: any) {
+      // Handle Zod validation errors
+      if (error instanceof z.ZodError) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Invalid request format',
+          errorCode: 'INVALID_REQUEST',
+        } as BatchRefinementResponse);
+      }
+
+      // Generic error
+      fastify.log.error(error);
+      return reply.code(500).send({
+        success: false,
+        error: 'Internal server error',
+        errorCode: 'INTERNAL_ERROR',
+      } as BatchRefinementResponse);
+    }
+  });
+}
@@ -0,0 +1,97 @@
+// Explanation endpoint for payloads that fail a schema
+import { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { authMiddlewareV2 as authMiddleware, recordProviderUsage } from '../middleware/auth-v2.js';
+import { providerFactoryV2 } from '../lib/providers/index.js';
+import { PiiBlockedError } from '../lib/pii.js';
+import { SchemaEvaluationError } from '../lib/schema-sandbox.js';
+import type { ExplanationRequest, ExplanationResponse } from '../types/index.js';
+
+// Zod schema for request validation
+const ExplanationRequestSchema = z.object({
+  schema: z.object({
+    code: z.string().min(1).max(50000), // Max 50KB schema
+    typeName: z.string().min(1).max(255),
+  }),
+  payloads: z.array(z.any()).min(1).max(20), // Max 20 payloads
+  options: z.object({
+    provider: z.enum(['openai', 'anthropic', 'heuristic', 'auto']).optional(),
+    model: z.string().optional(),
+  }).optional(),
+});
+
+export async function explainRoute(fastify: FastifyInstance) {
+  // Apply authentication middleware to this route
+  fastify.addHook('preHandler', authMiddleware);
+
+  /**
+   * POST /explain - Plain-language explanation and suggested fix for every validation issue
+   */
+  fastify.post<{ Body: ExplanationRequest }>('/explain', async (request, reply) => {
+    try {
+      const validatedRequest = ExplanationRequestSchema.parse(request.body);
+
+      const result = await providerFactoryV2.explainPayloads(validatedRequest as ExplanationRequest, {
+        piiPolicy: request.apiKey?.metadata?.piiPolicy,
+      });
+
+      // Every payload valid: no provider was asked
+      if (result.aiProvider) {
+        await recordProviderUsage(request, result, {
+          schemaTypeName: validatedRequest.schema.typeName,
+          sampleCount: validatedRequest.payloads.length,
+          aiModel: validatedRequest.options?.model,
+        });
+      }
+
+      reply.code(200).send({
+        success: true,
+        ...result,
+      } as ExplanationResponse);
+    } catch (error: any) {
+      // Handle Zod validation errors
+      if (error instanceof z.ZodError) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Invalid request format',
+          errorCode: 'INVALID_REQUEST',
+        } as ExplanationResponse);
+      }
+
+      // Schema code that cannot be compiled or run
+      if (error instanceof SchemaEvaluationError) {
+        return reply.code(400).send({
+          success: false,
+          error: error.message,
+          errorCode: 'INVALID_SCHEMA',
+        } as ExplanationResponse);
+      }
+
+      // Payloads contain PII and the API key's policy is "block"
+      if (error instanceof PiiBlockedError) {
+        return reply.code(422).send({
+          success: false,
+          error: error.message,
+          errorCode: 'PII_BLOCKED',
+          piiReport: error.report,
+        } as ExplanationResponse);
+      }
+
+      // Handle provider errors (all providers failed)
+      if (error.message?.includes('API error') || error.message?.includes('provider')) {
+        return reply.code(500).send({
+          success: false,
+          error: error.message,
+          errorCode: 'AI_PROVIDER_ERROR',
+        } as ExplanationResponse);
+      }
+
+      fastify.log.error(error);
+      return reply.code(500).send({
+        success: false,
+        error: 'Internal server error',
+        errorCode: 'INTERNAL_ERROR',
+      } as ExplanationResponse);
+    }
+  });
+}
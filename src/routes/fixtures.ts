@@ -0,0 +1,64 @@
+// Test fixture generation endpoint
+import { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { authMiddlewareV2 as authMiddleware } from '../middleware/auth-v2.js';
+import { generateFixtures } from '../lib/fixtures.js';
+import { SchemaEvaluationError } from '../lib/schema-sandbox.js';
+import type { FixturesRequest, FixturesResponse } from '../types/index.js';
+
+// Zod schema for request validation
+const FixturesRequestSchema = z.object({
+  schema: z.object({
+    code: z.string().min(1).max(50000), // Max 50KB schema
+    typeName: z.string().min(1).max(255),
+  }),
+  samples: z.array(z.any()).max(100).optional(),
+});
+
+export async function fixturesRoute(fastify: FastifyInstance) {
+  // Apply authentication middleware to this route
+  fastify.addHook('preHandler', authMiddleware);
+
+  /**
+   * POST /fixtures - Valid, boundary and invalid fixtures for a Zod schema (no AI, no credits)
+   */
+  fastify.post<{ Body: FixturesRequest }>('/fixtures', async (request, reply) => {
+    const startTime = Date.now();
+
+    try {
+      const { schema, samples } = FixturesRequestSchema.parse(request.body);
+      const fixtures = generateFixtures(schema.code, schema.typeName, samples);
+
+      reply.code(200).send({
+        success: true,
+        fixtures,
+        processingTime: Date.now() - startTime,
+      } as FixturesResponse);
+    } catch (error: any) {
+      // Handle Zod validation errors
+      if (error instanceof z.ZodError) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Invalid request format',
+          errorCode: 'INVALID_REQUEST',
+        } as FixturesResponse);
+      }
+
+      // Schema code that cannot be compiled or inspected
+      if (error instanceof SchemaEvaluationError) {
+        return reply.code(400).send({
+          success: false,
+          error: error.message,
+          errorCode: 'INVALID_SCHEMA',
+        } as FixturesResponse);
+      }
+
+      fastify.log.error(error);
+      return reply.code(500).send({
+        success: false,
+        error: 'Internal server error',
+        errorCode: 'INTERNAL_ERROR',
+      } as FixturesResponse);
+    }
+  });
+}
@@ -0,0 +1,111 @@
+// Schema inference endpoint (raw samples → Zod schema)
+import { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { authMiddlewareV2 as authMiddleware, recordProviderUsage } from '../middleware/auth-v2.js';
+import { providerFactoryV2 } from '../lib/providers/index.js';
+import { inferSchema } from '../lib/schema-inference.js';
+import { PiiBlockedError } from '../lib/pii.js';
+import { policyManager } from '../lib/policies.js';
+import type { InferenceRequest, InferenceResponse } from '../types/index.js';
+
+// Zod schema for request validation
+const InferenceRequestSchema = z.object({
+  samples: z.array(z.any()).min(1).max(100), // Max 100 samples
+  typeName: z.string().min(1).max(255).regex(/^[A-Za-z_$][A-Za-z0-9_$]*$/).optional(),
+  refine: z.boolean().optional(),
+  options: z.object({
+    provider: z.enum(['openai', 'anthropic', 'heuristic', 'auto']).optional(),
+    model: z.string().optional(),
+    temperature: z.number().min(0).max(1).optional(),
+    outputFormats: z.array(z.enum(['zod', 'json-schema', 'diff'])).optional(),
+    outputTargets: z.array(z.enum(['typescript', 'valibot', 'yup', 'arktype', 'io-ts'])).optional(),
+    fixtures: z.boolean().optional(),
+    mode: z.enum(['single', 'consensus']).optional(),
+  }).optional(),
+});
+
+export async function inferRoute(fastify: FastifyInstance) {
+  // Apply authentication middleware to this route
+  fastify.addHook('preHandler', authMiddleware);
+
+  fastify.post<{ Body: InferenceRequest }>('/infer', async (request, reply) => {
+    const startTime = Date.now();
+
+    try {
+      // Validate request body
+      const { samples, typeName = 'Root', refine, options } = InferenceRequestSchema.parse(
+        request.body
+      );
+
+      const inferredSchema = inferSchema(samples, typeName);
+
+      if (!refine) {
+        return reply.code(200).send({
+          success: true,
+          inferredSchema,
+          creditsUsed: 0,
+          processingTime: Date.now() - startTime,
+        } as InferenceResponse);
+      }
+
+      // Chain into refinement with the inferred schema
+      const result = await providerFactoryV2.refineSchema(
+        { schema: inferredSchema, samples, options },
+        {
+          piiPolicy: request.apiKey?.metadata?.piiPolicy,
+          policy: await policyManager.resolve(request.apiKey?.customerId || 'legacy'),
+        }
+      );
+
+      await recordProviderUsage(request, result, {
+        schemaTypeName: typeName,
+        sampleCount: samples.length,
+        aiModel: options?.model,
+      });
+
+      const response: InferenceResponse = {
+        success: true,
+        inferredSchema,
+        ...result,
+      };
+
+      reply.code(200).send(response);
+    } catch (error: any) {
+      // Handle Zod validation errors
+      if (error instanceof z.ZodError) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Invalid request format',
+          errorCode: 'INVALID_REQUEST',
+        } as InferenceResponse);
+      }
+
+      // Samples contain PII and the API key's policy is "block"
+      if (error instanceof PiiBlockedError) {
+        return reply.code(422).send({
+          success: false,
+          error: error.message,
+          errorCode: 'PII_BLOCKED',
+          piiReport: error.report,
+        } as InferenceResponse);
+      }
+
+      // Handle provider errors (OpenAI, Anthropic, or all providers failed)
+      if (error.message?.includes('API error') || error.message?.includes('provider')) {
+        return reply.code(500).send({
+          success: false,
+          error: error.message,
+          errorCode: 'AI_PROVIDER_ERROR',
+        } as InferenceResponse);
+      }
+
+      // Generic error
+      fastify.log.error(error);
+      return reply.code(500).send({
+        success: false,
+        error: 'Internal server error',
+        errorCode: 'INTERNAL_ERROR',
+      } as InferenceResponse);
+    }
+  });
+}
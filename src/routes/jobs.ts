@@ -0,0 +1,135 @@
+// Asynchronous refinement job endpoints
+import { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { authMiddlewareV2 as authMiddleware, recordProviderUsage } from '../middleware/auth-v2.js';
+import { providerFactoryV2 } from '../lib/providers/index.js';
+import { resolveSchemaInput } from '../lib/json-schema.js';
+import { JobQueueFullError, jobManager, validateCallbackUrl } from '../lib/jobs.js';
+import { policyManager } from '../lib/policies.js';
+import { RefinementRequestSchema } from './refine.js';
+import type {
+  JobRefinementRequest,
+  JobResponse,
+  RefinementJob,
+  RefinementRequest,
+  RefinementResponse,
+} from '../types/index.js';
+
+// Zod schema for request validation
+const JobRefinementRequestSchema = RefinementRequestSchema.extend({
+  callbackUrl: z.string().max(2048).optional(),
+});
+
+export async function jobsRoute(fastify: FastifyInstance) {
+  // Apply authentication middleware to this route
+  fastify.addHook('preHandler', authMiddleware);
+
+  /**
+   * POST /jobs/refine - Queue a refinement and return the job id
+   */
+  fastify.post<{ Body: JobRefinementRequest }>('/jobs/refine', async (request, reply) => {
+    try {
+      // Validate request body
+      const { callbackUrl, ...validatedRequest } = JobRefinementRequestSchema.parse(request.body);
+
+      if (callbackUrl) {
+        const reason = validateCallbackUrl(callbackUrl);
+        if (reason) {
+          return reply.code(400).send({
+            success: false,
+            error: reason,
+            errorCode: 'INVALID_CALLBACK_URL',
+          } as JobResponse);
+        }
+      }
+
+      // JSON Schema input is converted to Zod code first
+      const { schema, warnings } = resolveSchemaInput(validatedRequest.schema);
+      const piiPolicy = request.apiKey?.metadata?.piiPolicy;
+      const policy = await policyManager.resolve(request.apiKey?.customerId || 'legacy');
+
+      const { job, callbackSecret } = await jobManager.submit(
+        async (onProgress) => {
+          const result = await providerFactoryV2.refineSchema(
+            { ...validatedRequest, schema } as RefinementRequest,
+            { piiPolicy, policy, onProgress }
+          );
+
+          await recordProviderUsage(request, result, {
+            schemaTypeName: schema.typeName,
+            sampleCount: validatedRequest.samples.length,
+            aiModel: validatedRequest.options?.model,
+          });
+
+          const response: RefinementResponse = { success: true, ...result };
+          if (warnings.length > 0) {
+            response.suggestions = [...warnings, ...(result.suggestions || [])];
+          }
+          return response;
+        },
+        { ownerId: request.apiKey?.kid || 'legacy', callbackUrl }
+      );
+
+      reply.code(202).send({
+        success: true,
+        job: toPublicJob(job),
+        ...(callbackSecret ? { callbackSecret } : {}),
+      } as JobResponse);
+    } catch (error: any) {
+      // Handle Zod validation errors
+      if (error instanceof z.ZodError) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Invalid request format',
+          errorCode: 'INVALID_REQUEST',
+        } as JobResponse);
+      }
+
+      if (error instanceof JobQueueFullError) {
+        return reply.code(503).header('Retry-After', '30').send({
+          success: false,
+          error: error.message,
+          errorCode: 'QUEUE_FULL',
+        } as JobResponse);
+      }
+
+      // Generic error
+      fastify.log.error(error);
+      return reply.code(500).send({
+        success: false,
+        error: 'Internal server error',
+        errorCode: 'INTERNAL_ERROR',
+      } as JobResponse);
+    }
+  });
+
+  /**
+   * GET /jobs/:id - Job status, progress and final response
+   */
+  fastify.get<{ Params: { id: string } }>('/jobs/:id', async (request, reply) => {
+    try {
+      const job = await jobManager.get(request.params.id, request.apiKey?.kid || 'legacy');
+
+      if (!job) {
+        return reply.code(404).send({
+          success: false,
+          error: 'Job not found',
+          errorCode: 'JOB_NOT_FOUND',
+        } as JobResponse);
+      }
+
+      reply.code(200).send({ success: true, job: toPublicJob(job) } as JobResponse);
+    } catch (error: any) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        success: false,
+        error: 'Internal server error',
+        errorCode: 'INTERNAL_ERROR',
+      } as JobResponse);
+    }
+  });
+}
+
+function toPublicJob({ ownerId: _ownerId, ...job }: RefinementJob): Omit<RefinementJob, 'ownerId'> {
+  return job;
+}
@@ -0,0 +1,78 @@
+// OpenAPI document refinement endpoint
+import { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { authMiddlewareV2 as authMiddleware, recordProviderUsage } from '../middleware/auth-v2.js';
+import { refineOpenApiDocument } from '../lib/openapi.js';
+import { PiiBlockedError } from '../lib/pii.js';
+import { policyManager } from '../lib/policies.js';
+import type { OpenApiRefinementRequest, OpenApiRefinementResponse } from '../types/index.js';
+
+// Zod schema for request validation
+const OpenApiRefinementRequestSchema = z.object({
+  document: z.looseObject({
+    openapi: z.string().regex(/^3\./, 'Only OpenAPI 3.x documents are supported'),
+    components: z.looseObject({
+      schemas: z.record(z.string(), z.any()),
+    }),
+  }),
+  examples: z.record(z.string(), z.array(z.any()).min(1).max(100)), // Max 100 samples per component
+  options: z.object({
+    provider: z.enum(['openai', 'anthropic', 'heuristic', 'auto']).optional(),
+    model: z.string().optional(),
+    temperature: z.number().min(0).max(1).optional(),
+    concurrency: z.number().int().min(1).max(10).optional(),
+  }).optional(),
+});
+
+export async function openApiRoute(fastify: FastifyInstance) {
+  // Apply authentication middleware to this route
+  fastify.addHook('preHandler', authMiddleware);
+
+  fastify.post<{ Body: OpenApiRefinementRequest }>('/openapi/refine', async (request, reply) => {
+    try {
+      // Validate request body
+      const validatedRequest = OpenApiRefinementRequestSchema.parse(request.body);
+
+      const result = await refineOpenApiDocument(validatedRequest as OpenApiRefinementRequest, {
+        piiPolicy: request.apiKey?.metadata?.piiPolicy,
+        policy: await policyManager.resolve(request.apiKey?.customerId || 'legacy'),
+      });
+
+      await recordProviderUsage(request, result);
+
+      const response: OpenApiRefinementResponse = {
+        success: true,
+        ...result,
+      };
+
+      reply.code(200).send(response);
+    } catch (error: any) {
+      // Handle Zod validation errors
+      if (error instanceof z.ZodError) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Invalid request format',
+          errorCode: 'INVALID_REQUEST',
+        } as OpenApiRefinementResponse);
+      }
+
+      // Samples contain PII and the API key's policy is "block"
+      if (error instanceof PiiBlockedError) {
+        return reply.code(422).send({
+          success: false,
+          error: error.message,
+          errorCode: 'PII_BLOCKED',
+          piiReport: error.report,
+        } as OpenApiRefinementResponse);
+      }
+
+      // Generic error
+      fastify.log.error(error);
+      return reply.code(500).send({
+        success: false,
+        error: 'Internal server error',
+        errorCode: 'INTERNAL_ERROR',
+      } as OpenApiRefinementResponse);
+    }
+  });
+}
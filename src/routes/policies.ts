@@ -0,0 +1,151 @@
+// Customer refinement policy endpoints
+import { FastifyInstance, FastifyRequest } from 'fastify';
+import { z } from 'zod';
+import { authMiddlewareV2 as authMiddleware } from '../middleware/auth-v2.js';
+import { policyManager, RULE_PACKS } from '../lib/policies.js';
+import type { PolicyResponse, RefinementPolicy } from '../types/index.js';
+
+// Zod type used by field-type and date-type rules ("z.string().uuid()")
+const ZodTypeSchema = z
+  .string()
+  .min(3)
+  .max(200)
+  .refine((code) => /^z\.\w+/.test(code.trim()), { message: 'Must be a Zod type such as z.string().uuid()' });
+
+const PolicyRuleSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('strict-objects') }),
+  z.object({ type: z.literal('no-transforms') }),
+  z.object({
+    type: z.literal('field-type'),
+    fields: z.array(z.string().min(1).max(100)).min(1).max(50),
+    zodType: ZodTypeSchema,
+  }),
+  z.object({ type: z.literal('date-type'), zodType: ZodTypeSchema }),
+  z.object({ type: z.literal('instruction'), text: z.string().min(1).max(500) }),
+]);
+
+// Zod schema for request validation
+const PolicySchema = z.object({
+  packs: z.array(z.enum(Object.keys(RULE_PACKS) as [string, ...string[]])).max(10).default([]),
+  rules: z.array(PolicyRuleSchema).max(50).default([]),
+});
+
+export async function policiesRoute(fastify: FastifyInstance) {
+  // Apply authentication middleware to this route
+  fastify.addHook('preHandler', authMiddleware);
+
+  /**
+   * GET /policies - Policy applied to every refinement for the key's customer
+   */
+  fastify.get('/policies', async (request, reply) => {
+    try {
+      const policy = await policyManager.get(customerIdOf(request));
+      reply.code(200).send({ success: true, policy } as PolicyResponse);
+    } catch (error: any) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        success: false,
+        error: 'Failed to load policy',
+        errorCode: 'INTERNAL_ERROR',
+      } as PolicyResponse);
+    }
+  });
+
+  /**
+   * GET /policies/packs - Built-in rule packs
+   */
+  fastify.get('/policies/packs', async (_request, reply) => {
+    reply.code(200).send({
+      success: true,
+      packs: Object.entries(RULE_PACKS).map(([name, pack]) => ({ name, ...pack })),
+    });
+  });
+
+  /**
+   * PUT /policies - Replace the customer's policy (admin or policies:write keys)
+   */
+  fastify.put<{ Body: Pick<RefinementPolicy, 'packs' | 'rules'> }>('/policies', async (request, reply) => {
+    if (!canWritePolicies(request)) {
+      return reply.code(403).send({
+        success: false,
+        error: 'Insufficient permissions. Requires admin or policies:write.',
+        errorCode: 'FORBIDDEN',
+      } as PolicyResponse);
+    }
+
+    try {
+      const { packs, rules } = PolicySchema.parse(request.body);
+      const policy = await policyManager.save(customerIdOf(request), { packs, rules }, request.apiKey?.kid);
+
+      reply.code(200).send({ success: true, policy } as PolicyResponse);
+    } catch (error: any) {
+      // Handle Zod validation errors
+      if (error instanceof z.ZodError) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Invalid policy',
+          errorCode: 'INVALID_REQUEST',
+        } as PolicyResponse);
+      }
+
+      fastify.log.error(error);
+      return reply.code(500).send({
+        success: false,
+        error: 'Failed to save policy',
+        errorCode: 'INTERNAL_ERROR',
+      } as PolicyResponse);
+    }
+  });
+
+  /**
+   * DELETE /policies - Remove the customer's policy (admin or policies:write keys)
+   */
+  fastify.delete('/policies', async (request, reply) => {
+    if (!canWritePolicies(request)) {
+      return reply.code(403).send({
+        success: false,
+        error: 'Insufficient permissions. Requires admin or policies:write.',
+        errorCode: 'FORBIDDEN',
+      } as PolicyResponse);
+    }
+
+    try {
+      const deleted = await policyManager.delete(customerIdOf(request), request.apiKey?.kid);
+
+      if (!deleted) {
+        return reply.code(404).send({
+          success: false,
+          error: 'No policy configured',
+          errorCode: 'POLICY_NOT_FOUND',
+        } as PolicyResponse);
+      }
+
+      reply.code(200).send({ success: true, policy: null } as PolicyResponse);
+    } catch (error: any) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        success: false,
+        error: 'Failed to delete policy',
+        errorCode: 'INTERNAL_ERROR',
+      } as PolicyResponse);
+    }
+  });
+}
+
+/**
+ * Policies belong to the key's customer (the legacy key has its own)
+ */
+function customerIdOf(request: FastifyRequest): string {
+  return request.apiKey?.customerId || 'legacy';
+}
+
+/**
+ * JWT keys need admin or policies:write; the legacy key is the operator's
+ */
+function canWritePolicies(request: FastifyRequest): boolean {
+  if (!request.apiKey) {
+    return true;
+  }
+
+  return ['admin', 'policies:write'].some((permission) => request.apiKey!.permissions.includes(permission));
+}
@@ -1,22 +1,35 @@
 // AI schema refinement endpoint
 import { FastifyInstance } from 'fastify';
 import { z } from 'zod';
-import { authMiddlewareV2 as authMiddleware } from '../middleware/auth-v2.js';
+import { authMiddlewareV2 as authMiddleware, recordProviderUsage } from '../middleware/auth-v2.js';
 import { providerFactoryV2 } from '../lib/providers/index.js';
+import { resolveSchemaInput } from '../lib/json-schema.js';
+import { PiiBlockedError } from '../lib/pii.js';
+import { policyManager } from '../lib/policies.js';
 import type { RefinementRequest, RefinementResponse } from '../types/index.js';
 
-// Zod schema for request validation
-const RefinementRequestSchema = z.object({
-  schema: z.object({
-    code: z.string().min(1).max(50000), // Max 50KB schema
-    typeName: z.string().min(1).max(255),
-    fields: z.record(z.string(), z.string()),
-  }),
+// Zod schema for request validation (shared with the batch endpoint)
+export const RefinementRequestSchema = z.object({
+  schema: z.union([
+    z.object({
+      code: z.string().min(1).max(50000), // Max 50KB schema
+      typeName: z.string().min(1).max(255),
+      fields: z.record(z.string(), z.string()),
+    }),
+    z.object({
+      jsonSchema: z.record(z.string(), z.any()), // JSON Schema document instead of Zod code
+      typeName: z.string().min(1).max(255).regex(/^[A-Za-z_$][A-Za-z0-9_$]*$/),
+    }),
+  ]),
   samples: z.array(z.any()).min(1).max(100), // Max 100 samples
   options: z.object({
-    provider: z.enum(['openai', 'anthropic', 'auto']).optional(),
+    provider: z.enum(['openai', 'anthropic', 'heuristic', 'auto']).optional(),
     model: z.string().optional(),
     temperature: z.number().min(0).max(1).optional(),
+    outputFormats: z.array(z.enum(['zod', 'json-schema', 'diff'])).optional(),
+    outputTargets: z.array(z.enum(['typescript', 'valibot', 'yup', 'arktype', 'io-ts'])).optional(),
+    fixtures: z.boolean().optional(),
+    mode: z.enum(['single', 'consensus']).optional(),
   }).optional(),
 });
 
@@ -29,14 +42,33 @@ export async function refineRoute(fastify: FastifyInstance) {
       // Validate request body
       const validatedRequest = RefinementRequestSchema.parse(request.body);
 
+      // JSON Schema input is converted to Zod code first
+      const { schema, warnings } = resolveSchemaInput(validatedRequest.schema);
+
       // Use enhanced provider factory V2 (with caching, rate limiting, cost tracking, and metrics)
-      const result = await providerFactoryV2.refineSchema(validatedRequest as RefinementRequest);
+      const result = await providerFactoryV2.refineSchema(
+        { ...validatedRequest, schema } as RefinementRequest,
+        {
+          piiPolicy: request.apiKey?.metadata?.piiPolicy,
+          policy: await policyManager.resolve(request.apiKey?.customerId || 'legacy'),
+        }
+      );
 
       const response: RefinementResponse = {
         success: true,
         ...result,
       };
 
+      if (warnings.length > 0) {
+        response.suggestions = [...warnings, ...(result.suggestions || [])];
+      }
+
+      await recordProviderUsage(request, result, {
+        schemaTypeName: schema.typeName,
+        sampleCount: validatedRequest.samples.length,
+        aiModel: validatedRequest.options?.model,
+      });
+
       reply.code(200).send(response);
     } catch (error: any) {
       // Handle Zod validation errors
@@ -48,6 +80,16 @@ export async function refineRoute(fastify: FastifyInstance) {
         } as RefinementResponse);
       }
 
+      // Samples contain PII and the API key's policy is "block"
+      if (error instanceof PiiBlockedError) {
+        return reply.code(422).send({
+          success: false,
+          error: error.message,
+          errorCode: 'PII_BLOCKED',
+          piiReport: error.report,
+        } as RefinementResponse);
+      }
+
       // Handle provider errors (OpenAI, Anthropic, or all providers failed)
       if (error.message?.includes('API error') || error.message?.includes('provider')) {
         return reply.code(500).send({
@@ -0,0 +1,148 @@
+// Interactive refinement session endpoints
+import { FastifyInstance, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { authMiddlewareV2 as authMiddleware, recordProviderUsage } from '../middleware/auth-v2.js';
+import { resolveSchemaInput } from '../lib/json-schema.js';
+import { toRefinementError } from '../lib/refinement-errors.js';
+import { sessionManager, SessionError } from '../lib/sessions.js';
+import { policyManager } from '../lib/policies.js';
+import { RefinementRequestSchema } from './refine.js';
+import type {
+  RefinementRequest,
+  RefinementSession,
+  SessionFeedbackRequest,
+  SessionResponse,
+} from '../types/index.js';
+
+// Zod schema for feedback validation
+const SessionFeedbackSchema = z.object({
+  feedback: z.array(
+    z.object({
+      index: z.number().int().min(0),
+      decision: z.enum(['accept', 'reject']),
+      comment: z.string().max(500).optional(),
+    })
+  ).min(1).max(100),
+});
+
+const ERROR_STATUS: Record<string, number> = {
+  INVALID_REQUEST: 400,
+  INVALID_FEEDBACK: 400,
+  SESSION_BUSY: 409,
+  PII_BLOCKED: 422,
+};
+
+export async function sessionsRoute(fastify: FastifyInstance) {
+  // Apply authentication middleware to this route
+  fastify.addHook('preHandler', authMiddleware);
+
+  /**
+   * POST /sessions - Start a session from a refinement request (runs round 1)
+   */
+  fastify.post<{ Body: RefinementRequest }>('/sessions', async (request, reply) => {
+    try {
+      const validatedRequest = RefinementRequestSchema.parse(request.body);
+
+      // JSON Schema input is converted to Zod code first
+      const { schema, warnings } = resolveSchemaInput(validatedRequest.schema);
+
+      const session = await sessionManager.create({ ...validatedRequest, schema } as RefinementRequest, {
+        ownerId: request.apiKey?.kid || 'legacy',
+        context: {
+          piiPolicy: request.apiKey?.metadata?.piiPolicy,
+          policy: await policyManager.resolve(request.apiKey?.customerId || 'legacy'),
+        },
+      });
+
+      const firstRound = session.history[0].response;
+      await recordProviderUsage(request, firstRound, {
+        schemaTypeName: session.typeName,
+        sampleCount: session.sampleCount,
+        aiModel: validatedRequest.options?.model,
+      });
+
+      if (warnings.length > 0) {
+        firstRound.suggestions = [...warnings, ...(firstRound.suggestions || [])];
+      }
+
+      reply.code(201).send({ success: true, session: toPublicSession(session) } as SessionResponse);
+    } catch (error: any) {
+      return sendError(fastify, reply, error);
+    }
+  });
+
+  /**
+   * GET /sessions/:id - Session with full history and the current schema code
+   */
+  fastify.get<{ Params: { id: string } }>('/sessions/:id', async (request, reply) => {
+    const session = sessionManager.get(request.params.id, request.apiKey?.kid || 'legacy');
+
+    if (!session) {
+      return reply.code(404).send({
+        success: false,
+        error: 'Session not found',
+        errorCode: 'SESSION_NOT_FOUND',
+      } as SessionResponse);
+    }
+
+    reply.code(200).send({ success: true, session: toPublicSession(session) } as SessionResponse);
+  });
+
+  /**
+   * POST /sessions/:id/feedback - Accept/reject the latest round's improvements and refine again
+   */
+  fastify.post<{ Params: { id: string }; Body: SessionFeedbackRequest }>(
+    '/sessions/:id/feedback',
+    async (request, reply) => {
+      try {
+        const { feedback } = SessionFeedbackSchema.parse(request.body);
+
+        const session = await sessionManager.submitFeedback(
+          request.params.id,
+          request.apiKey?.kid || 'legacy',
+          feedback,
+          {
+            piiPolicy: request.apiKey?.metadata?.piiPolicy,
+            policy: await policyManager.resolve(request.apiKey?.customerId || 'legacy'),
+          }
+        );
+
+        if (!session) {
+          return reply.code(404).send({
+            success: false,
+            error: 'Session not found',
+            errorCode: 'SESSION_NOT_FOUND',
+          } as SessionResponse);
+        }
+
+        await recordProviderUsage(request, session.history[session.history.length - 1].response, {
+          schemaTypeName: session.typeName,
+          sampleCount: session.sampleCount,
+        });
+
+        reply.code(200).send({ success: true, session: toPublicSession(session) } as SessionResponse);
+      } catch (error: any) {
+        return sendError(fastify, reply, error);
+      }
+    }
+  );
+}
+
+function toPublicSession({ ownerId: _ownerId, ...session }: RefinementSession): Omit<RefinementSession, 'ownerId'> {
+  return session;
+}
+
+/**
+ * Same error bodies as /refine, plus session feedback errors
+ */
+function sendError(fastify: FastifyInstance, reply: FastifyReply, error: any) {
+  const response: SessionResponse = error instanceof SessionError
+    ? { success: false, error: error.message, errorCode: error.code }
+    : toRefinementError(error);
+
+  if (response.errorCode === 'INTERNAL_ERROR') {
+    fastify.log.error(error);
+  }
+
+  return reply.code(ERROR_STATUS[response.errorCode!] || 500).send(response);
+}
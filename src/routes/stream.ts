@@ -0,0 +1,141 @@
+// Streaming schema refinement endpoint (Server-Sent Events)
+import { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { authMiddlewareV2 as authMiddleware, recordProviderUsage } from '../middleware/auth-v2.js';
+import { providerFactoryV2 } from '../lib/providers/index.js';
+import { resolveSchemaInput } from '../lib/json-schema.js';
+import { toRefinementError } from '../lib/refinement-errors.js';
+import { policyManager } from '../lib/policies.js';
+import { RefinementRequestSchema } from './refine.js';
+import type { RefinementRequest, RefinementResponse } from '../types/index.js';
+
+/**
+ * Comment line sent while a provider is thinking, so proxies keep the connection open
+ */
+export const STREAM_HEARTBEAT_MS = 15000;
+
+export async function streamRoute(fastify: FastifyInstance) {
+  // Apply authentication middleware to this route
+  fastify.addHook('preHandler', authMiddleware);
+
+  /**
+   * POST /refine/stream - Same body as /refine, answered with an SSE stream:
+   * started → provider_selected → (fallback → provider_selected)* → improvement* → retracted? →
+   * improvement* → completed | error
+   */
+  fastify.post<{ Body: RefinementRequest }>('/refine/stream', async (request, reply) => {
+    let validatedRequest: z.infer<typeof RefinementRequestSchema>;
+    let resolved: ReturnType<typeof resolveSchemaInput>;
+
+    // Invalid bodies get a plain JSON error before the stream opens
+    try {
+      validatedRequest = RefinementRequestSchema.parse(request.body);
+      resolved = resolveSchemaInput(validatedRequest.schema);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Invalid request format',
+          errorCode: 'INVALID_REQUEST',
+        } as RefinementResponse);
+      }
+
+      fastify.log.error(error);
+      return reply.code(500).send({
+        success: false,
+        error: 'Internal server error',
+        errorCode: 'INTERNAL_ERROR',
+      } as RefinementResponse);
+    }
+
+    // Take over the socket (keep headers already set by CORS, helmet and versioning hooks)
+    reply.hijack();
+    for (const [name, value] of Object.entries(reply.getHeaders())) {
+      if (value !== undefined) {
+        reply.raw.setHeader(name, value);
+      }
+    }
+    reply.raw.writeHead(200, {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no', // Disable nginx response buffering
+    });
+
+    // Client went away: keep refining (the result is cached) but stop writing
+    let closed = false;
+    reply.raw.on('close', () => {
+      closed = true;
+    });
+
+    const send = (event: string, data: unknown) => {
+      if (!closed && !reply.raw.writableEnded) {
+        reply.raw.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      }
+    };
+
+    const heartbeat = setInterval(() => {
+      if (!closed && !reply.raw.writableEnded) {
+        reply.raw.write(': ping\n\n');
+      }
+    }, STREAM_HEARTBEAT_MS);
+
+    const { schema, warnings } = resolved;
+    send('started', { typeName: schema.typeName, samples: validatedRequest.samples.length });
+
+    try {
+      const stream = providerFactoryV2.refineSchemaStream(
+        { ...validatedRequest, schema } as RefinementRequest,
+        {
+          piiPolicy: request.apiKey?.metadata?.piiPolicy,
+          policy: await policyManager.resolve(request.apiKey?.customerId || 'legacy'),
+          onEvent: ({ type, ...data }) => send(type, data),
+        }
+      );
+
+      // Improvements are sent as the provider produces them; validation retracts the ones it drops
+      // before `completed`, which holds the validated set
+      let result: Omit<RefinementResponse, 'success' | 'error' | 'errorCode'> | undefined;
+      for await (const chunk of stream) {
+        if (chunk.done) {
+          result = chunk.metadata?.result;
+        } else if (chunk.metadata?.improvement) {
+          send('improvement', { improvement: chunk.metadata.improvement });
+        } else if (chunk.metadata?.retracted) {
+          send('retracted', { improvements: chunk.metadata.retracted });
+        }
+      }
+
+      if (!result) {
+        throw new Error('Refinement stream ended without a result');
+      }
+
+      await recordProviderUsage(request, result, {
+        schemaTypeName: schema.typeName,
+        sampleCount: validatedRequest.samples.length,
+        aiModel: validatedRequest.options?.model,
+      });
+
+      const response: RefinementResponse = {
+        success: true,
+        ...result,
+      };
+
+      if (warnings.length > 0) {
+        response.suggestions = [...warnings, ...(result.suggestions || [])];
+      }
+
+      send('completed', response);
+    } catch (error: any) {
+      const response = toRefinementError(error);
+      if (response.errorCode === 'INTERNAL_ERROR') {
+        fastify.log.error(error);
+      }
+
+      send('error', response);
+    } finally {
+      clearInterval(heartbeat);
+      reply.raw.end();
+    }
+  });
+}
@@ -5,12 +5,22 @@ import helmet from '@fastify/helmet';
 import { env, getMaskedEnv } from './config/env.js';
 import { healthRoute } from './routes/health.js';
 import { refineRoute } from './routes/refine.js';
+import { batchRoute } from './routes/batch.js';
+import { streamRoute } from './routes/stream.js';
+import { inferRoute } from './routes/infer.js';
+import { openApiRoute } from './routes/openapi.js';
+import { jobsRoute } from './routes/jobs.js';
+import { sessionsRoute } from './routes/sessions.js';
+import { policiesRoute } from './routes/policies.js';
+import { fixturesRoute } from './routes/fixtures.js';
+import { explainRoute } from './routes/explain.js';
 import { usageRoute } from './routes/usage.js';
 import { adminRoute } from './routes/admin.js';
 import { versionRoute } from './routes/version.js';
 import { apiKeysRoute } from './routes/api-keys.js';
 import { versioningMiddleware } from './middleware/versioning.js';
 import { securityAuditor } from './lib/security.js';
+import { jobManager } from './lib/jobs.js';
 
 const server = Fastify({
   logger: {
@@ -52,6 +62,15 @@ server.addHook('preHandler', versioningMiddleware);
 // Routes
 await server.register(healthRoute, { prefix: '/api/v1' });
 await server.register(refineRoute, { prefix: '/api/v1' });
+await server.register(batchRoute, { prefix: '/api/v1' });
+await server.register(streamRoute, { prefix: '/api/v1' });
+await server.register(inferRoute, { prefix: '/api/v1' });
+await server.register(openApiRoute, { prefix: '/api/v1' });
+await server.register(jobsRoute, { prefix: '/api/v1' });
+await server.register(sessionsRoute, { prefix: '/api/v1' });
+await server.register(policiesRoute, { prefix: '/api/v1' });
+await server.register(fixturesRoute, { prefix: '/api/v1' });
+await server.register(explainRoute, { prefix: '/api/v1' });
 await server.register(usageRoute, { prefix: '/api/v1' });
 await server.register(adminRoute, { prefix: '/api/v1' });
 await server.register(versionRoute, { prefix: '/api/v1' });
@@ -67,6 +86,27 @@ server.get('/', async (_request, _reply) => {
       health: '/api/v1/health',
       version: '/api/v1/version',
       refine: '/api/v1/refine',
+      batch: '/api/v1/refine/batch',
+      stream: '/api/v1/refine/stream',
+      infer: '/api/v1/infer',
+      openapi: '/api/v1/openapi/refine',
+      jobs: {
+        create: 'POST /api/v1/jobs/refine',
+        status: 'GET /api/v1/jobs/:id',
+      },
+      sessions: {
+        create: 'POST /api/v1/sessions',
+        get: 'GET /api/v1/sessions/:id',
+        feedback: 'POST /api/v1/sessions/:id/feedback',
+      },
+      policies: {
+        get: 'GET /api/v1/policies',
+        update: 'PUT /api/v1/policies',
+        delete: 'DELETE /api/v1/policies',
+        packs: 'GET /api/v1/policies/packs',
+      },
+      fixtures: '/api/v1/fixtures',
+      explain: '/api/v1/explain',
       admin: '/api/v1/admin/dashboard',
       apiKeys: {
         create: 'POST /api/v1/api-keys',
@@ -119,6 +159,16 @@ signals.forEach((signal) => {
 // Start server
 const start = async () => {
   try {
+    // Jobs left queued or running by the previous process can never finish (the queue is in memory)
+    try {
+      const interrupted = await jobManager.failInterrupted();
+      if (interrupted > 0) {
+        console.warn(`⚠️  Marked ${interrupted} unfinished job(s) from before the restart as failed`);
+      }
+    } catch (error) {
+      console.error('❌ Could not check for unfinished jobs:', error);
+    }
+
     await server.listen({
       port: env.PORT,
       host: env.HOST,
@@ -140,6 +190,17 @@ const start = async () => {
 ║   GET  /api/v1/version         - Version info             ║
 ║   GET  /api/v1/health          - Health check             ║
 ║   POST /api/v1/refine          - Schema refinement (🔒)   ║
+║   POST /api/v1/refine/batch    - Batch refinement (🔒)    ║
+║   POST /api/v1/refine/stream   - Streaming (SSE) (🔒)     ║
+║   POST /api/v1/infer           - Schema inference (🔒)    ║
+║   POST /api/v1/openapi/refine  - OpenAPI refinement (🔒)  ║
+║   POST /api/v1/jobs/refine     - Queue refinement (🔒)    ║
+║   GET  /api/v1/jobs/:id        - Job status (🔒)          ║
+║   POST /api/v1/sessions        - Start session (🔒)       ║
+║   POST /api/v1/sessions/:id/feedback - Accept/reject (🔒) ║
+║   PUT  /api/v1/policies        - Refinement policy (🔒)   ║
+║   POST /api/v1/fixtures        - Test fixtures (🔒)       ║
+║   POST /api/v1/explain         - Explain failures (🔒)    ║
 ║   GET  /api/v1/usage           - Usage statistics (🔒)    ║
 ║   GET  /api/v1/admin/dashboard - Admin dashboard (🔒)     ║
 ║                                                           ║
@@ -1,39 +1,577 @@
 // Type definitions for ZodForge API
 
+export type AIProviderName = 'openai' | 'anthropic' | 'heuristic' | 'mock' | 'consensus';
+
+export type OutputFormat = 'zod' | 'json-schema' | 'diff';
+
+export type OutputTarget = 'typescript' | 'valibot' | 'yup' | 'arktype' | 'io-ts';
+
+export type RefinementMode = 'single' | 'consensus';
+
+export type PromptName = 'refine' | 'explain';
+
+/**
+ * Prompt template version used for a provider call
+ */
+export interface PromptVersionRef {
+  name: PromptName;
+  version: number;
+  variant?: 'control' | 'candidate'; // Experiment arm (only while an experiment runs on the prompt)
+}
+
+/**
+ * Tokens used by provider calls (including repair requests)
+ */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  estimated?: boolean;      // Counted with the local tokenizer (the provider reported no usage)
+  cost?: number;            // USD at the provider's rates (set by the provider factory)
+}
+
+/**
+ * Samples a refinement prompt showed the provider (chosen to fit its token budget)
+ */
+export interface PromptSampleReport {
+  sent: number[];           // Indices into the submitted samples, in prompt order
+  total: number;            // Samples submitted
+  duplicates: number;       // Identical samples left out
+  truncated: boolean;       // Long strings or arrays in the sent samples were shortened
+  schemaParts?: number;     // Schema refined in parts (one per nested object) because it was too large for one prompt
+}
+
 export interface RefinementRequest {
   schema: {
     code: string;           // Generated Zod schema code
     typeName: string;       // Schema name (e.g., "User")
     fields: Record<string, string>; // Field name → Zod type mapping
+    jsonSchema?: Record<string, unknown>; // Original JSON Schema (when submitted instead of code)
   };
   samples: any[];           // Sample data from JSON (max 100 samples)
   options?: {
-    provider?: 'openai' | 'anthropic' | 'auto';  // Default: openai (MVP: only openai)
+    provider?: 'openai' | 'anthropic' | 'heuristic' | 'auto';  // Default: openai (MVP: only openai)
     model?: string;         // Default: gpt-4-turbo-preview
     temperature?: number;   // Default: 0.2
+    outputFormats?: OutputFormat[]; // Default: ['zod'] (plus 'json-schema' for JSON Schema input)
+    outputTargets?: OutputTarget[]; // Refined schema as code for other validation libraries
+    fixtures?: boolean;     // Add valid, boundary and invalid fixtures for the refined schema
+    mode?: RefinementMode;  // Default: single ('consensus' asks several providers and merges their answers)
   };
+  feedback?: RefinementFeedback; // Earlier decisions on improvements (set by refinement sessions)
+  policy?: RefinementPolicy; // Customer policy (set from the API key, never from the request body)
+  prompt?: PromptVersionRef; // Prompt version selected for the request (set by the provider factory)
+  tokenBudget?: number;     // Input tokens the prompt may use (set by the provider factory from the model's limit)
+}
+
+/**
+ * Decisions from earlier rounds of a refinement session, passed to the provider prompt
+ */
+export interface RefinementFeedback {
+  accepted: Array<{ field: string; after: string }>;   // Already applied to schema.code
+  rejected: Array<{ field: string; after: string; comment?: string }>; // Never proposed again
+}
+
+/**
+ * A single policy rule (enforced on every refinement for the customer's keys)
+ */
+export type PolicyRule =
+  | { type: 'strict-objects' }                                  // Object schemas end in .strict()
+  | { type: 'no-transforms' }                                   // No .transform(), z.preprocess() or .pipe()
+  | { type: 'field-type'; fields: string[]; zodType: string }   // Field names ("id", "*Id") always use zodType
+  | { type: 'date-type'; zodType: string }                      // Date fields always use zodType
+  | { type: 'instruction'; text: string };                      // Prompt guidance only (not enforced)
+
+export type PolicyRuleType = PolicyRule['type'];
+
+/**
+ * Refinement policy of a customer (all keys with the same customerId share it)
+ */
+export interface RefinementPolicy {
+  customerId: string;
+  packs: string[];          // Built-in rule packs ("strict-contracts", "uuid-ids", "coerced-dates")
+  rules: PolicyRule[];      // Custom rules (enforced after the packs' rules)
+  updatedAt: string;
+  updatedBy?: string;       // kid of the key that saved the policy
+}
+
+export interface PolicyViolation {
+  field: string;
+  rule: PolicyRuleType;
+  action: 'rewritten' | 'rejected';
+  proposed: string;         // Zod type the provider proposed
+  enforced?: string;        // Zod type after rewriting
+}
+
+export interface PolicyReport {
+  customerId: string;
+  packs: string[];
+  rules: number;            // Rules enforced (packs expanded)
+  violations: PolicyViolation[]; // Improvements rewritten or rejected by the policy
+}
+
+/**
+ * How an improvement changes what the schema accepts or returns
+ */
+export type CompatibilityClass =
+  | 'tightening'  // May reject data the original schema accepted
+  | 'loosening'   // Accepts everything the original accepted, and more
+  | 'transform'   // Changes the parsed output (transforms, coercion to another type, defaults)
+  | 'neutral'     // No change in validation or output
+  | 'unknown';    // Could not be analyzed
+
+export interface ImprovementCompatibility {
+  improvementIndex: number; // Index into refinedSchema.improvements
+  field: string;
+  classification: CompatibilityClass;
+  reasons: string[];        // "minLength 1 → 3", "no longer optional", ...
+  affectedSamples: number[]; // Indexes of submitted samples this improvement affects
+}
+
+export interface AffectedSample {
+  index: number;            // Index into the submitted samples
+  effect: 'rejected' | 'output-changed'; // Rejected by the refined schema, or parsed to a different value
+  fields: string[];         // "email", "items[].sku"
+}
+
+export interface CompatibilityReport {
+  breaking: boolean;        // Any tightening or transform, or any affected sample
+  summary: Record<CompatibilityClass, number>;
+  improvements: ImprovementCompatibility[];
+  samplesAnalyzed: number;  // 0 when either schema could not be evaluated
+  affectedSamples: AffectedSample[];
+}
+
+export interface PolicyResponse {
+  success: boolean;
+  policy?: RefinementPolicy | null;
+  error?: string;
+  errorCode?: string;
+}
+
+export type PiiPolicy = 'redact' | 'block' | 'allow';
+
+export type PiiType = 'email' | 'phone' | 'credit_card' | 'iban' | 'national_id' | 'address';
+
+export type RefinementStage = 'screening' | 'refining' | 'validating' | 'rendering';
+
+/**
+ * Caller context for a refinement (resolved from the API key, never from the request body)
+ */
+export interface RefinementContext {
+  piiPolicy?: PiiPolicy;    // Default: global config piiPolicy
+  policy?: RefinementPolicy; // Customer policy injected into prompts and enforced on the result
+  onProgress?: (stage: RefinementStage, progress: number) => void; // Progress 0-1 at the start of each stage
+  onEvent?: (event: RefinementEvent) => void; // Provider selection, fallbacks and improvements as they happen
+}
+
+/**
+ * Events emitted while a refinement runs (streamed by POST /refine/stream)
+ */
+export type RefinementEvent =
+  | { type: 'provider_selected'; provider: string; attempt: 'primary' | 'fallback' | 'consensus' }
+  | { type: 'fallback'; from: string; to: string; reason: string }
+  | { type: 'improvement'; improvement: SchemaImprovement };
+
+export interface PiiFinding {
+  field: string;            // Field path ("email", "contacts[].phone")
+  type: PiiType;
+  count: number;            // Values detected
+}
+
+export interface PiiReport {
+  policy: PiiPolicy;
+  redacted: boolean;        // True when samples were rewritten before leaving the API
+  valuesRedacted: number;
+  findings: PiiFinding[];
+}
+
+export interface JsonSchemaInput {
+  jsonSchema: Record<string, unknown>; // JSON Schema document (alternative to code/fields)
+  typeName: string;
+}
+
+export interface SchemaImprovement {
+  field: string;
+  before: string;           // Original Zod type
+  after: string;            // Improved Zod type
+  reason: string;           // Explanation
+  confidence: number;       // 0-1
+  sourceSnippet?: string;   // Sample value that triggered the change
+  detectedPattern?: string; // Pattern identifier (e.g., "email_format")
+  ruleApplied?: string;     // Validation rule used (e.g., "RFC5322_email")
+  jsonSchemaKeywords?: Record<string, unknown>; // JSON Schema keywords added/changed (e.g., { format: "email" })
+  backedBy?: string[];      // Providers that proposed this improvement (consensus mode)
+}
+
+export interface SourcePosition {
+  line: number;             // 1-based
+  column: number;           // 1-based
+  offset: number;           // 0-based character offset
+}
+
+export interface SchemaPatchEdit {
+  improvementIndex: number; // Index into refinedSchema.improvements
+  field: string;
+  range: { start: SourcePosition; end: SourcePosition }; // Range in the original schema.code
+  oldText: string;
+  newText: string;
+}
+
+/**
+ * Refined schema rendered for another validation library
+ */
+export interface GeneratedTarget {
+  code: string;
+  warnings: string[]; // Constraints the library cannot express ("age: multipleOf 5 is not supported by io-ts")
+}
+
+export interface UnappliedImprovement extends SchemaImprovement {
+  unappliedReason: string;  // Why the improvement could not be applied to the code
+}
+
+export interface SampleFailure {
+  sampleIndex: number;      // Index into the submitted samples
+  path: Array<string | number>; // Zod issue path
+  message: string;          // Zod issue message
+  code: string;             // Zod issue code (e.g., "invalid_format")
+}
+
+export interface RejectedImprovement extends SchemaImprovement {
+  rejectedReason: string;   // Why the improvement was rejected
+  failures: SampleFailure[]; // Samples the improved schema no longer accepts
+}
+
+export interface FieldProfile {
+  presentCount: number;     // Values present (including null)
+  missingRate: number;      // 0-1, share of parent objects without the key
+  nullRate: number;         // 0-1, share of present values that are null
+  distinctCount: number;
+  topValues: Array<{ value: string | number | boolean; count: number }>;
+  types: Record<string, number>; // Value type → count (string, number, boolean, object, array)
+  length?: { min: number; max: number };  // String lengths
+  range?: { min: number; max: number; integer: boolean }; // Numeric range
+  formats?: Record<string, number>; // Detected string format → share of string values (0-1)
+}
+
+export interface ConsensusProposal {
+  provider: string;
+  after: string;
+  reason: string;
+  confidence: number;
+}
+
+export interface ConsensusDisagreement {
+  field: string;
+  kept?: string;            // `after` of the improvement that reached the quorum (if any)
+  proposals: ConsensusProposal[];
+  abstained: string[];      // Providers that proposed nothing for this field
+}
+
+export interface ConsensusReport {
+  providers: Array<{ provider: string; success: boolean; improvements?: number; error?: string }>;
+  quorum: number;           // Providers that must agree before an improvement is kept
+  agreed: number;           // Improvements kept
+  disagreements: ConsensusDisagreement[];
+}
+
+export interface FieldRelationship {
+  fields: string[];
+  pattern: string;
+  suggestion: string;
+  confidence: number;
 }
 
 export interface RefinementResponse {
   success: boolean;
   refinedSchema?: {
     code: string;           // Improved Zod schema code
-    improvements: Array<{
-      field: string;
-      before: string;       // Original Zod type
-      after: string;        // Improved Zod type
-      reason: string;       // Explanation
-      confidence: number;   // 0-1
-    }>;
+    improvements: SchemaImprovement[];
     confidence: number;     // Overall confidence score
+    relationships?: FieldRelationship[];
+    unappliedImprovements?: UnappliedImprovement[]; // Improvements that could not be patched into code
+    rejectedImprovements?: RejectedImprovement[]; // Improvements that broke valid samples
+    jsonSchema?: Record<string, unknown>; // Refined schema as JSON Schema (draft 2020-12)
+    diff?: string;          // Unified diff against the original schema.code
+    edits?: SchemaPatchEdit[]; // Text edits per improvement (against the original schema.code)
+    targets?: Partial<Record<OutputTarget, GeneratedTarget>>; // Requested options.outputTargets
+    fixtures?: SchemaFixtures; // Requested with options.fixtures
   };
   suggestions?: string[];   // Additional recommendations
+  fieldProfiles?: Record<string, FieldProfile>; // Per-field statistics over all samples ("address.city", "items[].sku")
+  piiReport?: PiiReport;    // PII detected in samples and how it was handled
+  policyReport?: PolicyReport; // Customer policy enforcement (when the key's customer has a policy)
+  compatibility?: CompatibilityReport; // Original vs refined schema (breaking-change analysis)
+  consensus?: ConsensusReport; // Per-provider outcome and disagreements (consensus mode)
+  prompt?: PromptVersionRef; // Prompt version the answer came from (prompt-based providers only)
+  promptSamples?: PromptSampleReport; // Samples the prompt showed (prompt-based providers only)
+  usage?: TokenUsage;       // Provider tokens and cost (absent for cached responses)
   creditsUsed?: number;     // Credits consumed (1 per request for MVP)
   creditsRemaining?: number; // Remaining monthly credits (unlimited for MVP)
   processingTime?: number;  // Milliseconds
-  aiProvider?: 'openai' | 'anthropic' | 'mock';
+  aiProvider?: AIProviderName;
+  error?: string;
+  errorCode?: string;
+}
+
+export interface InferredSchema {
+  code: string;             // Generated Zod schema code
+  typeName: string;
+  fields: Record<string, string>; // Top-level field name → Zod type mapping
+}
+
+export interface InferenceRequest {
+  samples: any[];           // Raw sample data (max 100 samples)
+  typeName?: string;        // Default: "Root"
+  refine?: boolean;         // Chain into AI refinement (default: false)
+  options?: RefinementRequest['options'];
+}
+
+export interface InferenceResponse extends RefinementResponse {
+  inferredSchema?: InferredSchema; // Schema inferred from the samples, before refinement
+}
+
+/**
+ * Example value for a schema (verified by parsing it against the schema)
+ */
+export interface SchemaFixture {
+  description: string;      // "All fields", "age: at minimum 0"
+  value: unknown;
+}
+
+export interface InvalidSchemaFixture extends SchemaFixture {
+  path: Array<string | number>; // Zod issue path the fixture fails at
+  expectedCode: string;     // Zod issue code ("too_small", "invalid_format", ...)
+}
+
+export interface SchemaFixtures {
+  valid: SchemaFixture[];
+  boundary: SchemaFixture[]; // Valid values exactly at a constraint's limit
+  invalid: InvalidSchemaFixture[]; // Each breaks exactly one constraint
+  warnings: string[];       // Fixtures that could not be generated or verified
+}
+
+export interface FixturesRequest {
+  schema: {
+    code: string;           // Zod schema code
+    typeName: string;
+  };
+  samples?: any[];          // Used as base example when none can be synthesized (regex fields)
+}
+
+export interface FixturesResponse {
+  success: boolean;
+  fixtures?: SchemaFixtures;
+  processingTime?: number;  // Milliseconds
+  error?: string;
+  errorCode?: string;
+}
+
+export interface ExplanationRequest {
+  schema: {
+    code: string;           // Zod schema code
+    typeName: string;
+  };
+  payloads: any[];          // Payloads that fail the schema (max 20)
+  options?: {
+    provider?: 'openai' | 'anthropic' | 'heuristic' | 'auto';
+    model?: string;
+  };
+}
+
+/**
+ * A Zod issue of a failing payload (found by parsing it against the schema in the sandbox)
+ */
+export interface PayloadIssue {
+  payloadIndex: number;
+  path: Array<string | number>; // Zod issue path
+  code: string;             // Zod issue code ("invalid_type", "too_small", ...)
+  message: string;          // Zod's own message
+  received?: unknown;       // Value at the path (absent when the value is missing)
+}
+
+export interface IssueFix {
+  target: 'schema' | 'data'; // What should change
+  suggestion: string;
+  code?: string;            // Zod code for schema fixes (e.g., "z.coerce.number()")
+}
+
+export interface IssueExplanation extends PayloadIssue {
+  explanation: string;      // Plain-language explanation
+  fix: IssueFix;
+}
+
+export interface PayloadExplanation {
+  index: number;            // Index into the request's payloads
+  valid: boolean;
+  issues: IssueExplanation[];
+}
+
+/**
+ * Issues as sent to a provider (received values screened by the PII policy)
+ */
+export interface ExplanationProviderRequest {
+  schema: ExplanationRequest['schema'];
+  issues: PayloadIssue[];
+  options?: ExplanationRequest['options'];
+  prompt?: PromptVersionRef; // Prompt version selected for the request
+}
+
+/**
+ * Provider wording for the issues, by index into ExplanationProviderRequest.issues
+ */
+export interface ExplanationResult {
+  explanations: Array<{ issueIndex: number; explanation: string; fix: IssueFix }>;
+  summary?: string;
+  prompt?: PromptVersionRef;
+  usage?: TokenUsage;
+  creditsUsed?: number;
+  creditsRemaining?: number;
+  processingTime?: number;
+  aiProvider?: AIProviderName;
+}
+
+export interface ExplanationResponse {
+  success: boolean;
+  payloads?: PayloadExplanation[];
+  summary?: string;         // Overall explanation across all payloads
+  piiReport?: PiiReport;    // PII in the issue values sent to the provider
+  prompt?: PromptVersionRef; // Prompt version the wording came from (prompt-based providers only)
+  usage?: TokenUsage;       // Provider tokens and cost (absent when no provider was asked)
+  creditsUsed?: number;     // 1 when a provider was asked, 0 when every payload is valid
+  creditsRemaining?: number;
+  processingTime?: number;  // Milliseconds
+  aiProvider?: AIProviderName;
+  error?: string;
+  errorCode?: string;
+}
+
+export interface OpenApiRefinementRequest {
+  document: Record<string, any>;  // OpenAPI 3.x document
+  examples: Record<string, any[]>; // Example payloads keyed by components.schemas name
+  options?: RefinementRequest['options'] & {
+    concurrency?: number;   // Components refined in parallel (default: 4)
+  };
+}
+
+export interface OpenApiComponentResult {
+  status: 'refined' | 'skipped' | 'failed';
+  improvements: SchemaImprovement[];
+  unappliedImprovements?: UnappliedImprovement[]; // Improvements not patched into the document
+  rejectedImprovements?: RejectedImprovement[];
+  confidence?: number;
+  aiProvider?: AIProviderName;
+  piiReport?: PiiReport;
+  error?: string;
+}
+
+export interface OpenApiRefinementResponse {
+  success: boolean;
+  document?: Record<string, any>; // Patched OpenAPI document
+  components?: Record<string, OpenApiComponentResult>;
+  suggestions?: string[];
+  usage?: TokenUsage;       // Provider tokens and cost over all refined components
+  creditsUsed?: number;
+  processingTime?: number;
+  error?: string;
+  errorCode?: string;
+}
+
+export interface BatchRefinementRequest {
+  requests: RefinementRequest[]; // Max 100 items, validated individually
+  options?: {
+    concurrency?: number;   // Items refined in parallel (default: 4)
+  };
+}
+
+export interface BatchItemResult extends RefinementResponse {
+  index: number;            // Position in the submitted requests array
+}
+
+export interface BatchRefinementResponse {
+  success: boolean;
+  results?: BatchItemResult[]; // One result or error per item, in request order
+  succeeded?: number;
+  failed?: number;
+  creditsUsed?: number;     // Sum of credits charged per item
+  processingTime?: number;
+  error?: string;
+  errorCode?: string;
+}
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface CallbackDelivery {
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: number;
+  lastError?: string;
+  deliveredAt?: string;     // ISO timestamp
+}
+
+export interface RefinementJob {
+  id: string;
+  status: JobStatus;
+  progress: number;         // 0-1
+  stage?: RefinementStage;  // Current refinement stage while running
+  ownerId: string;          // API key id (kid), or "legacy"
+  createdAt: string;        // ISO timestamps
+  startedAt?: string;
+  completedAt?: string;
+  result?: RefinementResponse; // Final response (error body for failed jobs)
+  callbackUrl?: string;
+  callback?: CallbackDelivery;
+}
+
+export interface JobRefinementRequest extends RefinementRequest {
+  callbackUrl?: string;     // Receives an HMAC-signed POST when the job finishes
+}
+
+export interface JobResponse {
+  success: boolean;
+  job?: Omit<RefinementJob, 'ownerId'>;
+  callbackSecret?: string;  // Only returned on creation - verifies callback signatures
+  error?: string;
+  errorCode?: string;
+}
+
+export type ImprovementDecision = 'accept' | 'reject';
+
+export interface ImprovementFeedback {
+  index: number;            // Index into the latest round's refinedSchema.improvements
+  decision: ImprovementDecision;
+  comment?: string;         // Why (passed to the provider for rejections)
+}
+
+export interface SessionRound {
+  round: number;            // 1-based
+  createdAt: string;
+  schemaCode: string;       // Schema code the round refined
+  response: RefinementResponse;
+  feedback?: Array<ImprovementFeedback & { field: string; after: string }>; // Decisions on this round's improvements
+}
+
+export interface RefinementSession {
+  id: string;
+  ownerId: string;          // API key id (kid), or "legacy"
+  createdAt: string;
+  updatedAt: string;
+  typeName: string;
+  sampleCount: number;
+  currentCode: string;      // Original schema code plus every accepted improvement
+  accepted: SchemaImprovement[];
+  rejected: Array<SchemaImprovement & { comment?: string }>;
+  history: SessionRound[];
+}
+
+export interface SessionFeedbackRequest {
+  feedback: ImprovementFeedback[];
+}
+
+export interface SessionResponse {
+  success: boolean;
+  session?: Omit<RefinementSession, 'ownerId'>;
   error?: string;
   errorCode?: string;
+  piiReport?: PiiReport;
 }
 
 export interface HealthCheckResponse {
@@ -0,0 +1,51 @@
+-- Migration: Durable storage for asynchronous refinement jobs
+-- Version: 1.3.0
+-- Used when JOB_STORE=supabase
+
+-- =====================================================
+-- 1. Refinement Jobs Table
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS refinement_jobs (
+  -- Job ID (returned by POST /api/v1/jobs/refine)
+  id TEXT PRIMARY KEY,
+
+  -- Status
+  status TEXT NOT NULL CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+  progress NUMERIC(4, 3) NOT NULL DEFAULT 0,
+  stage TEXT,
+
+  -- Owner (API key kid, or 'legacy')
+  owner_id TEXT NOT NULL,
+
+  -- Timestamps
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+
+  -- Final RefinementResponse (error body for failed jobs)
+  result JSONB,
+
+  -- Webhook callback (the signing secret is never stored)
+  callback_url TEXT,
+  callback JSONB
+);
+
+CREATE INDEX IF NOT EXISTS idx_refinement_jobs_owner ON refinement_jobs(owner_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_refinement_jobs_completed ON refinement_jobs(completed_at);
+
+-- =====================================================
+-- 2. Row Level Security (RLS)
+-- =====================================================
+
+ALTER TABLE refinement_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY service_role_all ON refinement_jobs
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- =====================================================
+-- Comments
+-- =====================================================
+
+COMMENT ON TABLE refinement_jobs IS 'Asynchronous refinement jobs (status, progress and final response)';
+COMMENT ON COLUMN refinement_jobs.result IS 'Final RefinementResponse returned by GET /api/v1/jobs/:id';
@@ -0,0 +1,36 @@
+-- Migration: Durable storage for customer refinement policies
+-- Version: 1.4.0
+-- Used when POLICY_STORE=supabase
+
+-- =====================================================
+-- 1. Refinement Policies Table
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS refinement_policies (
+  -- Customer (ApiKeyPayload.customerId, or 'legacy'); one policy per customer
+  customer_id TEXT PRIMARY KEY,
+
+  -- Built-in rule packs and custom rules (PolicyRule[])
+  packs JSONB NOT NULL DEFAULT '[]'::jsonb,
+  rules JSONB NOT NULL DEFAULT '[]'::jsonb,
+
+  -- Last change
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_by TEXT
+);
+
+-- =====================================================
+-- 2. Row Level Security (RLS)
+-- =====================================================
+
+ALTER TABLE refinement_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY service_role_all ON refinement_policies
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- =====================================================
+-- Comments
+-- =====================================================
+
+COMMENT ON TABLE refinement_policies IS 'Per-customer refinement policies (PUT /api/v1/policies)';
+COMMENT ON COLUMN refinement_policies.updated_by IS 'kid of the API key that saved the policy';
@@ -0,0 +1,55 @@
+-- Migration: Per-key monthly token quotas
+-- Version: 1.5.0
+-- Counts provider tokens (as reported by the provider) against ApiKeyPayload.quota.tokensPerMonth
+
+-- =====================================================
+-- 1. Token Count per Rate Limit Window
+-- =====================================================
+
+ALTER TABLE rate_limit_state ADD COLUMN IF NOT EXISTS token_count BIGINT DEFAULT 0;
+
+-- =====================================================
+-- 2. Helper Functions
+-- =====================================================
+
+-- Function to check the monthly token quota
+CREATE OR REPLACE FUNCTION check_token_quota(
+  p_kid TEXT,
+  p_limit BIGINT
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_tokens BIGINT;
+BEGIN
+  SELECT COALESCE(token_count, 0) INTO v_tokens
+  FROM rate_limit_state
+  WHERE kid = p_kid
+    AND window_type = 'month'
+    AND window_start = DATE_TRUNC('month', NOW());
+
+  -- No row yet: nothing used this month
+  RETURN (COALESCE(v_tokens, 0) < p_limit);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Function to add tokens to the monthly count
+CREATE OR REPLACE FUNCTION increment_token_usage(
+  p_kid TEXT,
+  p_tokens BIGINT
+)
+RETURNS VOID AS $$
+BEGIN
+  INSERT INTO rate_limit_state (kid, window_type, window_start, request_count, token_count, last_request_at)
+  VALUES (p_kid, 'month', DATE_TRUNC('month', NOW()), 0, p_tokens, NOW())
+  ON CONFLICT (kid, window_type, window_start)
+  DO UPDATE SET
+    token_count = rate_limit_state.token_count + p_tokens,
+    last_request_at = NOW();
+END;
+$$ LANGUAGE plpgsql;
+
+-- =====================================================
+-- 3. Comments
+-- =====================================================
+
+COMMENT ON COLUMN rate_limit_state.token_count IS 'Provider tokens (input + output) used in the window (month windows only)';
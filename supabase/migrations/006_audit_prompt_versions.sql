@@ -0,0 +1,21 @@
+-- Migration: Prompt template version per audit log entry
+-- Version: 1.6.0
+-- Records which prompt version (and experiment arm) answered each refinement
+
+-- =====================================================
+-- 1. Prompt Columns
+-- =====================================================
+
+ALTER TABLE audit_log ADD COLUMN IF NOT EXISTS prompt_name TEXT;
+ALTER TABLE audit_log ADD COLUMN IF NOT EXISTS prompt_version INTEGER;
+ALTER TABLE audit_log ADD COLUMN IF NOT EXISTS prompt_variant TEXT CHECK (prompt_variant IN ('control', 'candidate'));
+
+CREATE INDEX IF NOT EXISTS idx_audit_prompt ON audit_log(prompt_name, prompt_version);
+
+-- =====================================================
+-- 2. Comments
+-- =====================================================
+
+COMMENT ON COLUMN audit_log.prompt_name IS 'Prompt template the provider answered (refine, explain)';
+COMMENT ON COLUMN audit_log.prompt_version IS 'Version of the prompt template';
+COMMENT ON COLUMN audit_log.prompt_variant IS 'Experiment arm (control or candidate); NULL when no experiment was running';
@@ -0,0 +1,70 @@
+-- Migration: Atomic per-key rate limit check and increment
+-- Version: 1.7.0
+-- Used for batch items, so concurrent items of one key cannot pass the limits together
+
+-- =====================================================
+-- 1. Helper Functions
+-- =====================================================
+
+-- Function to check the minute and day limits and count the request in one transaction.
+-- Returns NULL when the request is counted, or the window ('minute', 'day') whose limit is reached.
+CREATE OR REPLACE FUNCTION consume_rate_limit(
+  p_kid TEXT,
+  p_minute_limit INTEGER,
+  p_day_limit INTEGER
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_minute_start TIMESTAMPTZ := DATE_TRUNC('minute', NOW());
+  v_day_start TIMESTAMPTZ := DATE_TRUNC('day', NOW());
+  v_month_start TIMESTAMPTZ := DATE_TRUNC('month', NOW());
+  v_minute_count INTEGER;
+  v_day_count INTEGER;
+BEGIN
+  -- Make sure the window rows exist, then lock them (concurrent calls for the key wait here)
+  INSERT INTO rate_limit_state (kid, window_type, window_start, request_count, last_request_at)
+  VALUES
+    (p_kid, 'minute', v_minute_start, 0, NOW()),
+    (p_kid, 'day', v_day_start, 0, NOW()),
+    (p_kid, 'month', v_month_start, 0, NOW())
+  ON CONFLICT (kid, window_type, window_start) DO NOTHING;
+
+  PERFORM 1
+  FROM rate_limit_state
+  WHERE kid = p_kid
+    AND (window_type, window_start) IN (('minute', v_minute_start), ('day', v_day_start), ('month', v_month_start))
+  ORDER BY window_type
+  FOR UPDATE;
+
+  SELECT request_count INTO v_minute_count
+  FROM rate_limit_state
+  WHERE kid = p_kid AND window_type = 'minute' AND window_start = v_minute_start;
+
+  IF v_minute_count >= p_minute_limit THEN
+    RETURN 'minute';
+  END IF;
+
+  SELECT request_count INTO v_day_count
+  FROM rate_limit_state
+  WHERE kid = p_kid AND window_type = 'day' AND window_start = v_day_start;
+
+  IF v_day_count >= p_day_limit THEN
+    RETURN 'day';
+  END IF;
+
+  UPDATE rate_limit_state
+  SET request_count = request_count + 1,
+      last_request_at = NOW()
+  WHERE kid = p_kid
+    AND (window_type, window_start) IN (('minute', v_minute_start), ('day', v_day_start), ('month', v_month_start));
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =====================================================
+-- 2. Comments
+-- =====================================================
+
+COMMENT ON FUNCTION consume_rate_limit(TEXT, INTEGER, INTEGER) IS
+  'Checks the minute/day request limits of a key and counts the request atomically (NULL = counted)';